@@ -12,6 +12,9 @@ import { BulkTagModal } from './components/BulkTagModal';
 import { DashboardView } from './components/DashboardView';
 import { Layout, Tab } from './components/Layout';
 import { FinanceProvider, useFinance } from './context/FinanceContext';
+import { AppLock } from './components/AppLock';
+import { SafetyUndoBanner } from './components/SafetyUndoBanner';
+import { UndoToast } from './components/UndoToast';
 
 /**
  * Główny kontroler aplikacji (Controller).
@@ -26,11 +29,11 @@ import { FinanceProvider, useFinance } from './context/FinanceContext';
 const AppContent: React.FC = () => {
   // Global State from Context
   const { 
-    transactions, categories, isPrivateMode, setIsPrivateMode, allTags, theme, toggleTheme,
+    transactions, convertedTransactions, categories, accounts, rules, suggestCategories, importProfiles, saveImportProfile, deleteImportProfile, isPrivateMode, setIsPrivateMode, allTags, theme, toggleTheme,
     updateTransaction, deleteTransaction, clearTransactions,
     updateCategories, deleteCategory, deleteSubcategory,
     renameTag, deleteTag, addTag,
-    importData, restoreBackup, loadDemoData,
+    importData, restoreBackup, planMerge, mergeBackup, loadDemoData,
     bulkUpdateCategory, bulkUpdateTags, splitTransaction
   } = useFinance();
 
@@ -86,19 +89,20 @@ const AppContent: React.FC = () => {
         )}
 
         {activeTab === 'analysis' && (
-          <AnalysisView transactions={transactions} categories={categories} isPrivateMode={isPrivateMode} />
+          <AnalysisView transactions={convertedTransactions} categories={categories} isPrivateMode={isPrivateMode} />
         )}
 
         {activeTab === 'history' && (
           <HistoryView 
              transactions={transactions} 
              categories={categories} 
+             accounts={accounts}
              onEdit={setEditingTransaction} 
              onDelete={deleteTransaction}
              onClearAll={() => setConfirmModal({
                 isOpen: true,
                 title: 'Wyczyść całą historię',
-                message: 'Czy na pewno chcesz usunąć wszystkie transakcje? Tej operacji nie można cofnąć.',
+                message: 'Czy na pewno chcesz usunąć wszystkie transakcje? Przed usunięciem zostanie zapisana kopia - operację można cofnąć do końca sesji.',
                 action: clearTransactions
              })}
              onOpenBulkAction={() => setIsBulkModalOpen(true)}
@@ -124,14 +128,26 @@ const AppContent: React.FC = () => {
         )}
       </Layout>
 
+      <SafetyUndoBanner />
+      <UndoToast />
+
       {/* Global Modals */}
       <ImportModal 
         isOpen={isImportModalOpen} 
         onClose={() => setIsImportModalOpen(false)} 
         onImport={importData}
         onRestore={restoreBackup}
+        onPlanMerge={planMerge}
+        onMerge={mergeBackup}
         hasExistingTransactions={transactions.length > 0}
+        transactions={transactions}
         categories={categories}
+        accounts={accounts}
+        rules={rules}
+        suggestCategories={suggestCategories}
+        importProfiles={importProfiles}
+        onSaveProfile={saveImportProfile}
+        onDeleteProfile={deleteImportProfile}
       />
 
       <EditTransactionModal 
@@ -141,6 +157,7 @@ const AppContent: React.FC = () => {
         onSave={updateTransaction}
         onDelete={deleteTransaction}
         categories={categories}
+        accounts={accounts}
         allTags={allTags}
       />
 
@@ -174,9 +191,11 @@ const AppContent: React.FC = () => {
 
 const App: React.FC = () => {
   return (
-    <FinanceProvider>
-      <AppContent />
-    </FinanceProvider>
+    <AppLock>
+      <FinanceProvider>
+        <AppContent />
+      </FinanceProvider>
+    </AppLock>
   );
 };
 
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Landmark, PiggyBank, CreditCard, Banknote } from 'lucide-react';
+import { AccountType } from '../types';
+
+interface AccountIconProps {
+  type: AccountType;
+  size?: number;
+  className?: string;
+}
+
+export const AccountIcon: React.FC<AccountIconProps> = ({ type, size = 24, className }) => {
+  const props = { size, strokeWidth: 1.5, className };
+  switch (type) {
+    case 'SAVINGS': return <PiggyBank {...props} />;
+    case 'CREDIT_CARD': return <CreditCard {...props} />;
+    case 'CASH': return <Banknote {...props} />;
+    default: return <Landmark {...props} />;
+  }
+};
@@ -1,8 +1,7 @@
 
-import React, { useState, useContext } from 'react';
-import { Filter, Calendar, Layers, ChevronDown, BarChart2, TrendingUp, SlidersVertical, Grip, LayoutList, LayoutGrid, Hash, Eye, EyeOff, BarChart, GitMerge } from 'lucide-react';
+import React, { useState, useContext, useMemo } from 'react';
+import { Filter, Calendar, Layers, ChevronDown, BarChart2, TrendingUp, SlidersVertical, Grip, LayoutList, LayoutGrid, Hash, Eye, EyeOff, BarChart, GitMerge, Wallet, FileSpreadsheet, Printer } from 'lucide-react';
 import { Transaction, CategoryItem } from '../types';
-import { CURRENCY_FORMATTER } from '../constants';
 import { SankeyDiagram } from './SankeyDiagram';
 import { CategoryTrendAnalysis } from './CategoryTrendAnalysis';
 import { CalendarHeatmap } from './CalendarHeatmap';
@@ -11,8 +10,15 @@ import { ComboChart, DifferenceChart, WaterfallChart } from './D3Charts';
 import { SpendingVelocity } from './SpendingVelocity';
 import { DayOfWeekStats } from './DayOfWeekStats';
 import { TopTags } from './TopTags';
+import { PrintableReport } from './PrintableReport';
+import { MissingRatesNotice } from './MissingRatesNotice';
 import { useAnalysisData, PeriodType } from '../hooks/useAnalysisData';
 import { useFinance } from '../context/FinanceContext';
+import { isTransfer } from '../utils/transferHelpers';
+import { buildXlsx } from '../utils/xlsx';
+import { getCategoryMonthTable, getFinancialHealthTable } from '../utils/tableExport';
+import { downloadBlob, getExportDateStamp } from '../utils/fileDownload';
+import { formatPeriodLabel } from '../utils/reportData';
 
 interface AnalysisViewProps {
   transactions: Transaction[];
@@ -30,13 +36,17 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ transactions, catego
     periodType, setPeriodType,
     periodValue, setPeriodValue,
     selectedTag, setSelectedTag,
+    selectedAccountId, setSelectedAccountId,
     historyAggregation, setHistoryAggregation,
     yearAggregation, setYearAggregation,
     availableYears, availableTags,
     filteredTransactions, financialHealthData, waterfallData, stats
   } = useAnalysisData(transactions, categories);
 
-  const { theme } = useFinance();
+  // Wykresy liczone na pełnej historii - bez przelewów własnych
+  const nonTransferTransactions = useMemo(() => transactions.filter(t => !isTransfer(t)), [transactions]);
+
+  const { theme, accounts, formatCurrency } = useFinance();
   const isDarkMode = theme === 'dark';
 
   // Local UI State
@@ -44,24 +54,32 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ transactions, catego
   const [flowViewMode, setFlowViewMode] = useState<FlowViewMode>('SANKEY');
   const [showSurplus, setShowSurplus] = useState(true);
   const [showSavingsRate, setShowSavingsRate] = useState(true);
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   // UI Helpers
   const isTagSelected = selectedTag !== 'ALL';
   const effectiveShowSurplus = showSurplus && !isTagSelected;
   const effectiveShowSavingsRate = showSavingsRate && !isTagSelected;
 
-  const getPeriodLabel = () => {
-     if (periodType === 'ALL') return 'Cała historia';
-     if (periodType === 'YEAR') return `${selectedYear}`;
-     if (periodType === 'QUARTER') return `Q${periodValue} ${selectedYear}`;
-     if (periodType === 'MONTH') return `${new Date(selectedYear, periodValue, 1).toLocaleDateString('pl-PL', { month: 'long', year: 'numeric' })}`;
-     return '';
+  const getPeriodLabel = () => formatPeriodLabel(periodType, selectedYear, periodValue);
+
+  /**
+   * Eksport tabel analizy dla bieżących filtrów (okres, konto, tag).
+   */
+  const handleExportXlsx = () => {
+    const blob = buildXlsx([
+      { name: 'Kategorie miesięcznie', ...getCategoryMonthTable(filteredTransactions, categories) },
+      { name: 'Zdrowie finansowe', ...getFinancialHealthTable(financialHealthData) }
+    ]);
+    downloadBlob(blob, `bTrackr_Analiza_${getPeriodLabel().replace(/\s+/g, '_')}_${getExportDateStamp()}.xlsx`);
   };
 
   if (transactions.length === 0) return <div className="p-8 text-center text-slate-400 dark:text-slate-500 border dark:border-slate-700 rounded-2xl">Brak danych.</div>;
 
   return (
     <div className="space-y-6 animate-fade-in">
+      <MissingRatesNotice />
+
       <div className="sticky top-20 z-20 flex justify-center">
          <div className="inline-flex items-center p-1.5 bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl border border-slate-200/60 dark:border-slate-600/60 shadow-[0_8px_30px_rgb(0,0,0,0.04)] rounded-full gap-2 flex-wrap justify-center">
             
@@ -96,6 +114,21 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ transactions, catego
                </div>
             )}
 
+            {/* Account Filter */}
+            {accounts.length > 1 && (
+               <div className="relative group ml-1 border-l border-slate-200 dark:border-slate-600 pl-2">
+                  <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full transition-colors cursor-pointer font-medium text-sm ${selectedAccountId !== 'ALL' ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200'}`}>
+                     <Wallet size={14} className={selectedAccountId !== 'ALL' ? 'text-indigo-400' : 'text-slate-400'} />
+                     <span>{selectedAccountId === 'ALL' ? 'Konto' : accounts.find(a => a.id === selectedAccountId)?.name}</span>
+                     <ChevronDown size={12} className="text-slate-300" />
+                  </div>
+                  <select value={selectedAccountId} onChange={(e) => setSelectedAccountId(e.target.value)} className="absolute inset-0 opacity-0 cursor-pointer dark:bg-slate-800">
+                     <option value="ALL">Wszystkie konta</option>
+                     {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+               </div>
+            )}
+
             {/* Tag Filter */}
             {availableTags.length > 0 && (
                <div className="relative group ml-1 border-l border-slate-200 dark:border-slate-600 pl-2">
@@ -110,13 +143,21 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ transactions, catego
                   </select>
                </div>
             )}
+
+            <button onClick={handleExportXlsx} disabled={filteredTransactions.length === 0} className="flex items-center gap-2 px-3 py-1.5 ml-1 rounded-full text-sm font-medium text-emerald-700 dark:text-emerald-300 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed" title="Eksportuj tabele analizy do XLSX">
+               <FileSpreadsheet size={14} /> <span className="hidden sm:inline">XLSX</span>
+            </button>
+
+            <button onClick={() => setIsReportOpen(true)} className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors" title="Raport do druku lub zapisu jako PDF">
+               <Printer size={14} /> <span className="hidden sm:inline">Raport</span>
+            </button>
          </div>
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Przychody</p><p className={`text-lg font-bold text-green-600 dark:text-green-400 mt-1`}>{isPrivateMode ? '***' : CURRENCY_FORMATTER.format(stats.totalIncome)}</p></div>
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Wydatki</p><p className={`text-lg font-bold text-red-500 dark:text-red-400 mt-1`}>{isPrivateMode ? '***' : CURRENCY_FORMATTER.format(stats.totalExpenses)}</p></div>
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Nadwyżka</p><p className={`text-lg font-bold text-indigo-600 dark:text-indigo-400 mt-1`}>{isPrivateMode ? '***' : CURRENCY_FORMATTER.format(stats.balance)}</p></div>
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Przychody</p><p className={`text-lg font-bold text-green-600 dark:text-green-400 mt-1`}>{isPrivateMode ? '***' : formatCurrency(stats.totalIncome)}</p></div>
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Wydatki</p><p className={`text-lg font-bold text-red-500 dark:text-red-400 mt-1`}>{isPrivateMode ? '***' : formatCurrency(stats.totalExpenses)}</p></div>
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Nadwyżka</p><p className={`text-lg font-bold text-indigo-600 dark:text-indigo-400 mt-1`}>{isPrivateMode ? '***' : formatCurrency(stats.balance)}</p></div>
         <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm"><p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase">Stopa oszcz.</p><p className="text-lg font-bold text-emerald-600 dark:text-emerald-400 mt-1">{stats.savingsRate.toFixed(1)}%</p></div>
       </div>
 
@@ -207,7 +248,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ transactions, catego
         </div>
       </div>
 
-      <SpendingVelocity transactions={transactions} categories={categories} currentYear={selectedYear} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
+      <SpendingVelocity transactions={nonTransferTransactions} categories={categories} currentYear={selectedYear} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <DayOfWeekStats transactions={filteredTransactions} categories={categories} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
@@ -216,10 +257,24 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ transactions, catego
 
       <div className="grid grid-cols-1 gap-6">
          <CategoryTrendAnalysis transactions={filteredTransactions} categories={categories} filterYear={selectedYear} periodType={periodType} periodValue={periodValue} historyAggregation={historyAggregation} yearAggregation={yearAggregation} onToggleAggregation={setHistoryAggregation} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
-         <YoYComparison transactions={transactions} categories={categories} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
+         <YoYComparison transactions={nonTransferTransactions} categories={categories} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
       </div>
 
       <CalendarHeatmap transactions={filteredTransactions} categories={categories} year={selectedYear} periodType={periodType} isPrivateMode={isPrivateMode} isDarkMode={isDarkMode} />
+
+      <PrintableReport
+        isOpen={isReportOpen}
+        onClose={() => setIsReportOpen(false)}
+        transactions={transactions}
+        categories={categories}
+        availableYears={availableYears}
+        periodType={periodType}
+        selectedYear={selectedYear}
+        periodValue={periodValue}
+        selectedAccountId={selectedAccountId}
+        selectedTag={selectedTag}
+        isPrivateMode={isPrivateMode}
+      />
     </div>
   );
 };
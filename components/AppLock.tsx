@@ -0,0 +1,125 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { Lock, Trash2 } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, snapshotDb } from '../db';
+import { useDatabaseEncryption } from '../hooks/useDatabaseEncryption';
+import { Button } from './Button';
+import { ConfirmModal } from './ConfirmModal';
+import { Logo } from './Logo';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+const AUTO_LOCK_CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Bramka przed `FinanceProvider`: przy włączonym szyfrowaniu bazy dane są wczytywane dopiero po podaniu hasła.
+ * Po bezczynności dłuższej niż `autoLockMinutes` klucz jest usuwany z pamięci, a aplikacja odmontowana.
+ */
+export const AppLock: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { config, isLocked, unlock, lock } = useDatabaseEncryption();
+  const autoLockMinutes = config && !isLocked ? config.autoLockMinutes : 0;
+
+  // --- Auto-Lock ---
+  useEffect(() => {
+    if (!autoLockMinutes) return;
+    let lastActivity = Date.now();
+    const markActivity = () => { lastActivity = Date.now(); };
+    const checkIdle = () => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60000) lock();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActivity, { passive: true }));
+    // Timery w tle są spowalniane - sprawdzamy też przy powrocie do karty
+    document.addEventListener('visibilitychange', checkIdle);
+    const interval = window.setInterval(checkIdle, AUTO_LOCK_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActivity));
+      document.removeEventListener('visibilitychange', checkIdle);
+      window.clearInterval(interval);
+    };
+  }, [autoLockMinutes, lock]);
+
+  // Konfiguracja jeszcze się wczytuje - nie montujemy aplikacji, aby nie odczytała zablokowanych danych
+  if (config === undefined) return null;
+  if (isLocked) return <LockScreen onUnlock={unlock} />;
+  return <>{children}</>;
+};
+
+const LockScreen: React.FC<{ onUnlock: (passphrase: string) => Promise<void> }> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const theme = useLiveQuery(() => db.settings.get('theme').then(row => row?.value));
+
+  // Motyw z ustawień (jawnych) - `FinanceProvider` jeszcze nie działa
+  useEffect(() => {
+    if (theme === undefined) return;
+    document.documentElement.classList.toggle('dark', theme === 'dark');
+  }, [theme]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się odblokować bazy.');
+      setIsUnlocking(false);
+    }
+  };
+
+  // Bez hasła danych nie da się odczytać - jedyne wyjście to usunięcie bazy (i przywrócenie kopii zapasowej).
+  // Automatyczne kopie są zaszyfrowane tym samym kluczem, więc też są bezużyteczne.
+  const handleReset = async () => {
+    await db.delete();
+    await snapshotDb.delete();
+    window.location.reload();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-slate-50 dark:bg-slate-900 transition-colors">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-700 p-8 space-y-6 text-center">
+        <div className="h-8 text-slate-900 dark:text-white flex justify-center">
+          <Logo />
+        </div>
+        <div className="w-14 h-14 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full flex items-center justify-center mx-auto">
+          <Lock size={28} />
+        </div>
+        <div>
+          <h1 className="text-lg font-bold text-slate-900 dark:text-white">Baza zablokowana</h1>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Podaj hasło, aby odszyfrować dane.</p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Hasło lub PIN"
+          autoComplete="current-password"
+          autoFocus
+          className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm text-center focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+        />
+        {error && <p className="text-xs text-red-500 dark:text-red-400">{error}</p>}
+
+        <Button type="submit" disabled={!passphrase} isLoading={isUnlocking} className="w-full">
+          Odblokuj
+        </Button>
+
+        <button type="button" onClick={() => setShowResetConfirm(true)} className="text-xs text-slate-400 hover:text-red-500 dark:hover:text-red-400 inline-flex items-center gap-1 transition-colors">
+          <Trash2 size={12} /> Nie pamiętam hasła
+        </button>
+      </form>
+
+      <ConfirmModal
+        isOpen={showResetConfirm}
+        onClose={() => setShowResetConfirm(false)}
+        onConfirm={handleReset}
+        title="Usunąć zaszyfrowane dane?"
+        message="Hasła nie da się odzyskać. Możesz usunąć całą bazę i zacząć od nowa lub przywrócić kopię zapasową. Tej operacji nie można cofnąć."
+        confirmLabel="Usuń dane"
+      />
+    </div>
+  );
+};
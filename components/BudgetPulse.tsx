@@ -1,7 +1,7 @@
 
 import React, { useMemo } from 'react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
-import { CURRENCY_FORMATTER } from '../constants';
+import { useFinance } from '../context/FinanceContext';
 
 interface BudgetPulseProps {
   transactions: Transaction[];
@@ -10,6 +10,7 @@ interface BudgetPulseProps {
 }
 
 export const BudgetPulse: React.FC<BudgetPulseProps> = ({ transactions, categories, isPrivateMode }) => {
+  const { formatCurrency } = useFinance();
   const data = useMemo(() => {
     const now = new Date();
     
@@ -87,9 +88,9 @@ export const BudgetPulse: React.FC<BudgetPulseProps> = ({ transactions, categori
                         </div>
                         <div className={`flex gap-1`}>
                            <span className={item.percent > 100 ? 'text-red-600 dark:text-red-400 font-bold' : ''}>
-                              {isPrivateMode ? '***' : CURRENCY_FORMATTER.format(item.current)}
+                              {isPrivateMode ? '***' : formatCurrency(item.current)}
                            </span>
-                           <span className="text-slate-400 dark:text-slate-500">/ {isPrivateMode ? '***' : CURRENCY_FORMATTER.format(item.limit)}</span>
+                           <span className="text-slate-400 dark:text-slate-500">/ {isPrivateMode ? '***' : formatCurrency(item.limit)}</span>
                         </div>
                     </div>
                     
@@ -105,8 +106,8 @@ export const BudgetPulse: React.FC<BudgetPulseProps> = ({ transactions, categori
                           {isPrivateMode 
                               ? (item.remaining >= 0 ? 'Pozostało: ***' : 'Przekroczono o: ***')
                               : (item.remaining >= 0 
-                                 ? `Pozostało: ${CURRENCY_FORMATTER.format(item.remaining)}` 
-                                 : `Przekroczono o: ${CURRENCY_FORMATTER.format(Math.abs(item.remaining))}`
+                                 ? `Pozostało: ${formatCurrency(item.remaining)}` 
+                                 : `Przekroczono o: ${formatCurrency(Math.abs(item.remaining))}`
                               )
                           }
                        </span>
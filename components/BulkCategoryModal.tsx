@@ -3,7 +3,7 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { X, Search, Check, Layers, AlertCircle } from 'lucide-react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
 import { Button } from './Button';
-import { getCategoryColor, getCategoryName, CURRENCY_FORMATTER } from '../constants';
+import { getCategoryColor, getCategoryName, getCurrencyFormatter } from '../constants';
 
 interface BulkCategoryModalProps {
   isOpen: boolean;
@@ -211,7 +211,7 @@ export const BulkCategoryModal: React.FC<BulkCategoryModalProps> = ({
                         </span>
                       </td>
                       <td className="px-4 py-3 text-right text-slate-600 dark:text-slate-300">
-                        {CURRENCY_FORMATTER.format(t.amount)}
+                        {getCurrencyFormatter(t.currency).format(t.amount)}
                       </td>
                     </tr>
                   );
@@ -4,7 +4,7 @@ import { X, Search, Check, Hash, Tag } from 'lucide-react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
 import { Button } from './Button';
 import { TagInput } from './TagInput';
-import { CURRENCY_FORMATTER, getCategoryColor, getCategoryName } from '../constants';
+import { getCurrencyFormatter, getCategoryColor, getCategoryName } from '../constants';
 
 interface BulkTagModalProps {
   isOpen: boolean;
@@ -189,7 +189,7 @@ export const BulkTagModal: React.FC<BulkTagModalProps> = ({
                         </div>
                       </td>
                       <td className="px-4 py-3 text-right text-slate-600 dark:text-slate-300">
-                        {CURRENCY_FORMATTER.format(t.amount)}
+                        {getCurrencyFormatter(t.currency).format(t.amount)}
                       </td>
                     </tr>
                   );
@@ -3,7 +3,7 @@ import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as d3 from 'd3';
 import { Layers, Combine, ChevronDown, ChevronUp } from 'lucide-react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
-import { CURRENCY_FORMATTER } from '../constants';
+import { useFinance } from '../context/FinanceContext';
 import { PeriodType } from '../hooks/useAnalysisData';
 
 // Helper to ensure consistent YYYY-MM-DD format using Local Time
@@ -26,6 +26,7 @@ interface YearlyHeatmapProps {
 }
 
 const YearlyHeatmap: React.FC<YearlyHeatmapProps> = ({ year, data, width, customTitle, isPrivateMode, isDarkMode }) => {
+  const { formatCurrency } = useFinance();
   const containerRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
 
@@ -133,7 +134,7 @@ const YearlyHeatmap: React.FC<YearlyHeatmapProps> = ({ year, data, width, custom
 
         const valDisplay = isPrivateMode 
           ? '***' 
-          : CURRENCY_FORMATTER.format(val);
+          : formatCurrency(val);
 
         tooltip.style("opacity", 1)
                .style("display", "block")
@@ -191,7 +192,7 @@ const YearlyHeatmap: React.FC<YearlyHeatmapProps> = ({ year, data, width, custom
       .attr("font-size", `${Math.max(8, cellSize - 2)}px`)
       .attr("fill", isDarkMode ? "#64748b" : "#94a3b8");
 
-  }, [data, width, year, isPrivateMode, isDarkMode]);
+  }, [data, width, year, isPrivateMode, isDarkMode, formatCurrency]);
 
   return (
      <div className="mb-8">
@@ -0,0 +1,113 @@
+import React, { useState, useMemo } from 'react';
+import { X, Download } from 'lucide-react';
+import { Transaction, CategoryItem, Account, DateFormat } from '../types';
+import { Button } from './Button';
+import { getTransactionsTable } from '../utils/tableExport';
+import { CsvExportOptions, DEFAULT_CSV_EXPORT_OPTIONS, buildCsv } from '../utils/csvExport';
+import { downloadBlob, getExportDateStamp } from '../utils/fileDownload';
+
+interface CsvExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactions: Transaction[]; // Już przefiltrowane i posortowane
+  categories: CategoryItem[];
+  accounts: Account[];
+}
+
+const DELIMITERS: { value: CsvExportOptions['delimiter'], label: string }[] = [
+  { value: ';', label: 'Średnik ;' },
+  { value: ',', label: 'Przecinek ,' },
+  { value: '\t', label: 'Tabulator' }
+];
+const DECIMAL_SEPARATORS: CsvExportOptions['decimalSeparator'][] = [',', '.'];
+const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'DD-MM-YYYY', 'MM-DD-YYYY'];
+
+/** Ile wierszy pokazujemy w podglądzie pliku. */
+const PREVIEW_ROWS = 3;
+
+/**
+ * Eksport widocznej historii do CSV z wyborem separatorów i formatu daty.
+ * Plik ma nagłówek rozpoznawany przez kreator importu (profil "bTrackr").
+ */
+export const CsvExportModal: React.FC<CsvExportModalProps> = ({ isOpen, onClose, transactions, categories, accounts }) => {
+  const [options, setOptions] = useState<CsvExportOptions>(DEFAULT_CSV_EXPORT_OPTIONS);
+
+  const table = useMemo(
+    () => isOpen ? getTransactionsTable(transactions, categories, accounts) : null,
+    [isOpen, transactions, categories, accounts]
+  );
+
+  const preview = useMemo(() => {
+    if (!table) return '';
+    return buildCsv({ ...table, rows: table.rows.slice(0, PREVIEW_ROWS) }, options).replace(/^\ufeff/, '').replace(/\t/g, '→');
+  }, [table, options]);
+
+  if (!isOpen || !table) return null;
+
+  const handleExport = () => {
+    const blob = new Blob([buildCsv(table, options)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `bTrackr_Historia_${getExportDateStamp()}.csv`);
+    onClose();
+  };
+
+  const optionButton = (isActive: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-md transition-all ${isActive ? 'bg-white dark:bg-slate-600 shadow-sm text-indigo-600 dark:text-indigo-300' : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden transition-colors">
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">Eksport do CSV</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Wyeksportowanych zostanie <strong className="text-slate-700 dark:text-slate-200">{transactions.length}</strong> transakcji widocznych w historii (z bieżącymi filtrami i sortowaniem).
+          </p>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Separator pól</span>
+              <div className="flex bg-slate-50 dark:bg-slate-700 p-1 rounded-lg">
+                {DELIMITERS.map(d => (
+                  <button key={d.label} onClick={() => setOptions({ ...options, delimiter: d.value })} className={optionButton(options.delimiter === d.value)}>{d.label}</button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Separator dziesiętny</span>
+              <div className="flex bg-slate-50 dark:bg-slate-700 p-1 rounded-lg">
+                {DECIMAL_SEPARATORS.map(sep => (
+                  <button key={sep} onClick={() => setOptions({ ...options, decimalSeparator: sep })} className={optionButton(options.decimalSeparator === sep)}>1234{sep}56</button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Format daty</span>
+              <div className="flex bg-slate-50 dark:bg-slate-700 p-1 rounded-lg">
+                {DATE_FORMATS.map(fmt => (
+                  <button key={fmt} onClick={() => setOptions({ ...options, dateFormat: fmt })} className={optionButton(options.dateFormat === fmt)}>{fmt}</button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-2">Podgląd</h4>
+            <pre className="text-[11px] font-mono bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg p-3 overflow-x-auto text-slate-600 dark:text-slate-300 whitespace-pre">{preview}</pre>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Anuluj</Button>
+          <Button onClick={handleExport} disabled={transactions.length === 0}>
+            <Download size={16} /> Pobierz CSV
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
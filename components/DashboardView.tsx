@@ -6,8 +6,12 @@ import { BudgetPulse } from './BudgetPulse';
 import { TransactionForm } from './TransactionForm';
 import { TransactionList } from './TransactionList';
 import { UpcomingEvents } from './UpcomingEvents'; // Import
-import { CURRENCY_FORMATTER } from '../constants';
+import { AccountIcon } from './AccountIcon';
+import { MissingRatesNotice } from './MissingRatesNotice';
+import { ACCOUNT_TYPE_LABELS, getCurrencyFormatter } from '../constants';
 import { useFinance } from '../context/FinanceContext';
+import { isTransfer } from '../utils/transferHelpers';
+import { getCurrency } from '../utils/currencyHelpers';
 
 interface DashboardViewProps {
   onSetActiveTab: (tab: any) => void;
@@ -17,9 +21,14 @@ interface DashboardViewProps {
 export const DashboardView: React.FC<DashboardViewProps> = ({ onSetActiveTab, onLoadDemoRequest }) => {
   const { 
     transactions, 
+    convertedTransactions,
     categories, 
+    accounts,
     summary, 
     operationalBalance, 
+    accountBalances,
+    accountMissingRates,
+    formatCurrency,
     allTags, 
     isPrivateMode, 
     addTransaction, 
@@ -28,11 +37,13 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ onSetActiveTab, on
 
   return (
     <div className="space-y-6 animate-fade-in">
+      <MissingRatesNotice />
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard 
           label="Dostępne środki" 
-          value={CURRENCY_FORMATTER.format(operationalBalance)} 
+          value={formatCurrency(operationalBalance)} 
           icon={<Wallet size={24} strokeWidth={1.5} />}
           colorClass="text-slate-900"
           bgClass="bg-slate-100 dark:bg-slate-700/40"
@@ -40,7 +51,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ onSetActiveTab, on
         />
         <StatCard 
           label="Przychody" 
-          value={CURRENCY_FORMATTER.format(summary.totalIncome)} 
+          value={formatCurrency(summary.totalIncome)} 
           icon={<ArrowUpCircle size={24} strokeWidth={1.5} />}
           colorClass="text-green-600"
           bgClass="bg-green-50 dark:bg-green-500/10"
@@ -48,7 +59,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ onSetActiveTab, on
         />
         <StatCard 
           label="Wydatki" 
-          value={CURRENCY_FORMATTER.format(summary.totalExpense)} 
+          value={formatCurrency(summary.totalExpense)} 
           icon={<ArrowDownCircle size={24} strokeWidth={1.5} />}
           colorClass="text-red-600"
           bgClass="bg-red-50 dark:bg-red-500/10"
@@ -56,7 +67,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ onSetActiveTab, on
         />
         <StatCard 
           label="Oszczędności" 
-          value={CURRENCY_FORMATTER.format(summary.savingsAmount)} 
+          value={formatCurrency(summary.savingsAmount)} 
           icon={<PiggyBank size={24} strokeWidth={1.5} />}
           colorClass="text-emerald-600"
           bgClass="bg-emerald-50 dark:bg-emerald-500/10"
@@ -64,19 +75,40 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ onSetActiveTab, on
         />
       </div>
 
+      {/* Account Balances (only when the user tracks more than one account) */}
+      {accounts.length > 1 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {accounts.map(account => (
+            <StatCard 
+              key={account.id}
+              label={account.name} 
+              value={getCurrencyFormatter(getCurrency(account)).format(accountBalances[account.id] || 0)} 
+              subValue={accountMissingRates[account.id]
+                ? `${ACCOUNT_TYPE_LABELS[account.type]} · brak kursu: ${accountMissingRates[account.id].join(', ')}`
+                : ACCOUNT_TYPE_LABELS[account.type]}
+              icon={<AccountIcon type={account.type} />}
+              colorClass={(accountBalances[account.id] || 0) < 0 ? 'text-red-600' : 'text-slate-900'}
+              bgClass="bg-slate-50 dark:bg-slate-700/30"
+              isPrivateMode={isPrivateMode}
+            />
+          ))}
+        </div>
+      )}
+
       {/* NEW: Upcoming Events Widget */}
       <UpcomingEvents />
 
       {/* Main Content Stack */}
       
       {/* 1. Limits/Pulse - Full Width */}
-      <BudgetPulse transactions={transactions} categories={categories} isPrivateMode={isPrivateMode} />
+      <BudgetPulse transactions={convertedTransactions.filter(t => !isTransfer(t))} categories={categories} isPrivateMode={isPrivateMode} />
 
       {/* 2. New Transaction & Recent Transactions - Side by Side */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <TransactionForm 
           onAdd={addTransaction} 
           categories={categories}
+          accounts={accounts}
           allTags={allTags}
           onLoadDemo={onLoadDemoRequest}
         />
@@ -1,9 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Save, Trash2 } from 'lucide-react';
-import { Transaction, TransactionType, CategoryItem } from '../types';
+import { X, Save, Trash2, Lock } from 'lucide-react';
+import { Transaction, TransactionType, CategoryItem, Account } from '../types';
 import { Button } from './Button';
 import { TagInput } from './TagInput';
+import { TransactionHistoryPanel } from './TransactionHistoryPanel';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../constants';
+import { useFinance } from '../context/FinanceContext';
+import { getTransferInput } from '../utils/transferHelpers';
 
 interface EditTransactionModalProps {
   transaction: Transaction | null;
@@ -12,6 +16,7 @@ interface EditTransactionModalProps {
   onSave: (updatedTransaction: Transaction) => void;
   onDelete: (id: string) => void;
   categories: CategoryItem[];
+  accounts: Account[];
   allTags?: string[];
 }
 
@@ -22,8 +27,10 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   onSave,
   onDelete,
   categories,
+  accounts,
   allTags = []
 }) => {
+  const { transactions, updateTransfer } = useFinance();
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState('');
@@ -31,6 +38,15 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   const [categoryId, setCategoryId] = useState<string>('');
   const [subcategoryId, setSubcategoryId] = useState<string>('');
   const [tags, setTags] = useState<string[]>([]);
+  const [accountId, setAccountId] = useState<string>('');
+  const [toAccountId, setToAccountId] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+
+  // Przelew własny edytujemy jako całość (obie nogi naraz)
+  const transferId = transaction?.transferId;
+  // Uzgodniona z wyciągiem: pola wpływające na saldo są zablokowane do czasu odblokowania
+  const isLocked = !!transaction?.reconcileStatus && !isUnlocked;
 
   const availableCategories = categories.filter(c => c.type === type);
   const currentCategory = categories.find(c => c.id === categoryId);
@@ -46,6 +62,18 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
       setCategoryId(transaction.categoryId);
       setSubcategoryId(transaction.subcategoryId || '');
       setTags(transaction.tags || []);
+      setAccountId(transaction.accountId);
+      setCurrency(transaction.currency || DEFAULT_CURRENCY);
+      setIsUnlocked(false);
+
+      if (transaction.transferId) {
+        const legs = transactions.filter(t => t.transferId === transaction.transferId);
+        const transfer = getTransferInput(legs);
+        if (transfer) {
+          setAccountId(transfer.fromAccountId);
+          setToAccountId(transfer.toAccountId);
+        }
+      }
     }
   }, [transaction]);
 
@@ -64,6 +92,21 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
     e.preventDefault();
     if (!description || !amount || !date) return;
 
+    if (transferId) {
+      if (!toAccountId || toAccountId === accountId) return;
+      updateTransfer(transferId, {
+        fromAccountId: accountId,
+        toAccountId,
+        amount: parseFloat(amount),
+        date: new Date(date).toISOString(),
+        description,
+        tags,
+        currency
+      }, isUnlocked);
+      onClose();
+      return;
+    }
+
     onSave({
       ...transaction,
       description,
@@ -72,30 +115,54 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
       categoryId,
       subcategoryId: subcategoryId || undefined,
       date: new Date(date).toISOString(),
-      tags
+      accountId,
+      currency,
+      tags,
+      reconcileStatus: isUnlocked ? undefined : transaction.reconcileStatus
     });
     onClose();
   };
 
   const handleDelete = () => {
+    if (isLocked) return;
     onDelete(transaction.id);
   };
 
+  // Znacznik uzgodnienia znika dopiero przy zapisie (anulowanie okna niczego nie zmienia)
+  const handleUnlock = () => {
+    setIsUnlocked(true);
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
-      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-white">
-          <h2 className="text-lg font-bold text-slate-800">Edytuj transakcję</h2>
+          <h2 className="text-lg font-bold text-slate-800">{transferId ? 'Edytuj przelew własny' : 'Edytuj transakcję'}</h2>
           <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
             <X size={24} />
           </button>
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {isLocked && (
+            <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <Lock size={16} className="text-amber-600 shrink-0 mt-0.5" />
+              <p className="flex-1 text-xs text-amber-800">
+                {transaction.reconcileStatus === 'RECONCILED' ? 'Transakcja jest objęta uzgodnieniem salda.' : 'Transakcja jest potwierdzona z wyciągiem.'}
+                {' '}Data, kwota, typ i konto są zablokowane.
+              </p>
+              <button type="button" onClick={handleUnlock} className="text-xs font-medium text-amber-700 hover:text-amber-900 underline shrink-0">
+                Odblokuj
+              </button>
+            </div>
+          )}
+
+          {!transferId && (
           <div className="flex bg-slate-100 p-1 rounded-lg mb-4">
             <button
               type="button"
               onClick={() => setType(TransactionType.EXPENSE)}
+              disabled={isLocked}
               className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
                 type === TransactionType.EXPENSE ? 'bg-white text-red-600 shadow-sm' : 'text-slate-500'
               }`}
@@ -105,6 +172,7 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
             <button
               type="button"
               onClick={() => setType(TransactionType.INCOME)}
+              disabled={isLocked}
               className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
                 type === TransactionType.INCOME ? 'bg-white text-green-600 shadow-sm' : 'text-slate-500'
               }`}
@@ -112,6 +180,7 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
               Przychód
             </button>
           </div>
+          )}
 
           <div>
             <label className="block text-xs font-medium text-slate-500 mb-1">Data</label>
@@ -119,6 +188,7 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
               type="date"
               value={date}
               onChange={(e) => setDate(e.target.value)}
+              disabled={isLocked}
               className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 transition-all text-slate-900"
               required
             />
@@ -146,7 +216,52 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          {transferId ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Z konta</label>
+                <select
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  disabled={isLocked}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 transition-all text-slate-900"
+                >
+                  {accounts.map((acc) => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Na konto</label>
+                <select
+                  value={toAccountId}
+                  onChange={(e) => setToAccountId(e.target.value)}
+                  disabled={isLocked}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 transition-all text-slate-900"
+                >
+                  {accounts.filter(acc => acc.id !== accountId).map((acc) => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : accounts.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Konto</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                disabled={isLocked}
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 transition-all text-slate-900"
+              >
+                {accounts.map((acc) => (
+                  <option key={acc.id} value={acc.id}>{acc.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className={transferId ? '' : 'grid grid-cols-2 gap-4'}>
             <div>
               <label className="block text-xs font-medium text-slate-500 mb-1">Kwota</label>
               <div className="relative">
@@ -155,10 +270,11 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
                   step="0.01"
                   value={amount}
                   onChange={(e) => setAmount(e.target.value)}
+                  disabled={isLocked}
                   className="w-full bg-slate-50 border border-slate-200 rounded-lg pl-3 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 transition-all text-slate-900"
                   required
                 />
-                {amount && (
+                {amount && !isLocked && (
                   <button
                     type="button"
                     onClick={() => setAmount('')}
@@ -168,8 +284,20 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
                   </button>
                 )}
               </div>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                disabled={isLocked}
+                title="Waluta"
+                className="w-full mt-2 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-slate-900 transition-all text-slate-600"
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
             </div>
             
+            {!transferId && (
             <div className="space-y-2">
               <div>
                 <label className="block text-xs font-medium text-slate-500 mb-1">Kategoria</label>
@@ -202,18 +330,21 @@ export const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
                 </div>
               )}
             </div>
+            )}
           </div>
 
           <TagInput tags={tags} onChange={setTags} existingTags={allTags} />
 
           <div className="flex gap-3 pt-4">
-             <Button type="button" variant="danger" onClick={handleDelete} className="px-3">
+             <Button type="button" variant="danger" onClick={handleDelete} disabled={isLocked} title={isLocked ? 'Odblokuj, aby usunąć' : undefined} className="px-3">
               <Trash2 size={18} />
             </Button>
             <Button type="submit" className="flex-1">
               <Save size={18} /> Zapisz zmiany
             </Button>
           </div>
+
+          <TransactionHistoryPanel transaction={transaction} />
         </form>
       </div>
     </div>
@@ -1,13 +1,20 @@
 
 import React, { useState, useMemo } from 'react';
-import { Search, TrendingUp, TrendingDown, Edit2, Trash2, ListChecks, ArrowUp, ArrowDown, ArrowUpDown, Scissors, Hash, X } from 'lucide-react';
-import { Transaction, TransactionType, CategoryItem } from '../types';
-import { CURRENCY_FORMATTER, getCategoryColor, getCategoryName } from '../constants';
+import { Search, TrendingUp, TrendingDown, Edit2, Trash2, ListChecks, ArrowUp, ArrowDown, ArrowUpDown, Scissors, Hash, X, Wallet, ArrowRightLeft, FileSpreadsheet, FileText } from 'lucide-react';
+import { Transaction, TransactionType, CategoryItem, Account } from '../types';
+import { getCategoryColor, getCategoryName } from '../constants';
 import { SplitTransactionModal } from './SplitTransactionModal';
+import { CsvExportModal } from './CsvExportModal';
+import { isTransfer } from '../utils/transferHelpers';
+import { TransactionAmount } from './TransactionAmount';
+import { buildXlsx } from '../utils/xlsx';
+import { getTransactionsTable } from '../utils/tableExport';
+import { downloadBlob, getExportDateStamp } from '../utils/fileDownload';
 
 interface HistoryViewProps {
   transactions: Transaction[];
   categories: CategoryItem[];
+  accounts: Account[];
   onEdit: (transaction: Transaction) => void;
   onDelete: (id: string) => void;
   onClearAll: () => void;
@@ -23,15 +30,17 @@ type SortDirection = 'asc' | 'desc';
 /**
  * Komponent wyświetlający pełną listę transakcji z filtrami i sortowaniem.
  */
-export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categories, onEdit, onDelete, onClearAll, onOpenBulkAction, onOpenBulkTagAction, onSplit, isPrivateMode }) => {
+export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categories, accounts, onEdit, onDelete, onClearAll, onOpenBulkAction, onOpenBulkTagAction, onSplit, isPrivateMode }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategoryId, setFilterCategoryId] = useState<string>('ALL');
   const [filterType, setFilterType] = useState<string>('ALL');
   const [filterTag, setFilterTag] = useState<string>('ALL');
+  const [filterAccountId, setFilterAccountId] = useState<string>('ALL');
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   
   const [splittingTransaction, setSplittingTransaction] = useState<Transaction | null>(null);
+  const [isCsvExportOpen, setIsCsvExportOpen] = useState(false);
 
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({
     key: 'date',
@@ -66,12 +75,16 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
       const matchesCategory = filterCategoryId === 'ALL' || t.categoryId === filterCategoryId;
 
       // 4. Type Filter
-      const matchesType = filterType === 'ALL' || t.type === filterType;
+      const matchesType = filterType === 'ALL'
+        || (filterType === 'TRANSFER' ? isTransfer(t) : t.type === filterType);
 
       // 5. Tag Filter
       const matchesTag = filterTag === 'ALL' || (t.tags && t.tags.includes(filterTag));
 
-      // 6. Date Range Filter
+      // 6. Account Filter
+      const matchesAccount = filterAccountId === 'ALL' || t.accountId === filterAccountId;
+
+      // 7. Date Range Filter
       let matchesDate = true;
       if (dateFrom) {
          matchesDate = matchesDate && new Date(t.date) >= new Date(dateFrom);
@@ -80,9 +93,9 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
          matchesDate = matchesDate && new Date(t.date) <= new Date(dateTo + 'T23:59:59');
       }
       
-      return matchesSearch && matchesCategory && matchesType && matchesTag && matchesDate;
+      return matchesSearch && matchesCategory && matchesType && matchesTag && matchesAccount && matchesDate;
     });
-  }, [transactions, searchTerm, filterCategoryId, filterType, filterTag, dateFrom, dateTo]);
+  }, [transactions, searchTerm, filterCategoryId, filterType, filterTag, filterAccountId, dateFrom, dateTo]);
 
   const sortedTransactions = useMemo(() => {
       const sorted = [...filteredTransactions];
@@ -112,6 +125,14 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
     return sortConfig.direction === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />;
   };
 
+  /**
+   * Eksport aktualnie widocznej listy (po filtrach i sortowaniu).
+   */
+  const handleExportXlsx = () => {
+    const table = getTransactionsTable(sortedTransactions, categories, accounts);
+    downloadBlob(buildXlsx([{ name: 'Transakcje', ...table }]), `bTrackr_Historia_${getExportDateStamp()}.xlsx`);
+  };
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 flex flex-col xl:flex-row gap-4 justify-between items-center transition-colors">
@@ -160,6 +181,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
              <button onClick={() => setFilterType('ALL')} className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${filterType === 'ALL' ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}>Wszystkie</button>
              <button onClick={() => setFilterType(TransactionType.INCOME)} className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${filterType === TransactionType.INCOME ? 'bg-white dark:bg-slate-700 text-green-600 dark:text-green-400 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}>Przychody</button>
              <button onClick={() => setFilterType(TransactionType.EXPENSE)} className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${filterType === TransactionType.EXPENSE ? 'bg-white dark:bg-slate-700 text-red-600 dark:text-red-400 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}>Wydatki</button>
+             {accounts.length > 1 && <button onClick={() => setFilterType('TRANSFER')} className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${filterType === 'TRANSFER' ? 'bg-white dark:bg-slate-700 text-sky-600 dark:text-sky-400 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}>Przelewy</button>}
           </div>
 
           <select value={filterCategoryId} onChange={(e) => setFilterCategoryId(e.target.value)} className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 transition-all cursor-pointer text-slate-900 dark:text-white">
@@ -167,6 +189,16 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
             {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
           </select>
 
+          {accounts.length > 1 && (
+             <div className="relative group">
+                <Wallet size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <select value={filterAccountId} onChange={(e) => setFilterAccountId(e.target.value)} className="pl-8 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 transition-all cursor-pointer text-slate-900 dark:text-white min-w-[120px]">
+                   <option value="ALL">Wszystkie konta</option>
+                   {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+             </div>
+          )}
+
           {availableTags.length > 0 && (
              <div className="relative group">
                 <Hash size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
@@ -179,6 +211,12 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
 
           {transactions.length > 0 && (
             <div className="flex items-center gap-2">
+              <button onClick={() => setIsCsvExportOpen(true)} disabled={sortedTransactions.length === 0} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 rounded-lg transition-colors border border-emerald-200 dark:border-emerald-800 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed" title="Eksportuj widoczne transakcje do CSV">
+                <FileText size={16} /> <span className="hidden sm:inline">CSV</span>
+              </button>
+              <button onClick={handleExportXlsx} disabled={sortedTransactions.length === 0} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 rounded-lg transition-colors border border-emerald-200 dark:border-emerald-800 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed" title="Eksportuj widoczne transakcje do XLSX">
+                <FileSpreadsheet size={16} /> <span className="hidden sm:inline">XLSX</span>
+              </button>
               {onOpenBulkTagAction && (
                 <button onClick={onOpenBulkTagAction} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-pink-600 dark:text-pink-400 bg-pink-50 dark:bg-pink-900/30 hover:bg-pink-100 dark:hover:bg-pink-900/50 rounded-lg transition-colors border border-pink-200 dark:border-pink-800 shadow-sm" title="Grupowe Tagowanie">
                   <Hash size={16} /> <span className="hidden sm:inline">Tagi</span>
@@ -220,11 +258,18 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
                   const catName = getCategoryName(t.categoryId, categories);
                   const color = getCategoryColor(t.categoryId, categories);
                   const subCat = categories.find(c => c.id === t.categoryId)?.subcategories.find(s => s.id === t.subcategoryId);
+                  const account = accounts.length > 1 ? accounts.find(a => a.id === t.accountId) : undefined;
 
                   return (
                     <tr key={t.id} className="hover:bg-slate-50/80 dark:hover:bg-slate-700/30 transition-colors group">
                       <td className="px-6 py-4 text-slate-500 dark:text-slate-400 whitespace-nowrap">
                         {new Date(t.date).toLocaleDateString('pl-PL')}
+                        {account && (
+                           <div className="flex items-center gap-1 mt-1 text-[10px] text-slate-400 dark:text-slate-500">
+                              <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: account.color }}></span>
+                              {account.name}
+                           </div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                          <div className="font-medium text-slate-800 dark:text-slate-200 max-w-xs truncate" title={t.description}>{t.description}</div>
@@ -237,9 +282,15 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
                          )}
                       </td>
                       <td className="px-6 py-4">
-                         <div className={`inline-flex p-1.5 rounded-full ${t.type === TransactionType.INCOME ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400' : 'bg-red-50 dark:bg-red-900/30 text-red-500 dark:text-red-400'}`}>
-                            {t.type === TransactionType.INCOME ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
-                         </div>
+                         {isTransfer(t) ? (
+                           <div className="inline-flex p-1.5 rounded-full bg-sky-50 dark:bg-sky-900/30 text-sky-600 dark:text-sky-400" title="Przelew własny">
+                              <ArrowRightLeft size={16} />
+                           </div>
+                         ) : (
+                           <div className={`inline-flex p-1.5 rounded-full ${t.type === TransactionType.INCOME ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400' : 'bg-red-50 dark:bg-red-900/30 text-red-500 dark:text-red-400'}`}>
+                              {t.type === TransactionType.INCOME ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
+                           </div>
+                         )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex flex-col items-start gap-1">
@@ -250,11 +301,11 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
                         </div>
                       </td>
                       <td className={`px-6 py-4 text-right font-semibold whitespace-nowrap ${t.type === TransactionType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-slate-800 dark:text-slate-200'} ${isPrivateMode ? 'blur-[5px] select-none' : ''}`}>
-                        {t.type === TransactionType.INCOME ? '+' : '-'}{CURRENCY_FORMATTER.format(t.amount)}
+                        <TransactionAmount transaction={t} />
                       </td>
                       <td className="px-2 py-4 text-center">
                         <div className="flex items-center justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                          {onSplit && <button onClick={() => setSplittingTransaction(t)} className="p-1.5 text-slate-400 hover:text-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/30 rounded-lg transition-colors" title="Podziel"><Scissors size={16} /></button>}
+                          {onSplit && !isTransfer(t) && <button onClick={() => setSplittingTransaction(t)} className="p-1.5 text-slate-400 hover:text-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/30 rounded-lg transition-colors" title="Podziel"><Scissors size={16} /></button>}
                           <button onClick={() => onEdit(t)} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors" title="Edytuj"><Edit2 size={16} /></button>
                           <button onClick={() => onDelete(t.id)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors" title="Usuń"><Trash2 size={16} /></button>
                         </div>
@@ -270,6 +321,14 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ transactions, categori
         </div>
       </div>
 
+      <CsvExportModal
+        isOpen={isCsvExportOpen}
+        onClose={() => setIsCsvExportOpen(false)}
+        transactions={sortedTransactions}
+        categories={categories}
+        accounts={accounts}
+      />
+
       <SplitTransactionModal 
         isOpen={!!splittingTransaction}
         originalTransaction={splittingTransaction}
@@ -1,56 +1,110 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import Papa from 'papaparse';
 import { X } from 'lucide-react';
-import { Transaction, TransactionType, CategoryItem, BackupData } from '../types';
+import { Transaction, TransactionType, CategoryItem, BackupData, Account, CategorizationRule, ImportProfile, ImportBatchSource } from '../types';
+import { DEFAULT_ACCOUNT_ID, SYSTEM_IDS } from '../constants';
 import { 
-    ImportStep, ColumnMapping, DateFormat, GroupedTransaction, RawTransactionRow,
-    guessMappings, flattenJsonToTable, parseRawData, parseDateStrict, analyzeGroups
+    ImportStep, ColumnMapping, DateFormat, AmountOptions, DEFAULT_AMOUNT_OPTIONS, GroupedTransaction, RawTransactionRow, TransferCandidate,
+    guessMappings, flattenJsonToTable, parseRawData, statementToImportItems, parseDateStrict, guessDateFormatFromValue, analyzeGroups, applyGroupSuggestions, detectTransferPairs, applyRulesToImportItem
 } from '../utils/importHelpers';
 import { 
-    StepUpload, StepDecision, StepMap, StepCorrection, StepGroup, StepBackup 
+    StepUpload, StepSheet, StepDecision, StepStatement, StepJournal, StepMap, StepCorrection, StepDuplicates, StepTransfers, StepGroup, StepBackupPassphrase, StepBackup 
 } from './ImportSteps';
+import { getCurrency } from '../utils/currencyHelpers';
+import { ClassifierQuery, CategorySuggestion } from '../utils/categoryClassifier';
+import { BankStatement, STATEMENT_FORMAT_LABELS, getStatementEndDate, detectStatementFormat, decodeImportFile, detectImportFileEncoding, parseBankStatement } from '../utils/bankStatement';
+import { ReconcilePanel } from './ReconcilePanel';
+import { XlsxSheet, readXlsx } from '../utils/xlsx';
+import { DuplicateCandidate, findDuplicateCandidates, mergeDuplicate } from '../utils/duplicateDetection';
+import { BUILT_IN_IMPORT_PROFILES, findMatchingProfile, getHeaderFingerprint } from '../utils/importProfiles';
+import { parseQif } from '../utils/qif';
+import { ValidatedBackup, validateBackup } from '../utils/backupSchema';
+import { BackupMergePlan } from '../utils/backupMerge';
+import { EncryptedBackupFile, decryptBackup, isEncryptedBackup } from '../utils/backupCrypto';
+import { ParsedJournal, PLAIN_TEXT_FILE_PATTERN, JOURNAL_FORMAT_LABELS, journalToImportItems, parseJournal } from '../utils/plainTextAccounting';
 
 interface ImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (transactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[]) => void;
-  onRestore?: (backup: BackupData) => void;
+  onImport: (transactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[], source?: ImportBatchSource, mergedTransactions?: Transaction[]) => void | Promise<void>;
+  onRestore?: (backup: BackupData) => void | Promise<void>;
+  onPlanMerge?: (backup: BackupData) => Promise<BackupMergePlan>;
+  onMerge?: (plan: BackupMergePlan) => void | Promise<void>;
   hasExistingTransactions: boolean;
+  transactions: Transaction[];
   categories: CategoryItem[];
+  accounts: Account[];
+  rules: CategorizationRule[];
+  suggestCategories: (queries: ClassifierQuery[]) => Promise<CategorySuggestion[][]>;
+  importProfiles: ImportProfile[];
+  onSaveProfile: (profile: Omit<ImportProfile, 'id'>) => void;
+  onDeleteProfile: (id: string) => void;
 }
 
 /**
  * Komponent Importu (Refaktoryzowany).
  * Pełni rolę kontrolera stanu dla procesu importu.
  */
-export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImport, onRestore, hasExistingTransactions, categories }) => {
+export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImport, onRestore, onPlanMerge, onMerge, hasExistingTransactions, transactions, categories, accounts, rules, suggestCategories, importProfiles, onSaveProfile, onDeleteProfile }) => {
   const [step, setStep] = useState<ImportStep>('UPLOAD');
   const [importMode, setImportMode] = useState<'APPEND' | 'REPLACE'>('APPEND');
   
   // Data State
   const [rawFile, setRawFile] = useState<string[][]>([]);
-  const [backupData, setBackupData] = useState<BackupData | null>(null);
+  const [encryptedBackup, setEncryptedBackup] = useState<{ file: EncryptedBackupFile, fileName: string } | null>(null);
+  const [validatedBackup, setValidatedBackup] = useState<ValidatedBackup | null>(null);
+  const [mergePlan, setMergePlan] = useState<BackupMergePlan | null>(null);
+  const [statement, setStatement] = useState<BankStatement | null>(null);
+  const [journal, setJournal] = useState<ParsedJournal | null>(null);
+  const [journalAccount, setJournalAccount] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [xlsxSheets, setXlsxSheets] = useState<XlsxSheet[]>([]);
   
   // Mapping State
   const [mappings, setMappings] = useState<Record<number, ColumnMapping>>({});
   const [hasHeader, setHasHeader] = useState(true);
   const [primaryDateFormat, setPrimaryDateFormat] = useState<DateFormat>('YYYY-MM-DD');
+  const [targetAccountId, setTargetAccountId] = useState<string>(DEFAULT_ACCOUNT_ID);
+  const [amountOptions, setAmountOptions] = useState<AmountOptions>(DEFAULT_AMOUNT_OPTIONS);
+
+  // Import Profile State (profil użytkownika ma pierwszeństwo przed wbudowanym o tym samym nagłówku)
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+  const [activeProfile, setActiveProfile] = useState<ImportProfile | null>(null);
+  const [fileEncoding, setFileEncoding] = useState<string>('utf-8');
+  const [skipRows, setSkipRows] = useState(0);
   
   // Parsing State
   const [validItems, setValidItems] = useState<any[]>([]);
   const [failedRows, setFailedRows] = useState<RawTransactionRow[]>([]);
+  const [droppedCount, setDroppedCount] = useState(0); // Wiersze, których nie udało się wczytać (trafia do historii importu)
   const [secondaryDateFormat, setSecondaryDateFormat] = useState<DateFormat>('DD-MM-YYYY');
   const [correctionPreview, setCorrectionPreview] = useState<{original: string, parsed: string}[]>([]);
   
+  // Duplicate Review State
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [mergedTransactions, setMergedTransactions] = useState<Transaction[]>([]);
+
+  // Transfer Pairing State
+  const [transferPairs, setTransferPairs] = useState<TransferCandidate[]>([]);
+
   // Grouping State
   const [pendingItems, setPendingItems] = useState<any[]>([]);
   const [detectedGroups, setDetectedGroups] = useState<GroupedTransaction[]>([]);
   
   const [error, setError] = useState<string>('');
 
+  // Pozycje z dziennika liczone raz na wybór konta - podgląd i import używają tych samych identyfikatorów
+  const journalResult = useMemo(
+    () => journal ? journalToImportItems(journal, journalAccount, accounts, categories) : null,
+    [journal, journalAccount, accounts, categories]
+  );
+
   if (!isOpen) return null;
 
+  const allProfiles = [...importProfiles, ...BUILT_IN_IMPORT_PROFILES];
+  const reconcileAccount = accounts.find(a => a.id === targetAccountId);
+
   // --- Handlers ---
 
   const handleClose = () => {
@@ -58,10 +112,21 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
     setRawFile([]);
     setPendingItems([]);
     setDetectedGroups([]);
+    setTransferPairs([]);
+    setDuplicates([]);
+    setMergedTransactions([]);
     setValidItems([]);
     setFailedRows([]);
+    setDroppedCount(0);
     setCorrectionPreview([]);
-    setBackupData(null);
+    setEncryptedBackup(null);
+    setValidatedBackup(null);
+    setMergePlan(null);
+    setStatement(null);
+    setJournal(null);
+    setXlsxSheets([]);
+    setActiveProfile(null);
+    setAmountOptions(DEFAULT_AMOUNT_OPTIONS);
     setError('');
     onClose();
   };
@@ -71,7 +136,72 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
     if (!file) return;
 
     setError('');
-    setBackupData(null);
+    setEncryptedBackup(null);
+    setValidatedBackup(null);
+    setMergePlan(null);
+    setStatement(null);
+    setJournal(null);
+    setActiveProfile(null);
+    setFileName(file.name);
+    setDroppedCount(0);
+    setDuplicates([]);
+    setMergedTransactions([]);
+
+    // Excel: wybór arkusza, potem zwykłe mapowanie kolumn
+    if (/\.xlsx$/i.test(file.name)) {
+       parseXlsxFile(file);
+       return;
+    }
+
+    // Dziennik ledger/hledger/beancount lub QIF - kategorie wynikają z nazw kont
+    const isQif = /\.qif$/i.test(file.name);
+    if (isQif || PLAIN_TEXT_FILE_PATTERN.test(file.name)) {
+       const reader = new FileReader();
+       reader.onload = (event) => {
+          const content = decodeImportFile(event.target?.result as ArrayBuffer);
+          const parsed = isQif ? parseQif(content) : parseJournal(content);
+          if (parsed.transactions.length === 0 || parsed.assetAccounts.length === 0) {
+             setError("Dziennik nie zawiera transakcji.");
+             return;
+          }
+          // Domyślnie konto dziennika o nazwie wybranego konta aplikacji, w przeciwnym razie najczęstsze
+          const targetName = accounts.find(a => a.id === targetAccountId)?.name.toLowerCase().replace(/[\s-]+/g, '');
+          const matching = parsed.assetAccounts.find(a => a.name.split(':').pop()?.toLowerCase().replace(/[\s-]+/g, '') === targetName);
+          setJournal(parsed);
+          setJournalAccount((matching || parsed.assetAccounts[0]).name);
+          setStep(hasExistingTransactions ? 'DECISION' : 'JOURNAL');
+       };
+       reader.onerror = () => setError('Błąd odczytu pliku.');
+       reader.readAsArrayBuffer(file);
+       return;
+    }
+
+    // Bank Statement Handling (OFX/QFX, MT940, CAMT.053) - gotowa struktura, bez mapowania kolumn
+    if (!/\.(csv|json)$/i.test(file.name)) {
+       const reader = new FileReader();
+       reader.onload = (event) => {
+          try {
+             const content = decodeImportFile(event.target?.result as ArrayBuffer);
+             const format = detectStatementFormat(file.name, content.slice(0, 2048));
+             if (!format) {
+                // Np. CSV z rozszerzeniem .txt
+                parseCsvFile(file);
+                return;
+             }
+             const parsed = parseBankStatement(content, format);
+             if (parsed.entries.length === 0) {
+                setError("Wyciąg nie zawiera transakcji.");
+                return;
+             }
+             setStatement(parsed);
+             setStep(hasExistingTransactions ? 'DECISION' : 'STATEMENT');
+          } catch (err) {
+             setError(err instanceof Error ? err.message : "Błąd odczytu wyciągu.");
+          }
+       };
+       reader.readAsArrayBuffer(file);
+       return;
+    }
 
     // JSON Handling
     if (file.name.toLowerCase().endsWith('.json')) {
@@ -80,10 +210,23 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
           try {
              const json = JSON.parse(event.target?.result as string);
              
-             // Backup Check
-             if (json.categories && json.transactions && Array.isArray(json.categories) && Array.isArray(json.transactions)) {
-                setBackupData(json as BackupData);
-                setStep('BACKUP_CONFIRM');
+             // Zaszyfrowana kopia - najpierw hasło, potem ta sama walidacja co dla zwykłej kopii
+             if (isEncryptedBackup(json)) {
+                setEncryptedBackup({ file: json, fileName: file.name });
+                setStep('BACKUP_PASSWORD');
+                return;
+             }
+
+             // Backup Check - plik sprawdzany w całości przed jakąkolwiek zmianą w bazie
+             const looksLikeBackup = json && !Array.isArray(json) &&
+                ((Array.isArray(json.categories) && Array.isArray(json.transactions)) || (json.version !== undefined && json.settings !== undefined));
+             if (looksLikeBackup) {
+                try {
+                   setValidatedBackup(validateBackup(json));
+                   setStep('BACKUP_CONFIRM');
+                } catch (err) {
+                   setError(err instanceof Error ? err.message : "Nieprawidłowa kopia zapasowa.");
+                }
                 return;
              } 
              
@@ -114,36 +257,139 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
        return;
     }
 
-    // CSV Handling
-    Papa.parse(file, {
-      skipEmptyLines: true,
-      complete: (results) => {
-        if (results.data && results.data.length > 0) {
-          const rows = results.data as string[][];
-          setRawFile(rows);
-          setStep(hasExistingTransactions ? 'DECISION' : 'MAP');
-          if (!hasExistingTransactions) setMappings(guessMappings(rows.slice(0, 6)));
-        } else {
-          setError('Plik pusty.');
+    parseCsvFile(file);
+  };
+
+  // CSV Handling
+  /**
+   * Wspólna ścieżka dla tabel (CSV, arkusz XLSX): dopasowanie profilu, potem mapowanie kolumn.
+   */
+  /**
+   * Format daty profilu, chyba że nie pasuje do pierwszego wiersza danych
+   * (np. eksport bTrackr z innym formatem daty) - wtedy zgadujemy z wartości.
+   */
+  const getProfileDateFormat = (profile: ImportProfile, firstRow?: string[]): DateFormat => {
+    const dateIndex = Object.entries(profile.mappings).find(([, type]) => type === 'date')?.[0];
+    const value = firstRow && dateIndex !== undefined ? (firstRow[parseInt(dateIndex)] || '').trim() : '';
+    if (!value || parseDateStrict(value, profile.dateFormat)) return profile.dateFormat;
+    return guessDateFormatFromValue(value) || profile.dateFormat;
+  };
+
+  const loadTableRows = (rows: string[][], encoding: string, selectedProfile?: ImportProfile) => {
+    setFileEncoding(encoding);
+
+    // Wybrany profil: szukamy jego nagłówka, a gdy go brak - pomijamy zadeklarowaną liczbę wierszy
+    const match = selectedProfile
+      ? findMatchingProfile(rows, [selectedProfile]) || { profile: selectedProfile, headerIndex: selectedProfile.skipRows }
+      : findMatchingProfile(rows, allProfiles);
+
+    if (match) {
+      const { profile, headerIndex } = match;
+      setRawFile(rows.slice(headerIndex));
+      setSkipRows(headerIndex);
+      setActiveProfile(profile);
+      setMappings(profile.mappings);
+      setHasHeader(profile.hasHeader);
+      setPrimaryDateFormat(getProfileDateFormat(profile, rows[headerIndex + (profile.hasHeader ? 1 : 0)]));
+      setAmountOptions({ decimalSeparator: profile.decimalSeparator, invertSigns: profile.invertSigns });
+    } else {
+      setRawFile(rows);
+      setSkipRows(0);
+      setActiveProfile(null);
+      if (!hasExistingTransactions) setMappings(guessMappings(rows.slice(0, 6)));
+    }
+    setStep(hasExistingTransactions ? 'DECISION' : 'MAP');
+  };
+
+  const parseCsvFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const buffer = event.target?.result as ArrayBuffer;
+      const selectedProfile = allProfiles.find(p => p.id === selectedProfileId);
+      const encoding = selectedProfile?.encoding || detectImportFileEncoding(buffer);
+
+      Papa.parse<string[]>(decodeImportFile(buffer, encoding), {
+        skipEmptyLines: true,
+        complete: (results) => {
+          if (!results.data || results.data.length === 0) {
+            setError('Plik pusty.');
+            return;
+          }
+          loadTableRows(results.data, encoding, selectedProfile);
         }
-      },
-      error: (err) => setError(err.message)
+      });
+    };
+    reader.onerror = () => setError('Błąd odczytu pliku.');
+    reader.readAsArrayBuffer(file);
+  };
+
+  const parseXlsxFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const sheets = (await readXlsx(event.target?.result as ArrayBuffer)).filter(s => s.rows.length > 0);
+        if (sheets.length === 0) {
+          setError('Skoroszyt nie zawiera danych.');
+          return;
+        }
+        if (sheets.length > 1) {
+          setXlsxSheets(sheets);
+          setStep('SHEET');
+          return;
+        }
+        handleSelectSheet(sheets[0]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Błąd odczytu pliku Excel.');
+      }
+    };
+    reader.onerror = () => setError('Błąd odczytu pliku.');
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleSelectSheet = (sheet: XlsxSheet) => {
+    loadTableRows(sheet.rows, 'utf-8', allProfiles.find(p => p.id === selectedProfileId));
+    // Liczby z arkusza zapisujemy z kropką dziesiętną, niezależnie od profilu
+    setAmountOptions(prev => ({ ...prev, decimalSeparator: '.' }));
+  };
+
+  const handleSaveProfile = (name: string) => {
+    onSaveProfile({
+      name,
+      headerFingerprint: hasHeader && rawFile.length > 0 ? getHeaderFingerprint(rawFile[0]) : '',
+      mappings,
+      hasHeader,
+      dateFormat: primaryDateFormat,
+      decimalSeparator: amountOptions.decimalSeparator,
+      encoding: fileEncoding,
+      skipRows,
+      invertSigns: amountOptions.invertSigns
     });
   };
 
   const handleDecision = (mode: 'APPEND' | 'REPLACE') => {
     setImportMode(mode);
+    if (statement) {
+        setStep('STATEMENT');
+        return;
+    }
+    if (journal) {
+        setStep('JOURNAL');
+        return;
+    }
     setStep('MAP');
-    if (rawFile.length > 0) {
+    if (rawFile.length > 0 && !activeProfile) {
         setMappings(guessMappings(rawFile.slice(0, 6)));
     }
   };
 
+  const ruleContext = { rules, categories, accountId: targetAccountId };
+
   const handleParseAndAnalyze = () => {
-      const { validItems, failedRows } = parseRawData(rawFile, mappings, primaryDateFormat, hasHeader);
+      const { validItems, failedRows } = parseRawData(rawFile, mappings, primaryDateFormat, hasHeader, ruleContext, amountOptions);
       
       setValidItems(validItems);
       setFailedRows(failedRows);
+      setDroppedCount(0);
 
       if (failedRows.length > 0) {
           // Setup Correction Step
@@ -159,7 +405,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
           setCorrectionPreview(preview);
           setStep('DATE_CORRECTION');
       } else {
-          proceedToGrouping(validItems);
+          proceedToDuplicateReview(validItems);
       }
   };
 
@@ -186,32 +432,88 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
                 if (r.amount > 0) finalCatName = 'Wynagrodzenie';
                 else finalCatName = 'Inne'; // Or re-run detection
              }
-             fixedItems.push({
+             fixedItems.push(applyRulesToImportItem({
                 id: crypto.randomUUID(),
                 date: validDateISO,
                 amount: Math.abs(r.amount),
                 description: r.description,
                 type: r.amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
                 categoryName: finalCatName
-             });
+             }, ruleContext));
           }
       });
       
-      proceedToGrouping([...validItems, ...fixedItems]);
+      setDroppedCount(failedRows.length - fixedItems.length);
+      proceedToDuplicateReview([...validItems, ...fixedItems]);
+  };
+
+  const proceedToDuplicateReview = (items: any[]) => {
+      // Przy zastępowaniu historii nie ma z czym porównywać
+      const candidates = importMode === 'APPEND' ? findDuplicateCandidates(items, transactions, targetAccountId) : [];
+      if (candidates.length > 0) {
+        setPendingItems(items);
+        setDuplicates(candidates);
+        setStep('DUPLICATES');
+      } else {
+        proceedToTransfers(items);
+      }
+  };
+
+  const handleConfirmDuplicates = () => {
+      const decided = new Map(duplicates.filter(d => d.action !== 'KEEP').map(d => [d.importId, d]));
+      const merged = pendingItems
+          .filter(item => decided.get(item.id)?.action === 'MERGE')
+          .map(item => mergeDuplicate(decided.get(item.id)!.existing, item));
+      setMergedTransactions(merged);
+      proceedToTransfers(pendingItems.filter(item => !decided.has(item.id)));
+  };
+
+  const proceedToTransfers = (items: any[]) => {
+      // Parowanie ma sens tylko, gdy jest drugie konto; przy zastępowaniu historii nie ma istniejących nóg
+      const targetAccount = accounts.find(a => a.id === targetAccountId);
+      const pairs = accounts.length > 1 && targetAccount
+        ? detectTransferPairs(items, importMode === 'APPEND' ? transactions : [], targetAccount)
+        : [];
+      if (pairs.length > 0) {
+        setPendingItems(items);
+        setTransferPairs(pairs);
+        setStep('TRANSFERS');
+      } else {
+        proceedToGrouping(items, []);
+      }
   };
 
-  const proceedToGrouping = (items: any[]) => {
+  const proceedToGrouping = async (items: any[], pairs: TransferCandidate[]) => {
       setPendingItems(items);
-      const groups = analyzeGroups(items);
+      setError('');
+      const pairedIds = getPairedIds(pairs);
+      let groups: GroupedTransaction[];
+      try {
+        // Pojedyncze wiersze też trafiają do klasyfikatora; zostają tylko rozpoznane
+        const candidates = analyzeGroups(items.filter(item => !pairedIds.has(item.id)), 1);
+        const suggestions = await suggestCategories(candidates.map(g => ({ description: g.example, type: TransactionType.EXPENSE })));
+        groups = applyGroupSuggestions(candidates, suggestions, categories);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się przygotować podpowiedzi kategorii.");
+        return;
+      }
       if (groups.length > 0) {
         setDetectedGroups(groups);
         setStep('GROUP');
       } else {
-        finalizeImport(items);
+        finalizeImport(items, pairs);
       }
   };
 
-  const finalizeImport = (items: any[]) => {
+  const getPairedIds = (pairs: TransferCandidate[]) =>
+      new Set(pairs.filter(p => p.enabled && p.counterAccountId).map(p => p.itemId));
+
+  const finalizeImport = async (items: any[], pairs: TransferCandidate[] = transferPairs) => {
+    const enabledPairs = pairs.filter(p => p.enabled && p.counterAccountId);
+    // Wyciąg jest w walucie konta, na które importujemy
+    const targetAccount = accounts.find(a => a.id === targetAccountId);
+    const currency = targetAccount ? getCurrency(targetAccount) : undefined;
+
     // Apply groups
     let processedItems = items.map(item => {
       const group = detectedGroups.find(g => g.ids.includes(item.id));
@@ -252,7 +554,44 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
         return cat;
     };
 
+    // Istniejące transakcje z innych kont, które stają się drugą nogą przelewu
+    const transferCounterparts: Transaction[] = [];
+
     processedItems.forEach(item => {
+      const pair = enabledPairs.find(p => p.itemId === item.id);
+      if (pair) {
+        // Wiersz wyciągu zostaje na koncie importu; druga noga - istniejąca lub nowa - na koncie pary
+        finalTransactions.push({
+          id: item.id,
+          date: item.date,
+          amount: item.amount,
+          description: item.description,
+          type: item.type,
+          categoryId: SYSTEM_IDS.INTERNAL_TRANSFER,
+          accountId: targetAccountId,
+          currency,
+          transferId: pair.id,
+          externalId: item.externalId
+        });
+        const counterpart = pair.counterpartId ? transactions.find(t => t.id === pair.counterpartId) : undefined;
+        if (counterpart) {
+          transferCounterparts.push({ ...counterpart, categoryId: SYSTEM_IDS.INTERNAL_TRANSFER, subcategoryId: undefined, transferId: pair.id });
+        } else {
+          finalTransactions.push({
+            id: crypto.randomUUID(),
+            date: item.date,
+            amount: item.amount,
+            description: item.description,
+            type: item.type === TransactionType.EXPENSE ? TransactionType.INCOME : TransactionType.EXPENSE,
+            categoryId: SYSTEM_IDS.INTERNAL_TRANSFER,
+            accountId: pair.counterAccountId,
+            currency,
+            transferId: pair.id
+          });
+        }
+        return;
+      }
+
       let categoryId = '';
       let subcategoryId: string | undefined = undefined;
 
@@ -271,6 +610,11 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
         subcategoryId = newSub.id;
       }
 
+      // Plik z kolumną konta/waluty (np. eksport bTrackr) - nieznane konto = konto importu
+      const itemAccount = item.accountName
+        ? accounts.find(a => a.name.toLowerCase() === item.accountName.toLowerCase())
+        : undefined;
+
       finalTransactions.push({
         id: item.id,
         date: item.date,
@@ -278,18 +622,72 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
         description: item.description,
         type: item.type,
         categoryId,
-        subcategoryId
+        subcategoryId,
+        accountId: itemAccount?.id || targetAccountId,
+        currency: item.currency || (itemAccount ? getCurrency(itemAccount) : currency),
+        tags: item.tags,
+        externalId: item.externalId
       });
     });
 
-    onImport(finalTransactions, importMode === 'REPLACE', Array.from(categoriesToSave.values()));
+    setError('');
+    try {
+      await onImport(finalTransactions, importMode === 'REPLACE', Array.from(categoriesToSave.values()), {
+          fileName,
+          profileName: statement ? STATEMENT_FORMAT_LABELS[statement.format] : journal ? JOURNAL_FORMAT_LABELS[journal.format] : activeProfile?.name,
+          failedCount: droppedCount,
+          skippedCount: duplicates.filter(d => d.action === 'SKIP').length,
+          mergedCount: mergedTransactions.length
+      }, [...mergedTransactions, ...transferCounterparts]);
+    } catch (err) {
+      // Kreator zostaje na bieżącym kroku, można spróbować ponownie
+      setError(err instanceof Error ? `Import nie powiódł się: ${err.message}` : 'Import nie powiódł się.');
+      return;
+    }
+
+    // Wyciąg z saldem końcowym -> od razu porównujemy je z historią konta
+    if (statement && statement.closingBalance !== undefined && targetAccount) {
+      setStep('RECONCILE');
+      return;
+    }
     handleClose();
   };
 
-  const handleBackupRestore = () => {
-     if (backupData && onRestore) {
-        onRestore(backupData);
+  // Błędy (złe hasło, nieprawidłowa kopia) wyświetla krok hasła
+  const handleDecryptBackup = async (passphrase: string) => {
+     if (!encryptedBackup) return;
+     const content = await decryptBackup(encryptedBackup.file, passphrase);
+     setValidatedBackup(validateBackup(JSON.parse(content)));
+     setEncryptedBackup(null);
+     setStep('BACKUP_CONFIRM');
+  };
+
+  const handleBackupRestore = async () => {
+     if (!validatedBackup || !onRestore) return;
+     try {
+        await onRestore(validatedBackup.backup);
         handleClose();
+     } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się przywrócić kopii zapasowej.");
+     }
+  };
+
+  const handlePreviewMerge = async () => {
+     if (!validatedBackup || !onPlanMerge) return;
+     try {
+        setMergePlan(await onPlanMerge(validatedBackup.backup));
+     } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się przygotować scalenia.");
+     }
+  };
+
+  const handleBackupMerge = async () => {
+     if (!mergePlan || !onMerge) return;
+     try {
+        await onMerge(mergePlan);
+        handleClose();
+     } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się scalić kopii zapasowej.");
      }
   };
 
@@ -299,22 +697,55 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
         <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-white dark:bg-slate-800">
           <h2 className="text-lg font-bold text-slate-800 dark:text-white">
             {step === 'UPLOAD' && 'Importuj dane'}
+            {step === 'SHEET' && 'Wybierz arkusz'}
             {step === 'MAP' && 'Dopasuj kolumny i format'}
+            {step === 'STATEMENT' && 'Import wyciągu bankowego'}
+            {step === 'JOURNAL' && 'Import dziennika księgowego'}
             {step === 'DATE_CORRECTION' && 'Korekta błędnych dat'}
+            {step === 'DUPLICATES' && 'Możliwe duplikaty'}
+            {step === 'RECONCILE' && 'Uzgodnienie salda'}
+            {step === 'TRANSFERS' && 'Przelewy własne'}
             {step === 'GROUP' && 'Wykryte grupy'}
             {step === 'DECISION' && 'Wykryto dane'}
+            {step === 'BACKUP_PASSWORD' && 'Zaszyfrowana kopia zapasowa'}
             {step === 'BACKUP_CONFIRM' && 'Przywracanie kopii zapasowej'}
           </h2>
           <button onClick={handleClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors"><X size={24}/></button>
         </div>
 
         <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50 dark:bg-slate-900/50 transition-colors">
+          {/* Krok UPLOAD pokazuje błąd sam (pod polem pliku) */}
+          {error && step !== 'UPLOAD' && (
+             <p className="text-red-500 dark:text-red-400 mb-4 font-medium bg-red-50 dark:bg-red-900/30 px-3 py-1 rounded">{error}</p>
+          )}
+
           {step === 'UPLOAD' && (
-             <StepUpload onFileUpload={handleFileUpload} error={error} />
+             <StepUpload
+                onFileUpload={handleFileUpload}
+                error={error}
+                profiles={allProfiles}
+                selectedProfileId={selectedProfileId}
+                setSelectedProfileId={setSelectedProfileId}
+                onDeleteProfile={onDeleteProfile}
+             />
           )}
           
-          {step === 'BACKUP_CONFIRM' && backupData && (
-              <StepBackup backupData={backupData} onRestore={handleBackupRestore} />
+          {step === 'SHEET' && xlsxSheets.length > 0 && (
+             <StepSheet sheets={xlsxSheets} onSelect={handleSelectSheet} />
+          )}
+
+          {step === 'BACKUP_PASSWORD' && encryptedBackup && (
+              <StepBackupPassphrase fileName={encryptedBackup.fileName} onDecrypt={handleDecryptBackup} />
+          )}
+
+          {step === 'BACKUP_CONFIRM' && validatedBackup && (
+              <StepBackup
+                validatedBackup={validatedBackup}
+                mergePlan={mergePlan}
+                onRestore={handleBackupRestore}
+                onPreviewMerge={onPlanMerge && onMerge ? handlePreviewMerge : undefined}
+                onMerge={handleBackupMerge}
+              />
           )}
 
           {step === 'DECISION' && (
@@ -332,6 +763,35 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
              />
           )}
 
+          {step === 'DUPLICATES' && duplicates.length > 0 && (
+             <StepDuplicates
+                duplicates={duplicates}
+                setDuplicates={setDuplicates}
+                categories={categories}
+                onConfirm={handleConfirmDuplicates}
+             />
+          )}
+
+          {step === 'RECONCILE' && statement && statement.closingBalance !== undefined && reconcileAccount && (
+             <ReconcilePanel
+                account={reconcileAccount}
+                date={getStatementEndDate(statement)}
+                statementBalance={statement.closingBalance}
+                entries={statement.entries}
+                onDone={handleClose}
+             />
+          )}
+
+          {step === 'TRANSFERS' && transferPairs.length > 0 && (
+             <StepTransfers
+                pairs={transferPairs}
+                setPairs={setTransferPairs}
+                accounts={accounts}
+                sourceAccountId={targetAccountId}
+                onConfirm={() => proceedToGrouping(pendingItems, transferPairs)}
+             />
+          )}
+
           {step === 'GROUP' && detectedGroups.length > 0 && (
              <StepGroup 
                 detectedGroups={detectedGroups}
@@ -341,6 +801,29 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
              />
           )}
 
+          {step === 'STATEMENT' && statement && (
+            <StepStatement
+               statement={statement}
+               accounts={accounts}
+               accountId={targetAccountId}
+               setAccountId={setTargetAccountId}
+               onNext={() => proceedToDuplicateReview(statementToImportItems(statement, ruleContext))}
+            />
+          )}
+
+          {step === 'JOURNAL' && journal && journalResult && (
+            <StepJournal
+               journal={journal}
+               journalAccount={journalAccount}
+               setJournalAccount={setJournalAccount}
+               result={journalResult}
+               accounts={accounts}
+               accountId={targetAccountId}
+               setAccountId={setTargetAccountId}
+               onNext={() => proceedToDuplicateReview(journalResult.items)}
+            />
+          )}
+
           {step === 'MAP' && (
             <StepMap 
                rawFile={rawFile}
@@ -350,6 +833,13 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImp
                setHasHeader={setHasHeader}
                dateFormat={primaryDateFormat}
                setDateFormat={setPrimaryDateFormat}
+               amountOptions={amountOptions}
+               setAmountOptions={setAmountOptions}
+               accounts={accounts}
+               accountId={targetAccountId}
+               setAccountId={setTargetAccountId}
+               activeProfile={activeProfile}
+               onSaveProfile={handleSaveProfile}
                onNext={handleParseAndAnalyze}
             />
           )}
@@ -1,20 +1,35 @@
 
-import React, { useRef } from 'react';
-import { FileSpreadsheet, FileJson, FilePlus, Trash2, RefreshCw, Sparkles, CalendarDays, ArrowRight, Download, AlertTriangle, Upload } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { FileSpreadsheet, FileJson, FilePlus, Trash2, RefreshCw, Sparkles, CalendarDays, ArrowRight, Download, AlertTriangle, Upload, Wallet, ArrowRightLeft, FileText, Bookmark, Check, Copy, Lock } from 'lucide-react';
 import { Button } from './Button';
-import { BackupData, CategoryItem, TransactionType } from '../types';
-import { ColumnMapping, DateFormat, GroupedTransaction, RawTransactionRow } from '../utils/importHelpers';
+import { Account, CategoryItem, ImportProfile, TransactionType } from '../types';
+import { CategorySuggestion } from '../utils/categoryClassifier';
+import { AmountOptions, ColumnMapping, DateFormat, GroupedTransaction, RawTransactionRow, TransferCandidate } from '../utils/importHelpers';
+import { getCurrencyFormatter } from '../constants';
+import { BankStatement, STATEMENT_FORMAT_LABELS } from '../utils/bankStatement';
+import { getCurrency } from '../utils/currencyHelpers';
+import { XlsxSheet } from '../utils/xlsx';
+import { DuplicateAction, DuplicateCandidate } from '../utils/duplicateDetection';
+import { BACKUP_TABLE_LABELS, ValidatedBackup } from '../utils/backupSchema';
+import { BackupMergePlan } from '../utils/backupMerge';
+import { ParsedJournal, JournalImportResult, JOURNAL_FORMAT_LABELS } from '../utils/plainTextAccounting';
 
 // --- STEP 1: UPLOAD ---
 interface StepUploadProps {
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   error?: string;
+  profiles: ImportProfile[];
+  selectedProfileId: string;
+  setSelectedProfileId: (id: string) => void;
+  onDeleteProfile: (id: string) => void;
 }
-export const StepUpload: React.FC<StepUploadProps> = ({ onFileUpload, error }) => {
+export const StepUpload: React.FC<StepUploadProps> = ({ onFileUpload, error, profiles, selectedProfileId, setSelectedProfileId, onDeleteProfile }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId);
   return (
+   <div className="space-y-3">
      <div className="h-64 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl flex flex-col items-center justify-center relative bg-white dark:bg-slate-800 transition-colors hover:border-indigo-400 dark:hover:border-indigo-500 hover:bg-slate-50 dark:hover:bg-slate-700/30">
-       <input ref={fileInputRef} type="file" accept=".csv, .json" onChange={onFileUpload} className="absolute inset-0 opacity-0 cursor-pointer" />
+       <input ref={fileInputRef} type="file" accept=".csv, .xlsx, .json, .ofx, .qfx, .sta, .mt940, .940, .txt, .xml, .ledger, .journal, .hledger, .beancount, .bean, .qif" onChange={onFileUpload} className="absolute inset-0 opacity-0 cursor-pointer" />
        <div className="flex gap-4 text-slate-300 dark:text-slate-600 mb-4">
           <FileSpreadsheet size={48} />
           <FileJson size={48} />
@@ -22,14 +37,69 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onFileUpload, error }) =
        <p className="text-slate-600 dark:text-slate-300 font-medium">Upuść plik lub kliknij, aby wybrać</p>
        <p className="text-xs text-slate-400 dark:text-slate-500 mt-2 text-center max-w-md">
           Obsługiwane: <br/>
-          <strong>.csv</strong> - wyciągi bankowe LUB listy transakcji<br/>
-          <strong>.json</strong> - kopie zapasowe bTrackr LUB listy transakcji
+          <strong>.csv / .xlsx</strong> - wyciągi bankowe LUB listy transakcji<br/>
+          <strong>.json</strong> - kopie zapasowe bTrackr LUB listy transakcji<br/>
+          <strong>.ofx / .qfx, MT940 (.sta), CAMT.053 (.xml)</strong> - wyciągi bankowe (bez mapowania kolumn)<br/>
+          <strong>.ledger / .journal / .beancount, .qif</strong> - dzienniki księgowe i eksport z GnuCash / MS Money
        </p>
        {error && <p className="text-red-500 dark:text-red-400 mt-2 font-medium bg-red-50 dark:bg-red-900/30 px-3 py-1 rounded">{error}</p>}
      </div>
+
+     <div className="flex items-center gap-2 text-sm">
+        <Bookmark size={16} className="text-slate-500 dark:text-slate-400" />
+        <label className="text-slate-700 dark:text-slate-300 font-medium">Profil CSV:</label>
+        <select
+           value={selectedProfileId}
+           onChange={(e) => setSelectedProfileId(e.target.value)}
+           className="flex-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+        >
+           <option value="">Wykryj automatycznie</option>
+           {profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name}{p.isBuiltIn ? ' (wbudowany)' : ''}</option>
+           ))}
+        </select>
+        {selectedProfile && !selectedProfile.isBuiltIn && (
+           <button
+              onClick={() => { onDeleteProfile(selectedProfile.id); setSelectedProfileId(''); }}
+              className="p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded"
+              title="Usuń profil"
+           >
+              <Trash2 size={14} />
+           </button>
+        )}
+     </div>
+   </div>
   );
 };
 
+// --- STEP 1b: SHEET PICKER (XLSX) ---
+interface StepSheetProps {
+  sheets: XlsxSheet[];
+  onSelect: (sheet: XlsxSheet) => void;
+}
+export const StepSheet: React.FC<StepSheetProps> = ({ sheets, onSelect }) => (
+  <div className="space-y-3">
+    <p className="text-sm text-slate-600 dark:text-slate-300">Skoroszyt zawiera kilka arkuszy. Wybierz ten z transakcjami:</p>
+    {sheets.map((sheet, index) => (
+      <button
+        key={index}
+        onClick={() => onSelect(sheet)}
+        className="w-full text-left bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-4 hover:border-indigo-400 dark:hover:border-indigo-500 hover:bg-indigo-50/50 dark:hover:bg-indigo-900/20 transition-all group"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-bold text-slate-800 dark:text-white flex items-center gap-2"><FileSpreadsheet size={16} className="text-emerald-500" /> {sheet.name}</span>
+          <span className="text-xs text-slate-400 flex items-center gap-1">{sheet.rows.length} wierszy <ArrowRight size={14} className="group-hover:text-indigo-500" /></span>
+        </div>
+        <div className="text-[11px] font-mono text-slate-500 dark:text-slate-400 space-y-0.5 overflow-hidden">
+          {sheet.rows.slice(0, 3).map((row, i) => (
+            <div key={i} className="truncate">{row.filter(Boolean).join(' | ')}</div>
+          ))}
+        </div>
+      </button>
+    ))}
+  </div>
+);
+
 // --- STEP 2: DECISION (Append vs Replace) ---
 interface StepDecisionProps {
   onDecision: (mode: 'APPEND' | 'REPLACE') => void;
@@ -54,6 +124,211 @@ export const StepDecision: React.FC<StepDecisionProps> = ({ onDecision }) => {
   );
 };
 
+// --- STEP 3a: BANK STATEMENT - OFX/QFX, MT940, CAMT.053 (zamiast mapowania) ---
+interface StepStatementProps {
+  statement: BankStatement;
+  accounts: Account[];
+  accountId: string;
+  setAccountId: (val: string) => void;
+  onNext: () => void;
+}
+export const StepStatement: React.FC<StepStatementProps> = ({ statement, accounts, accountId, setAccountId, onNext }) => {
+  const { entries } = statement;
+  const dates = entries.map(t => t.date).sort();
+  const account = accounts.find(a => a.id === accountId);
+  const isCurrencyMismatch = !!statement.currency && !!account && getCurrency(account) !== statement.currency;
+  const formatter = getCurrencyFormatter(statement.currency);
+  const totalIn = entries.filter(t => t.amount > 0).reduce((acc, t) => acc + t.amount, 0);
+  const totalOut = entries.filter(t => t.amount < 0).reduce((acc, t) => acc - t.amount, 0);
+  const hasExternalIds = entries.some(t => t.externalId);
+
+  return (
+    <div className="max-w-xl mx-auto space-y-4 pt-4">
+      <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-5 space-y-3">
+        <div className="flex items-center gap-2 font-bold text-slate-800 dark:text-white">
+          <FileText size={18} className="text-indigo-500" /> Wyciąg {STATEMENT_FORMAT_LABELS[statement.format]}
+          {statement.bankAccountId && <span className="font-mono text-xs font-normal text-slate-400">{statement.bankAccountId}</span>}
+        </div>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div>
+            <div className="text-xs text-slate-400">Transakcje</div>
+            <div className="font-semibold text-slate-800 dark:text-slate-200">{entries.length}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Okres</div>
+            <div className="font-semibold text-slate-800 dark:text-slate-200">
+              {dates.length > 0 ? `${new Date(dates[0]).toLocaleDateString('pl-PL')} – ${new Date(dates[dates.length - 1]).toLocaleDateString('pl-PL')}` : '-'}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Wpływy</div>
+            <div className="font-semibold text-green-600 dark:text-green-400">{formatter.format(totalIn)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Wydatki</div>
+            <div className="font-semibold text-slate-800 dark:text-slate-200">{formatter.format(totalOut)}</div>
+          </div>
+          {statement.closingBalance !== undefined && (
+            <div className="col-span-2">
+              <div className="text-xs text-slate-400">Saldo końcowe wyciągu</div>
+              <div className="font-semibold text-slate-800 dark:text-slate-200">{formatter.format(statement.closingBalance)}</div>
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-slate-400 dark:text-slate-500">
+          {hasExternalIds
+            ? 'Duplikaty są rozpoznawane po identyfikatorze transakcji banku (FITID).'
+            : 'Duplikaty są rozpoznawane po dacie, kwocie i opisie.'}
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl divide-y divide-slate-100 dark:divide-slate-700">
+        {entries.slice(0, 5).map((entry, i) => (
+          <div key={i} className="flex items-center justify-between gap-3 px-4 py-2 text-xs">
+            <div className="min-w-0">
+              <div className="text-slate-800 dark:text-slate-200 truncate">{entry.description}</div>
+              <div className="text-slate-400 truncate">
+                {new Date(entry.date).toLocaleDateString('pl-PL')}
+                {entry.counterpartyIban && <span className="font-mono"> • {entry.counterpartyIban}</span>}
+              </div>
+            </div>
+            <span className={`font-semibold whitespace-nowrap ${entry.amount > 0 ? 'text-green-600 dark:text-green-400' : 'text-slate-700 dark:text-slate-300'}`}>
+              {formatter.format(entry.amount)}
+            </span>
+          </div>
+        ))}
+        {entries.length > 5 && (
+          <div className="px-4 py-2 text-[10px] text-slate-400 text-center">i {entries.length - 5} więcej...</div>
+        )}
+      </div>
+
+      {accounts.length > 1 && (
+        <div className="flex items-center gap-2">
+          <Wallet size={16} className="text-slate-500 dark:text-slate-400" />
+          <label className="text-sm text-slate-700 dark:text-slate-300 font-medium">Konto:</label>
+          <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="flex-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+          >
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      {isCurrencyMismatch && (
+        <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-lg p-3">
+          <AlertTriangle size={14} className="shrink-0 mt-px" />
+          Wyciąg jest w walucie {statement.currency}, a wybrane konto w {getCurrency(account!)}. Transakcje otrzymają walutę konta.
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={onNext} disabled={entries.length === 0}>
+          Dalej <ArrowRight size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// --- STEP 3b: PLAIN-TEXT JOURNAL - ledger, hledger, beancount (zamiast mapowania) ---
+interface StepJournalProps {
+  journal: ParsedJournal;
+  journalAccount: string;
+  setJournalAccount: (val: string) => void;
+  result: JournalImportResult;
+  accounts: Account[];
+  accountId: string;
+  setAccountId: (val: string) => void;
+  onNext: () => void;
+}
+export const StepJournal: React.FC<StepJournalProps> = ({ journal, journalAccount, setJournalAccount, result, accounts, accountId, setAccountId, onNext }) => {
+  const { items } = result;
+  const account = accounts.find(a => a.id === accountId);
+  const commodities = journal.assetAccounts.find(a => a.name === journalAccount)?.commodities || [];
+  const isCurrencyMismatch = !!account && commodities.some(c => c !== getCurrency(account));
+  const formatter = getCurrencyFormatter(account ? getCurrency(account) : undefined);
+
+  return (
+    <div className="max-w-xl mx-auto space-y-4 pt-4">
+      <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-5 space-y-3">
+        <div className="flex items-center gap-2 font-bold text-slate-800 dark:text-white">
+          <FileText size={18} className="text-indigo-500" /> {journal.format === 'QIF' ? 'Plik' : 'Dziennik'} {JOURNAL_FORMAT_LABELS[journal.format]}
+          <span className="text-xs font-normal text-slate-400">{journal.transactions.length} transakcji</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <label className="text-slate-700 dark:text-slate-300 font-medium shrink-0">Konto w pliku:</label>
+          <select
+              value={journalAccount}
+              onChange={(e) => setJournalAccount(e.target.value)}
+              className="flex-1 min-w-0 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm font-mono focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+          >
+              {journal.assetAccounts.map(a => <option key={a.name} value={a.name}>{a.name} ({a.count})</option>)}
+          </select>
+        </div>
+        <p className="text-xs text-slate-400 dark:text-slate-500">
+          {journal.format === 'QIF'
+            ? 'Kategorie QIF (Kategoria:Podkategoria) i linie podziału stają się kategoriami i podkategoriami.'
+            : <>Pozycje na kontach <span className="font-mono">Expenses:</span>, <span className="font-mono">Income:</span> i <span className="font-mono">Assets:</span> stają się kategoriami i podkategoriami.</>}
+          {result.transferCount > 0 && ` Przelewy na inne konta aplikacji (${result.transferCount}) zostaną zaimportowane jako przelewy własne.`}
+          {result.skippedOther > 0 && ` Pominięto inne pozycje (np. Equity): ${result.skippedOther}.`}
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl divide-y divide-slate-100 dark:divide-slate-700">
+        {items.slice(0, 5).map(item => (
+          <div key={item.id} className="flex items-center justify-between gap-3 px-4 py-2 text-xs">
+            <div className="min-w-0">
+              <div className="text-slate-800 dark:text-slate-200 truncate">{item.description}</div>
+              <div className="text-slate-400 truncate">
+                {new Date(item.date).toLocaleDateString('pl-PL')} • {item.categoryName}{item.subcategoryName ? ` › ${item.subcategoryName}` : ''}
+                {item.tags && <span> • {item.tags.map((t: string) => `#${t}`).join(' ')}</span>}
+              </div>
+            </div>
+            <span className={`font-semibold whitespace-nowrap ${item.type === TransactionType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-slate-700 dark:text-slate-300'}`}>
+              {item.type === TransactionType.INCOME ? '+' : '-'}{formatter.format(item.amount)}
+            </span>
+          </div>
+        ))}
+        {items.length === 0 && (
+          <div className="px-4 py-3 text-xs text-slate-400 text-center">Brak transakcji do zaimportowania z tego konta.</div>
+        )}
+        {items.length > 5 && (
+          <div className="px-4 py-2 text-[10px] text-slate-400 text-center">i {items.length - 5} więcej...</div>
+        )}
+      </div>
+
+      {accounts.length > 1 && (
+        <div className="flex items-center gap-2">
+          <Wallet size={16} className="text-slate-500 dark:text-slate-400" />
+          <label className="text-sm text-slate-700 dark:text-slate-300 font-medium">Konto:</label>
+          <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="flex-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+          >
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      {isCurrencyMismatch && (
+        <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-lg p-3">
+          <AlertTriangle size={14} className="shrink-0 mt-px" />
+          Konto w dzienniku ma kwoty w {commodities.join(', ')}, a wybrane konto w {getCurrency(account!)}. Transakcje otrzymają walutę konta.
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={onNext} disabled={items.length === 0}>
+          Dalej <ArrowRight size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 // --- STEP 3: MAPPING ---
 interface StepMapProps {
   rawFile: string[][];
@@ -63,11 +338,28 @@ interface StepMapProps {
   setHasHeader: (val: boolean) => void;
   dateFormat: DateFormat;
   setDateFormat: (val: DateFormat) => void;
+  amountOptions: AmountOptions;
+  setAmountOptions: (val: AmountOptions) => void;
+  accounts: Account[];
+  accountId: string;
+  setAccountId: (val: string) => void;
+  activeProfile: ImportProfile | null;
+  onSaveProfile: (name: string) => void;
   onNext: () => void;
 }
 export const StepMap: React.FC<StepMapProps> = ({ 
-    rawFile, mappings, setMappings, hasHeader, setHasHeader, dateFormat, setDateFormat, onNext 
+    rawFile, mappings, setMappings, hasHeader, setHasHeader, dateFormat, setDateFormat, amountOptions, setAmountOptions,
+    accounts, accountId, setAccountId, activeProfile, onSaveProfile, onNext 
 }) => {
+  const [profileName, setProfileName] = useState('');
+  const [isProfileSaved, setIsProfileSaved] = useState(false);
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    onSaveProfile(profileName.trim());
+    setIsProfileSaved(true);
+  };
+
   return (
     <div className="space-y-4">
        <div className="bg-slate-100 dark:bg-slate-700/50 p-3 rounded-xl flex flex-wrap items-center gap-4 border border-slate-200 dark:border-slate-700">
@@ -100,6 +392,52 @@ export const StepMap: React.FC<StepMapProps> = ({
                   <option value="MM-DD-YYYY">MM-DD-YYYY</option>
               </select>
           </div>
+
+          <div className="w-px h-6 bg-slate-300 dark:bg-slate-600 hidden sm:block"></div>
+
+          <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-700 dark:text-slate-300 font-medium">Separator dziesiętny:</label>
+              <select 
+                  value={amountOptions.decimalSeparator}
+                  onChange={(e) => setAmountOptions({ ...amountOptions, decimalSeparator: e.target.value as AmountOptions['decimalSeparator'] })}
+                  className="bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+              >
+                  <option value=",">przecinek (1234,56)</option>
+                  <option value=".">kropka (1,234.56)</option>
+              </select>
+          </div>
+
+          <div className="flex items-center gap-2 px-1">
+            <input 
+              type="checkbox" 
+              id="invertSigns" 
+              checked={amountOptions.invertSigns} 
+              onChange={(e) => setAmountOptions({ ...amountOptions, invertSigns: e.target.checked })} 
+              className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500 cursor-pointer bg-white dark:bg-slate-800 accent-indigo-600"
+              style={{ colorScheme: 'light' }}
+            />
+            <label htmlFor="invertSigns" className="text-sm text-slate-700 dark:text-slate-300 font-medium select-none cursor-pointer">
+              Odwróć znaki kwot
+            </label>
+          </div>
+
+          {accounts.length > 1 && (
+            <>
+              <div className="w-px h-6 bg-slate-300 dark:bg-slate-600 hidden sm:block"></div>
+
+              <div className="flex items-center gap-2 animate-fade-in">
+                  <Wallet size={16} className="text-slate-500 dark:text-slate-400" />
+                  <label className="text-sm text-slate-700 dark:text-slate-300 font-medium">Konto:</label>
+                  <select 
+                      value={accountId}
+                      onChange={(e) => setAccountId(e.target.value)}
+                      className="bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+                  >
+                      {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+              </div>
+            </>
+          )}
        </div>
       
       <div className="bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl overflow-x-auto mb-2">
@@ -118,7 +456,14 @@ export const StepMap: React.FC<StepMapProps> = ({
                     <option value="date">Data</option>
                     <option value="description">Opis</option>
                     <option value="amount">Kwota</option>
+                    <option value="debit">Obciążenia (wydatki)</option>
+                    <option value="credit">Uznania (wpływy)</option>
+                    <option value="direction">Kierunek (D/C)</option>
                     <option value="category">Kategoria</option>
+                    <option value="subcategory">Podkategoria</option>
+                    <option value="tags">Tagi</option>
+                    <option value="account">Konto</option>
+                    <option value="currency">Waluta</option>
                   </select>
                 </th>
               ))}
@@ -153,7 +498,34 @@ export const StepMap: React.FC<StepMapProps> = ({
           </p>
       )}
       
-      <div className="flex justify-end pt-4">
+      <div className="flex flex-wrap justify-between items-center gap-3 pt-4">
+         <div className="flex items-center gap-2 text-sm">
+            {activeProfile && (
+               <span className="flex items-center gap-1 text-xs font-medium bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-2 py-1 rounded-lg">
+                  <Bookmark size={12} /> Profil: {activeProfile.name}
+               </span>
+            )}
+            {isProfileSaved ? (
+               <span className="text-xs text-green-600 dark:text-green-400 flex items-center gap-1"><Check size={12} /> Zapisano profil "{profileName}"</span>
+            ) : (
+               <>
+                  <input
+                     type="text"
+                     value={profileName}
+                     onChange={(e) => setProfileName(e.target.value)}
+                     placeholder="Nazwa profilu (np. mój bank)"
+                     className="border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-xs bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                  <button
+                     onClick={handleSaveProfile}
+                     disabled={!profileName.trim()}
+                     className="text-xs px-2 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 flex items-center gap-1"
+                  >
+                     <Bookmark size={12} /> Zapisz jako profil
+                  </button>
+               </>
+            )}
+         </div>
          <Button onClick={onNext}>Dalej <ArrowRight size={16}/></Button>
       </div>
     </div>
@@ -223,6 +595,101 @@ export const StepCorrection: React.FC<StepCorrectionProps> = ({
   );
 };
 
+// --- STEP 4b: DUPLICATE REVIEW ---
+interface StepDuplicatesProps {
+  duplicates: DuplicateCandidate[];
+  setDuplicates: React.Dispatch<React.SetStateAction<DuplicateCandidate[]>>;
+  categories: CategoryItem[];
+  onConfirm: () => void;
+}
+
+const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  KEEP: 'Zachowaj',
+  SKIP: 'Pomiń',
+  MERGE: 'Scal'
+};
+
+export const StepDuplicates: React.FC<StepDuplicatesProps> = ({ duplicates, setDuplicates, categories, onConfirm }) => {
+  const setAction = (importId: string, action: DuplicateAction) => {
+    setDuplicates(prev => prev.map(d => d.importId === importId ? { ...d, action } : d));
+  };
+
+  const setAll = (action: DuplicateAction) => {
+    setDuplicates(prev => prev.map(d => ({ ...d, action })));
+  };
+
+  const getCategoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Inne';
+  const counts = duplicates.reduce((acc, d) => ({ ...acc, [d.action]: acc[d.action] + 1 }), { KEEP: 0, SKIP: 0, MERGE: 0 } as Record<DuplicateAction, number>);
+
+  return (
+     <div className="space-y-4">
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800/50 rounded-xl p-4 mb-6">
+           <h3 className="font-bold text-amber-900 dark:text-amber-300 flex items-center gap-2"><Copy size={16}/> Te wiersze mogą już być w historii</h3>
+           <p className="text-sm text-amber-700 dark:text-amber-400 mt-1">
+              Ta sama kwota na tym samym koncie, data w odstępie do kilku dni i podobny opis.
+              "Pomiń" nie importuje wiersza, "Scal" zostawia istniejącą transakcję i uzupełnia ją o dane z banku, "Zachowaj" dodaje go jako nową transakcję.
+           </p>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 text-xs">
+           {(['SKIP', 'MERGE', 'KEEP'] as DuplicateAction[]).map(action => (
+              <button key={action} onClick={() => setAll(action)} className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+                 {DUPLICATE_ACTION_LABELS[action]} wszystkie
+              </button>
+           ))}
+        </div>
+
+        <div className="space-y-3">
+           {duplicates.map(d => (
+              <div key={d.importId} className={`bg-white dark:bg-slate-800 border rounded-xl p-4 transition-all ${d.action === 'KEEP' ? 'border-slate-100 dark:border-slate-700' : 'border-amber-200 dark:border-amber-800 shadow-sm'}`}>
+                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                    <div className="min-w-0">
+                       <div className="text-[10px] font-bold uppercase text-slate-400 mb-1">Importowana</div>
+                       <div className="flex justify-between gap-2">
+                          <span className="text-xs text-slate-400 dark:text-slate-500 font-mono">{new Date(d.imported.date).toLocaleDateString()}</span>
+                          <span className="font-bold text-sm text-slate-800 dark:text-slate-200">{getCurrencyFormatter(d.existing.currency).format(d.imported.amount)}</span>
+                       </div>
+                       <div className="text-sm text-slate-700 dark:text-slate-300 truncate" title={d.imported.description}>{d.imported.description}</div>
+                    </div>
+                    <div className="min-w-0 sm:border-l sm:pl-3 border-slate-100 dark:border-slate-700">
+                       <div className="text-[10px] font-bold uppercase text-slate-400 mb-1">Istniejąca · {getCategoryName(d.existing.categoryId)}</div>
+                       <div className="flex justify-between gap-2">
+                          <span className="text-xs text-slate-400 dark:text-slate-500 font-mono">{new Date(d.existing.date).toLocaleDateString()}</span>
+                          <span className="font-bold text-sm text-slate-800 dark:text-slate-200">{getCurrencyFormatter(d.existing.currency).format(d.existing.amount)}</span>
+                       </div>
+                       <div className="text-sm text-slate-700 dark:text-slate-300 truncate" title={d.existing.description}>{d.existing.description}</div>
+                    </div>
+                 </div>
+                 <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-xs text-slate-500 dark:text-slate-400">
+                       Zgodność <span className="font-bold text-amber-600 dark:text-amber-400">{Math.round(d.score * 100)}%</span>
+                       {' · '}{d.dayDiff === 0 ? 'ta sama data' : `różnica ${d.dayDiff} dn.`}
+                       {' · '}opis {Math.round(d.descriptionSimilarity * 100)}%
+                    </span>
+                    <div className="flex rounded-lg border border-slate-200 dark:border-slate-600 overflow-hidden text-xs">
+                       {(['KEEP', 'SKIP', 'MERGE'] as DuplicateAction[]).map(action => (
+                          <button
+                             key={action}
+                             onClick={() => setAction(d.importId, action)}
+                             className={`px-3 py-1 transition-colors ${d.action === action ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                          >
+                             {DUPLICATE_ACTION_LABELS[action]}
+                          </button>
+                       ))}
+                    </div>
+                 </div>
+              </div>
+           ))}
+        </div>
+        <div className="flex justify-end pt-4 border-t border-slate-100 dark:border-slate-700 mt-4">
+           <Button onClick={onConfirm} className="w-full sm:w-auto">
+              Dalej (pominięte: {counts.SKIP}, scalone: {counts.MERGE}, zachowane: {counts.KEEP})
+           </Button>
+        </div>
+     </div>
+  );
+};
+
 // --- STEP 5: GROUPING ---
 interface StepGroupProps {
   detectedGroups: GroupedTransaction[];
@@ -252,11 +719,18 @@ export const StepGroup: React.FC<StepGroupProps> = ({
     setDetectedGroups(prev => prev.map(g => g.signature === sig ? { ...g, currentSubcategoryName: subName } : g));
   };
 
+  const handleApplySuggestion = (sig: string, suggestion: CategorySuggestion) => {
+    const cat = categories.find(c => c.id === suggestion.categoryId);
+    if (!cat) return;
+    const subName = cat.subcategories.find(s => s.id === suggestion.subcategoryId)?.name || 'Inne';
+    setDetectedGroups(prev => prev.map(g => g.signature === sig ? { ...g, currentCategoryName: cat.name, currentSubcategoryName: subName, enabled: true } : g));
+  };
+
   return (
      <div className="space-y-4">
         <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800/50 rounded-xl p-4 mb-6">
            <h3 className="font-bold text-indigo-900 dark:text-indigo-300 flex items-center gap-2"><Sparkles size={16}/> Wykryto powtarzalne transakcje</h3>
-           <p className="text-sm text-indigo-700 dark:text-indigo-400 mt-1">Możesz przypisać kategorię do całych grup transakcji jednocześnie.</p>
+           <p className="text-sm text-indigo-700 dark:text-indigo-400 mt-1">Możesz przypisać kategorię do całych grup transakcji jednocześnie. Podpowiedzi (z pewnością w %) pochodzą z Twojej dotychczasowej historii.</p>
         </div>
         
         <div className="space-y-3">
@@ -270,6 +744,26 @@ export const StepGroup: React.FC<StepGroupProps> = ({
                           <span className="text-xs text-slate-400 dark:text-slate-500 italic truncate max-w-[200px]">"{group.example}"</span>
                        </div>
                        <h4 className="font-bold text-slate-800 dark:text-slate-200 text-sm mb-3">"{group.signature.toUpperCase()}"...</h4>
+
+                       {group.suggestions && group.suggestions.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1.5 mb-3">
+                             <Sparkles size={12} className="text-amber-500 shrink-0" />
+                             {group.suggestions.map(s => {
+                                const cat = categories.find(c => c.id === s.categoryId);
+                                const subName = cat?.subcategories.find(sub => sub.id === s.subcategoryId)?.name;
+                                const isSelected = group.enabled && cat?.name === group.currentCategoryName && (subName || 'Inne') === group.currentSubcategoryName;
+                                return (
+                                   <button
+                                      key={`${s.categoryId}-${s.subcategoryId || ''}`}
+                                      onClick={() => handleApplySuggestion(group.signature, s)}
+                                      className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${isSelected ? 'bg-amber-100 dark:bg-amber-900/40 border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-300' : 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20'}`}
+                                   >
+                                      {cat?.name}{subName ? ` › ${subName}` : ''} <span className="opacity-60">{Math.round(s.confidence * 100)}%</span>
+                                   </button>
+                                );
+                             })}
+                          </div>
+                       )}
                        
                        {group.enabled && (
                           <div className="flex gap-2">
@@ -309,12 +803,184 @@ export const StepGroup: React.FC<StepGroupProps> = ({
   );
 };
 
+// --- STEP 5b: TRANSFER PAIRS ---
+interface StepTransfersProps {
+  pairs: TransferCandidate[];
+  setPairs: React.Dispatch<React.SetStateAction<TransferCandidate[]>>;
+  accounts: Account[];
+  sourceAccountId: string;
+  onConfirm: () => void;
+}
+export const StepTransfers: React.FC<StepTransfersProps> = ({
+    pairs, setPairs, accounts, sourceAccountId, onConfirm
+}) => {
+  const updatePair = (id: string, changes: Partial<TransferCandidate>) => {
+    setPairs(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const sourceAccount = accounts.find(a => a.id === sourceAccountId);
+  const formatter = getCurrencyFormatter(sourceAccount ? getCurrency(sourceAccount) : undefined);
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || '?';
+  const enabledCount = pairs.filter(p => p.enabled && p.counterAccountId).length;
+
+  return (
+     <div className="space-y-4">
+        <div className="bg-sky-50 dark:bg-sky-900/20 border border-sky-100 dark:border-sky-800/50 rounded-xl p-4 mb-6">
+           <h3 className="font-bold text-sky-900 dark:text-sky-300 flex items-center gap-2"><ArrowRightLeft size={16}/> Wykryto możliwe przelewy własne</h3>
+           <p className="text-sm text-sky-700 dark:text-sky-400 mt-1">
+              Wiersze wyciągu zostają na koncie "{sourceAccount?.name}". Zaznaczone zostaną połączone w przelew z transakcją
+              o tej samej kwocie na innym koncie albo - gdy jej brak - na wybranym koncie powstanie druga noga przelewu.
+              Przelewy nie są liczone jako wydatek ani przychód.
+           </p>
+        </div>
+
+        <div className="space-y-3">
+           {pairs.map((pair) => {
+              const counterName = pair.counterAccountId ? accountName(pair.counterAccountId) : 'wybierz konto';
+              return (
+              <div key={pair.id} className={`bg-white dark:bg-slate-800 border rounded-xl p-4 transition-all ${pair.enabled ? 'border-sky-200 dark:border-sky-800 shadow-sm' : 'border-slate-100 dark:border-slate-700 opacity-60'}`}>
+                 <div className="flex items-start gap-3">
+                    <input type="checkbox" checked={pair.enabled} onChange={() => updatePair(pair.id, { enabled: !pair.enabled })} className="mt-1 w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-sky-600 focus:ring-sky-500 bg-white dark:bg-slate-700" />
+                    <div className="flex-1 min-w-0">
+                       <div className="flex justify-between mb-1">
+                          <span className="text-xs text-slate-400 dark:text-slate-500 font-mono">{new Date(pair.date).toLocaleDateString()}</span>
+                          <span className="font-bold text-sm text-slate-800 dark:text-slate-200">{formatter.format(pair.amount)}</span>
+                       </div>
+                       <div className="text-xs text-slate-600 dark:text-slate-300 truncate">{pair.itemDescription}</div>
+                       <div className="text-xs text-sky-700 dark:text-sky-400 mt-1">
+                          {pair.isOutgoing ? `${sourceAccount?.name} → ${counterName}` : `${counterName} → ${sourceAccount?.name}`}
+                       </div>
+                       {pair.counterpartId ? (
+                          <div className="text-xs text-slate-400 dark:text-slate-500 truncate">Druga noga: {pair.counterpartDescription}</div>
+                       ) : (
+                          <div className="flex items-center gap-2 mt-2">
+                             <Wallet size={14} className="text-slate-400" />
+                             <span className="text-xs text-slate-500 dark:text-slate-400">Utwórz drugą nogę na koncie</span>
+                             <select
+                                value={pair.counterAccountId}
+                                onChange={(e) => updatePair(pair.id, { counterAccountId: e.target.value, enabled: !!e.target.value })}
+                                className="ml-auto text-xs border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-1 bg-slate-50 dark:bg-slate-900 focus:ring-1 focus:ring-indigo-500 text-slate-900 dark:text-white"
+                             >
+                                <option value="">—</option>
+                                {accounts.filter(a => a.id !== sourceAccountId).map(a => (
+                                   <option key={a.id} value={a.id}>{a.name}</option>
+                                ))}
+                             </select>
+                          </div>
+                       )}
+                    </div>
+                 </div>
+              </div>
+              );
+           })}
+        </div>
+        <div className="flex justify-end pt-4 border-t border-slate-100 dark:border-slate-700 mt-4">
+           <Button onClick={onConfirm} className="w-full sm:w-auto">
+              {enabledCount > 0 ? `Połącz ${enabledCount} par(y) i kontynuuj` : 'Pomiń i kontynuuj'}
+           </Button>
+        </div>
+     </div>
+  );
+};
+
+// --- STEP 6a: BACKUP PASSPHRASE (zaszyfrowana kopia) ---
+interface StepBackupPassphraseProps {
+  fileName?: string;
+  onDecrypt: (passphrase: string) => Promise<void>;
+}
+
+export const StepBackupPassphrase: React.FC<StepBackupPassphraseProps> = ({ fileName, onDecrypt }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+     e.preventDefault();
+     if (!passphrase) return;
+     setIsDecrypting(true);
+     setError('');
+     try {
+        await onDecrypt(passphrase);
+     } catch (err) {
+        setError(err instanceof Error ? err.message : 'Nie udało się odszyfrować kopii.');
+     } finally {
+        setIsDecrypting(false);
+     }
+  };
+
+  return (
+      <form onSubmit={handleSubmit} className="max-w-sm mx-auto text-center space-y-6 pt-6">
+         <div className="w-16 h-16 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full flex items-center justify-center mx-auto">
+            <Lock size={32} />
+         </div>
+
+         <div>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Kopia chroniona hasłem</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+               {fileName && <><span className="font-mono font-medium">{fileName}</span><br/></>}
+               Podaj hasło użyte przy eksporcie. Odszyfrowanie może potrwać kilka sekund.
+            </p>
+         </div>
+
+         <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Hasło"
+            autoComplete="current-password"
+            autoFocus
+            className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+         />
+
+         {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg text-sm flex items-center gap-2 text-left">
+               <AlertTriangle size={16} className="shrink-0" /> {error}
+            </div>
+         )}
+
+         <Button type="submit" disabled={!passphrase} isLoading={isDecrypting} className="w-full">
+            Odszyfruj
+         </Button>
+      </form>
+  );
+};
+
 // --- STEP 6: BACKUP CONFIRM ---
+/** Ile błędnych rekordów wypisujemy w raporcie (reszta jako licznik). */
+const MAX_LISTED_BACKUP_ISSUES = 20;
+
+type BackupRestoreMode = 'REPLACE' | 'MERGE';
+
 interface StepBackupProps {
-  backupData: BackupData;
+  validatedBackup: ValidatedBackup;
+  mergePlan: BackupMergePlan | null;
   onRestore: () => void;
+  onPreviewMerge?: () => void; // Brak = tylko pełne przywrócenie
+  onMerge: () => void;
 }
-export const StepBackup: React.FC<StepBackupProps> = ({ backupData, onRestore }) => {
+export const StepBackup: React.FC<StepBackupProps> = ({ validatedBackup, mergePlan, onRestore, onPreviewMerge, onMerge }) => {
+  const { backup, issues, sourceVersion } = validatedBackup;
+  const [mode, setMode] = useState<BackupRestoreMode>('REPLACE');
+
+  const handleModeChange = (newMode: BackupRestoreMode) => {
+     setMode(newMode);
+     if (newMode === 'MERGE' && !mergePlan) onPreviewMerge?.();
+  };
+
+  const mergeRows = mergePlan ? [
+     { label: 'Nowe transakcje', value: mergePlan.transactions.length },
+     { label: 'Pominięte (już istnieją)', value: mergePlan.skippedTransactions },
+     { label: 'Nowe kategorie', value: mergePlan.newCategories.length, details: mergePlan.newCategories.map(c => c.name) },
+     { label: 'Kategorie dopasowane po nazwie', value: mergePlan.renamedMatches.length, details: mergePlan.renamedMatches.map(m => m.from === m.to ? m.to : `${m.from} → ${m.to}`) },
+     { label: 'Kategorie z nowymi podkategoriami', value: mergePlan.updatedCategories.length, details: mergePlan.updatedCategories.map(c => c.name) },
+     { label: 'Nowe konta', value: mergePlan.newAccounts.length, details: mergePlan.newAccounts.map(a => a.name) },
+     { label: 'Płatności cykliczne', value: mergePlan.recurringTransactions.length },
+     { label: 'Reguły', value: mergePlan.rules.length },
+     { label: 'Profile importu', value: mergePlan.importProfiles.length },
+     { label: 'Kursy walut', value: mergePlan.exchangeRates.length },
+     { label: 'Tagi', value: mergePlan.newTags.length, details: mergePlan.newTags.map(t => `#${t}`) }
+  ].filter(row => row.value > 0) : [];
+
   return (
       <div className="max-w-md mx-auto text-center space-y-6 pt-6">
          <div className="w-16 h-16 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full flex items-center justify-center mx-auto">
@@ -325,31 +991,99 @@ export const StepBackup: React.FC<StepBackupProps> = ({ backupData, onRestore })
             <h3 className="text-xl font-bold text-slate-900 dark:text-white">Przywrócić kopię zapasowej?</h3>
             <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
                Wykryto pełną kopię zapasową bTrackr.<br/>
-               Data: <span className="font-mono font-medium">{new Date(backupData.timestamp).toLocaleString()}</span>
+               Data: <span className="font-mono font-medium">{new Date(backup.timestamp).toLocaleString()}</span>
             </p>
+            {sourceVersion < backup.version && (
+               <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+                  Kopia w starszym formacie (wersja {sourceVersion}) - zostanie zaktualizowana do wersji {backup.version}.
+               </p>
+            )}
          </div>
 
-         <div className="grid grid-cols-2 gap-4">
-            <div className="bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl p-4">
-               <div className="text-2xl font-bold text-slate-800 dark:text-white">{backupData.transactions.length}</div>
-               <div className="text-xs text-slate-400 dark:text-slate-500 uppercase font-bold">Transakcji</div>
+         {onPreviewMerge && (
+            <div className="flex bg-slate-50 dark:bg-slate-700 p-1 rounded-lg">
+               <button onClick={() => handleModeChange('REPLACE')} className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'REPLACE' ? 'bg-white dark:bg-slate-600 shadow-sm text-indigo-600 dark:text-indigo-300' : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'}`}>
+                  Zastąp wszystko
+               </button>
+               <button onClick={() => handleModeChange('MERGE')} className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'MERGE' ? 'bg-white dark:bg-slate-600 shadow-sm text-indigo-600 dark:text-indigo-300' : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'}`}>
+                  Scal z obecnymi danymi
+               </button>
             </div>
-            <div className="bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl p-4">
-               <div className="text-2xl font-bold text-slate-800 dark:text-white">{backupData.categories.length}</div>
-               <div className="text-xs text-slate-400 dark:text-slate-500 uppercase font-bold">Kategorii</div>
+         )}
+
+         {mode === 'REPLACE' ? (
+            <div className="grid grid-cols-2 gap-4">
+               <div className="bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-slate-800 dark:text-white">{backup.transactions.length}</div>
+                  <div className="text-xs text-slate-400 dark:text-slate-500 uppercase font-bold">Transakcji</div>
+               </div>
+               <div className="bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl p-4">
+                  <div className="text-2xl font-bold text-slate-800 dark:text-white">{backup.categories.length}</div>
+                  <div className="text-xs text-slate-400 dark:text-slate-500 uppercase font-bold">Kategorii</div>
+               </div>
             </div>
-         </div>
+         ) : !mergePlan ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-slate-500 dark:text-slate-400 py-6">
+               <RefreshCw size={16} className="animate-spin" /> Porównywanie z obecnymi danymi...
+            </div>
+         ) : (
+            <div className="bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl divide-y divide-slate-100 dark:divide-slate-700 text-left">
+               {mergeRows.length === 0 && (
+                  <p className="p-4 text-sm text-slate-500 dark:text-slate-400 text-center">Wszystkie dane z kopii są już w aplikacji.</p>
+               )}
+               {mergeRows.map(row => (
+                  <div key={row.label} className="px-4 py-2.5">
+                     <div className="flex justify-between text-sm">
+                        <span className="text-slate-600 dark:text-slate-300">{row.label}</span>
+                        <span className="font-bold text-slate-800 dark:text-white">{row.value}</span>
+                     </div>
+                     {row.details && (
+                        <p className="text-[11px] text-slate-400 dark:text-slate-500 truncate" title={row.details.join(', ')}>{row.details.join(', ')}</p>
+                     )}
+                  </div>
+               ))}
+            </div>
+         )}
 
-         <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/30 rounded-lg p-4 text-left flex gap-3">
-            <AlertTriangle className="text-amber-600 dark:text-amber-400 shrink-0" />
-            <p className="text-xs text-amber-800 dark:text-amber-300">
-               <strong>Uwaga:</strong> Przywrócenie kopii zastąpi WSZYSTKIE obecne dane.
-            </p>
-         </div>
+         {issues.length > 0 && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/30 rounded-lg p-4 text-left">
+               <p className="text-xs font-bold text-red-700 dark:text-red-300 mb-2">
+                  Błędne rekordy ({issues.length}) - nie zostaną przywrócone:
+               </p>
+               <ul className="text-[11px] text-red-700 dark:text-red-300 space-y-1 max-h-40 overflow-y-auto font-mono">
+                  {issues.slice(0, MAX_LISTED_BACKUP_ISSUES).map(issue => (
+                     <li key={`${issue.table}-${issue.index}`}>
+                        {BACKUP_TABLE_LABELS[issue.table]} #{issue.index + 1}{issue.id ? ` (${issue.id})` : ''}: {issue.messages.join('; ')}
+                     </li>
+                  ))}
+                  {issues.length > MAX_LISTED_BACKUP_ISSUES && <li>...i {issues.length - MAX_LISTED_BACKUP_ISSUES} więcej</li>}
+               </ul>
+            </div>
+         )}
 
-         <Button onClick={onRestore} className="w-full justify-center py-3">
-            Przywróć pełną kopię
-         </Button>
+         {mode === 'REPLACE' ? (
+            <>
+               <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/30 rounded-lg p-4 text-left flex gap-3">
+                  <AlertTriangle className="text-amber-600 dark:text-amber-400 shrink-0" />
+                  <p className="text-xs text-amber-800 dark:text-amber-300">
+                     <strong>Uwaga:</strong> Przywrócenie kopii zastąpi WSZYSTKIE obecne dane i ustawienia.
+                  </p>
+               </div>
+
+               <Button onClick={onRestore} className="w-full justify-center py-3">
+                  {issues.length > 0 ? `Przywróć bez ${issues.length} błędnych rekordów` : 'Przywróć pełną kopię'}
+               </Button>
+            </>
+         ) : (
+            <>
+               <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Obecne dane pozostaną bez zmian - kopia tylko uzupełni brakujące rekordy. Kategorie i konta są dopasowywane po identyfikatorze, a potem po nazwie.
+               </p>
+               <Button onClick={onMerge} disabled={!mergePlan} className="w-full justify-center py-3">
+                  {mergePlan ? `Scal (dodaj ${mergePlan.transactions.length} transakcji)` : 'Scal'}
+               </Button>
+            </>
+         )}
       </div>
   );
 };
@@ -0,0 +1,18 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+
+/**
+ * Ostrzeżenie o walutach bez kursu - takie transakcje nie są wliczane do sum i wykresów.
+ */
+export const MissingRatesNotice: React.FC = () => {
+  const { missingRateCurrencies } = useFinance();
+  if (missingRateCurrencies.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/30 rounded-lg p-3 flex gap-2 text-xs text-amber-800 dark:text-amber-300">
+      <AlertTriangle size={16} className="shrink-0" />
+      <span>Brak kursów dla: <strong>{missingRateCurrencies.join(', ')}</strong>. Transakcje w tych walutach nie są wliczone do podsumowań i wykresów - dodaj kursy w ustawieniach walut.</span>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Printer, ArrowUpCircle, ArrowDownCircle, Scale, PiggyBank } from 'lucide-react';
+import { Transaction, TransactionType, CategoryItem } from '../types';
+import { getCategoryName } from '../constants';
+import { StatCard } from './StatCard';
+import { Button } from './Button';
+import { StaticWaterfallChart } from './charts/StaticWaterfallChart';
+import { StaticSankeyChart } from './charts/StaticSankeyChart';
+import { PeriodType } from '../hooks/useAnalysisData';
+import { useFinance } from '../context/FinanceContext';
+import { calculateAnalysis } from '../utils/analysisEngine';
+import { buildPeriodReport, formatPeriodLabel } from '../utils/reportData';
+
+interface PrintableReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactions: Transaction[]; // Kwoty w walucie bazowej (jak w AnalysisView)
+  categories: CategoryItem[];
+  availableYears: number[];
+  // Stan filtrów analizy w chwili otwarcia raportu
+  periodType: PeriodType;
+  selectedYear: number;
+  periodValue: number;
+  selectedAccountId: string;
+  selectedTag: string;
+  isPrivateMode?: boolean;
+}
+
+const PERIOD_TYPES: { value: PeriodType, label: string }[] = [
+  { value: 'MONTH', label: 'Miesiąc' },
+  { value: 'QUARTER', label: 'Kwartał' },
+  { value: 'YEAR', label: 'Rok' },
+  { value: 'ALL', label: 'Cała historia' }
+];
+
+/**
+ * Raport okresowy przygotowany do druku (i zapisu do PDF z okna drukowania przeglądarki).
+ *
+ * Renderowany w portalu obok `#root` - na czas wydruku reszta aplikacji jest ukryta (style w index.html).
+ * Podgląd jest zawsze jasny: na czas otwarcia zdejmujemy klasę `dark`, aby wydruk wyglądał jak na ekranie.
+ */
+export const PrintableReport: React.FC<PrintableReportProps> = ({
+  isOpen, onClose, transactions, categories, availableYears,
+  periodType: initialPeriodType, selectedYear: initialYear, periodValue: initialPeriodValue,
+  selectedAccountId, selectedTag, isPrivateMode
+}) => {
+  const { accounts, formatCurrency } = useFinance();
+  const [periodType, setPeriodType] = useState<PeriodType>(initialPeriodType);
+  const [selectedYear, setSelectedYear] = useState(initialYear);
+  const [periodValue, setPeriodValue] = useState(initialPeriodValue);
+
+  // Każde otwarcie startuje od okresu wybranego w analizie
+  useEffect(() => {
+    if (!isOpen) return;
+    setPeriodType(initialPeriodType);
+    setSelectedYear(initialYear);
+    setPeriodValue(initialPeriodValue);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const root = window.document.documentElement;
+    const wasDark = root.classList.contains('dark');
+    root.classList.remove('dark');
+    document.body.classList.add('report-open');
+    return () => {
+      if (wasDark) root.classList.add('dark');
+      document.body.classList.remove('report-open');
+    };
+  }, [isOpen]);
+
+  const analysis = useMemo(() => isOpen ? calculateAnalysis({
+    transactions,
+    categories,
+    selectedYear,
+    periodType,
+    periodValue,
+    selectedTag,
+    selectedAccountId,
+    historyAggregation: 'MONTHLY',
+    yearAggregation: 'MONTHLY'
+  }) : null, [isOpen, transactions, categories, selectedYear, periodType, periodValue, selectedTag, selectedAccountId]);
+
+  const report = useMemo(
+    () => analysis ? buildPeriodReport(analysis.filteredTransactions, categories, periodType) : null,
+    [analysis, categories, periodType]
+  );
+
+  if (!isOpen || !analysis || !report) return null;
+
+  const { stats, waterfallData, filteredTransactions } = analysis;
+  const format = (value: number) => isPrivateMode ? '***' : formatCurrency(value);
+  const periodLabel = formatPeriodLabel(periodType, selectedYear, periodValue);
+  const filterLabels = [
+    selectedAccountId !== 'ALL' ? `Konto: ${accounts.find(a => a.id === selectedAccountId)?.name || '—'}` : null,
+    selectedTag !== 'ALL' ? `Tag: #${selectedTag}` : null
+  ].filter(Boolean).join(' · ');
+
+  const totalExpenses = report.categoryRows.reduce((sum, r) => sum + r.actual, 0);
+  const totalBudget = report.categoryRows.reduce((sum, r) => sum + (r.budget || 0), 0);
+
+  const handleTypeChange = (type: PeriodType) => {
+    setPeriodType(type);
+    if (type === 'QUARTER') setPeriodValue(Math.floor(new Date().getMonth() / 3) + 1);
+    if (type === 'MONTH') setPeriodValue(new Date().getMonth());
+  };
+
+  const sectionTitle = "text-sm font-bold uppercase tracking-wider text-slate-500 mb-3";
+  const th = "py-2 px-2 text-[11px] font-semibold uppercase text-slate-500 border-b border-slate-200";
+  const td = "py-1.5 px-2 border-b border-slate-100";
+
+  return createPortal(
+    <div className="print-report fixed inset-0 z-50 overflow-y-auto bg-slate-100 print:static print:overflow-visible print:bg-white">
+      {/* Pasek narzędzi - niewidoczny na wydruku */}
+      <div className="print:hidden sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-slate-200">
+        <div className="max-w-[210mm] mx-auto px-4 py-3 flex flex-wrap items-center gap-2">
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {PERIOD_TYPES.map(p => (
+              <button key={p.value} onClick={() => handleTypeChange(p.value)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${periodType === p.value ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+          {periodType !== 'ALL' && (
+            <select value={selectedYear} onChange={(e) => setSelectedYear(Number(e.target.value))} className="bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              {availableYears.map(year => <option key={year} value={year}>{year}</option>)}
+            </select>
+          )}
+          {(periodType === 'QUARTER' || periodType === 'MONTH') && (
+            <select value={periodValue} onChange={(e) => setPeriodValue(Number(e.target.value))} className="bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              {periodType === 'QUARTER' && [1, 2, 3, 4].map(q => <option key={q} value={q}>Q{q}</option>)}
+              {periodType === 'MONTH' && Array.from({ length: 12 }).map((_, i) => <option key={i} value={i}>{new Date(2000, i, 1).toLocaleDateString('pl-PL', { month: 'long' })}</option>)}
+            </select>
+          )}
+          <div className="ml-auto flex gap-2">
+            <Button onClick={() => window.print()} disabled={filteredTransactions.length === 0}>
+              <Printer size={16} /> Drukuj / PDF
+            </Button>
+            <Button variant="secondary" onClick={onClose}>
+              <X size={16} /> Zamknij
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Strona raportu (A4) */}
+      <div className="max-w-[210mm] mx-auto my-6 bg-white text-slate-900 shadow-lg p-10 space-y-8 print:my-0 print:p-0 print:shadow-none print:max-w-none">
+        <header className="flex justify-between items-end border-b-2 border-slate-900 pb-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-widest text-slate-400">bTrackr · Raport finansowy</p>
+            <h1 className="text-3xl font-bold capitalize mt-1">{periodLabel}</h1>
+            {filterLabels && <p className="text-sm text-slate-500 mt-1">{filterLabels}</p>}
+          </div>
+          <p className="text-xs text-slate-400 text-right">
+            Wygenerowano {new Date().toLocaleDateString('pl-PL')}<br />
+            {filteredTransactions.length} transakcji
+          </p>
+        </header>
+
+        {filteredTransactions.length === 0 ? (
+          <p className="text-center text-slate-400 py-16">Brak transakcji w wybranym okresie.</p>
+        ) : (
+          <>
+            <section className="grid grid-cols-2 gap-4 break-inside-avoid">
+              <StatCard label="Przychody" value={formatCurrency(stats.totalIncome)} icon={<ArrowUpCircle size={24} strokeWidth={1.5} />} colorClass="text-green-600" bgClass="bg-green-50" isPrivateMode={isPrivateMode} />
+              <StatCard label="Wydatki" value={formatCurrency(stats.totalExpenses)} icon={<ArrowDownCircle size={24} strokeWidth={1.5} />} colorClass="text-red-600" bgClass="bg-red-50" isPrivateMode={isPrivateMode} />
+              <StatCard label="Nadwyżka" value={formatCurrency(stats.balance)} icon={<Scale size={24} strokeWidth={1.5} />} colorClass={stats.balance < 0 ? 'text-red-600' : 'text-indigo-600'} bgClass="bg-indigo-50" isPrivateMode={isPrivateMode} />
+              <StatCard label="Oszczędności" value={formatCurrency(report.savings)} subValue={`Stopa oszczędności: ${stats.savingsRate.toFixed(1)}%`} icon={<PiggyBank size={24} strokeWidth={1.5} />} colorClass="text-emerald-600" bgClass="bg-emerald-50" isPrivateMode={isPrivateMode} />
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className={sectionTitle}>Bilans kaskadowy</h2>
+              <StaticWaterfallChart data={waterfallData} isPrivateMode={isPrivateMode} />
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className={sectionTitle}>Przepływ środków</h2>
+              <StaticSankeyChart transactions={filteredTransactions} categories={categories} isPrivateMode={isPrivateMode} />
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className={sectionTitle}>Wydatki wg kategorii {report.monthCount > 1 && <span className="normal-case font-normal">(budżet = limit miesięczny × {report.monthCount})</span>}</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={`${th} text-left`}>Kategoria</th>
+                    <th className={`${th} text-right`}>Wydano</th>
+                    <th className={`${th} text-right`}>Udział</th>
+                    <th className={`${th} text-right`}>Budżet</th>
+                    <th className={`${th} text-right`}>Realizacja</th>
+                    <th className={`${th} text-right`}>Pozostało</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.categoryRows.map(row => {
+                    const usage = row.budget ? (row.actual / row.budget) * 100 : null;
+                    return (
+                      <tr key={row.categoryId} className="break-inside-avoid">
+                        <td className={td}>
+                          <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 align-middle" style={{ backgroundColor: row.color }} />
+                          {row.name}
+                          {row.isSavings && <span className="ml-2 text-[10px] font-semibold uppercase text-blue-500">oszczędności</span>}
+                        </td>
+                        <td className={`${td} text-right font-medium`}>{format(row.actual)}</td>
+                        <td className={`${td} text-right text-slate-500`}>{row.share.toFixed(1)}%</td>
+                        <td className={`${td} text-right text-slate-500`}>{row.budget ? format(row.budget) : '—'}</td>
+                        <td className={`${td} text-right font-medium ${usage === null ? 'text-slate-300' : usage > 100 ? 'text-red-600' : usage > 75 ? 'text-amber-600' : 'text-emerald-600'}`}>
+                          {usage === null ? '—' : `${usage.toFixed(0)}%`}
+                        </td>
+                        <td className={`${td} text-right ${row.budget && row.budget < row.actual ? 'text-red-600' : 'text-slate-500'}`}>
+                          {row.budget ? format(row.budget - row.actual) : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr className="font-bold">
+                    <td className="py-2 px-2">Razem</td>
+                    <td className="py-2 px-2 text-right">{format(totalExpenses)}</td>
+                    <td />
+                    <td className="py-2 px-2 text-right">{totalBudget > 0 ? format(totalBudget) : '—'}</td>
+                    <td colSpan={2} />
+                  </tr>
+                </tfoot>
+              </table>
+            </section>
+
+            {report.incomeRows.length > 0 && (
+              <section className="break-inside-avoid">
+                <h2 className={sectionTitle}>Przychody wg kategorii</h2>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {report.incomeRows.map(row => (
+                      <tr key={row.categoryId}>
+                        <td className={td}>{row.name}</td>
+                        <td className={`${td} text-right text-slate-500 w-24`}>{row.share.toFixed(1)}%</td>
+                        <td className={`${td} text-right font-medium text-green-600 w-36`}>{format(row.actual)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            <div className="grid grid-cols-2 gap-8">
+              <section className="break-inside-avoid">
+                <h2 className={sectionTitle}>Ranking tagów</h2>
+                {report.topTags.length === 0 ? (
+                  <p className="text-sm text-slate-400">Brak otagowanych wydatków.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {report.topTags.map(tag => (
+                        <tr key={tag.name}>
+                          <td className={td}>#{tag.name}</td>
+                          <td className={`${td} text-right text-slate-500`}>{tag.percent.toFixed(1)}%</td>
+                          <td className={`${td} text-right font-medium`}>{format(tag.value)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className="break-inside-avoid">
+                <h2 className={sectionTitle}>Największe transakcje</h2>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {report.largestTransactions.map(t => (
+                      <tr key={t.id}>
+                        <td className={`${td} text-slate-500 whitespace-nowrap`}>{new Date(t.date).toLocaleDateString('pl-PL', { day: '2-digit', month: '2-digit' })}</td>
+                        <td className={td}>
+                          <div className="truncate max-w-[140px]">{t.description}</div>
+                          <div className="text-[10px] text-slate-400">{getCategoryName(t.categoryId, categories)}</div>
+                        </td>
+                        <td className={`${td} text-right font-medium whitespace-nowrap ${t.type === TransactionType.INCOME ? 'text-green-600' : 'text-slate-900'}`}>
+                          {t.type === TransactionType.INCOME ? '+' : '-'}{format(t.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </div>
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
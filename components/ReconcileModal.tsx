@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Account } from '../types';
+import { ReconcilePanel } from './ReconcilePanel';
+
+interface ReconcileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account: Account | null;
+}
+
+/**
+ * Ręczne uzgodnienie salda: użytkownik wpisuje saldo z wyciągu na wybrany dzień.
+ */
+export const ReconcileModal: React.FC<ReconcileModalProps> = ({ isOpen, onClose, account }) => {
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [balance, setBalance] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDate(new Date().toISOString().split('T')[0]);
+      setBalance('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !account) return null;
+
+  const statementBalance = parseFloat(balance.replace(',', '.'));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden transition-colors">
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-white dark:bg-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">Uzgodnij saldo: {account.name}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 bg-slate-50/50 dark:bg-slate-900/50">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Dzień wyciągu</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Saldo końcowe z wyciągu</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={balance}
+                onChange={(e) => setBalance(e.target.value)}
+                placeholder="np. 1234,56"
+                autoFocus
+                className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+              />
+            </div>
+          </div>
+
+          {date && !isNaN(statementBalance) ? (
+            <ReconcilePanel account={account} date={date} statementBalance={statementBalance} onDone={onClose} />
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Wpisz saldo z wyciągu, aby porównać je z historią.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
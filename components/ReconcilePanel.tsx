@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { CheckCircle2, AlertTriangle, Lock } from 'lucide-react';
+import { Account } from '../types';
+import { Button } from './Button';
+import { useFinance } from '../context/FinanceContext';
+import { getCurrencyFormatter } from '../constants';
+import { StatementEntry } from '../utils/bankStatement';
+import { ReconcileCandidate, RECONCILE_EPSILON, findReconcileCandidates, getAccountCurrenciesWithoutRates, getBalanceAtDate, getSignedAccountAmount, toDateKey } from '../utils/reconciliation';
+
+interface ReconcilePanelProps {
+  account: Account;
+  date: string; // YYYY-MM-DD
+  statementBalance: number;
+  entries?: StatementEntry[]; // Pozycje wyciągu (import) - dokładniejsze wskazanie braków
+  onDone: () => void;
+}
+
+/** Ile nieuzgodnionych transakcji pokazujemy do odhaczenia. */
+const OPEN_LIST_LIMIT = 50;
+
+/**
+ * Porównanie salda z wyciągu z saldem wyliczonym przez aplikację.
+ * Używany w kreatorze importu (krok RECONCILE) i w ustawieniach kont.
+ */
+export const ReconcilePanel: React.FC<ReconcilePanelProps> = ({ account, date, statementBalance, entries, onDone }) => {
+  const { transactions, rateTable, isPrivateMode, setReconcileStatus, completeReconciliation } = useFinance();
+  const formatter = getCurrencyFormatter(account.currency);
+  const format = (val: number) => isPrivateMode ? '***' : formatter.format(val);
+
+  const trackedBalance = useMemo(() => getBalanceAtDate(account, transactions, date, rateTable), [account, transactions, date, rateTable]);
+  const missingCurrencies = useMemo(
+    () => getAccountCurrenciesWithoutRates(account, transactions, date, rateTable),
+    [account, transactions, date, rateTable]
+  );
+  const difference = Math.round((statementBalance - trackedBalance) * 100) / 100;
+  const isBalanced = Math.abs(difference) < RECONCILE_EPSILON;
+
+  const candidates = useMemo(
+    () => findReconcileCandidates(account, transactions, date, difference, rateTable, entries),
+    [account, transactions, date, difference, rateTable, entries]
+  );
+
+  const openTransactions = useMemo(() => transactions
+    .filter(t => t.accountId === account.id && toDateKey(t.date) <= date && t.reconcileStatus !== 'RECONCILED')
+    .sort((a, b) => b.date.localeCompare(a.date)), [transactions, account.id, date]);
+  const clearedCount = openTransactions.filter(t => t.reconcileStatus === 'CLEARED').length;
+
+  const handleComplete = () => {
+    completeReconciliation({ accountId: account.id, date, statementBalance, trackedBalance });
+    onDone();
+  };
+
+  const renderCandidates = (title: string, items: ReconcileCandidate[]) => items.length > 0 && (
+    <div>
+      <h4 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-2">{title} ({items.length})</h4>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {items.map(c => (
+          <div key={c.key} className="flex items-center justify-between gap-3 text-sm px-3 py-2 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-lg">
+            <div className="min-w-0">
+              <div className="truncate text-slate-700 dark:text-slate-300">{c.description}</div>
+              <div className="text-[10px] text-slate-400">{new Date(c.date).toLocaleDateString()} · {c.reason}</div>
+            </div>
+            <span className={`font-mono font-semibold shrink-0 ${c.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{format(c.amount)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3">
+          <div className="text-[10px] text-slate-400 uppercase font-bold">Saldo z wyciągu</div>
+          <div className="text-lg font-bold text-slate-800 dark:text-white">{format(statementBalance)}</div>
+          <div className="text-[10px] text-slate-400">{account.name} · {new Date(`${date}T12:00:00`).toLocaleDateString()}</div>
+        </div>
+        <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3">
+          <div className="text-[10px] text-slate-400 uppercase font-bold">Saldo w bTrackr</div>
+          <div className="text-lg font-bold text-slate-800 dark:text-white">{format(trackedBalance)}</div>
+        </div>
+        <div className={`border rounded-xl p-3 ${isBalanced ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'}`}>
+          <div className="text-[10px] text-slate-400 uppercase font-bold">Różnica</div>
+          <div className={`text-lg font-bold flex items-center gap-1 ${isBalanced ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+            {isBalanced ? <CheckCircle2 size={18} /> : <AlertTriangle size={18} />} {format(difference)}
+          </div>
+        </div>
+      </div>
+
+      {missingCurrencies.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/30 rounded-lg p-3 flex gap-2 text-xs text-amber-800 dark:text-amber-300">
+          <AlertTriangle size={16} className="shrink-0" />
+          <span>Brak kursów dla: <strong>{missingCurrencies.join(', ')}</strong>. Takie transakcje nie są wliczone do salda - dodaj kursy w ustawieniach walut.</span>
+        </div>
+      )}
+
+      {renderCandidates('Możliwe brakujące', candidates.missing)}
+      {renderCandidates('Możliwe nadmiarowe', candidates.extra)}
+
+      <div>
+        <h4 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-2">
+          Nieuzgodnione transakcje · rozliczone {clearedCount} z {openTransactions.length}
+        </h4>
+        {openTransactions.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Wszystkie transakcje do tego dnia są już uzgodnione.</p>
+        ) : (
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {openTransactions.slice(0, OPEN_LIST_LIMIT).map(t => {
+              const amount = getSignedAccountAmount(t, account, rateTable);
+              return (
+                <label key={t.id} className="flex items-center gap-3 text-sm px-3 py-2 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-lg cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                  <input
+                    type="checkbox"
+                    checked={t.reconcileStatus === 'CLEARED'}
+                    onChange={(e) => setReconcileStatus([t.id], e.target.checked ? 'CLEARED' : undefined)}
+                    className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500 bg-white dark:bg-slate-700"
+                  />
+                  <span className="text-xs text-slate-400 font-mono shrink-0">{new Date(t.date).toLocaleDateString()}</span>
+                  <span className="flex-1 truncate text-slate-700 dark:text-slate-300">{t.description}</span>
+                  {amount === null ? (
+                    <span className="font-mono shrink-0 text-amber-600 dark:text-amber-400" title="Brak kursu - nie wliczono do salda">
+                      {isPrivateMode ? '***' : getCurrencyFormatter(t.currency).format(t.amount)}
+                    </span>
+                  ) : (
+                    <span className={`font-mono shrink-0 ${amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{format(amount)}</span>
+                  )}
+                </label>
+              );
+            })}
+            {openTransactions.length > OPEN_LIST_LIMIT && (
+              <p className="text-xs text-slate-400 text-center pt-1">...i {openTransactions.length - OPEN_LIST_LIMIT} starszych</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-end gap-2 pt-4 border-t border-slate-100 dark:border-slate-700">
+        <Button variant="secondary" onClick={onDone}>Zamknij bez uzgadniania</Button>
+        <Button onClick={handleComplete} disabled={!isBalanced} title={isBalanced ? undefined : 'Saldo musi się zgadzać'}>
+          <Lock size={16} /> Zakończ uzgodnienie
+        </Button>
+      </div>
+    </div>
+  );
+};
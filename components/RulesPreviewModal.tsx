@@ -0,0 +1,179 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, Check, Wand2, AlertCircle, ArrowRight } from 'lucide-react';
+import { Transaction, CategoryItem, CategorizationRule, TransactionType } from '../types';
+import { Button } from './Button';
+import { getCategoryColor, getCategoryName, getCurrencyFormatter, SYSTEM_IDS } from '../constants';
+import { previewRulesOnHistory } from '../utils/rulesEngine';
+
+interface RulesPreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: CategorizationRule[];
+  transactions: Transaction[];
+  categories: CategoryItem[];
+  onApply: (updated: Transaction[]) => void;
+}
+
+const CategoryBadge: React.FC<{ categoryId: string; categories: CategoryItem[] }> = ({ categoryId, categories }) => {
+  const color = getCategoryColor(categoryId, categories);
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium whitespace-nowrap" style={{ backgroundColor: `${color}20`, color }}>
+      {getCategoryName(categoryId, categories)}
+    </span>
+  );
+};
+
+/**
+ * Podgląd wsteczny reguł: pokazuje transakcje, które zmieniłyby się po zastosowaniu reguł,
+ * i pozwala wybrać, które zmiany zapisać.
+ */
+export const RulesPreviewModal: React.FC<RulesPreviewModalProps> = ({ isOpen, onClose, rules, transactions, categories, onApply }) => {
+  const [onlyUncategorized, setOnlyUncategorized] = useState(true);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  const rows = useMemo(() => {
+    if (!isOpen) return [];
+    const uncategorizedIds = onlyUncategorized ? [SYSTEM_IDS.OTHER_EXPENSE, SYSTEM_IDS.OTHER_INCOME] : undefined;
+    return previewRulesOnHistory(rules, transactions, uncategorizedIds)
+      .sort((a, b) => new Date(b.transaction.date).getTime() - new Date(a.transaction.date).getTime());
+  }, [isOpen, rules, transactions, onlyUncategorized]);
+
+  useEffect(() => {
+    if (isOpen) setExcludedIds(new Set());
+  }, [isOpen, onlyUncategorized]);
+
+  if (!isOpen) return null;
+
+  const selectedCount = rows.filter(r => !excludedIds.has(r.transaction.id)).length;
+
+  const toggleRow = (id: string) => {
+    const next = new Set(excludedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcludedIds(next);
+  };
+
+  const handleApply = () => {
+    onApply(rows.filter(r => !excludedIds.has(r.transaction.id)).map(r => r.updated));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden transition-colors">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-white dark:bg-slate-800">
+          <div className="flex items-center gap-2">
+            <div className="bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 p-2 rounded-lg">
+              <Wand2 size={20} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800 dark:text-white">Zastosuj reguły do historii</h2>
+              <p className="text-xs text-slate-400 dark:text-slate-500">Sprawdź zmiany przed zapisaniem</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 bg-slate-50 dark:bg-slate-900 border-b border-slate-100 dark:border-slate-700">
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer w-fit">
+            <input
+              type="checkbox"
+              checked={onlyUncategorized}
+              onChange={(e) => setOnlyUncategorized(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500 accent-indigo-600"
+            />
+            Tylko transakcje w kategorii "Inne"
+          </label>
+        </div>
+
+        {/* List Content */}
+        <div className="flex-1 overflow-y-auto bg-white dark:bg-slate-800">
+          {rows.length > 0 ? (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-400 sticky top-0 z-10 shadow-sm">
+                <tr>
+                  <th className="px-4 py-3 w-12"></th>
+                  <th className="px-4 py-3 font-semibold">Data</th>
+                  <th className="px-4 py-3 font-semibold">Opis</th>
+                  <th className="px-4 py-3 font-semibold">Kategoria</th>
+                  <th className="px-4 py-3 font-semibold">Reguły</th>
+                  <th className="px-4 py-3 font-semibold text-right">Kwota</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {rows.map(({ transaction: t, updated, ruleNames }) => {
+                  const isSelected = !excludedIds.has(t.id);
+                  const addedTags = (updated.tags || []).filter(tag => !(t.tags || []).includes(tag));
+                  return (
+                    <tr key={t.id} className={`transition-colors ${isSelected ? 'bg-indigo-50/50 dark:bg-indigo-900/30' : 'opacity-60 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}>
+                      <td className="px-4 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleRow(t.id)}
+                          className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500 cursor-pointer accent-indigo-600"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                        {new Date(t.date).toLocaleDateString('pl-PL')}
+                      </td>
+                      <td className="px-4 py-3 text-slate-800 dark:text-slate-200">
+                        <div className="font-medium">{updated.description}</div>
+                        {updated.description !== t.description && (
+                          <div className="text-[10px] text-slate-400 line-through">{t.description}</div>
+                        )}
+                        {addedTags.length > 0 && (
+                          <div className="flex gap-1 mt-1">
+                            {addedTags.map(tag => (
+                              <span key={tag} className="text-[9px] bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 px-1.5 py-0.5 rounded font-bold">+#{tag}</span>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {updated.categoryId !== t.categoryId ? (
+                          <div className="flex items-center gap-1">
+                            <CategoryBadge categoryId={t.categoryId} categories={categories} />
+                            <ArrowRight size={12} className="text-slate-400" />
+                            <CategoryBadge categoryId={updated.categoryId} categories={categories} />
+                          </div>
+                        ) : (
+                          <CategoryBadge categoryId={t.categoryId} categories={categories} />
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-500 dark:text-slate-400">{ruleNames.join(', ')}</td>
+                      <td className={`px-4 py-3 text-right whitespace-nowrap ${t.type === TransactionType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-slate-600 dark:text-slate-300'}`}>
+                        {getCurrencyFormatter(t.currency).format(t.amount)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 p-8">
+              <div className="bg-slate-100 dark:bg-slate-700 p-3 rounded-full mb-3">
+                <AlertCircle size={24} className="opacity-50" />
+              </div>
+              <p>Reguły nie zmieniają żadnej transakcji.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="px-6 py-4 border-t border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 flex justify-between items-center gap-4">
+          <div className="text-sm font-medium text-slate-600 dark:text-slate-400">
+            Do zmiany: <span className="text-indigo-600 dark:text-indigo-400 font-bold">{selectedCount}</span> z {rows.length}
+          </div>
+          <Button onClick={handleApply} disabled={selectedCount === 0}>
+            <Check size={16} /> Zapisz zmiany
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RotateCcw, ShieldAlert, X } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+
+/**
+ * Pasek "cofnij ostatnią operację niszczącą". Widoczny do zamknięcia albo do końca sesji.
+ * Gdy operację przerwano z braku kopii bezpieczeństwa, pasek pokazuje ten komunikat.
+ */
+export const SafetyUndoBanner: React.FC = () => {
+  const { safetyUndo, undoDestructiveAction, dismissDestructiveUndo, safetyFailure, dismissSafetyFailure } = useFinance();
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (safetyFailure) {
+    return (
+      <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-xl animate-fade-in">
+        <div className="flex items-center gap-3 p-3 pl-4 rounded-xl shadow-lg bg-red-600 dark:bg-red-700 text-white">
+          <AlertTriangle size={18} className="shrink-0" />
+          <span className="min-w-0 flex-1 text-sm">{safetyFailure}</span>
+          <button onClick={dismissSafetyFailure} className="p-1 text-red-100 hover:text-white rounded shrink-0" title="Zamknij">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!safetyUndo) return null;
+
+  const handleUndo = async () => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await undoDestructiveAction();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się przywrócić danych.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-xl animate-fade-in">
+      <div className="flex items-center gap-3 p-3 pl-4 rounded-xl shadow-lg bg-slate-900 dark:bg-slate-700 text-white">
+        <ShieldAlert size={18} className="text-amber-400 shrink-0" />
+        <div className="min-w-0 flex-1 text-sm">
+          <span className="font-semibold">{safetyUndo.label}</span>
+          <span className="text-slate-300"> · {new Date(safetyUndo.timestamp).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })}</span>
+          <span className="block text-xs text-slate-400">
+            {error || 'Poprzedni stan zapisano także w automatycznych kopiach.'}
+          </span>
+        </div>
+        <button
+          onClick={handleUndo}
+          disabled={isRestoring}
+          className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors shrink-0"
+        >
+          <RotateCcw size={12} className={isRestoring ? 'animate-spin' : ''} /> Cofnij
+        </button>
+        <button onClick={dismissDestructiveUndo} className="p-1 text-slate-400 hover:text-white rounded shrink-0" title="Zamknij">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
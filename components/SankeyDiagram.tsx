@@ -4,7 +4,6 @@ import * as d3 from 'd3';
 import { sankey as d3Sankey, sankeyLinkHorizontal, sankeyLeft, sankeyJustify } from 'd3-sankey';
 import { ArrowLeft, Layers, Grid } from 'lucide-react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
-import { CURRENCY_FORMATTER } from '../constants';
 import { useFinance } from '../context/FinanceContext';
 
 interface SankeyDiagramProps {
@@ -17,7 +16,7 @@ interface SankeyDiagramProps {
  * Diagram Sankeya wizualizujący przepływy finansowe.
  */
 export const SankeyDiagram: React.FC<SankeyDiagramProps> = ({ transactions, categories, isPrivateMode }) => {
-  const { theme } = useFinance();
+  const { theme, formatCurrency } = useFinance();
   const isDarkMode = theme === 'dark';
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 650 }); // Fixed height enforced
@@ -39,7 +38,7 @@ export const SankeyDiagram: React.FC<SankeyDiagramProps> = ({ transactions, cate
 
   const formatValue = (val: number) => {
      if (isPrivateMode) return '***';
-     return CURRENCY_FORMATTER.format(val);
+     return formatCurrency(val);
   };
 
   /**
@@ -4,9 +4,13 @@ import { CategoryItem, Transaction } from '../types';
 import { ConfirmModal } from './ConfirmModal';
 import { TransferModal } from './TransferModal';
 import { RecurringManager } from './settings/RecurringManager';
+import { AccountManager } from './settings/AccountManager';
+import { CurrencyManager } from './settings/CurrencyManager';
 import { CategoryManager } from './settings/CategoryManager';
+import { RuleManager } from './settings/RuleManager';
 import { TagManager } from './settings/TagManager';
 import { DataManagement } from './settings/DataManagement';
+import { SecuritySettings } from './settings/SecuritySettings';
 
 interface SettingsViewProps {
   categories: CategoryItem[];
@@ -63,10 +67,19 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       />
 
       <div className="flex flex-col gap-6">
-        {/* 2. Recurring Transactions */}
+        {/* 1b. Database Encryption */}
+        <SecuritySettings />
+
+        {/* 2. Accounts */}
+        <AccountManager />
+
+        {/* 3. Currencies & Exchange Rates */}
+        <CurrencyManager />
+
+        {/* 4. Recurring Transactions */}
         <RecurringManager />
 
-        {/* 3. Categories */}
+        {/* 5. Categories */}
         <CategoryManager 
             categories={categories}
             onUpdateCategories={onUpdateCategories}
@@ -74,7 +87,10 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
             onRequestDeleteSubcategory={handleRequestDeleteSubcategory}
         />
 
-        {/* 4. Tags */}
+        {/* 6. Categorization Rules */}
+        <RuleManager />
+
+        {/* 7. Tags */}
         <TagManager 
             allTags={allTags}
             onRenameTag={onRenameTag}
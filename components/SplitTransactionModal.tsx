@@ -3,7 +3,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { X, Plus, Trash2, Check, Calculator, AlertCircle, ArrowDown } from 'lucide-react';
 import { Transaction, CategoryItem, TransactionType } from '../types';
 import { Button } from './Button';
-import { CURRENCY_FORMATTER } from '../constants';
+import { getCurrencyFormatter } from '../constants';
 
 interface SplitTransactionModalProps {
   isOpen: boolean;
@@ -61,6 +61,7 @@ export const SplitTransactionModal: React.FC<SplitTransactionModalProps> = ({
   }, [isOpen, originalTransaction, categories]);
 
   const totalOriginal = originalTransaction?.amount || 0;
+  const formatter = getCurrencyFormatter(originalTransaction?.currency);
   
   const currentSum = useMemo(() => {
     return splits.reduce((acc, split) => acc + (parseFloat(split.amount) || 0), 0);
@@ -122,6 +123,8 @@ export const SplitTransactionModal: React.FC<SplitTransactionModalProps> = ({
     const newTransactions: Omit<Transaction, 'id'>[] = splits.map(s => ({
       date: originalTransaction.date,
       type: originalTransaction.type, // Inherit type
+      accountId: originalTransaction.accountId,
+      currency: originalTransaction.currency,
       amount: parseFloat(s.amount),
       description: s.description || 'Bez opisu',
       categoryId: s.categoryId,
@@ -143,7 +146,7 @@ export const SplitTransactionModal: React.FC<SplitTransactionModalProps> = ({
                 Rozdziel transakcję
              </h2>
              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                Oryginał: <span className="font-medium text-slate-900 dark:text-slate-200">{originalTransaction.description}</span> na kwotę <span className="font-bold text-indigo-600 dark:text-indigo-400">{CURRENCY_FORMATTER.format(totalOriginal)}</span>
+                Oryginał: <span className="font-medium text-slate-900 dark:text-slate-200">{originalTransaction.description}</span> na kwotę <span className="font-bold text-indigo-600 dark:text-indigo-400">{formatter.format(totalOriginal)}</span>
              </p>
           </div>
           <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors">
@@ -260,7 +263,7 @@ export const SplitTransactionModal: React.FC<SplitTransactionModalProps> = ({
               <div className="flex-1 w-full">
                  <div className="flex justify-between text-xs mb-1">
                     <span className="text-slate-500 dark:text-slate-400">Suma wprowadzona</span>
-                    <span className="font-medium text-slate-900 dark:text-slate-200">{CURRENCY_FORMATTER.format(currentSum)}</span>
+                    <span className="font-medium text-slate-900 dark:text-slate-200">{formatter.format(currentSum)}</span>
                  </div>
                  <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
                     <div 
@@ -283,8 +286,8 @@ export const SplitTransactionModal: React.FC<SplitTransactionModalProps> = ({
                     <>
                        <AlertCircle size={18} />
                        {roundedRemainder > 0 
-                          ? `Brakuje ${CURRENCY_FORMATTER.format(roundedRemainder)}` 
-                          : `Nadmiar ${CURRENCY_FORMATTER.format(Math.abs(roundedRemainder))}`
+                          ? `Brakuje ${formatter.format(roundedRemainder)}` 
+                          : `Nadmiar ${formatter.format(Math.abs(roundedRemainder))}`
                        }
                     </>
                  )}
@@ -2,7 +2,7 @@
 import React, { useMemo } from 'react';
 import { Hash } from 'lucide-react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
-import { CURRENCY_FORMATTER } from '../constants';
+import { useFinance } from '../context/FinanceContext';
 
 interface TopTagsProps {
   transactions: Transaction[];
@@ -11,6 +11,7 @@ interface TopTagsProps {
 }
 
 export const TopTags: React.FC<TopTagsProps> = ({ transactions, categories, isPrivateMode }) => {
+  const { formatCurrency } = useFinance();
   const savingsCategoryIds = useMemo(() => {
       return new Set(categories.filter(c => c.isIncludedInSavings).map(c => c.id));
   }, [categories]);
@@ -70,7 +71,7 @@ export const TopTags: React.FC<TopTagsProps> = ({ transactions, categories, isPr
                        </div>
                        <div className="text-right">
                           <span className="font-semibold text-slate-800 dark:text-slate-200">
-                             {isPrivateMode ? '***' : CURRENCY_FORMATTER.format(item.value)}
+                             {isPrivateMode ? '***' : formatCurrency(item.value)}
                           </span>
                        </div>
                     </div>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Transaction, TransactionType } from '../types';
+import { getCurrencyFormatter } from '../constants';
+import { useFinance } from '../context/FinanceContext';
+import { convertAmount, getCurrency } from '../utils/currencyHelpers';
+
+interface TransactionAmountProps {
+  transaction: Transaction;
+}
+
+/**
+ * Kwota transakcji w walucie oryginalnej, a pod nią (dla walut obcych)
+ * równowartość w walucie bazowej po kursie z dnia transakcji.
+ */
+export const TransactionAmount: React.FC<TransactionAmountProps> = ({ transaction }) => {
+  const { baseCurrency, rateTable, formatCurrency } = useFinance();
+  const currency = getCurrency(transaction);
+  const sign = transaction.type === TransactionType.INCOME ? '+' : '-';
+  const converted = currency !== baseCurrency
+    ? convertAmount(transaction.amount, currency, baseCurrency, transaction.date, rateTable)
+    : null;
+
+  return (
+    <>
+      {sign}{getCurrencyFormatter(currency).format(transaction.amount)}
+      {converted !== null && (
+        <span className="block text-[10px] font-normal text-slate-400 dark:text-slate-500" title="Równowartość w walucie bazowej">
+          ≈ {sign}{formatCurrency(converted)}
+        </span>
+      )}
+    </>
+  );
+};
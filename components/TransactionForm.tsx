@@ -1,20 +1,25 @@
 
-import React, { useState, useEffect } from 'react';
-import { Plus, X, Database, Repeat, CalendarClock } from 'lucide-react';
-import { Transaction, TransactionType, CategoryItem, Frequency } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, X, Database, Repeat, CalendarClock, Wand2, Sparkles } from 'lucide-react';
+import { Transaction, TransactionType, CategoryItem, Frequency, Account } from '../types';
+import { DEFAULT_ACCOUNT_ID, DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../constants';
 import { Button } from './Button';
 import { TagInput } from './TagInput';
 import { useFinance } from '../context/FinanceContext';
+import { getCurrency } from '../utils/currencyHelpers';
+import { applyRules } from '../utils/rulesEngine';
+import { CategorySuggestion } from '../utils/categoryClassifier';
 
 interface TransactionFormProps {
   onAdd: (transaction: Omit<Transaction, 'id'>) => void;
   categories: CategoryItem[];
+  accounts: Account[];
   allTags?: string[]; 
   onLoadDemo?: () => void;
 }
 
-export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categories, allTags = [], onLoadDemo }) => {
-  const { addRecurringTransaction } = useFinance();
+export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categories, accounts, allTags = [], onLoadDemo }) => {
+  const { addRecurringTransaction, addTransfer, rules, suggestCategories } = useFinance();
   
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
@@ -22,7 +27,15 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
   const [type, setType] = useState<TransactionType>(TransactionType.EXPENSE);
   const [categoryId, setCategoryId] = useState<string>('');
   const [subcategoryId, setSubcategoryId] = useState<string>('');
+  const [isCategoryTouched, setIsCategoryTouched] = useState(false); // Ręczny wybór ma pierwszeństwo przed regułami
   const [tags, setTags] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+  const [accountId, setAccountId] = useState<string>(DEFAULT_ACCOUNT_ID);
+  const [currency, setCurrency] = useState<string>('');
+
+  // Transfer State (przelew własny między kontami)
+  const [isTransferMode, setIsTransferMode] = useState(false);
+  const [toAccountId, setToAccountId] = useState<string>('');
 
   // Recurring State
   const [isRecurring, setIsRecurring] = useState(false);
@@ -41,24 +54,83 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
     }
   }, [type, categories]);
 
+  const ruleResult = useMemo(() => {
+    if (isTransferMode || !description.trim()) return null;
+    return applyRules(rules, { description, amount: parseFloat(amount) || 0, type, accountId });
+  }, [rules, description, amount, type, accountId, isTransferMode]);
+
+  useEffect(() => {
+    if (isCategoryTouched || !ruleResult?.categoryId) return;
+    if (availableCategories.some(c => c.id === ruleResult.categoryId)) {
+      setCategoryId(ruleResult.categoryId);
+      setSubcategoryId(ruleResult.subcategoryId || '');
+    }
+  }, [ruleResult?.categoryId, ruleResult?.subcategoryId, isCategoryTouched, type]);
+
+  // Podpowiedzi klasyfikatora - liczone z opóźnieniem, gdy użytkownik przestanie pisać
+  useEffect(() => {
+    if (isTransferMode || description.trim().length < 3) {
+      setSuggestions([]);
+      return;
+    }
+    let isCancelled = false;
+    const timer = setTimeout(() => {
+      suggestCategories([{ description, type }]).then(([result]) => {
+        if (!isCancelled) setSuggestions((result || []).filter(s => s.confidence >= 0.1));
+      });
+    }, 300);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [description, type, isTransferMode, suggestCategories]);
+
+  const visibleSuggestions = suggestions.filter(s => availableCategories.some(c => c.id === s.categoryId));
+
+  const handleApplySuggestion = (suggestion: CategorySuggestion) => {
+    setCategoryId(suggestion.categoryId);
+    setSubcategoryId(suggestion.subcategoryId || '');
+    setIsCategoryTouched(true);
+  };
+
+  // Waluta domyślnie podąża za walutą wybranego konta
+  useEffect(() => {
+    const account = accounts.find(a => a.id === accountId);
+    setCurrency(account ? getCurrency(account) : DEFAULT_CURRENCY);
+  }, [accountId, accounts]);
+
+  useEffect(() => {
+    if (isTransferMode && (!toAccountId || toAccountId === accountId)) {
+      setToAccountId(accounts.find(a => a.id !== accountId)?.id || '');
+    }
+  }, [isTransferMode, accountId, accounts]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isTransferMode) {
+      handleSubmitTransfer();
+      return;
+    }
     if (!description || !amount || !categoryId || !date) return;
 
     const dateObj = new Date(date);
     dateObj.setHours(12, 0, 0, 0);
     const finalDate = dateObj.toISOString();
     const numAmount = parseFloat(amount);
+    const finalDescription = ruleResult?.description || description;
+    const finalTags = ruleResult ? Array.from(new Set([...tags, ...ruleResult.tags])) : tags;
 
     // 1. Add the immediate transaction
     onAdd({
-      description,
+      description: finalDescription,
       amount: numAmount,
       type,
       categoryId,
       subcategoryId: subcategoryId || undefined,
+      accountId,
+      currency,
       date: finalDate,
-      tags: tags
+      tags: finalTags
     });
 
     // 2. If Recurring checked, create the rule/template
@@ -70,7 +142,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
         else if (frequency === 'YEARLY') nextDate.setFullYear(nextDate.getFullYear() + 1);
 
         addRecurringTransaction({
-            description,
+            description: finalDescription,
             amount: numAmount,
             type,
             categoryId,
@@ -78,7 +150,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
             frequency,
             nextDueDate: nextDate.toISOString().split('T')[0],
             autoPay,
-            tags
+            tags: finalTags,
+            accountId,
+            currency
         });
     }
 
@@ -89,6 +163,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
     setTags([]);
     setIsRecurring(false);
     setAutoPay(false);
+    setIsCategoryTouched(false);
     
     const defaultName = type === TransactionType.INCOME ? 'Wynagrodzenie' : 'Inne';
     const defaultCat = availableCategories.find(c => c.name === defaultName) || availableCategories[0];
@@ -96,6 +171,28 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
     setSubcategoryId('');
   };
 
+  const handleSubmitTransfer = () => {
+    if (!amount || !date || !toAccountId || toAccountId === accountId) return;
+
+    const dateObj = new Date(date);
+    dateObj.setHours(12, 0, 0, 0);
+
+    addTransfer({
+      fromAccountId: accountId,
+      toAccountId,
+      amount: parseFloat(amount),
+      date: dateObj.toISOString(),
+      description: description || 'Przelew własny',
+      tags,
+      currency
+    });
+
+    setDescription('');
+    setAmount('');
+    setDate(new Date().toISOString().split('T')[0]);
+    setTags([]);
+  };
+
   return (
     <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 space-y-4 relative transition-colors">
       <div className="flex items-center justify-between mb-2">
@@ -116,22 +213,33 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
           <div className="flex bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
             <button
               type="button"
-              onClick={() => setType(TransactionType.EXPENSE)}
+              onClick={() => { setType(TransactionType.EXPENSE); setIsTransferMode(false); }}
               className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
-                type === TransactionType.EXPENSE ? 'bg-white dark:bg-slate-600 text-red-600 dark:text-red-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
+                !isTransferMode && type === TransactionType.EXPENSE ? 'bg-white dark:bg-slate-600 text-red-600 dark:text-red-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
               }`}
             >
               Wydatek
             </button>
             <button
               type="button"
-              onClick={() => setType(TransactionType.INCOME)}
+              onClick={() => { setType(TransactionType.INCOME); setIsTransferMode(false); }}
               className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
-                type === TransactionType.INCOME ? 'bg-white dark:bg-slate-600 text-green-600 dark:text-green-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
+                !isTransferMode && type === TransactionType.INCOME ? 'bg-white dark:bg-slate-600 text-green-600 dark:text-green-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
               }`}
             >
               Przychód
             </button>
+            {accounts.length > 1 && (
+              <button
+                type="button"
+                onClick={() => { setIsTransferMode(true); setIsRecurring(false); }}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                  isTransferMode ? 'bg-white dark:bg-slate-600 text-sky-600 dark:text-sky-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
+                }`}
+              >
+                Przelew
+              </button>
+            )}
           </div>
       </div>
 
@@ -143,9 +251,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
               type="text"
               value={description}
               onChange={(e) => setDescription(e.target.value)}
-              placeholder={type === TransactionType.INCOME ? "np. Wypłata, Dywidenda" : "np. Zakupy w Biedronce"}
+              placeholder={isTransferMode ? "np. Przelew na oszczędności" : type === TransactionType.INCOME ? "np. Wypłata, Dywidenda" : "np. Zakupy w Biedronce"}
               className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg pl-3 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-600"
-              required
+              required={!isTransferMode}
             />
             {description && (
               <button
@@ -171,30 +279,74 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
             />
           </div>
           <div className="col-span-2">
-            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Kwota (PLN)</label>
-            <div className="relative">
-              <input
-                type="number"
-                step="0.01"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                placeholder="0.00"
-                className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg pl-3 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-600"
-                required
-              />
-              {amount && (
-                <button
-                  type="button"
-                  onClick={() => setAmount('')}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 p-0.5 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
-                >
-                  <X size={14} />
-                </button>
-              )}
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Kwota</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <input
+                  type="number"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg pl-3 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-600"
+                  required
+                />
+                {amount && (
+                  <button
+                    type="button"
+                    onClick={() => setAmount('')}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 p-0.5 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                title="Waluta"
+                className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all appearance-none text-slate-900 dark:text-white"
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
 
+        {accounts.length > 1 && (
+          <div className={isTransferMode ? 'grid grid-cols-2 gap-4' : ''}>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{isTransferMode ? 'Z konta' : 'Konto'}</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all appearance-none text-slate-900 dark:text-white"
+              >
+                {accounts.map((acc) => (
+                  <option key={acc.id} value={acc.id}>{acc.name}</option>
+                ))}
+              </select>
+            </div>
+            {isTransferMode && (
+              <div className="animate-fade-in">
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Na konto</label>
+                <select
+                  value={toAccountId}
+                  onChange={(e) => setToAccountId(e.target.value)}
+                  className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all appearance-none text-slate-900 dark:text-white"
+                >
+                  {accounts.filter(acc => acc.id !== accountId).map((acc) => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!isTransferMode && (
         <div className="space-y-2">
           <div>
             <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Kategoria</label>
@@ -203,6 +355,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
               onChange={(e) => {
                 setCategoryId(e.target.value);
                 setSubcategoryId('');
+                setIsCategoryTouched(true);
               }}
               className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all appearance-none text-slate-900 dark:text-white"
             >
@@ -216,7 +369,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
             <div className="animate-fade-in">
                 <select
                 value={subcategoryId}
-                onChange={(e) => setSubcategoryId(e.target.value)}
+                onChange={(e) => { setSubcategoryId(e.target.value); setIsCategoryTouched(true); }}
                 className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-slate-900 dark:focus:ring-slate-500 focus:border-transparent transition-all appearance-none text-slate-600 dark:text-slate-300"
               >
                 <option value="">-- Podkategoria --</option>
@@ -226,11 +379,47 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
               </select>
             </div>
           )}
+
+          {visibleSuggestions.length > 0 && !(ruleResult?.categoryId && !isCategoryTouched) && (
+            <div className="flex flex-wrap items-center gap-1.5 animate-fade-in">
+              <Sparkles size={12} className="text-amber-500 shrink-0" />
+              {visibleSuggestions.map(s => {
+                const category = categories.find(c => c.id === s.categoryId);
+                const subName = category?.subcategories.find(sub => sub.id === s.subcategoryId)?.name;
+                const isSelected = s.categoryId === categoryId && (s.subcategoryId || '') === subcategoryId;
+                return (
+                  <button
+                    key={`${s.categoryId}-${s.subcategoryId || ''}`}
+                    type="button"
+                    onClick={() => handleApplySuggestion(s)}
+                    className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${isSelected ? 'bg-amber-100 dark:bg-amber-900/40 border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-300' : 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20'}`}
+                    title="Podpowiedź na podstawie historii"
+                  >
+                    {category?.name}{subName ? ` › ${subName}` : ''} <span className="opacity-60">{Math.round(s.confidence * 100)}%</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {ruleResult && (
+            <div className="flex items-start gap-1.5 text-[10px] text-indigo-600 dark:text-indigo-400 animate-fade-in">
+              <Wand2 size={12} className="shrink-0 mt-px" />
+              <span>
+                Reguła: {ruleResult.matchedRules.map(r => r.name).join(', ')}
+                {ruleResult.description && ` • opis: "${ruleResult.description}"`}
+                {ruleResult.tags.length > 0 && ` • tagi: ${ruleResult.tags.map(t => `#${t}`).join(' ')}`}
+                {isCategoryTouched && ruleResult.categoryId && ' • kategoria wybrana ręcznie'}
+              </span>
+            </div>
+          )}
         </div>
+        )}
 
         <TagInput tags={tags} onChange={setTags} existingTags={allTags} />
 
         {/* Recurring Toggle */}
+        {!isTransferMode && (
         <div className="pt-2 border-t border-slate-100 dark:border-slate-700">
             <div className="flex items-center gap-2 mb-2">
                 <button
@@ -286,6 +475,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categor
                 </div>
             )}
         </div>
+        )}
 
         <Button type="submit" className="w-full mt-2">
           <Plus size={16} /> Dodaj
@@ -0,0 +1,98 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { Transaction, TransactionChange, TransactionFieldChange, TransactionType } from '../types';
+import { getCategoryName, getCurrencyFormatter } from '../constants';
+import { useFinance } from '../context/FinanceContext';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
+import { CHANGE_ACTION_LABELS, TRACKED_FIELDS } from '../utils/transactionHistory';
+
+interface TransactionHistoryPanelProps {
+  transaction: Transaction;
+}
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('pl-PL', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Kto/kiedy/co: daty utworzenia i zmiany oraz lista wpisów z historii zmian (w oknie edycji transakcji).
+ */
+export const TransactionHistoryPanel: React.FC<TransactionHistoryPanelProps> = ({ transaction }) => {
+  const { categories, accounts, importBatches, recurringTransactions } = useFinance();
+  const history = useTransactionHistory(transaction.id);
+
+  const formatValue = (change: TransactionFieldChange, value: any): string => {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) return '—';
+    switch (change.field) {
+      case 'categoryId': return getCategoryName(value, categories);
+      case 'subcategoryId': return categories.flatMap(c => c.subcategories).find(s => s.id === value)?.name || 'Nieznana';
+      case 'accountId': return accounts.find(a => a.id === value)?.name || 'Usunięte konto';
+      case 'amount': return getCurrencyFormatter(transaction.currency).format(value);
+      case 'date': return new Date(value).toLocaleDateString('pl-PL');
+      case 'type': return value === TransactionType.INCOME ? 'Przychód' : 'Wydatek';
+      case 'tags': return (value as string[]).map(tag => `#${tag}`).join(' ');
+      case 'reconcileStatus': return value === 'RECONCILED' ? 'Uzgodniona' : 'Potwierdzona z wyciągiem';
+      default: return String(value);
+    }
+  };
+
+  const describeSource = (entry: TransactionChange): string | null => {
+    if (entry.splitFromId) return `Podział transakcji "${entry.note || 'usunięta'}"`;
+    if (entry.recurringRuleId) {
+      const rule = recurringTransactions.find(r => r.id === entry.recurringRuleId);
+      return `Płatność cykliczna: ${rule ? rule.description : 'usunięta'}${entry.note ? ` (${entry.note})` : ''}`;
+    }
+    if (entry.importBatchId) {
+      const batch = importBatches.find(b => b.id === entry.importBatchId);
+      const source = batch ? `Plik "${batch.fileName || 'bez nazwy'}"` : 'Import (usunięty z historii)';
+      return entry.note ? `${source} - ${entry.note}` : source;
+    }
+    return entry.note || null;
+  };
+
+  return (
+    <div className="border-t border-slate-100 pt-4">
+      <div className="flex items-center gap-2 text-xs font-medium text-slate-500 mb-2">
+        <History size={14} /> Historia zmian
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        {transaction.createdAt
+          ? <>Utworzono {formatTimestamp(transaction.createdAt)}{transaction.updatedAt && transaction.updatedAt !== transaction.createdAt && <> · zmieniono {formatTimestamp(transaction.updatedAt)}</>}</>
+          : 'Transakcja sprzed wprowadzenia historii zmian.'}
+      </p>
+
+      {history && history.length > 0 && (
+        <ol className="space-y-2 max-h-56 overflow-y-auto pr-1">
+          {history.map(entry => {
+            const source = describeSource(entry);
+            const isOriginal = entry.transactionId !== transaction.id;
+            return (
+              <li key={entry.id} className={`text-xs bg-slate-50 border border-slate-100 rounded-lg p-2 ${isOriginal ? 'opacity-70' : ''}`}>
+                <div className="flex justify-between gap-2">
+                  <span className="font-semibold text-slate-700">
+                    {CHANGE_ACTION_LABELS[entry.action]}{isOriginal && ' (przed podziałem)'}
+                  </span>
+                  <span className="text-slate-400 shrink-0">{formatTimestamp(entry.timestamp)}</span>
+                </div>
+                {source && <div className="text-slate-500">{source}</div>}
+                {entry.changes && entry.changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {entry.changes.map(change => (
+                      <li key={change.field} className="text-slate-600">
+                        <span className="text-slate-400">{TRACKED_FIELDS[change.field] || change.field}:</span>{' '}
+                        {entry.action === 'DELETED'
+                          ? <span className="line-through text-slate-400">{formatValue(change, change.before)}</span>
+                          : <>
+                              <span className="line-through text-slate-400">{formatValue(change, change.before)}</span>{' → '}
+                              <span>{formatValue(change, change.after)}</span>
+                            </>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 
 import React from 'react';
-import { Trash2, TrendingDown, TrendingUp, Sparkles, Database, Repeat } from 'lucide-react';
+import { Trash2, TrendingDown, TrendingUp, Sparkles, Database, Repeat, ArrowRightLeft } from 'lucide-react';
 import { Transaction, TransactionType, CategoryItem } from '../types';
-import { getCategoryColor, getCategoryName, CURRENCY_FORMATTER } from '../constants';
+import { getCategoryColor, getCategoryName } from '../constants';
 import { Button } from './Button';
+import { isTransfer } from '../utils/transferHelpers';
+import { TransactionAmount } from './TransactionAmount';
 
 interface TransactionListProps {
   transactions: Transaction[];
@@ -62,7 +64,9 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
                     : categoryColor
                 }}
               >
-                {transaction.type === TransactionType.INCOME ? <TrendingUp size={18} /> : <TrendingDown size={18} />}
+                {isTransfer(transaction)
+                  ? <ArrowRightLeft size={18} />
+                  : transaction.type === TransactionType.INCOME ? <TrendingUp size={18} /> : <TrendingDown size={18} />}
               </div>
               <div className="min-w-0">
                 <div className="flex items-center gap-2">
@@ -91,10 +95,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
             </div>
             
             <div className="flex items-center gap-2 sm:gap-4 pl-2 shrink-0">
-              <span className={`font-semibold text-sm ${
+              <span className={`font-semibold text-sm text-right ${
                 transaction.type === TransactionType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-slate-900 dark:text-white'
               }`}>
-                {isPrivateMode ? '***' : `${transaction.type === TransactionType.INCOME ? '+' : '-'}${CURRENCY_FORMATTER.format(transaction.amount)}`}
+                {isPrivateMode ? '***' : <TransactionAmount transaction={transaction} />}
               </span>
               <button 
                 onClick={() => onDelete(transaction.id)}
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { OperationEntry } from '../types';
+
+const TOAST_DURATION_MS = 6000;
+
+type ToastState =
+  | { kind: 'DONE' | 'UNDONE' | 'REDONE', entry: OperationEntry }
+  | { kind: 'ERROR', message: string };
+
+// Skróty nie przejmują cofania w polach tekstowych (tam działa cofanie przeglądarki)
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+};
+
+/**
+ * Powiadomienie "Cofnij" po każdej zapisanej operacji oraz skróty Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y).
+ */
+export const UndoToast: React.FC = () => {
+  const { operationLog, undoOperation, redoOperation, safetyUndo } = useFinance();
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const lastEntryIdRef = useRef<string | undefined>(operationLog[0]?.id);
+
+  // Nowa operacja w dzienniku
+  useEffect(() => {
+    const latest = operationLog[0];
+    if (latest && latest.id !== lastEntryIdRef.current && !latest.undone) {
+      setToast({ kind: 'DONE', entry: latest });
+    }
+    lastEntryIdRef.current = latest?.id;
+  }, [operationLog]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = window.setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => window.clearTimeout(timeout);
+  }, [toast]);
+
+  const run = async (action: () => Promise<OperationEntry | null>, kind: 'UNDONE' | 'REDONE') => {
+    try {
+      const entry = await action();
+      if (entry) setToast({ kind, entry });
+    } catch (err) {
+      setToast({ kind: 'ERROR', message: err instanceof Error ? err.message : 'Operacja nie powiodła się.' });
+    }
+  };
+
+  const undo = () => run(undoOperation, 'UNDONE');
+  const redo = () => run(redoOperation, 'REDONE');
+
+  // Skróty klawiszowe korzystają z aktualnych funkcji kontekstu
+  const shortcutsRef = useRef({ undo, redo });
+  shortcutsRef.current = { undo, redo };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        shortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  if (!toast) return null;
+
+  const prefix = toast.kind === 'UNDONE' ? 'Cofnięto: ' : toast.kind === 'REDONE' ? 'Ponowiono: ' : '';
+
+  return (
+    <div className={`fixed ${safetyUndo ? 'bottom-40 md:bottom-24' : 'bottom-20 md:bottom-6'} right-4 md:right-6 z-50 max-w-sm animate-fade-in`}>
+      <div className={`flex items-center gap-3 p-3 pl-4 rounded-xl shadow-lg text-white ${toast.kind === 'ERROR' ? 'bg-red-600' : 'bg-slate-900 dark:bg-slate-700'}`}>
+        <span className="text-sm min-w-0 flex-1">
+          {toast.kind === 'ERROR' ? toast.message : <>{prefix}<span className="font-semibold">{toast.entry.label}</span></>}
+        </span>
+        {(toast.kind === 'DONE' || toast.kind === 'REDONE') && (
+          <button onClick={undo} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors shrink-0" title="Ctrl+Z">
+            <Undo2 size={12} /> Cofnij
+          </button>
+        )}
+        {toast.kind === 'UNDONE' && (
+          <button onClick={redo} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors shrink-0" title="Ctrl+Shift+Z">
+            <Redo2 size={12} /> Ponów
+          </button>
+        )}
+        <button onClick={() => setToast(null)} className="p-1 text-slate-400 hover:text-white rounded shrink-0" title="Zamknij">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@
 import React, { useMemo } from 'react';
 import { CalendarClock, Check, X, RefreshCw, AlertCircle } from 'lucide-react';
 import { useFinance } from '../context/FinanceContext';
-import { CURRENCY_FORMATTER } from '../constants';
+import { getCurrencyFormatter } from '../constants';
 
 export const UpcomingEvents: React.FC = () => {
   const { recurringTransactions, processRecurringTransaction, skipRecurringTransaction } = useFinance();
@@ -50,7 +50,7 @@ export const UpcomingEvents: React.FC = () => {
                                     </div>
                                     <div className="text-sm font-semibold text-slate-800 dark:text-slate-200">{item.description}</div>
                                     <div className="text-xs text-slate-500 dark:text-slate-400">
-                                        Oczekiwana: {CURRENCY_FORMATTER.format(item.amount)}
+                                        Oczekiwana: {getCurrencyFormatter(item.currency).format(item.amount)}
                                     </div>
                                 </div>
                             </div>
@@ -2,7 +2,7 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const ComboChart: React.FC<ChartProps> = ({ 
     data, 
@@ -12,6 +12,7 @@ export const ComboChart: React.FC<ChartProps> = ({
     showSavingsRateLine = true,
     isDarkMode
 }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -195,12 +196,12 @@ export const ComboChart: React.FC<ChartProps> = ({
            let htmlContent = `
              <div class="mb-2 border-b border-slate-100 dark:border-slate-700 pb-1"><strong>${d.name}</strong></div>
              <div class="grid grid-cols-2 gap-x-4 gap-y-1">
-                <span class="text-slate-500 dark:text-slate-400">Przychód:</span> <span class="text-emerald-600 dark:text-emerald-400 font-medium text-right">${formatValue(d.income, isPrivateMode)}</span>
-                <span class="text-slate-500 dark:text-slate-400">Wydatek:</span> <span class="text-red-500 dark:text-red-400 font-medium text-right">${formatValue(d.expense, isPrivateMode)}</span>`;
+                <span class="text-slate-500 dark:text-slate-400">Przychód:</span> <span class="text-emerald-600 dark:text-emerald-400 font-medium text-right">${formatValue(d.income)}</span>
+                <span class="text-slate-500 dark:text-slate-400">Wydatek:</span> <span class="text-red-500 dark:text-red-400 font-medium text-right">${formatValue(d.expense)}</span>`;
            
            if (showSurplusLine) {
                htmlContent += `
-                <span class="text-slate-500 dark:text-slate-400">Nadwyżka:</span> <span class="${surplus >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'} font-medium text-right">${formatValue(surplus, isPrivateMode)}</span>`;
+                <span class="text-slate-500 dark:text-slate-400">Nadwyżka:</span> <span class="${surplus >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'} font-medium text-right">${formatValue(surplus)}</span>`;
            }
            if (showSavingsRateLine) {
                htmlContent += `
@@ -218,7 +219,7 @@ export const ComboChart: React.FC<ChartProps> = ({
            guideLine.style("opacity", 0);
        });
 
-  }, [data, width, height, isPrivateMode, showSurplusLine, showSavingsRateLine, isDarkMode]);
+  }, [data, width, height, isPrivateMode, formatValue, showSurplusLine, showSavingsRateLine, isDarkMode]);
 
   return (
     <div ref={ref} className="relative w-full">
@@ -2,9 +2,10 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const CumulativeChart: React.FC<ChartProps & { series: { label: string, data: { day: number, value: number }[], color: string, dashed?: boolean }[] }> = ({ series, height = 300, isPrivateMode }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -50,7 +51,7 @@ export const CumulativeChart: React.FC<ChartProps & { series: { label: string, d
         .on("mouseenter", (event, d) => {
            d3.select(event.currentTarget).attr("opacity", 1).attr("r", 5);
            tooltip.style("opacity", 1)
-                  .html(`<div><strong>Dzień ${d.day}</strong></div><div style="color:${s.color}">${s.label}: ${formatValue(d.value, isPrivateMode)}</div>`)
+                  .html(`<div><strong>Dzień ${d.day}</strong></div><div style="color:${s.color}">${s.label}: ${formatValue(d.value)}</div>`)
                   .style("left", `${event.clientX + 10}px`)
                   .style("top", `${event.clientY + 10}px`);
         })
@@ -69,7 +70,7 @@ export const CumulativeChart: React.FC<ChartProps & { series: { label: string, d
         .attr("fill", "transparent")
         .on("mouseenter", (event, d) => {
            tooltip.style("opacity", 1)
-                  .html(`<div><strong>Dzień ${d.day}</strong></div><div style="color:${s.color}">${s.label}: ${formatValue(d.value, isPrivateMode)}</div>`)
+                  .html(`<div><strong>Dzień ${d.day}</strong></div><div style="color:${s.color}">${s.label}: ${formatValue(d.value)}</div>`)
                   .style("left", `${event.clientX + 10}px`)
                   .style("top", `${event.clientY + 10}px`);
         })
@@ -80,7 +81,7 @@ export const CumulativeChart: React.FC<ChartProps & { series: { label: string, d
     g.append("g").attr("transform", `translate(0,${chartHeight})`).call(d3.axisBottom(x).ticks(10)).select(".domain").remove();
     g.append("g").call(d3.axisLeft(y).ticks(5).tickFormat((d: any) => isPrivateMode ? '' : `${d}`)).select(".domain").remove();
 
-  }, [series, width, height, isPrivateMode]);
+  }, [series, width, height, isPrivateMode, formatValue]);
 
   return (
     <div ref={ref} className="relative w-full">
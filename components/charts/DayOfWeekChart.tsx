@@ -2,9 +2,10 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const DayOfWeekChart: React.FC<ChartProps> = ({ data, height = 250, isPrivateMode, isDarkMode }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -51,7 +52,7 @@ export const DayOfWeekChart: React.FC<ChartProps> = ({ data, height = 250, isPri
       .attr("rx", 4)
       .on("mouseenter", (event, d) => {
          tooltip.style("opacity", 1)
-                .html(`<div><strong>${d.day}</strong></div><div>${formatValue(d.value, isPrivateMode)}</div>`)
+                .html(`<div><strong>${d.day}</strong></div><div>${formatValue(d.value)}</div>`)
                 .style("left", `${event.clientX + 10}px`)
                 .style("top", `${event.clientY + 10}px`);
       })
@@ -67,7 +68,7 @@ export const DayOfWeekChart: React.FC<ChartProps> = ({ data, height = 250, isPri
     yAxis.selectAll("text").attr("fill", textColor);
     yAxis.selectAll("line").attr("stroke", gridColor);
 
-  }, [data, width, height, isPrivateMode, isDarkMode]);
+  }, [data, width, height, isPrivateMode, formatValue, isDarkMode]);
 
   return (
     <div ref={ref} className="relative w-full">
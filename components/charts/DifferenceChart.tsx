@@ -2,7 +2,7 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const DifferenceChart: React.FC<ChartProps> = ({ 
     data, 
@@ -11,6 +11,7 @@ export const DifferenceChart: React.FC<ChartProps> = ({
     showSavingsRateLine = true,
     isDarkMode
 }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -206,7 +207,7 @@ export const DifferenceChart: React.FC<ChartProps> = ({
              <div class="grid grid-cols-2 gap-x-4 gap-y-1">
                 <span class="text-slate-500 dark:text-slate-400">Nadwyżka:</span> 
                 <span class="${d.balance >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'} font-bold text-right">
-                    ${formatValue(d.balance, isPrivateMode)}
+                    ${formatValue(d.balance)}
                 </span>
            `;
            if (showSavingsRateLine) {
@@ -225,7 +226,7 @@ export const DifferenceChart: React.FC<ChartProps> = ({
            guideLine.style("opacity", 0);
        });
 
-  }, [data, width, height, isPrivateMode, showSavingsRateLine, isDarkMode]);
+  }, [data, width, height, isPrivateMode, formatValue, showSavingsRateLine, isDarkMode]);
 
   return (
     <div ref={ref} className="relative w-full">
@@ -2,7 +2,7 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const MultiLineChart: React.FC<ChartProps & { keys: string[], highlightKey?: string, highlightStrokeWidth?: number }> = ({ 
   data, 
@@ -14,6 +14,7 @@ export const MultiLineChart: React.FC<ChartProps & { keys: string[], highlightKe
   highlightStrokeWidth = 4,
   isDarkMode
 }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -83,7 +84,7 @@ export const MultiLineChart: React.FC<ChartProps & { keys: string[], highlightKe
         .on("mouseenter", (event, d) => {
             d3.select(event.currentTarget).attr("r", 6).attr("opacity", 1);
             tooltip.style("opacity", 1)
-                   .html(`<div><strong>${d.name}</strong></div><div style="color:${finalColor}; font-weight:${isHighlighted?'bold':'normal'}">${key}: ${formatValue(d.value, isPrivateMode)}</div>`)
+                   .html(`<div><strong>${d.name}</strong></div><div style="color:${finalColor}; font-weight:${isHighlighted?'bold':'normal'}">${key}: ${formatValue(d.value)}</div>`)
                    .style("left", `${event.clientX + 10}px`)
                    .style("top", `${event.clientY + 10}px`);
         })
@@ -108,7 +109,7 @@ export const MultiLineChart: React.FC<ChartProps & { keys: string[], highlightKe
     yAxis.selectAll("text").attr("fill", textColor);
     yAxis.selectAll("line").attr("stroke", gridColor);
 
-  }, [data, width, height, keys, colors, isPrivateMode, highlightKey, highlightStrokeWidth, isDarkMode]);
+  }, [data, width, height, keys, colors, isPrivateMode, formatValue, highlightKey, highlightStrokeWidth, isDarkMode]);
 
   const colorScale = d3.scaleOrdinal().domain(keys).range(colors);
 
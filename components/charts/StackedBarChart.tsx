@@ -2,9 +2,10 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const StackedBarChart: React.FC<ChartProps & { keys: string[] }> = ({ data, keys, colors = [], height = 300, isPrivateMode, isDarkMode }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -70,7 +71,7 @@ export const StackedBarChart: React.FC<ChartProps & { keys: string[] }> = ({ dat
                         <div class="flex items-center gap-2 mb-1">
                            <span style="width:8px;height:8px;border-radius:50%;background-color:${colorScale(seriesKey)}"></span>
                            <span>${seriesKey}:</span>
-                           <span class="font-bold">${formatValue(val, isPrivateMode)}</span>
+                           <span class="font-bold">${formatValue(val)}</span>
                         </div>
                         <div class="text-xs opacity-70 text-right">${pct}% całości</div>
                       `)
@@ -94,7 +95,7 @@ export const StackedBarChart: React.FC<ChartProps & { keys: string[] }> = ({ dat
     yAxis.selectAll("text").attr("fill", textColor);
     yAxis.selectAll("line").attr("stroke", gridColor); // Ticks
 
-  }, [data, width, height, keys, colors, isPrivateMode, isDarkMode]);
+  }, [data, width, height, keys, colors, isPrivateMode, formatValue, isDarkMode]);
 
   const colorScale = d3.scaleOrdinal().domain(keys).range(colors);
 
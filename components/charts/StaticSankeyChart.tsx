@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { sankey as d3Sankey, sankeyLinkHorizontal, sankeyLeft } from 'd3-sankey';
+import { Transaction, TransactionType, CategoryItem } from '../../types';
+import { useValueFormatter } from './types';
+
+interface StaticSankeyChartProps {
+  transactions: Transaction[];
+  categories: CategoryItem[];
+  width?: number;
+  height?: number;
+  isPrivateMode?: boolean;
+}
+
+/** Maksymalna liczba kategorii wydatków na wydruku - resztę łączymy w "Pozostałe". */
+const MAX_EXPENSE_NODES = 10;
+
+/**
+ * Statyczna wersja `SankeyDiagram` (widok "Główne") do raportu drukowanego:
+ * przychody -> Budżet -> kategorie wydatków i oszczędności, bez drill-down.
+ */
+export const StaticSankeyChart: React.FC<StaticSankeyChartProps> = ({ transactions, categories, width = 720, height = 360, isPrivateMode }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
+  const layout = useMemo(() => {
+    const incomeMap: Record<string, number> = {};
+    const expenseMap: Record<string, { total: number, color: string, isSavings: boolean }> = {};
+
+    transactions.forEach(t => {
+      const cat = categories.find(c => c.id === t.categoryId);
+      const catName = cat ? cat.name : 'Nieznana';
+      if (t.type === TransactionType.INCOME) {
+        incomeMap[catName] = (incomeMap[catName] || 0) + t.amount;
+      } else {
+        if (!expenseMap[catName]) expenseMap[catName] = { total: 0, color: cat ? cat.color : '#94a3b8', isSavings: !!cat?.isIncludedInSavings };
+        expenseMap[catName].total += t.amount;
+      }
+    });
+
+    const totalIncome = Object.values(incomeMap).reduce((sum, v) => sum + v, 0);
+    const totalAllocated = Object.values(expenseMap).reduce((sum, v) => sum + v.total, 0);
+    if (totalIncome === 0 && totalAllocated === 0) return null;
+    const balance = totalIncome - totalAllocated;
+
+    const nodes: any[] = [];
+    const links: any[] = [];
+    const addNode = (node: any) => nodes.push(node) - 1;
+
+    const incomeIndexes = Object.keys(incomeMap)
+      .sort((a, b) => incomeMap[b] - incomeMap[a])
+      .map(name => ({ index: addNode({ displayName: name, color: '#22c55e' }), value: incomeMap[name] }));
+    const deficitIndex = balance < -0.01 ? addNode({ displayName: 'Deficyt', color: '#334155' }) : -1;
+    const budgetIndex = addNode({ displayName: 'Budżet', color: '#0f172a', realValue: totalIncome });
+
+    incomeIndexes.forEach(({ index, value }) => links.push({ source: index, target: budgetIndex, value }));
+    if (deficitIndex !== -1) links.push({ source: deficitIndex, target: budgetIndex, value: -balance, color: '#334155' });
+    if (balance > 0.01) {
+      const surplusIndex = addNode({ displayName: 'Dostępne Środki', color: '#10b981' });
+      links.push({ source: budgetIndex, target: surplusIndex, value: balance, color: '#10b981' });
+    }
+
+    // Oszczędności najpierw, potem największe wydatki (jak w diagramie interaktywnym)
+    const sortedCategories = Object.entries(expenseMap).sort(([, a], [, b]) => {
+      if (a.isSavings !== b.isSavings) return a.isSavings ? -1 : 1;
+      return b.total - a.total;
+    });
+    const restTotal = sortedCategories.slice(MAX_EXPENSE_NODES).reduce((sum, [, c]) => sum + c.total, 0);
+    sortedCategories.slice(0, MAX_EXPENSE_NODES).forEach(([name, c]) => {
+      const color = c.isSavings ? '#3b82f6' : c.color;
+      const index = addNode({ displayName: name, color });
+      links.push({ source: budgetIndex, target: index, value: c.total, color: c.isSavings ? '#3b82f6' : '#ef4444' });
+    });
+    if (restTotal > 0) {
+      const index = addNode({ displayName: 'Pozostałe', color: '#94a3b8' });
+      links.push({ source: budgetIndex, target: index, value: restTotal, color: '#ef4444' });
+    }
+
+    const generator = d3Sankey()
+      .nodeWidth(14)
+      .nodePadding(10)
+      .extent([[1, 6], [width - 1, height - 6]])
+      .nodeAlign(sankeyLeft)
+      .nodeSort(null);
+
+    return generator({ nodes, links } as any) as any;
+  }, [transactions, categories, width, height]);
+
+  if (!layout) return null;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" className="overflow-visible">
+      {layout.links.map((link: any, i: number) => (
+        <path
+          key={i}
+          d={sankeyLinkHorizontal()(link) || ''}
+          fill="none"
+          stroke={link.color || '#22c55e'}
+          strokeOpacity={0.45}
+          strokeWidth={Math.max(1, link.width)}
+        />
+      ))}
+      {layout.nodes.map((node: any, i: number) => {
+        const isLeft = node.x0 < width / 2;
+        const textX = isLeft ? node.x1 + 6 : node.x0 - 6;
+        const textAnchor = isLeft ? 'start' : 'end';
+        const midY = (node.y0 + node.y1) / 2;
+        return (
+          <g key={i}>
+            <rect x={node.x0} y={node.y0} width={node.x1 - node.x0} height={Math.max(node.y1 - node.y0, 2)} fill={node.color} rx={3} />
+            {node.y1 - node.y0 > 6 && (
+              <>
+                <text x={textX} y={midY - 5} dy="0.35em" textAnchor={textAnchor} fontSize={10} fontWeight={600} fill="#1e293b">{node.displayName}</text>
+                <text x={textX} y={midY + 6} dy="0.35em" textAnchor={textAnchor} fontSize={9} fill="#64748b">{formatValue(node.realValue ?? node.value)}</text>
+              </>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { ChartProps, useValueFormatter } from './types';
+
+/**
+ * Statyczna (bez D3 DOM i tooltipów) wersja `WaterfallChart` do raportu drukowanego.
+ * Stała szerokość `viewBox` - SVG skaluje się do szerokości strony.
+ */
+export const StaticWaterfallChart: React.FC<ChartProps & { width?: number }> = ({ data = [], width = 720, height = 320, isPrivateMode }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
+  const margin = { top: 24, right: 16, bottom: 70, left: 60 };
+  const chartWidth = width - margin.left - margin.right;
+  const chartHeight = height - margin.top - margin.bottom;
+
+  const bars = useMemo(() => {
+    let cumulative = 0;
+    return data.map(d => {
+      if (d.type === 'balance') return { ...d, start: 0, end: cumulative, value: cumulative };
+      const start = cumulative;
+      cumulative += d.type === 'income' ? d.value : -d.value;
+      return { ...d, start, end: cumulative, value: Math.abs(d.value) };
+    });
+  }, [data]);
+
+  if (bars.length === 0) return null;
+
+  const x = d3.scaleBand().domain(bars.map(d => String(d.name))).range([0, chartWidth]).padding(0.3);
+  const y = d3.scaleLinear()
+    .domain([Math.min(0, d3.min(bars, d => Math.min(d.start, d.end)) || 0), Math.max(0, d3.max(bars, d => Math.max(d.start, d.end)) || 0)])
+    .nice()
+    .range([chartHeight, 0]);
+
+  const getColor = (d: any) => {
+    if (d.type === 'income') return '#22c55e';
+    if (d.type === 'savings') return '#3b82f6';
+    if (d.type === 'balance') return d.value >= 0 ? '#10b981' : '#334155';
+    return '#ef4444';
+  };
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" className="overflow-visible">
+      <g transform={`translate(${margin.left},${margin.top})`}>
+        {y.ticks(5).map(tick => (
+          <g key={tick} transform={`translate(0,${y(tick)})`}>
+            <line x2={chartWidth} stroke="#e2e8f0" strokeDasharray="3,3" />
+            {!isPrivateMode && <text x={-8} dy="0.32em" textAnchor="end" fontSize={10} fill="#64748b">{tick}</text>}
+          </g>
+        ))}
+        {bars.map(d => {
+          const barX = x(String(d.name)) || 0;
+          const top = y(Math.max(d.start, d.end));
+          return (
+            <g key={d.name}>
+              <rect x={barX} y={top} width={x.bandwidth()} height={Math.max(1, Math.abs(y(d.start) - y(d.end)))} fill={getColor(d)} fillOpacity={0.7} rx={3} />
+              <text x={barX + x.bandwidth() / 2} y={top - 5} textAnchor="middle" fontSize={9} fill="#64748b">{formatValue(d.value)}</text>
+              <text transform={`translate(${barX + x.bandwidth() / 2},${chartHeight + 10}) rotate(-40)`} textAnchor="end" fontSize={10} fill="#475569">{d.name}</text>
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+};
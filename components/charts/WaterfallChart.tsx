@@ -2,9 +2,10 @@
 import React, { useEffect } from 'react';
 import * as d3 from 'd3';
 import { useChartDimensions } from '../../hooks/useChartDimensions';
-import { ChartProps, formatValue } from './types';
+import { ChartProps, useValueFormatter } from './types';
 
 export const WaterfallChart: React.FC<ChartProps> = ({ data, height = 350, isPrivateMode, isDarkMode }) => {
+  const formatValue = useValueFormatter(isPrivateMode);
   const { ref, width } = useChartDimensions();
 
   useEffect(() => {
@@ -85,7 +86,7 @@ export const WaterfallChart: React.FC<ChartProps> = ({ data, height = 350, isPri
                 .html(`
                     <div><strong>${d.name}</strong></div>
                     <div style="font-weight:bold; color:${d.type==='expense'?'#ef4444':d.type==='income'?'#22c55e':d.type==='savings'?'#3b82f6':d.value>=0?'#10b981':'#334155'}">
-                        ${d.type === 'expense' || d.type === 'savings' ? '-' : ''}${formatValue(d.value, isPrivateMode)}
+                        ${d.type === 'expense' || d.type === 'savings' ? '-' : ''}${formatValue(d.value)}
                     </div>
                 `)
                 .style("left", `${event.clientX + 10}px`)
@@ -97,7 +98,7 @@ export const WaterfallChart: React.FC<ChartProps> = ({ data, height = 350, isPri
     g.selectAll(".label")
        .data(processedData)
        .enter().append("text")
-       .text(d => formatValue(d.value, isPrivateMode))
+       .text(d => formatValue(d.value))
        .attr("x", d => (x(String(d.name)) || 0) + x.bandwidth() / 2)
        .attr("y", d => y(Math.max(d.start, d.end)) - 5)
        .attr("text-anchor", "middle")
@@ -121,7 +122,7 @@ export const WaterfallChart: React.FC<ChartProps> = ({ data, height = 350, isPri
     yAxis.selectAll("text").attr("fill", textColor);
     yAxis.selectAll("line").attr("stroke", gridColor);
 
-  }, [data, width, height, isPrivateMode, isDarkMode]);
+  }, [data, width, height, isPrivateMode, formatValue, isDarkMode]);
 
   return (
     <div ref={ref} className="relative w-full">
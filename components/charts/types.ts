@@ -1,5 +1,6 @@
 
-import { CURRENCY_FORMATTER } from '../../constants';
+import { useCallback } from 'react';
+import { useFinance } from '../../context/FinanceContext';
 
 export interface ChartProps {
   data?: any[];
@@ -12,7 +13,11 @@ export interface ChartProps {
   isDarkMode?: boolean; // New prop
 }
 
-export const formatValue = (val: number, isPrivate?: boolean): string => {
-   if (isPrivate) return '***';
-   return CURRENCY_FORMATTER.format(val);
+/**
+ * Formatter kwot wykresu w walucie bazowej (z FinanceContext); w trybie prywatnym `***`.
+ * Zmienia tożsamość przy zmianie waluty - należy go dodać do zależności efektów rysujących.
+ */
+export const useValueFormatter = (isPrivate?: boolean) => {
+   const { formatCurrency } = useFinance();
+   return useCallback((val: number): string => isPrivate ? '***' : formatCurrency(val), [isPrivate, formatCurrency]);
 };
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit2, Check, X, Scale } from 'lucide-react';
+import { useFinance } from '../../context/FinanceContext';
+import { Account, AccountType } from '../../types';
+import { ACCOUNT_TYPE_LABELS, DEFAULT_ACCOUNT_ID, DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, getCurrencyFormatter } from '../../constants';
+import { AccountIcon } from '../AccountIcon';
+import { ConfirmModal } from '../ConfirmModal';
+import { ReconcileModal } from '../ReconcileModal';
+
+const ACCOUNT_TYPES = Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[];
+
+interface AccountDraft {
+  name: string;
+  type: AccountType;
+  color: string;
+  initialBalance: string;
+  currency: string;
+}
+
+const EMPTY_DRAFT: AccountDraft = { name: '', type: 'CHECKING', color: '#6366f1', initialBalance: '0', currency: DEFAULT_CURRENCY };
+
+export const AccountManager: React.FC = () => {
+  const { accounts, accountBalances, accountMissingRates, transactions, reconciliations, isPrivateMode, addAccount, updateAccount, deleteAccount } = useFinance();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState<AccountDraft>(EMPTY_DRAFT);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [reconcileAccount, setReconcileAccount] = useState<Account | null>(null);
+
+  const defaultAccountName = accounts.find(a => a.id === DEFAULT_ACCOUNT_ID)?.name || 'Konto główne';
+  const accountToDelete = accounts.find(a => a.id === confirmId);
+  // `reconciliations` są posortowane od najnowszego dnia
+  const getLastReconciledDate = (accountId: string) => reconciliations.find(r => r.accountId === accountId)?.date;
+  const affectedCount = confirmId ? transactions.filter(t => t.accountId === confirmId).length : 0;
+
+  const handleStartEdit = (account: Account) => {
+    setIsAdding(false);
+    setEditingId(account.id);
+    setDraft({ name: account.name, type: account.type, color: account.color, initialBalance: account.initialBalance.toString(), currency: account.currency || DEFAULT_CURRENCY });
+  };
+
+  const handleStartAdd = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setIsAdding(true);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setIsAdding(false);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    const payload = {
+      name: draft.name.trim(),
+      type: draft.type,
+      color: draft.color,
+      initialBalance: parseFloat(draft.initialBalance) || 0,
+      currency: draft.currency
+    };
+
+    if (isAdding) {
+      addAccount(payload);
+    } else if (editingId) {
+      updateAccount({ ...payload, id: editingId });
+    }
+    handleCancel();
+  };
+
+  const renderEditor = () => (
+    <div className="flex flex-wrap items-center gap-2 p-3 border border-indigo-200 dark:border-indigo-800 rounded-lg bg-indigo-50/50 dark:bg-indigo-900/20 animate-fade-in">
+      <input
+        type="color"
+        value={draft.color}
+        onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+        className="w-8 h-8 rounded cursor-pointer border-0 bg-transparent"
+      />
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Nazwa konta"
+        autoFocus
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSave();
+          if (e.key === 'Escape') handleCancel();
+        }}
+        className="flex-1 min-w-[140px] border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+      <select
+        value={draft.type}
+        onChange={(e) => setDraft({ ...draft, type: e.target.value as AccountType })}
+        className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+      </select>
+      <select
+        value={draft.currency}
+        onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+        title="Waluta konta"
+        className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+      </select>
+      <input
+        type="number"
+        step="0.01"
+        value={draft.initialBalance}
+        onChange={(e) => setDraft({ ...draft, initialBalance: e.target.value })}
+        title="Saldo początkowe"
+        className="w-32 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+      <button onClick={handleSave} disabled={!draft.name.trim()} className="text-green-600 dark:text-green-400 p-1 bg-green-50 dark:bg-green-900/30 rounded hover:bg-green-100 dark:hover:bg-green-900/50 disabled:opacity-50"><Check size={16}/></button>
+      <button onClick={handleCancel} className="text-slate-400 p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"><X size={16}/></button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+            Zarządzanie Kontami <span className="text-sm font-normal text-slate-400">({accounts.length})</span>
+        </h2>
+
+        <div className="space-y-2 mb-4">
+            {accounts.map(account => (
+                editingId === account.id ? (
+                    <div key={account.id}>{renderEditor()}</div>
+                ) : (
+                    <div key={account.id} className="flex items-center justify-between p-3 border border-slate-100 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors group bg-white dark:bg-slate-800">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 rounded-full" style={{ backgroundColor: `${account.color}20`, color: account.color }}>
+                                <AccountIcon type={account.type} size={16} />
+                            </div>
+                            <div>
+                                <div className="font-semibold text-sm text-slate-800 dark:text-slate-200">{account.name}</div>
+                                <div className="text-xs text-slate-500 dark:text-slate-400">
+                                    {ACCOUNT_TYPE_LABELS[account.type]}
+                                    {getLastReconciledDate(account.id) && (
+                                        <> · uzgodniono do {new Date(`${getLastReconciledDate(account.id)}T12:00:00`).toLocaleDateString()}</>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <div className="text-right">
+                                <div className="text-[10px] text-slate-400 uppercase font-bold">Saldo</div>
+                                <div className={`text-sm font-semibold ${(accountBalances[account.id] || 0) < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-300'}`}>
+                                    {isPrivateMode ? '***' : getCurrencyFormatter(account.currency).format(accountBalances[account.id] || 0)}
+                                </div>
+                                {accountMissingRates[account.id] && (
+                                    <div className="text-[10px] text-amber-600 dark:text-amber-400" title="Transakcje w tych walutach nie są wliczone do salda">
+                                        Brak kursu: {accountMissingRates[account.id].join(', ')}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => setReconcileAccount(account)} className="p-1.5 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded" title="Uzgodnij saldo z wyciągiem">
+                                    <Scale size={14} />
+                                </button>
+                                <button onClick={() => handleStartEdit(account)} className="p-1.5 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded" title="Edytuj">
+                                    <Edit2 size={14} />
+                                </button>
+                                {account.id !== DEFAULT_ACCOUNT_ID && (
+                                    <button onClick={() => setConfirmId(account.id)} className="p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded" title="Usuń konto">
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )
+            ))}
+        </div>
+
+        {isAdding ? renderEditor() : (
+          <button
+            onClick={handleStartAdd}
+            className="border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-3 flex items-center justify-center text-slate-400 dark:text-slate-500 hover:border-indigo-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-all font-medium text-sm gap-2 h-[58px] w-full"
+          >
+            <Plus size={16} /> Dodaj nowe konto
+          </button>
+        )}
+
+        <ConfirmModal
+            isOpen={!!confirmId}
+            onClose={() => setConfirmId(null)}
+            onConfirm={() => { if (confirmId) deleteAccount(confirmId, DEFAULT_ACCOUNT_ID); setConfirmId(null); }}
+            title="Usuń konto"
+            message={`Czy na pewno chcesz usunąć konto "${accountToDelete?.name}"? ${affectedCount > 0 ? `Jego transakcje (${affectedCount}) zostaną przeniesione na konto "${defaultAccountName}".` : ''}`}
+        />
+
+        <ReconcileModal
+            isOpen={!!reconcileAccount}
+            onClose={() => setReconcileAccount(null)}
+            account={reconcileAccount}
+        />
+    </div>
+  );
+};
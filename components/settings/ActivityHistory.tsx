@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Activity, Redo2, Undo2 } from 'lucide-react';
+import { useFinance } from '../../context/FinanceContext';
+import { OperationEntry } from '../../types';
+
+/**
+ * Historia zmian bieżącej sesji z cofaniem i ponawianiem (jak Ctrl+Z / Ctrl+Shift+Z).
+ */
+export const ActivityHistory: React.FC = () => {
+  const { operationLog, canUndo, canRedo, undoOperation, redoOperation } = useFinance();
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<OperationEntry | null>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operacja nie powiodła się.');
+    }
+  };
+
+  const buttonClass = "flex items-center gap-1 text-xs px-2 py-1 rounded border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                <Activity size={20} className="text-indigo-500" /> Historia zmian <span className="text-sm font-normal text-slate-400">({operationLog.length})</span>
+            </h2>
+            <div className="flex gap-2">
+                <button onClick={() => run(undoOperation)} disabled={!canUndo} className={buttonClass} title="Ctrl+Z">
+                    <Undo2 size={12} /> Cofnij
+                </button>
+                <button onClick={() => run(redoOperation)} disabled={!canRedo} className={buttonClass} title="Ctrl+Shift+Z">
+                    <Redo2 size={12} /> Ponów
+                </button>
+            </div>
+        </div>
+
+        {error && <p className="text-sm mb-3 text-red-600 dark:text-red-400">{error}</p>}
+
+        {operationLog.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Brak zmian w tej sesji. Historia obejmuje edycje transakcji, kategorii i tagów od otwarcia aplikacji.</p>
+        ) : (
+            <div className="space-y-2">
+                {operationLog.map(entry => (
+                    <div key={entry.id} className={`flex items-center justify-between gap-3 p-3 border border-slate-100 dark:border-slate-700 rounded-lg ${entry.undone ? 'opacity-60' : ''}`}>
+                        <div className="min-w-0">
+                            <div className={`font-semibold text-sm text-slate-800 dark:text-slate-200 truncate ${entry.undone ? 'line-through' : ''}`}>
+                                {entry.label}
+                            </div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400">
+                                {new Date(entry.timestamp).toLocaleTimeString('pl-PL')}
+                                {' · '}zmienione rekordy: {entry.patches.length}
+                                {entry.undone && <span className="text-amber-600 dark:text-amber-400"> · cofnięto</span>}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
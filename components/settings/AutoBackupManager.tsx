@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Archive, Download, FolderOpen, Lock, RotateCcw, Trash2, Plus } from 'lucide-react';
+import { Button } from '../Button';
+import { ConfirmModal } from '../ConfirmModal';
+import { useFinance } from '../../context/FinanceContext';
+import { AutoBackupFrequency, BackupSnapshot } from '../../types';
+import { AUTO_BACKUP_FREQUENCY_LABELS, SAFETY_KEEP_COUNT, SNAPSHOT_TRIGGER_LABELS, getSnapshotFileName, isFolderBackupSupported } from '../../utils/backupSnapshots';
+import { downloadBlob, formatFileSize } from '../../utils/fileDownload';
+
+const KEEP_COUNT_OPTIONS = [5, 10, 20, 30];
+
+/**
+ * Automatyczne kopie zapasowe: harmonogram, przeglądarka migawek z przywracaniem i opcjonalny zapis do folderu.
+ */
+export const AutoBackupManager: React.FC = () => {
+  const {
+    backupSnapshots, autoBackupConfig, backupFolder, folderPermission,
+    updateAutoBackupConfig, createSnapshot, loadSnapshot, restoreSnapshot, deleteSnapshot,
+    chooseBackupFolder, grantFolderAccess, forgetBackupFolder
+  } = useFinance();
+  const [snapshotToRestore, setSnapshotToRestore] = useState<BackupSnapshot | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const showError = (err: unknown, fallback: string) =>
+    setMessage({ type: 'error', text: err instanceof Error ? err.message : fallback });
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setMessage(null);
+    try {
+      await createSnapshot();
+    } catch (err) {
+      showError(err, 'Nie udało się utworzyć kopii.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!snapshotToRestore) return;
+    const snapshot = snapshotToRestore;
+    setSnapshotToRestore(null);
+    try {
+      const { issues } = await restoreSnapshot(snapshot);
+      const skipped = issues.length > 0 ? ` Pominięto ${issues.length} błędnych rekordów.` : '';
+      setMessage({ type: 'success', text: `Przywrócono kopię z ${new Date(snapshot.timestamp).toLocaleString('pl-PL')}.${skipped}` });
+    } catch (err) {
+      showError(err, 'Nie udało się przywrócić kopii.');
+    }
+  };
+
+  const handleDownload = async (snapshot: BackupSnapshot) => {
+    try {
+      // Walidacja przed pobraniem - plik zawsze w bieżącym formacie kopii
+      const { backup } = await loadSnapshot(snapshot);
+      downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), getSnapshotFileName(snapshot));
+    } catch (err) {
+      showError(err, 'Nie udało się odczytać kopii.');
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      await chooseBackupFolder();
+    } catch (err) {
+      // Anulowanie okna wyboru folderu to nie błąd
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      showError(err, 'Nie udało się wybrać folderu.');
+    }
+  };
+
+  const selectClass = "border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                <Archive size={20} className="text-indigo-500" /> Automatyczne kopie <span className="text-sm font-normal text-slate-400">({backupSnapshots.length})</span>
+            </h2>
+            <Button variant="secondary" onClick={handleCreate} isLoading={isCreating} className="text-xs py-1.5">
+                <Plus size={14} /> Utwórz teraz
+            </Button>
+        </div>
+
+        {/* Schedule */}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-4 text-sm text-slate-600 dark:text-slate-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={autoBackupConfig.enabled}
+                    onChange={(e) => updateAutoBackupConfig({ enabled: e.target.checked })}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Twórz automatycznie
+            </label>
+            <select
+                value={autoBackupConfig.frequency}
+                onChange={(e) => updateAutoBackupConfig({ frequency: e.target.value as AutoBackupFrequency })}
+                disabled={!autoBackupConfig.enabled}
+                className={selectClass}
+            >
+                {(Object.keys(AUTO_BACKUP_FREQUENCY_LABELS) as AutoBackupFrequency[]).map(frequency => (
+                    <option key={frequency} value={frequency}>{AUTO_BACKUP_FREQUENCY_LABELS[frequency]}</option>
+                ))}
+            </select>
+            {autoBackupConfig.frequency === 'CHANGES' && (
+                <label className="flex items-center gap-2">
+                    co
+                    <input
+                        type="number"
+                        min={1}
+                        value={autoBackupConfig.changeThreshold}
+                        onChange={(e) => updateAutoBackupConfig({ changeThreshold: Math.max(1, parseInt(e.target.value) || 1) })}
+                        disabled={!autoBackupConfig.enabled}
+                        className={`${selectClass} w-20`}
+                    />
+                    zmian
+                </label>
+            )}
+            <label className="flex items-center gap-2" title={`Kopie sprzed operacji niszczących są przechowywane osobno (${SAFETY_KEEP_COUNT} ostatnich).`}>
+                Przechowuj
+                <select
+                    value={autoBackupConfig.keepCount}
+                    onChange={(e) => updateAutoBackupConfig({ keepCount: Number(e.target.value) })}
+                    className={selectClass}
+                >
+                    {KEEP_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count} ostatnich</option>)}
+                </select>
+            </label>
+        </div>
+
+        {/* Folder (File System Access API) */}
+        {isFolderBackupSupported() && (
+            <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 text-sm text-slate-600 dark:text-slate-300">
+                <FolderOpen size={16} className="text-slate-400 shrink-0" />
+                {backupFolder ? (
+                    <>
+                        <span>Kopie zapisywane także w folderze <span className="font-semibold">{backupFolder.name}</span></span>
+                        {folderPermission !== 'granted' && (
+                            <button onClick={grantFolderAccess} className="text-xs px-2 py-1 rounded border border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30">
+                                Zezwól na zapis
+                            </button>
+                        )}
+                        <button onClick={forgetBackupFolder} className="text-xs text-slate-400 hover:text-red-500 ml-auto">Odłącz</button>
+                        {backupSnapshots.some(s => s.encrypted) && (
+                            <span className="w-full text-xs text-slate-400">Kopie zaszyfrowanej bazy nie są zapisywane do folderu.</span>
+                        )}
+                    </>
+                ) : (
+                    <>
+                        <span>Zapisuj kopie również w folderze na dysku (np. synchronizowanym z chmurą).</span>
+                        <button onClick={handleChooseFolder} className="text-xs px-2 py-1 rounded border border-slate-200 dark:border-slate-600 hover:bg-white dark:hover:bg-slate-800 ml-auto">
+                            Wybierz folder
+                        </button>
+                    </>
+                )}
+            </div>
+        )}
+
+        {message && (
+            <p className={`text-sm mb-3 ${message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>{message.text}</p>
+        )}
+
+        {/* Snapshot Browser */}
+        {backupSnapshots.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Brak automatycznych kopii.</p>
+        ) : (
+            <div className="space-y-2">
+                {backupSnapshots.map(snapshot => (
+                    <div key={snapshot.id} className="flex items-center justify-between gap-3 p-3 border border-slate-100 dark:border-slate-700 rounded-lg">
+                        <div className="min-w-0">
+                            <div className="font-semibold text-sm text-slate-800 dark:text-slate-200 flex items-center gap-2">
+                                {new Date(snapshot.timestamp).toLocaleString('pl-PL')}
+                                {snapshot.encrypted && <span title="Zaszyfrowana kluczem bazy"><Lock size={12} className="text-slate-400" /></span>}
+                            </div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400">
+                                {SNAPSHOT_TRIGGER_LABELS[snapshot.trigger]}{snapshot.label && `: ${snapshot.label}`} · {formatFileSize(snapshot.size)} · {snapshot.transactionCount} transakcji
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <button onClick={() => setSnapshotToRestore(snapshot)} className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors">
+                                <RotateCcw size={12} /> Przywróć
+                            </button>
+                            <button onClick={() => handleDownload(snapshot)} className="p-1.5 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded" title="Pobierz">
+                                <Download size={14} />
+                            </button>
+                            <button onClick={() => deleteSnapshot(snapshot.id)} className="p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded" title="Usuń">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <ConfirmModal
+            isOpen={!!snapshotToRestore}
+            onClose={() => setSnapshotToRestore(null)}
+            onConfirm={handleRestore}
+            title="Przywróć kopię"
+            message={snapshotToRestore ? `Zastąpić wszystkie obecne dane kopią z ${new Date(snapshotToRestore.timestamp).toLocaleString('pl-PL')} (${snapshotToRestore.transactionCount} transakcji)?` : ''}
+            confirmLabel="Przywróć"
+        />
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Coins, Upload, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { useFinance } from '../../context/FinanceContext';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../../constants';
+import { parseRatesCsv } from '../../utils/currencyHelpers';
+import { ConfirmModal } from '../ConfirmModal';
+
+const FOREIGN_CURRENCIES = SUPPORTED_CURRENCIES.filter(c => c !== DEFAULT_CURRENCY);
+const VISIBLE_RATES_LIMIT = 20;
+
+export const CurrencyManager: React.FC = () => {
+  const {
+    baseCurrency, setBaseCurrency, exchangeRates, missingRateCurrencies: missingCurrencies,
+    saveExchangeRate, deleteExchangeRate, importExchangeRates, clearExchangeRates
+  } = useFinance();
+
+  const [selectedCurrency, setSelectedCurrency] = useState<string>(FOREIGN_CURRENCIES[0]);
+  const [newDate, setNewDate] = useState(new Date().toISOString().split('T')[0]);
+  const [newRate, setNewRate] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const ratesForCurrency = useMemo(
+    () => exchangeRates.filter(r => r.currency === selectedCurrency).sort((a, b) => b.date.localeCompare(a.date)),
+    [exchangeRates, selectedCurrency]
+  );
+
+  const currencyCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    exchangeRates.forEach(r => { counts[r.currency] = (counts[r.currency] || 0) + 1; });
+    return counts;
+  }, [exchangeRates]);
+
+  const handleAddRate = () => {
+    const rate = parseFloat(newRate.replace(',', '.'));
+    if (!newDate || isNaN(rate) || rate <= 0) return;
+    saveExchangeRate({ currency: selectedCurrency, date: newDate, rate });
+    setNewRate('');
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const rates = parseRatesCsv(event.target?.result as string);
+      if (rates.length > 0) {
+        importExchangeRates(rates);
+        const currencies = new Set(rates.map(r => r.currency));
+        setImportMessage(`Zaimportowano ${rates.length} kursów (${currencies.size} walut).`);
+      } else {
+        setImportMessage('Nie rozpoznano kursów w pliku. Oczekiwany format: archiwum tabeli A NBP lub kolumny data;waluta;kurs.');
+      }
+    };
+    // Pliki NBP są kodowane w windows-1250
+    reader.readAsText(file, 'windows-1250');
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                <Coins size={20} className="text-amber-500" /> Waluty i kursy
+            </h2>
+            <div className="flex items-center gap-2">
+                <label className="text-sm text-slate-500 dark:text-slate-400">Waluta bazowa</label>
+                <select
+                    value={baseCurrency}
+                    onChange={(e) => setBaseCurrency(e.target.value)}
+                    className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                    {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+            </div>
+        </div>
+
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+            Sumy, salda i wykresy są przeliczane na walutę bazową po kursie z dnia transakcji (lub ostatnim wcześniejszym).
+            Kursy podawane są w {DEFAULT_CURRENCY} za 1 jednostkę waluty, jak w tabeli A NBP.
+        </p>
+
+        {missingCurrencies.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/30 rounded-lg p-3 mb-4 flex gap-2 text-xs text-amber-800 dark:text-amber-300">
+                <AlertTriangle size={16} className="shrink-0" />
+                <span>Brak kursów dla: <strong>{missingCurrencies.join(', ')}</strong>. Takie transakcje nie są wliczane do podsumowań, wykresów ani sald kont w innej walucie.</span>
+            </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+            <select
+                value={selectedCurrency}
+                onChange={(e) => setSelectedCurrency(e.target.value)}
+                className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+                {FOREIGN_CURRENCIES.map(code => (
+                    <option key={code} value={code}>{code}{currencyCounts[code] ? ` (${currencyCounts[code]})` : ''}</option>
+                ))}
+            </select>
+            <input
+                type="date"
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+                className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none [color-scheme:light] dark:[color-scheme:dark]"
+            />
+            <input
+                type="text"
+                inputMode="decimal"
+                value={newRate}
+                onChange={(e) => setNewRate(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddRate(); }}
+                placeholder={`Kurs (${DEFAULT_CURRENCY})`}
+                className="w-28 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button onClick={handleAddRate} className="flex items-center gap-1 text-sm px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+                <Plus size={14} /> Dodaj kurs
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-sm px-3 py-1 rounded border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors ml-auto">
+                <Upload size={14} /> Importuj CSV (NBP)
+            </button>
+            <input type="file" ref={fileInputRef} accept=".csv,.txt" className="hidden" onChange={handleImportFile} />
+        </div>
+
+        {importMessage && (
+            <div className="text-xs text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 rounded p-2 mb-4">{importMessage}</div>
+        )}
+
+        {ratesForCurrency.length === 0 ? (
+            <div className="text-sm text-slate-400 dark:text-slate-500 text-center py-4">Brak kursów dla {selectedCurrency}.</div>
+        ) : (
+            <div className="border border-slate-100 dark:border-slate-700 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-900/50 text-xs text-slate-500 dark:text-slate-400 uppercase">
+                        <tr>
+                            <th className="px-3 py-2 text-left">Data</th>
+                            <th className="px-3 py-2 text-right">1 {selectedCurrency} = {DEFAULT_CURRENCY}</th>
+                            <th className="px-3 py-2 w-10"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {ratesForCurrency.slice(0, VISIBLE_RATES_LIMIT).map(r => (
+                            <tr key={r.date} className="group hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                                <td className="px-3 py-1.5 text-slate-700 dark:text-slate-300 font-mono">{r.date}</td>
+                                <td className="px-3 py-1.5 text-right text-slate-800 dark:text-slate-200 font-medium">{r.rate.toFixed(4)}</td>
+                                <td className="px-3 py-1.5 text-center">
+                                    <button onClick={() => deleteExchangeRate(r.currency, r.date)} className="p-1 text-slate-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity" title="Usuń kurs">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="flex justify-between items-center px-3 py-2 bg-slate-50 dark:bg-slate-900/50 text-xs text-slate-500 dark:text-slate-400">
+                    <span>
+                        {ratesForCurrency.length > VISIBLE_RATES_LIMIT
+                            ? `Pokazano ${VISIBLE_RATES_LIMIT} najnowszych z ${ratesForCurrency.length}`
+                            : `${ratesForCurrency.length} kursów`}
+                    </span>
+                    <button onClick={() => setShowClearConfirm(true)} className="text-red-500 hover:text-red-700 dark:hover:text-red-400">
+                        Usuń wszystkie kursy {selectedCurrency}
+                    </button>
+                </div>
+            </div>
+        )}
+
+        <ConfirmModal
+            isOpen={showClearConfirm}
+            onClose={() => setShowClearConfirm(false)}
+            onConfirm={() => { clearExchangeRates(selectedCurrency); setShowClearConfirm(false); }}
+            title="Usuń kursy"
+            message={`Czy na pewno chcesz usunąć wszystkie kursy ${selectedCurrency} (${ratesForCurrency.length})?`}
+        />
+    </div>
+  );
+};
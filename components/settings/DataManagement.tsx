@@ -1,10 +1,16 @@
 
 import React, { useState } from 'react';
-import { Database, FileJson, Download, AlertTriangle } from 'lucide-react';
+import { Database, FileJson, Download, AlertTriangle, History, Undo2, Trash2, Lock } from 'lucide-react';
 import { Button } from '../Button';
 import { useFinance } from '../../context/FinanceContext';
-import { BackupData, CategoryItem, Transaction } from '../../types';
+import { CategoryItem, Transaction, ImportBatch } from '../../types';
 import { ConfirmModal } from '../ConfirmModal';
+import { JournalExport } from './JournalExport';
+import { AutoBackupManager } from './AutoBackupManager';
+import { ActivityHistory } from './ActivityHistory';
+import { downloadBlob, getExportDateStamp } from '../../utils/fileDownload';
+import { MIN_BACKUP_PASSPHRASE_LENGTH, encryptBackup } from '../../utils/backupCrypto';
+import { PassphraseModal } from './PassphraseModal';
 
 interface DataManagementProps {
   onOpenImport?: () => void;
@@ -13,31 +19,34 @@ interface DataManagementProps {
 }
 
 export const DataManagement: React.FC<DataManagementProps> = ({ onOpenImport, categories, transactions }) => {
-  const { factoryReset, isPrivateMode, recurringTransactions } = useFinance();
+  const { factoryReset, createBackup, importBatches, rollbackImportBatch, deleteImportBatch } = useFinance();
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [rollbackBatch, setRollbackBatch] = useState<ImportBatch | null>(null);
+  const [showEncryptedBackup, setShowEncryptedBackup] = useState(false);
 
-  const generateBackupData = (): string => {
-    const backup: BackupData = {
-      version: 1,
-      timestamp: new Date().toISOString(),
-      categories: categories,
-      transactions: transactions,
-      recurringTransactions: recurringTransactions,
-      settings: { isPrivateMode: isPrivateMode }
-    };
-    return JSON.stringify(backup, null, 2);
+  // Liczba transakcji, które nadal pochodzą z danej partii (część mogła zostać usunięta ręcznie)
+  const countBatchTransactions = (batchId: string) => transactions.filter(t => t.importBatchId === batchId).length;
+
+  // Transakcje z partii edytowane lub uzgodnione po imporcie - wycofanie usunie też te zmiany
+  const countChangedBatchTransactions = (batchId: string) => transactions.filter(t =>
+    t.importBatchId === batchId && (!!t.reconcileStatus || (!!t.updatedAt && t.updatedAt !== t.createdAt))).length;
+
+  const getRollbackMessage = (batch: ImportBatch) => {
+    const changed = countChangedBatchTransactions(batch.id);
+    const warning = changed > 0 ? ` UWAGA: ${changed} z nich zmieniono lub uzgodniono po imporcie - te zmiany też zostaną usunięte.` : '';
+    return `Usunąć ${countBatchTransactions(batch.id)} transakcji zaimportowanych z pliku "${batch.fileName}"?${warning} Kategorie utworzone podczas importu pozostaną. Wycofanie można cofnąć do końca sesji.`;
+  };
+
+  const handleExportBackup = async () => {
+    const backup = await createBackup();
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `bTrackr_Backup_${getExportDateStamp()}.json`);
   };
 
-  const handleExportBackup = () => {
-    const dataStr = generateBackupData();
-    const blob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `bTrackr_Backup_${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleExportEncryptedBackup = async (passphrase: string) => {
+    const backup = await createBackup();
+    const content = await encryptBackup(JSON.stringify(backup), passphrase);
+    downloadBlob(new Blob([content], { type: 'application/json' }), `bTrackr_Backup_${getExportDateStamp()}.encrypted.json`);
   };
 
   return (
@@ -52,7 +61,7 @@ export const DataManagement: React.FC<DataManagementProps> = ({ onOpenImport, ca
             </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {onOpenImport && (
                 <Button 
                     onClick={onOpenImport} 
@@ -64,7 +73,7 @@ export const DataManagement: React.FC<DataManagementProps> = ({ onOpenImport, ca
                     </div>
                     <div className="text-left">
                         <span className="block font-bold text-sm text-white">Importuj Plik</span>
-                        <span className="block text-[10px] font-normal text-slate-300">CSV lub JSON</span>
+                        <span className="block text-[10px] font-normal text-slate-300">CSV, XLSX, wyciąg, ledger, QIF lub JSON</span>
                     </div>
                 </Button>
             )}
@@ -82,9 +91,66 @@ export const DataManagement: React.FC<DataManagementProps> = ({ onOpenImport, ca
                     <span className="block text-[10px] font-normal text-slate-300">Zapisz na dysku (JSON)</span>
                 </div>
             </Button>
+
+            <Button 
+                onClick={() => setShowEncryptedBackup(true)} 
+                variant="secondary"
+                className="bg-white/10 !text-white border-white/20 hover:bg-white/20 py-3 px-4 flex-row justify-start items-center gap-4 h-auto group"
+            >
+                <div className="p-2 bg-amber-500/20 rounded-lg shrink-0">
+                    <Lock size={20} className="text-amber-300 group-hover:text-amber-200" />
+                </div>
+                <div className="text-left">
+                    <span className="block font-bold text-sm text-white">Backup z hasłem</span>
+                    <span className="block text-[10px] font-normal text-slate-300">Zaszyfrowany (AES-GCM)</span>
+                </div>
+            </Button>
             </div>
         </div>
 
+        <AutoBackupManager />
+
+        <JournalExport categories={categories} transactions={transactions} />
+
+        {/* Import History */}
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2 mb-4">
+                <History size={20} className="text-indigo-500" /> Historia importów <span className="text-sm font-normal text-slate-400">({importBatches.length})</span>
+            </h2>
+            {importBatches.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Brak zaimportowanych plików.</p>
+            ) : (
+                <div className="space-y-2">
+                    {importBatches.map(batch => (
+                        <div key={batch.id} className={`flex items-center justify-between gap-3 p-3 border border-slate-100 dark:border-slate-700 rounded-lg ${batch.rolledBackAt ? 'opacity-60' : ''}`}>
+                            <div className="min-w-0">
+                                <div className="font-semibold text-sm text-slate-800 dark:text-slate-200 truncate">
+                                    {batch.fileName || 'Bez nazwy'}
+                                    {batch.profileName && <span className="ml-2 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-400">{batch.profileName}</span>}
+                                </div>
+                                <div className="text-xs text-slate-500 dark:text-slate-400">
+                                    {new Date(batch.timestamp).toLocaleString('pl-PL')}
+                                    {' · '}dodano {batch.addedCount}, pominięto {batch.skippedCount}{batch.mergedCount ? `, scalono ${batch.mergedCount}` : ''}, błędy {batch.failedCount}
+                                    {batch.rolledBackAt && <span className="text-red-500 dark:text-red-400"> · wycofano {new Date(batch.rolledBackAt).toLocaleDateString('pl-PL')}</span>}
+                                </div>
+                            </div>
+                            {batch.rolledBackAt ? (
+                                <button onClick={() => deleteImportBatch(batch.id)} className="p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded shrink-0" title="Usuń z historii">
+                                    <Trash2 size={14} />
+                                </button>
+                            ) : (
+                                <button onClick={() => setRollbackBatch(batch)} className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors shrink-0">
+                                    <Undo2 size={12} /> Wycofaj
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        <ActivityHistory />
+
         {/* Danger Zone */}
         <div className="bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 p-5 rounded-2xl">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -109,10 +175,30 @@ export const DataManagement: React.FC<DataManagementProps> = ({ onOpenImport, ca
         <ConfirmModal 
             isOpen={showResetConfirm}
             title="Reset do ustawień fabrycznych"
-            message="UWAGA: Ta operacja nieodwracalnie usunie WSZYSTKIE Twoje dane (transakcje, kategorie, ustawienia). Aplikacja zostanie przywrócona do stanu początkowego. Czy na pewno chcesz kontynuować?"
+            message="UWAGA: Ta operacja usunie WSZYSTKIE Twoje dane (transakcje, kategorie, ustawienia, automatyczne kopie). Aplikacja zostanie przywrócona do stanu początkowego. Zachowana zostanie tylko kopia bezpieczeństwa sprzed resetu - do końca sesji reset można cofnąć. Czy na pewno chcesz kontynuować?"
             onConfirm={() => { factoryReset(); setShowResetConfirm(false); }}
             onClose={() => setShowResetConfirm(false)}
         />
+
+        <PassphraseModal
+            isOpen={showEncryptedBackup}
+            mode="CREATE"
+            title="Zaszyfrowana kopia"
+            description="Plik zostanie zaszyfrowany (AES-256-GCM). Bez hasła nie da się go odtworzyć - zapisz je w bezpiecznym miejscu."
+            confirmLabel="Zaszyfruj i pobierz"
+            minLength={MIN_BACKUP_PASSPHRASE_LENGTH}
+            onClose={() => setShowEncryptedBackup(false)}
+            onConfirm={handleExportEncryptedBackup}
+        />
+
+        <ConfirmModal
+            isOpen={!!rollbackBatch}
+            title="Wycofaj import"
+            message={rollbackBatch ? getRollbackMessage(rollbackBatch) : ''}
+            confirmLabel="Wycofaj"
+            onConfirm={() => { if (rollbackBatch) rollbackImportBatch(rollbackBatch.id); setRollbackBatch(null); }}
+            onClose={() => setRollbackBatch(null)}
+        />
     </div>
   );
 };
@@ -0,0 +1,75 @@
+import React, { useState, useMemo } from 'react';
+import { BookOpen, Download } from 'lucide-react';
+import { Button } from '../Button';
+import { useFinance } from '../../context/FinanceContext';
+import { CategoryItem, Transaction } from '../../types';
+import { JournalFormat, JOURNAL_FORMAT_LABELS, PLAIN_TEXT_FILE_EXTENSIONS, exportJournal } from '../../utils/plainTextAccounting';
+import { exportQif } from '../../utils/qif';
+import { downloadBlob } from '../../utils/fileDownload';
+
+interface JournalExportProps {
+  categories: CategoryItem[];
+  transactions: Transaction[];
+}
+
+const FORMATS = Object.keys(JOURNAL_FORMAT_LABELS) as JournalFormat[];
+
+/**
+ * Eksport historii do dziennika ledger/hledger/beancount (np. do rocznego uzgodnienia) lub QIF
+ * (GnuCash, MS Money). Import tych formatów obsługuje kreator importu.
+ */
+export const JournalExport: React.FC<JournalExportProps> = ({ categories, transactions }) => {
+  const { accounts, baseCurrency } = useFinance();
+  const [format, setFormat] = useState<JournalFormat>('LEDGER');
+  const [year, setYear] = useState<string>('ALL');
+
+  const years = useMemo(
+    () => Array.from(new Set(transactions.map(t => t.date.slice(0, 4)))).sort().reverse(),
+    [transactions]
+  );
+  const selected = year === 'ALL' ? transactions : transactions.filter(t => t.date.startsWith(year));
+
+  const handleExport = () => {
+    const content = format === 'QIF'
+      ? exportQif(selected, categories, accounts)
+      : exportJournal(format, selected, categories, accounts, baseCurrency);
+    const suffix = year === 'ALL' ? new Date().toISOString().split('T')[0] : year;
+    const extension = format === 'QIF' ? 'qif' : PLAIN_TEXT_FILE_EXTENSIONS[format];
+    downloadBlob(new Blob([content], { type: 'text/plain;charset=utf-8' }), `bTrackr_${suffix}.${extension}`);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+      <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2 mb-1">
+        <BookOpen size={20} className="text-indigo-500" /> Księgowość tekstowa i QIF
+      </h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Konta jako <span className="font-mono text-xs">Assets:</span>, kategorie jako <span className="font-mono text-xs">Expenses:Kategoria:Podkategoria</span>, oszczędności jako <span className="font-mono text-xs">Assets:</span>. QIF zawiera listę kategorii i konta jako osobne sekcje. Plik można zaimportować z powrotem przez „Importuj Plik”.
+      </p>
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+        <div className="flex bg-slate-50 dark:bg-slate-700 p-1 rounded-lg">
+          {FORMATS.map(f => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${format === f ? 'bg-white dark:bg-slate-600 shadow-sm text-indigo-600 dark:text-indigo-300' : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'}`}
+            >
+              {JOURNAL_FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white"
+        >
+          <option value="ALL">Cała historia</option>
+          {years.map(y => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <Button onClick={handleExport} disabled={selected.length === 0} className="sm:ml-auto">
+          <Download size={16} /> Pobierz ({selected.length})
+        </Button>
+      </div>
+    </div>
+  );
+};
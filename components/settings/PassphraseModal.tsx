@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Lock, Eye, EyeOff } from 'lucide-react';
+import { Button } from '../Button';
+
+/**
+ * CREATE - nowe hasło wpisywane dwukrotnie (hasła nie da się odzyskać),
+ * CHANGE - obecne hasło + nowe dwukrotnie, VERIFY - tylko obecne hasło.
+ */
+export type PassphraseModalMode = 'CREATE' | 'CHANGE' | 'VERIFY';
+
+interface PassphraseModalProps {
+  isOpen: boolean;
+  mode: PassphraseModalMode;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  minLength: number;
+  onClose: () => void;
+  /** `passphrase` - nowe hasło (w trybie VERIFY: obecne). Błąd jest wyświetlany w oknie. */
+  onConfirm: (passphrase: string, currentPassphrase: string) => Promise<void>;
+}
+
+export const PassphraseModal: React.FC<PassphraseModalProps> = ({ isOpen, mode, title, description, confirmLabel, minLength, onClose, onConfirm }) => {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const needsCurrent = mode !== 'CREATE';
+  const needsNew = mode !== 'VERIFY';
+  const isTooShort = needsNew && passphrase.length < minLength;
+  const isMismatch = needsNew && confirmation.length > 0 && confirmation !== passphrase;
+  const canConfirm = (!needsCurrent || currentPassphrase.length > 0) && (!needsNew || (!isTooShort && confirmation === passphrase));
+
+  const handleClose = () => {
+    setCurrentPassphrase('');
+    setPassphrase('');
+    setConfirmation('');
+    setShowPassphrase(false);
+    setError('');
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      await onConfirm(needsNew ? passphrase : currentPassphrase, currentPassphrase);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operacja nie powiodła się.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 dark:text-white";
+  const toggle = (
+    <button type="button" onClick={() => setShowPassphrase(!showPassphrase)} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300" title={showPassphrase ? 'Ukryj hasło' : 'Pokaż hasło'}>
+      {showPassphrase ? <EyeOff size={16} /> : <Eye size={16} />}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-sm overflow-hidden">
+        <div className="p-6 space-y-4">
+          <div className="text-center">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-indigo-100 dark:bg-indigo-900/30 mb-4">
+              <Lock className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">{title}</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{description}</p>
+          </div>
+
+          {needsCurrent && (
+            <div className="relative">
+              <input
+                type={showPassphrase ? 'text' : 'password'}
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                placeholder="Obecne hasło"
+                autoComplete="current-password"
+                autoFocus
+                className={`${inputClass} pr-10`}
+              />
+              {!needsNew && toggle}
+            </div>
+          )}
+
+          {needsNew && (
+            <>
+              <div className="relative">
+                <input
+                  type={showPassphrase ? 'text' : 'password'}
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={`${needsCurrent ? 'Nowe hasło' : 'Hasło'} (min. ${minLength} znaków)`}
+                  autoComplete="new-password"
+                  autoFocus={!needsCurrent}
+                  className={`${inputClass} pr-10`}
+                />
+                {toggle}
+              </div>
+              <input
+                type={showPassphrase ? 'text' : 'password'}
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Powtórz hasło"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </>
+          )}
+          {isMismatch && <p className="text-xs text-red-500 dark:text-red-400">Hasła nie są identyczne.</p>}
+          {error && <p className="text-xs text-red-500 dark:text-red-400">{error}</p>}
+
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={handleClose} disabled={isWorking} className="flex-1">
+              Anuluj
+            </Button>
+            <Button onClick={handleConfirm} disabled={!canConfirm} isLoading={isWorking} className="flex-1">
+              {confirmLabel}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { Repeat, Trash2 } from 'lucide-react';
 import { useFinance } from '../../context/FinanceContext';
-import { CURRENCY_FORMATTER } from '../../constants';
+import { getCurrencyFormatter } from '../../constants';
 import { ConfirmModal } from '../ConfirmModal';
 
 export const RecurringManager: React.FC = () => {
@@ -33,7 +33,7 @@ export const RecurringManager: React.FC = () => {
                             <div>
                                 <div className="font-semibold text-sm text-slate-800 dark:text-slate-200">{rule.description}</div>
                                 <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
-                                    <span>{CURRENCY_FORMATTER.format(rule.amount)}</span>
+                                    <span>{getCurrencyFormatter(rule.currency).format(rule.amount)}</span>
                                     <span>•</span>
                                     <span>{rule.frequency === 'MONTHLY' ? 'Co miesiąc' : rule.frequency === 'WEEKLY' ? 'Co tydzień' : 'Co rok'}</span>
                                     <span>•</span>
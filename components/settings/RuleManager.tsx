@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit2, Check, X, Wand2, ArrowUp, ArrowDown, Power } from 'lucide-react';
+import { useFinance } from '../../context/FinanceContext';
+import { CategorizationRule, RuleMatchMode, TransactionType } from '../../types';
+import { getCategoryName } from '../../constants';
+import { isValidRegex } from '../../utils/rulesEngine';
+import { ConfirmModal } from '../ConfirmModal';
+import { RulesPreviewModal } from '../RulesPreviewModal';
+
+interface RuleDraft {
+  name: string;
+  descriptionMode: RuleMatchMode;
+  descriptionPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  type: '' | TransactionType;
+  accountId: string;
+  categoryId: string;
+  subcategoryId: string;
+  tags: string;
+  description: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '', descriptionMode: 'CONTAINS', descriptionPattern: '', minAmount: '', maxAmount: '',
+  type: '', accountId: '', categoryId: '', subcategoryId: '', tags: '', description: ''
+};
+
+const toDraft = (rule: CategorizationRule): RuleDraft => ({
+  name: rule.name,
+  descriptionMode: rule.conditions.descriptionMode,
+  descriptionPattern: rule.conditions.descriptionPattern || '',
+  minAmount: rule.conditions.minAmount?.toString() || '',
+  maxAmount: rule.conditions.maxAmount?.toString() || '',
+  type: rule.conditions.type || '',
+  accountId: rule.conditions.accountId || '',
+  categoryId: rule.actions.categoryId || '',
+  subcategoryId: rule.actions.subcategoryId || '',
+  tags: (rule.actions.tags || []).join(', '),
+  description: rule.actions.description || ''
+});
+
+const parseOptionalNumber = (val: string): number | undefined => {
+  const num = parseFloat(val.replace(',', '.'));
+  return isNaN(num) ? undefined : num;
+};
+
+const inputClass = "border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+export const RuleManager: React.FC = () => {
+  const {
+    rules, categories, accounts, transactions,
+    addRule, updateRule, deleteRule, moveRule, applyRulesToHistory
+  } = useFinance();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  const isRegexInvalid = draft.descriptionMode === 'REGEX' && !!draft.descriptionPattern && !isValidRegex(draft.descriptionPattern);
+  const hasAction = !!draft.categoryId || !!draft.tags.trim() || !!draft.description.trim();
+  const canSave = !!draft.name.trim() && hasAction && !isRegexInvalid;
+
+  const draftCategory = categories.find(c => c.id === draft.categoryId);
+  const availableCategories = draft.type ? categories.filter(c => c.type === draft.type) : categories;
+
+  const handleStartEdit = (rule: CategorizationRule) => {
+    setIsAdding(false);
+    setEditingId(rule.id);
+    setDraft(toDraft(rule));
+  };
+
+  const handleStartAdd = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setIsAdding(true);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setIsAdding(false);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const tags = draft.tags.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean);
+    const payload = {
+      name: draft.name.trim(),
+      enabled: true,
+      conditions: {
+        descriptionMode: draft.descriptionMode,
+        descriptionPattern: draft.descriptionPattern.trim() || undefined,
+        minAmount: parseOptionalNumber(draft.minAmount),
+        maxAmount: parseOptionalNumber(draft.maxAmount),
+        type: draft.type || undefined,
+        accountId: draft.accountId || undefined
+      },
+      actions: {
+        categoryId: draft.categoryId || undefined,
+        subcategoryId: draft.subcategoryId || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        description: draft.description.trim() || undefined
+      }
+    };
+
+    if (isAdding) {
+      addRule(payload);
+    } else if (editingId) {
+      const existing = rules.find(r => r.id === editingId);
+      if (existing) updateRule({ ...existing, ...payload, enabled: existing.enabled });
+    }
+    handleCancel();
+  };
+
+  const describeRule = (rule: CategorizationRule): string => {
+    const parts: string[] = [];
+    const c = rule.conditions;
+    if (c.descriptionPattern) parts.push(c.descriptionMode === 'REGEX' ? `opis ~ /${c.descriptionPattern}/` : `opis zawiera "${c.descriptionPattern}"`);
+    if (c.minAmount !== undefined || c.maxAmount !== undefined) parts.push(`kwota ${c.minAmount ?? '…'}–${c.maxAmount ?? '…'}`);
+    if (c.type) parts.push(c.type === TransactionType.INCOME ? 'przychód' : 'wydatek');
+    if (c.accountId) parts.push(`konto: ${accounts.find(a => a.id === c.accountId)?.name || '?'}`);
+
+    const actions: string[] = [];
+    const a = rule.actions;
+    if (a.categoryId) actions.push(getCategoryName(a.categoryId, categories));
+    if (a.tags?.length) actions.push(a.tags.map(t => `#${t}`).join(' '));
+    if (a.description) actions.push(`opis → "${a.description}"`);
+
+    return `${parts.length > 0 ? parts.join(', ') : 'każda transakcja'} ⇒ ${actions.join(', ')}`;
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-3 p-4 border border-indigo-200 dark:border-indigo-800 rounded-lg bg-indigo-50/50 dark:bg-indigo-900/20 animate-fade-in">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Nazwa reguły"
+        autoFocus
+        className={`w-full ${inputClass}`}
+      />
+
+      <div>
+        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">Warunki</div>
+        <div className="flex flex-wrap gap-2">
+          <select value={draft.descriptionMode} onChange={(e) => setDraft({ ...draft, descriptionMode: e.target.value as RuleMatchMode })} className={inputClass}>
+            <option value="CONTAINS">Opis zawiera</option>
+            <option value="REGEX">Opis pasuje (regex)</option>
+          </select>
+          <input
+            type="text"
+            value={draft.descriptionPattern}
+            onChange={(e) => setDraft({ ...draft, descriptionPattern: e.target.value })}
+            placeholder={draft.descriptionMode === 'REGEX' ? 'np. ^BLIK .*(allegro)' : 'np. biedronka'}
+            className={`flex-1 min-w-[160px] ${inputClass} ${isRegexInvalid ? 'border-red-400 dark:border-red-500' : ''}`}
+          />
+          <input type="text" inputMode="decimal" value={draft.minAmount} onChange={(e) => setDraft({ ...draft, minAmount: e.target.value })} placeholder="Kwota od" className={`w-24 ${inputClass}`} />
+          <input type="text" inputMode="decimal" value={draft.maxAmount} onChange={(e) => setDraft({ ...draft, maxAmount: e.target.value })} placeholder="Kwota do" className={`w-24 ${inputClass}`} />
+          <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as RuleDraft['type'], categoryId: '', subcategoryId: '' })} className={inputClass}>
+            <option value="">Dowolny typ</option>
+            <option value={TransactionType.EXPENSE}>Wydatek</option>
+            <option value={TransactionType.INCOME}>Przychód</option>
+          </select>
+          {accounts.length > 1 && (
+            <select value={draft.accountId} onChange={(e) => setDraft({ ...draft, accountId: e.target.value })} className={inputClass}>
+              <option value="">Dowolne konto</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          )}
+        </div>
+        {isRegexInvalid && <p className="text-xs text-red-500 mt-1">Niepoprawne wyrażenie regularne.</p>}
+      </div>
+
+      <div>
+        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">Akcje</div>
+        <div className="flex flex-wrap gap-2">
+          <select value={draft.categoryId} onChange={(e) => setDraft({ ...draft, categoryId: e.target.value, subcategoryId: '' })} className={inputClass}>
+            <option value="">-- Bez zmiany kategorii --</option>
+            {availableCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          {draftCategory && draftCategory.subcategories.length > 0 && (
+            <select value={draft.subcategoryId} onChange={(e) => setDraft({ ...draft, subcategoryId: e.target.value })} className={inputClass}>
+              <option value="">-- Podkategoria --</option>
+              {draftCategory.subcategories.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          )}
+          <input type="text" value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="Tagi (po przecinku)" className={`w-40 ${inputClass}`} />
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder={draft.descriptionMode === 'REGEX' ? 'Nowy opis (np. Allegro $1)' : 'Nowy opis'}
+            className={`flex-1 min-w-[160px] ${inputClass}`}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={handleCancel} className="text-slate-500 text-sm px-3 py-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded flex items-center gap-1"><X size={14}/> Anuluj</button>
+        <button onClick={handleSave} disabled={!canSave} className="text-sm px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"><Check size={14}/> Zapisz regułę</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                Reguły kategoryzacji <span className="text-sm font-normal text-slate-400">({rules.length})</span>
+            </h2>
+            {rules.length > 0 && (
+                <button onClick={() => setIsPreviewOpen(true)} className="flex items-center gap-1 text-sm px-3 py-1 rounded border border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors">
+                    <Wand2 size={14} /> Zastosuj reguły do historii
+                </button>
+            )}
+        </div>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+            Reguły działają przy imporcie i ręcznym dodawaniu transakcji, w kolejności z listy.
+            Kategoria i opis pochodzą z pierwszej pasującej reguły, tagi są sumowane.
+        </p>
+
+        <div className="space-y-2 mb-4">
+            {rules.map((rule, index) => (
+                editingId === rule.id ? (
+                    <div key={rule.id}>{renderEditor()}</div>
+                ) : (
+                    <div key={rule.id} className={`flex items-center justify-between p-3 border border-slate-100 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors group bg-white dark:bg-slate-800 ${rule.enabled ? '' : 'opacity-50'}`}>
+                        <div className="flex items-center gap-3 min-w-0">
+                            <div className="p-2 rounded-full bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-400 shrink-0">
+                                <Wand2 size={16} />
+                            </div>
+                            <div className="min-w-0">
+                                <div className="font-semibold text-sm text-slate-800 dark:text-slate-200">{rule.name}</div>
+                                <div className="text-xs text-slate-500 dark:text-slate-400 truncate">{describeRule(rule)}</div>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                            <button onClick={() => moveRule(rule.id, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 rounded disabled:opacity-30" title="W górę"><ArrowUp size={14} /></button>
+                            <button onClick={() => moveRule(rule.id, 1)} disabled={index === rules.length - 1} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 rounded disabled:opacity-30" title="W dół"><ArrowDown size={14} /></button>
+                            <button onClick={() => updateRule({ ...rule, enabled: !rule.enabled })} className={`p-1.5 rounded ${rule.enabled ? 'text-green-600 dark:text-green-400' : 'text-slate-400'} hover:bg-slate-100 dark:hover:bg-slate-700`} title={rule.enabled ? 'Wyłącz' : 'Włącz'}><Power size={14} /></button>
+                            <button onClick={() => handleStartEdit(rule)} className="p-1.5 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded" title="Edytuj"><Edit2 size={14} /></button>
+                            <button onClick={() => setConfirmId(rule.id)} className="p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded" title="Usuń regułę"><Trash2 size={14} /></button>
+                        </div>
+                    </div>
+                )
+            ))}
+        </div>
+
+        {isAdding ? renderEditor() : (
+          <button
+            onClick={handleStartAdd}
+            className="border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-3 flex items-center justify-center text-slate-400 dark:text-slate-500 hover:border-indigo-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-all font-medium text-sm gap-2 h-[58px] w-full"
+          >
+            <Plus size={16} /> Dodaj regułę
+          </button>
+        )}
+
+        <ConfirmModal
+            isOpen={!!confirmId}
+            onClose={() => setConfirmId(null)}
+            onConfirm={() => { if (confirmId) deleteRule(confirmId); setConfirmId(null); }}
+            title="Usuń regułę"
+            message={`Czy na pewno chcesz usunąć regułę "${rules.find(r => r.id === confirmId)?.name}"? Transakcje skategoryzowane wcześniej pozostaną bez zmian.`}
+        />
+
+        <RulesPreviewModal
+            isOpen={isPreviewOpen}
+            onClose={() => setIsPreviewOpen(false)}
+            rules={rules}
+            transactions={transactions}
+            categories={categories}
+            onApply={applyRulesToHistory}
+        />
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldOff, Lock, KeyRound } from 'lucide-react';
+import { Button } from '../Button';
+import { useDatabaseEncryption } from '../../hooks/useDatabaseEncryption';
+import { AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK_MINUTES, MIN_DB_PASSPHRASE_LENGTH } from '../../utils/dbEncryption';
+import { PassphraseModal, PassphraseModalMode } from './PassphraseModal';
+
+const formatAutoLock = (minutes: number) => minutes === 0 ? 'Nigdy' : `Po ${minutes} min bezczynności`;
+
+export const SecuritySettings: React.FC = () => {
+  const { config, isEnabled, lock, enableEncryption, changePassphrase, disableEncryption, setAutoLockMinutes } = useDatabaseEncryption();
+  const [modalMode, setModalMode] = useState<PassphraseModalMode | null>(null);
+
+  const handleConfirm = async (passphrase: string, currentPassphrase: string) => {
+    if (modalMode === 'CREATE') await enableEncryption(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+    else if (modalMode === 'CHANGE') await changePassphrase(currentPassphrase, passphrase);
+    else if (modalMode === 'VERIFY') await disableEncryption(passphrase);
+  };
+
+  const modalTexts: Record<PassphraseModalMode, { title: string, description: string, confirmLabel: string }> = {
+    CREATE: {
+      title: 'Szyfrowanie bazy',
+      description: 'Transakcje (z historią zmian) i kategorie zostaną zaszyfrowane na tym urządzeniu. Hasła nie da się odzyskać - bez niego dane przepadną (pozostanie kopia zapasowa).',
+      confirmLabel: 'Zaszyfruj'
+    },
+    CHANGE: {
+      title: 'Zmiana hasła',
+      description: 'Wszystkie dane zostaną zaszyfrowane ponownie nowym kluczem.',
+      confirmLabel: 'Zmień hasło'
+    },
+    VERIFY: {
+      title: 'Wyłączyć szyfrowanie?',
+      description: 'Dane zostaną odszyfrowane i zapisane w przeglądarce jawnie.',
+      confirmLabel: 'Wyłącz'
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)] dark:shadow-none border border-slate-100 dark:border-slate-700 w-full transition-colors">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                {isEnabled
+                    ? <ShieldCheck size={20} className="text-emerald-500" />
+                    : <ShieldOff size={20} className="text-slate-400" />}
+                Szyfrowanie bazy
+            </h2>
+            {isEnabled && (
+                <Button variant="secondary" onClick={lock} className="text-xs py-1.5">
+                    <Lock size={14} /> Zablokuj teraz
+                </Button>
+            )}
+        </div>
+
+        {!isEnabled ? (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Dane w przeglądarce są zapisane jawnie - może je odczytać każdy z dostępem do profilu przeglądarki.
+                    Po włączeniu szyfrowania aplikacja przy starcie poprosi o hasło lub PIN.
+                </p>
+                <Button onClick={() => setModalMode('CREATE')} className="shrink-0">
+                    <KeyRound size={16} /> Włącz szyfrowanie
+                </Button>
+            </div>
+        ) : (
+            <div className="space-y-4">
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Transakcje (z historią zmian) i kategorie są zaszyfrowane (AES-256-GCM). Daty, typy i powiązania z kontami i kategoriami
+                    pozostają jawne, aby działało wyszukiwanie.
+                </p>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-sm text-slate-500 dark:text-slate-400">Automatyczna blokada</label>
+                    <select
+                        value={config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES}
+                        onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+                        className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                        {AUTO_LOCK_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatAutoLock(minutes)}</option>)}
+                    </select>
+                    <div className="flex gap-2 ml-auto">
+                        <Button variant="secondary" onClick={() => setModalMode('CHANGE')}>Zmień hasło</Button>
+                        <Button variant="danger" onClick={() => setModalMode('VERIFY')}>Wyłącz</Button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {modalMode && (
+            <PassphraseModal
+                isOpen
+                mode={modalMode}
+                {...modalTexts[modalMode]}
+                minLength={MIN_DB_PASSPHRASE_LENGTH}
+                onClose={() => setModalMode(null)}
+                onConfirm={handleConfirm}
+            />
+        )}
+    </div>
+  );
+};
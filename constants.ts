@@ -1,5 +1,5 @@
 
-import { CategoryItem, Transaction, TransactionType } from './types';
+import { Account, AccountType, CategoryItem, Transaction, TransactionType } from './types';
 
 /**
  * SYSTEM_IDS
@@ -19,6 +19,29 @@ export const SYSTEM_IDS = {
   OTHER_INCOME: 'sys_other_income',
 };
 
+/**
+ * Identyfikator konta domyślnego.
+ * Do niego trafiają transakcje sprzed wprowadzenia kont oraz wpisy bez wskazanego konta.
+ */
+export const DEFAULT_ACCOUNT_ID = 'acc_default';
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  {
+    id: DEFAULT_ACCOUNT_ID,
+    name: 'Konto główne',
+    type: 'CHECKING',
+    color: '#6366f1',
+    initialBalance: 0
+  }
+];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  CHECKING: 'Rachunek bieżący',
+  SAVINGS: 'Konto oszczędnościowe',
+  CREDIT_CARD: 'Karta kredytowa',
+  CASH: 'Gotówka'
+};
+
 const createSub = (name: string) => ({ id: crypto.randomUUID(), name });
 
 /**
@@ -306,7 +329,24 @@ export const KEYWORD_TO_CATEGORY_NAME: Record<string, string> = {
   'xtb': 'Inwestycje', 'degiro': 'Inwestycje', 'trading 212': 'Inwestycje', 'bossa': 'Inwestycje', 'obligacje': 'Inwestycje'
 };
 
-export const CURRENCY_FORMATTER = new Intl.NumberFormat('pl-PL', {
-  style: 'currency',
-  currency: 'PLN',
-});
+// --- Waluty ---
+
+/**
+ * Waluta domyślna: waluta danych sprzed obsługi walut oraz waluta notowań
+ * w tabeli kursów (kursy jak w tabeli A NBP - ile PLN za 1 jednostkę).
+ */
+export const DEFAULT_CURRENCY = 'PLN';
+
+export const SUPPORTED_CURRENCIES = ['PLN', 'EUR', 'USD', 'GBP', 'CHF', 'CZK', 'SEK', 'NOK', 'DKK', 'HUF', 'JPY', 'CAD', 'AUD', 'UAH'];
+
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+export const getCurrencyFormatter = (currency: string = DEFAULT_CURRENCY): Intl.NumberFormat => {
+  let formatter = formatterCache.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat('pl-PL', { style: 'currency', currency });
+    formatterCache.set(currency, formatter);
+  }
+  return formatter;
+};
+
@@ -1,14 +1,31 @@
 
-import React, { createContext, useContext, useMemo, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useMemo, useCallback, ReactNode, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { CategoryItem, Transaction, TransactionType, BackupData, FinancialSummary, RecurringTransaction } from '../types';
+import { CategoryItem, Transaction, TransactionType, BackupData, FinancialSummary, RecurringTransaction, Account, TransferInput, ExchangeRate, CategorizationRule, ImportProfile, ImportBatch, ImportBatchSource, Reconciliation, ReconcileStatus, BackupSnapshot, BackupSnapshotTrigger, AutoBackupConfig, SafetyUndo, OperationEntry, RecordPatch } from '../types';
 import { db, migrateFromLocalStorage } from '../db';
 import { ensureSubcategory } from '../utils/dbHelpers';
-import { SYSTEM_IDS } from '../constants';
+import { SYSTEM_IDS, DEFAULT_CURRENCY, getCurrencyFormatter } from '../constants';
 
 // Hooks
 import { useRecurringTransactions } from '../hooks/useRecurringTransactions';
 import { useDataImportExport } from '../hooks/useDataImportExport';
+import { useAccounts } from '../hooks/useAccounts';
+import { useTransfers } from '../hooks/useTransfers';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useRules } from '../hooks/useRules';
+import { useCategoryClassifier } from '../hooks/useCategoryClassifier';
+import { useImportProfiles } from '../hooks/useImportProfiles';
+import { useImportBatches } from '../hooks/useImportBatches';
+import { useReconciliation } from '../hooks/useReconciliation';
+import { useAutoBackup } from '../hooks/useAutoBackup';
+import { useOperationLog } from '../hooks/useOperationLog';
+import { isTransfer } from '../utils/transferHelpers';
+import { ClassifierQuery, CategorySuggestion } from '../utils/categoryClassifier';
+import { buildRateTable, convertAmount, convertTransactions, getCurrenciesWithoutRates, getCurrency, RateTable } from '../utils/currencyHelpers';
+import { BackupMergePlan } from '../utils/backupMerge';
+import { ValidatedBackup } from '../utils/backupSchema';
+import { createPatches } from '../utils/operationLog';
+import { createdEntries, deletedEntries, stampCreated, trackUpdates } from '../utils/transactionHistory';
 
 type Theme = 'light' | 'dark';
 
@@ -17,22 +34,41 @@ interface FinanceContextType {
   transactions: Transaction[];
   categories: CategoryItem[];
   recurringTransactions: RecurringTransaction[];
+  accounts: Account[];
+  exchangeRates: ExchangeRate[];
+  rules: CategorizationRule[];
+  importProfiles: ImportProfile[]; // Tylko profile użytkownika (wbudowane: BUILT_IN_IMPORT_PROFILES)
+  importBatches: ImportBatch[]; // Od najnowszego
+  reconciliations: Reconciliation[]; // Od najnowszego dnia
   savedTags: string[];
   isPrivateMode: boolean;
   theme: Theme;
+  baseCurrency: string;
+  formatCurrency: (value: number) => string; // Kwota w walucie bazowej (sumy, wykresy)
   
   // Derived State
   allTags: string[];
+  /** Kopie transakcji z kwotami przeliczonymi na walutę bazową (do sum i wykresów). */
+  convertedTransactions: Transaction[]; // Bez transakcji, których nie da się przeliczyć
+  missingRateCurrencies: string[]; // Waluty transakcji bez kursu (pominięte w sumach i wykresach)
+  rateTable: RateTable;
   summary: FinancialSummary;
   operationalBalance: number;
+  accountBalances: Record<string, number>; // W walucie danego konta
+  accountMissingRates: Record<string, string[]>; // Waluty transakcji konta bez kursu (pominięte w saldzie)
 
   // Setters / Actions
   setIsPrivateMode: (val: boolean) => void;
+  setBaseCurrency: (currency: string) => void;
   toggleTheme: () => void;
   addTransaction: (tx: Omit<Transaction, 'id'>) => void;
   updateTransaction: (tx: Transaction) => void;
   deleteTransaction: (id: string) => void;
   clearTransactions: () => void;
+
+  // Transfer Actions (para obciążenie/uznanie)
+  addTransfer: (input: TransferInput) => Promise<void>;
+  updateTransfer: (transferId: string, input: TransferInput, clearReconcileStatus?: boolean) => Promise<void>;
   
   // Recurring Actions
   addRecurringTransaction: (rule: Omit<RecurringTransaction, 'id'>) => void;
@@ -40,6 +76,39 @@ interface FinanceContextType {
   processRecurringTransaction: (ruleId: string, amount?: number) => void;
   skipRecurringTransaction: (ruleId: string) => void;
 
+  // Account Actions
+  addAccount: (account: Omit<Account, 'id'>) => void;
+  updateAccount: (account: Account) => void;
+  deleteAccount: (id: string, targetAccountId: string) => void;
+
+  // Exchange Rate Actions
+  saveExchangeRate: (rate: ExchangeRate) => void;
+  deleteExchangeRate: (currency: string, date: string) => void;
+  importExchangeRates: (rates: ExchangeRate[]) => void;
+  clearExchangeRates: (currency?: string) => void;
+
+  // Categorization Rule Actions
+  addRule: (rule: Omit<CategorizationRule, 'id' | 'priority'>) => void;
+  updateRule: (rule: CategorizationRule) => void;
+  deleteRule: (id: string) => void;
+  moveRule: (id: string, direction: -1 | 1) => void;
+  applyRulesToHistory: (updated: Transaction[]) => Promise<void>;
+
+  // Category Suggestions (klasyfikator uczony na historii)
+  suggestCategories: (queries: ClassifierQuery[]) => Promise<CategorySuggestion[][]>;
+
+  // Import Profile Actions
+  saveImportProfile: (profile: Omit<ImportProfile, 'id'>) => void;
+  deleteImportProfile: (id: string) => void;
+
+  // Import History Actions
+  rollbackImportBatch: (id: string) => Promise<void>; // Do cofnięcia w dzienniku operacji
+  deleteImportBatch: (id: string) => void;
+
+  // Reconciliation Actions
+  setReconcileStatus: (ids: string[], status?: ReconcileStatus) => void;
+  completeReconciliation: (input: Omit<Reconciliation, 'id' | 'createdAt'>) => void;
+
   // Bulk Actions
   bulkUpdateCategory: (ids: string[], categoryId: string, subcategoryId?: string) => void;
   bulkUpdateTags: (ids: string[], tags: string[], mode: 'ADD' | 'REPLACE') => void;
@@ -56,10 +125,41 @@ interface FinanceContextType {
   deleteTag: (tagName: string) => void;
 
   // Import/Export
-  importData: (importedTransactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[]) => void;
-  restoreBackup: (backup: BackupData) => void;
+  importData: (importedTransactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[], source?: ImportBatchSource, mergedTransactions?: Transaction[]) => Promise<void>; // mergedTransactions - istniejące transakcje zmienione importem (scalone duplikaty, drugie nogi przelewów)
+  createBackup: () => Promise<BackupData>; // Pełny zrzut bazy w formacie BACKUP_VERSION
+  restoreBackup: (backup: BackupData) => Promise<void>;
+  planMerge: (backup: BackupData) => Promise<BackupMergePlan>; // Podgląd scalenia kopii z bieżącymi danymi
+  mergeBackup: (plan: BackupMergePlan) => Promise<void>;
   loadDemoData: () => void;
   factoryReset: () => void;
+
+  // Automatic Backups (migawki w osobnej bazie, od najnowszej)
+  backupSnapshots: BackupSnapshot[];
+  autoBackupConfig: AutoBackupConfig;
+  backupFolder: FileSystemDirectoryHandle | null; // Folder na dysku (File System Access API)
+  folderPermission: PermissionState | null;
+  updateAutoBackupConfig: (changes: Partial<AutoBackupConfig>) => Promise<void>;
+  createSnapshot: (trigger?: BackupSnapshotTrigger) => Promise<void>;
+  loadSnapshot: (snapshot: BackupSnapshot) => Promise<ValidatedBackup>;
+  restoreSnapshot: (snapshot: BackupSnapshot) => Promise<ValidatedBackup>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  chooseBackupFolder: () => Promise<void>;
+  grantFolderAccess: () => Promise<void>;
+  forgetBackupFolder: () => Promise<void>;
+
+  // Safety Undo (operacje niszczące: reset, czyszczenie historii, przywrócenie kopii, import z czyszczeniem, usunięcie kategorii)
+  safetyUndo: SafetyUndo | null;
+  undoDestructiveAction: () => Promise<void>;
+  dismissDestructiveUndo: () => void;
+  safetyFailure: string | null; // Operacja przerwana, bo nie udało się zapisać migawki SAFETY
+  dismissSafetyFailure: () => void;
+
+  // Operation Log (cofnij/ponów edycji w bieżącej sesji, od najnowszej)
+  operationLog: OperationEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  undoOperation: () => Promise<OperationEntry | null>;
+  redoOperation: () => Promise<OperationEntry | null>;
 }
 
 const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
@@ -70,7 +170,10 @@ const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
  * Architektura:
  * - Źródło prawdy: IndexedDB (za pośrednictwem biblioteki Dexie.js).
  * - Reaktywność: Hook `useLiveQuery` automatycznie odświeża komponenty, gdy dane w bazie ulegną zmianie.
- * - Logika: Rozdzielona na mniejsze hooki (useRecurringTransactions, useDataImportExport).
+ * - Logika: Rozdzielona na mniejsze hooki (useRecurringTransactions, useAccounts, useTransfers, useExchangeRates, useRules, useCategoryClassifier, useImportProfiles, useImportBatches, useReconciliation, useDataImportExport, useAutoBackup, useOperationLog).
+ * - Waluty: sumy i wykresy korzystają z `convertedTransactions` (waluta bazowa, bez wpisów bez kursu - `missingRateCurrencies`), edycja z oryginałów.
+ * - Operacje niszczące dane poprzedza migawka SAFETY (`withSafetySnapshot`; bez niej operacja jest przerwana), a ich skutek można cofnąć w bieżącej sesji.
+ * - Edycje transakcji, kategorii i tagów zapisują łatki w dzienniku operacji (`recordOperation`) - cofnij/ponów.
  */
 export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // --- IndexedDB Live Queries (Core Data) ---
@@ -87,17 +190,80 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
     skipRecurringTransaction 
   } = useRecurringTransactions();
 
+  const {
+    accounts,
+    addAccount,
+    updateAccount,
+    deleteAccount
+  } = useAccounts();
+
+  const { addTransfer: saveTransfer, updateTransfer: replaceTransfer, deleteTransfer } = useTransfers();
+
+  const {
+    exchangeRates,
+    saveExchangeRate,
+    deleteExchangeRate,
+    importExchangeRates,
+    clearExchangeRates
+  } = useExchangeRates();
+
+  const {
+    rules,
+    addRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+    applyRulesToHistory: applyRulesToTransactions
+  } = useRules();
+
+  const { suggestCategories } = useCategoryClassifier(transactions);
+
+  const { importProfiles, saveImportProfile, deleteImportProfile } = useImportProfiles();
+
+  const { importBatches, rollbackImportBatch: revertImportBatch, deleteImportBatch } = useImportBatches();
+
+  const { reconciliations, setReconcileStatus, completeReconciliation } = useReconciliation();
+
   const { 
-    importData, 
-    restoreBackup, 
+    importData: saveImportedData, 
+    createBackup,
+    restoreBackup: replaceWithBackup, 
+    planMerge,
+    mergeBackup,
     loadDemoData, 
-    factoryReset 
+    factoryReset: resetDatabase 
   } = useDataImportExport(categories);
 
+  const {
+    backupSnapshots,
+    autoBackupConfig,
+    backupFolder,
+    folderPermission,
+    updateAutoBackupConfig,
+    createSnapshot,
+    loadSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+    chooseBackupFolder,
+    grantFolderAccess,
+    forgetBackupFolder,
+    safetyUndo,
+    safetyFailure,
+    withSafetySnapshot,
+    undoDestructiveAction,
+    dismissDestructiveUndo,
+    dismissSafetyFailure
+  } = useAutoBackup(createBackup, replaceWithBackup);
+
+  const { operationLog, canUndo, canRedo, recordOperation, undoOperation, redoOperation } = useOperationLog();
+
   // --- Settings State ---
   const savedTags = useMemo(() => settingsArray.find(s => s.key === 'savedTags')?.value || [], [settingsArray]);
   const isPrivateMode = useMemo(() => settingsArray.find(s => s.key === 'isPrivateMode')?.value || false, [settingsArray]);
   const theme = useMemo<Theme>(() => settingsArray.find(s => s.key === 'theme')?.value || 'light', [settingsArray]);
+  const baseCurrency = useMemo<string>(() => settingsArray.find(s => s.key === 'baseCurrency')?.value || DEFAULT_CURRENCY, [settingsArray]);
+  // Nowa funkcja przy zmianie waluty - odświeża także memoizowane wykresy, które mają ją w zależnościach
+  const formatCurrency = useCallback((value: number) => getCurrencyFormatter(baseCurrency).format(value), [baseCurrency]);
 
   // --- Initial Migration (LocalStorage -> IndexedDB) ---
   useEffect(() => {
@@ -123,6 +289,10 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
     db.settings.put({ key: 'isPrivateMode', value: val });
   };
 
+  const setBaseCurrency = (currency: string) => {
+    db.settings.put({ key: 'baseCurrency', value: currency });
+  };
+
   const setSavedTags = (tags: string[]) => {
     db.settings.put({ key: 'savedTags', value: tags });
   };
@@ -134,9 +304,23 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
      return Array.from(tags).sort();
   }, [transactions, savedTags]);
 
+  const rateTable = useMemo(() => buildRateTable(exchangeRates), [exchangeRates]);
+
+  const convertedTransactions = useMemo(
+    () => convertTransactions(transactions, rateTable, baseCurrency),
+    [transactions, rateTable, baseCurrency]
+  );
+
+  const missingRateCurrencies = useMemo(
+    () => getCurrenciesWithoutRates(transactions, rateTable, baseCurrency),
+    [transactions, rateTable, baseCurrency]
+  );
+
   const summary = useMemo(() => {
-    return transactions.reduce(
+    return convertedTransactions.reduce(
       (acc, t) => {
+        // Przelewy własne są neutralne (tylko przesunięcie między kontami)
+        if (isTransfer(t)) return acc;
         const cat = categories.find(c => c.id === t.categoryId);
         if (t.type === TransactionType.INCOME) {
           acc.totalIncome += t.amount;
@@ -151,47 +335,128 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
       },
       { totalIncome: 0, totalExpense: 0, savingsAmount: 0, balance: 0 } as FinancialSummary
     );
-  }, [transactions, categories]);
+  }, [convertedTransactions, categories]);
 
   summary.balance = summary.totalIncome - summary.totalExpense;
   const operationalBalance = summary.totalIncome - summary.totalExpense - summary.savingsAmount;
 
+  /**
+   * Saldo każdego konta: saldo początkowe + wpływy - wszystkie wypływy
+   * (łącznie z przelewami na oszczędności, bo pieniądze fizycznie opuszczają konto).
+   * Saldo liczone jest w walucie konta; wpisy w innej walucie są przeliczane po kursie z dnia transakcji.
+   * Wpisy bez kursu są pomijane, a ich waluty trafiają do `accountMissingRates` (ostrzeżenie w UI).
+   */
+  const { accountBalances, accountMissingRates } = useMemo(() => {
+    const balances: Record<string, number> = {};
+    const missingRates: Record<string, Set<string>> = {};
+    const accountCurrencies: Record<string, string> = {};
+    accounts.forEach(a => {
+      balances[a.id] = a.initialBalance || 0;
+      accountCurrencies[a.id] = getCurrency(a);
+    });
+    transactions.forEach(t => {
+      if (balances[t.accountId] === undefined) return;
+      const amount = convertAmount(t.amount, getCurrency(t), accountCurrencies[t.accountId], t.date, rateTable);
+      if (amount === null) {
+        (missingRates[t.accountId] ||= new Set()).add(getCurrency(t));
+        return;
+      }
+      balances[t.accountId] += t.type === TransactionType.INCOME ? amount : -amount;
+    });
+    const missing: Record<string, string[]> = {};
+    Object.entries(missingRates).forEach(([accountId, currencies]) => { missing[accountId] = Array.from(currencies).sort(); });
+    return { accountBalances: balances, accountMissingRates: missing };
+  }, [transactions, accounts, rateTable]);
+
   // --- Core CRUD Actions (Direct DB Operations) ---
 
   const addTransaction = async (newTx: Omit<Transaction, 'id'>) => {
     const subId = await ensureSubcategory(newTx.categoryId, newTx.subcategoryId);
-    const transaction: Transaction = {
+    const transaction: Transaction = stampCreated({
       ...newTx,
       id: crypto.randomUUID(),
       subcategoryId: subId
-    };
-    await db.transactions.add(transaction);
+    });
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+      await db.transactions.add(transaction);
+      await db.transactionHistory.bulkAdd(createdEntries([transaction]));
+    });
+    recordOperation(`Dodanie: ${transaction.description}`, createPatches('transactions', [], [transaction]));
   };
 
   const updateTransaction = async (updated: Transaction) => {
     const subId = await ensureSubcategory(updated.categoryId, updated.subcategoryId);
-    await db.transactions.put({ ...updated, subcategoryId: subId });
+    let previous: Transaction | undefined;
+    let next: Transaction = { ...updated, subcategoryId: subId };
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+      previous = await db.transactions.get(updated.id);
+      if (previous) {
+        const { updated: stamped, entries } = trackUpdates([previous], [next]);
+        next = stamped[0];
+        await db.transactionHistory.bulkAdd(entries);
+      }
+      await db.transactions.put(next);
+    });
+    recordOperation(`Edycja: ${next.description}`, createPatches('transactions', [previous], [next]));
+  };
+
+  const addTransfer = async (input: TransferInput) => {
+    const patches = await saveTransfer(input);
+    recordOperation(`Przelew: ${input.description}`, patches);
+  };
+
+  const updateTransfer = async (transferId: string, input: TransferInput, clearReconcileStatus?: boolean) => {
+    const patches = await replaceTransfer(transferId, input, clearReconcileStatus);
+    recordOperation(`Edycja przelewu: ${input.description}`, patches);
+  };
+
+  const applyRulesToHistory = async (updated: Transaction[]) => {
+    const patches = await applyRulesToTransactions(updated);
+    recordOperation(`Reguły kategoryzacji (${updated.length} transakcji)`, patches);
+  };
+
+  const rollbackImportBatch = async (id: string) => {
+    const batch = importBatches.find(b => b.id === id);
+    recordOperation(`Wycofanie importu: ${batch?.fileName || 'bez nazwy'}`, await revertImportBatch(id));
   };
 
   const deleteTransaction = async (id: string) => {
-    await db.transactions.delete(id);
+    const tx = await db.transactions.get(id);
+    if (!tx) return;
+    if (tx.transferId) {
+      // Przelew usuwamy zawsze w całości (obie nogi)
+      recordOperation(`Usunięcie przelewu: ${tx.description}`, await deleteTransfer(tx.transferId));
+      return;
+    }
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+      await db.transactions.delete(id);
+      await db.transactionHistory.bulkAdd(deletedEntries([tx]));
+    });
+    recordOperation(`Usunięcie: ${tx.description}`, createPatches('transactions', [tx], []));
   };
 
   const clearTransactions = async () => {
-    await db.transactions.clear();
+    await withSafetySnapshot('Wyczyszczenie historii', () => (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+      await db.transactions.clear();
+      await db.transactionHistory.clear();
+    }));
   };
 
   const bulkUpdateCategory = async (ids: string[], newCategoryId: string, newSubcategoryId?: string) => {
      // Batch processing
      const subId = await ensureSubcategory(newCategoryId, newSubcategoryId);
      const txsToUpdate = transactions.filter(t => ids.includes(t.id));
-     const updates = txsToUpdate.map(t => ({ ...t, categoryId: newCategoryId, subcategoryId: subId }));
-     await db.transactions.bulkPut(updates);
+     const { updated: updates, entries } = trackUpdates(txsToUpdate, txsToUpdate.map(t => ({ ...t, categoryId: newCategoryId, subcategoryId: subId })));
+     await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+        await db.transactions.bulkPut(updates);
+        await db.transactionHistory.bulkAdd(entries);
+     });
+     recordOperation(`Zmiana kategorii (${updates.length} transakcji)`, createPatches('transactions', txsToUpdate, updates));
   };
 
   const bulkUpdateTags = async (ids: string[], tags: string[], mode: 'ADD' | 'REPLACE') => {
       const txsToUpdate = transactions.filter(t => ids.includes(t.id));
-      const updates = txsToUpdate.map(t => {
+      const { updated: updates, entries } = trackUpdates(txsToUpdate, txsToUpdate.map(t => {
           let newTags = t.tags || [];
           if (mode === 'REPLACE') {
               newTags = tags;
@@ -201,36 +466,53 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
               newTags = Array.from(existingSet);
           }
           return { ...t, tags: newTags };
+      }));
+      await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+          await db.transactions.bulkPut(updates);
+          await db.transactionHistory.bulkAdd(entries);
       });
-      await db.transactions.bulkPut(updates);
+      recordOperation(`Zmiana tagów (${updates.length} transakcji)`, createPatches('transactions', txsToUpdate, updates));
   };
 
   const splitTransaction = async (originalId: string, newTransactions: Omit<Transaction, 'id'>[]) => {
-     await (db as any).transaction('rw', db.transactions, db.categories, async () => {
+     const original = await db.transactions.get(originalId);
+     const txsToAdd: Transaction[] = [];
+     const now = new Date().toISOString();
+     await (db as any).transaction('rw', db.transactions, db.categories, db.transactionHistory, async () => {
         await db.transactions.delete(originalId);
         
-        const txsToAdd: Transaction[] = [];
         for (const t of newTransactions) {
             const subId = await ensureSubcategory(t.categoryId, t.subcategoryId);
-            txsToAdd.push({
+            // Części to nowe transakcje - daty utworzenia nie dziedziczą po oryginale
+            txsToAdd.push(stampCreated({
                 ...t,
                 id: crypto.randomUUID(),
-                subcategoryId: subId
-            });
+                subcategoryId: subId,
+                createdAt: undefined
+            }, now));
         }
         await db.transactions.bulkAdd(txsToAdd);
+        await db.transactionHistory.bulkAdd(createdEntries(txsToAdd, { splitFromId: originalId, note: original?.description }));
      });
+     recordOperation(`Podział: ${original?.description || 'transakcja'}`, createPatches('transactions', [original], txsToAdd));
   };
 
   const updateCategories = async (newCategories: CategoryItem[]) => {
+      let previous: CategoryItem[] = [];
       await (db as any).transaction('rw', db.categories, async () => {
+          previous = await db.categories.toArray();
           await db.categories.clear();
           await db.categories.bulkAdd(newCategories);
       });
+      recordOperation('Edycja kategorii', createPatches('categories', previous, newCategories));
   };
 
   const deleteCategory = async (id: string, targetCategoryId?: string, targetSubcategoryId?: string) => {
-    await (db as any).transaction('rw', db.categories, db.transactions, async () => {
+    const name = categories.find(c => c.id === id)?.name;
+    const label = name ? `Usunięcie kategorii "${name}"` : 'Usunięcie kategorii';
+    let patches: RecordPatch[] = [];
+    await withSafetySnapshot(label, () => (db as any).transaction('rw', db.categories, db.transactions, db.transactionHistory, async () => {
+        const category = await db.categories.get(id);
         await db.categories.delete(id);
         
         const fallbackId = SYSTEM_IDS.OTHER_EXPENSE;
@@ -238,20 +520,26 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
         
         // Find affected transactions
         const affected = await db.transactions.where('categoryId').equals(id).toArray();
-        const updates = affected.map(t => ({
+        const { updated: updates, entries } = trackUpdates(affected, affected.map(t => ({
             ...t,
             categoryId: finalTargetId,
             subcategoryId: targetSubcategoryId || undefined
-        }));
+        })), { note: label });
         
         if (updates.length > 0) {
             await db.transactions.bulkPut(updates);
+            await db.transactionHistory.bulkAdd(entries);
         }
-    });
+        patches = [...createPatches('categories', [category], []), ...createPatches('transactions', affected, updates)];
+    }));
+    recordOperation(label, patches);
   };
 
   const deleteSubcategory = async (catId: string, subId: string) => {
-    await (db as any).transaction('rw', db.categories, db.transactions, async () => {
+    let patches: RecordPatch[] = [];
+    const subName = categories.find(c => c.id === catId)?.subcategories.find(s => s.id === subId)?.name;
+    const label = subName ? `Usunięcie podkategorii "${subName}"` : 'Usunięcie podkategorii';
+    await (db as any).transaction('rw', db.categories, db.transactions, db.transactionHistory, async () => {
         const cat = await db.categories.get(catId);
         if (cat) {
             const updatedCat = { ...cat, subcategories: cat.subcategories.filter(s => s.id !== subId) };
@@ -265,10 +553,16 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
                 .filter(t => t.categoryId === catId && t.subcategoryId === subId)
                 .toArray();
                 
-            const updates = affected.map(t => ({ ...t, subcategoryId: targetSubId }));
-            if (updates.length > 0) await db.transactions.bulkPut(updates);
+            const { updated: updates, entries } = trackUpdates(affected, affected.map(t => ({ ...t, subcategoryId: targetSubId })), { note: label });
+            if (updates.length > 0) {
+                await db.transactions.bulkPut(updates);
+                await db.transactionHistory.bulkAdd(entries);
+            }
+
+            patches = [...createPatches('categories', [cat], [updatedCat]), ...createPatches('transactions', affected, updates)];
         }
     });
+    recordOperation(label, patches);
   };
 
   const addTag = (tagName: string) => {
@@ -278,54 +572,101 @@ export const FinanceProvider: React.FC<{ children: ReactNode }> = ({ children })
   };
 
   const renameTag = async (oldName: string, newName: string) => {
-     await (db as any).transaction('rw', db.transactions, db.settings, async () => {
+     const label = `Zmiana nazwy tagu "${oldName}" na "${newName}"`;
+     let patches: RecordPatch[] = [];
+     await (db as any).transaction('rw', db.transactions, db.settings, db.transactionHistory, async () => {
          // Update Settings
-         const newSavedTags = savedTags.map(tag => tag === oldName ? newName : tag);
-         await db.settings.put({ key: 'savedTags', value: newSavedTags });
+         const previousSetting = await db.settings.get('savedTags');
+         const newSetting = { key: 'savedTags', value: savedTags.map(tag => tag === oldName ? newName : tag) };
+         await db.settings.put(newSetting);
 
          // Update Transactions
          const affected = await db.transactions
             .filter(t => !!(t.tags && t.tags.includes(oldName)))
             .toArray();
          
-         const updates = affected.map(t => {
+         const { updated: updates, entries } = trackUpdates(affected, affected.map(t => {
              const newTags = t.tags!.map(tag => tag === oldName ? newName : tag);
              return { ...t, tags: Array.from(new Set(newTags)) };
-         });
+         }), { note: label });
          
-         if (updates.length > 0) await db.transactions.bulkPut(updates);
+         if (updates.length > 0) {
+             await db.transactions.bulkPut(updates);
+             await db.transactionHistory.bulkAdd(entries);
+         }
+         patches = [...createPatches('settings', [previousSetting], [newSetting]), ...createPatches('transactions', affected, updates)];
      });
+     recordOperation(label, patches);
   };
 
   const deleteTag = async (tagName: string) => {
-     await (db as any).transaction('rw', db.transactions, db.settings, async () => {
+     const label = `Usunięcie tagu "${tagName}"`;
+     let patches: RecordPatch[] = [];
+     await (db as any).transaction('rw', db.transactions, db.settings, db.transactionHistory, async () => {
          // Update Settings
-         const newSavedTags = savedTags.filter(tag => tag !== tagName);
-         await db.settings.put({ key: 'savedTags', value: newSavedTags });
+         const previousSetting = await db.settings.get('savedTags');
+         const newSetting = { key: 'savedTags', value: savedTags.filter(tag => tag !== tagName) };
+         await db.settings.put(newSetting);
 
          // Update Transactions
          const affected = await db.transactions
             .filter(t => !!(t.tags && t.tags.includes(tagName)))
             .toArray();
          
-         const updates = affected.map(t => ({
+         const { updated: updates, entries } = trackUpdates(affected, affected.map(t => ({
              ...t,
              tags: t.tags!.filter(tag => tag !== tagName)
-         }));
+         })), { note: label });
          
-         if (updates.length > 0) await db.transactions.bulkPut(updates);
+         if (updates.length > 0) {
+             await db.transactions.bulkPut(updates);
+             await db.transactionHistory.bulkAdd(entries);
+         }
+         patches = [...createPatches('settings', [previousSetting], [newSetting]), ...createPatches('transactions', affected, updates)];
      });
+     recordOperation(label, patches);
+  };
+
+  // --- Destructive Import/Export Actions ---
+
+  const importData = async (importedTransactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[], source?: ImportBatchSource, mergedTransactions?: Transaction[]) => {
+    const save = () => saveImportedData(importedTransactions, clearHistory, newCategories, source, mergedTransactions);
+    // Import dopisujący nic nie usuwa (wycofanie: historia importów)
+    if (clearHistory) await withSafetySnapshot('Import z wyczyszczeniem historii', save);
+    else await save();
+  };
+
+  const restoreBackup = async (backup: BackupData) => {
+    await withSafetySnapshot('Przywrócenie kopii zapasowej', () => replaceWithBackup(backup));
+  };
+
+  const factoryReset = async () => {
+    // Zaszyfrowanej migawki po resecie (bez klucza) nie da się odczytać - nie ma sensu jej zachowywać
+    await withSafetySnapshot('Reset aplikacji', snapshot => resetDatabase(snapshot.encrypted ? undefined : snapshot.id));
   };
 
   const value = {
-    transactions, categories, recurringTransactions, savedTags, isPrivateMode, setIsPrivateMode, theme, toggleTheme,
-    allTags, summary, operationalBalance,
+    transactions, categories, recurringTransactions, accounts, exchangeRates, rules, importProfiles, importBatches, reconciliations, savedTags, isPrivateMode, setIsPrivateMode, theme, toggleTheme,
+    baseCurrency, formatCurrency, setBaseCurrency,
+    allTags, convertedTransactions, missingRateCurrencies, rateTable, summary, operationalBalance, accountBalances, accountMissingRates,
     addTransaction, updateTransaction, deleteTransaction, clearTransactions,
+    addTransfer, updateTransfer,
     addRecurringTransaction, deleteRecurringTransaction, processRecurringTransaction, skipRecurringTransaction,
+    addAccount, updateAccount, deleteAccount,
+    saveExchangeRate, deleteExchangeRate, importExchangeRates, clearExchangeRates,
+    addRule, updateRule, deleteRule, moveRule, applyRulesToHistory,
+    suggestCategories,
+    saveImportProfile, deleteImportProfile,
+    rollbackImportBatch, deleteImportBatch,
+    setReconcileStatus, completeReconciliation,
     bulkUpdateCategory, bulkUpdateTags, splitTransaction,
     updateCategories, deleteCategory, deleteSubcategory,
     addTag, renameTag, deleteTag,
-    importData, restoreBackup, loadDemoData, factoryReset
+    importData, createBackup, restoreBackup, planMerge, mergeBackup, loadDemoData, factoryReset,
+    backupSnapshots, autoBackupConfig, backupFolder, folderPermission, updateAutoBackupConfig,
+    createSnapshot, loadSnapshot, restoreSnapshot, deleteSnapshot, chooseBackupFolder, grantFolderAccess, forgetBackupFolder,
+    safetyUndo, undoDestructiveAction, dismissDestructiveUndo, safetyFailure, dismissSafetyFailure,
+    operationLog, canUndo, canRedo, undoOperation, redoOperation
   };
 
   return <FinanceContext.Provider value={value}>{children}</FinanceContext.Provider>;
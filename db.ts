@@ -1,13 +1,21 @@
 
 import Dexie, { Table } from 'dexie';
-import { CategoryItem, Transaction, RecurringTransaction } from './types';
-import { DEFAULT_CATEGORIES } from './constants';
+import { CategoryItem, Transaction, RecurringTransaction, Account, ExchangeRate, CategorizationRule, ImportProfile, ImportBatch, Reconciliation, BackupSnapshot, TransactionChange } from './types';
+import { DEFAULT_CATEGORIES, DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID } from './constants';
+import { encryptionMiddleware } from './utils/dbEncryption';
 
 export class BTrackrDB extends Dexie {
   transactions!: Table<Transaction>;
   categories!: Table<CategoryItem>;
   recurringTransactions!: Table<RecurringTransaction>;
   settings!: Table<{ key: string; value: any }>;
+  accounts!: Table<Account>;
+  exchangeRates!: Table<ExchangeRate>;
+  rules!: Table<CategorizationRule>;
+  importProfiles!: Table<ImportProfile>;
+  importBatches!: Table<ImportBatch>;
+  reconciliations!: Table<Reconciliation>;
+  transactionHistory!: Table<TransactionChange>;
 
   constructor() {
     super('bTrackrDB');
@@ -17,11 +25,101 @@ export class BTrackrDB extends Dexie {
       recurringTransactions: 'id',
       settings: 'key' // For tags, theme, privacy mode
     });
+
+    // v2: Konta (multi-account). Istniejące transakcje trafiają na konto domyślne.
+    (this as any).version(2).stores({
+      transactions: 'id, date, categoryId, type, accountId',
+      accounts: 'id'
+    }).upgrade(async (tx: any) => {
+      await tx.table('accounts').bulkPut(DEFAULT_ACCOUNTS);
+      await tx.table('transactions').toCollection().modify((t: Transaction) => {
+        if (!t.accountId) t.accountId = DEFAULT_ACCOUNT_ID;
+      });
+    });
+
+    // v3: Przelewy własne (para transakcji połączona `transferId`)
+    (this as any).version(3).stores({
+      transactions: 'id, date, categoryId, type, accountId, transferId'
+    });
+
+    // v4: Tabela kursów walut (ręczna / import CSV NBP)
+    (this as any).version(4).stores({
+      exchangeRates: '[currency+date], currency'
+    });
+
+    // v5: Reguły automatycznej kategoryzacji
+    (this as any).version(5).stores({
+      rules: 'id, priority'
+    });
+
+    // v6: Profile importu CSV (mapowanie kolumn per bank)
+    (this as any).version(6).stores({
+      importProfiles: 'id, headerFingerprint'
+    });
+
+    // v7: Historia importów (transakcje oznaczone `importBatchId` można wycofać)
+    (this as any).version(7).stores({
+      transactions: 'id, date, categoryId, type, accountId, transferId, importBatchId',
+      importBatches: 'id, timestamp'
+    });
+
+    // v8: Uzgodnienia sald z wyciągami bankowymi
+    (this as any).version(8).stores({
+      reconciliations: 'id, accountId, date'
+    });
+
+    // v9: Historia zmian transakcji (audyt)
+    (this as any).version(9).stores({
+      transactionHistory: 'id, transactionId, timestamp'
+    });
+
+    // Opcjonalne szyfrowanie transakcji i kategorii (klucz z hasła, tylko w pamięci)
+    (this as any).use(encryptionMiddleware);
   }
 }
 
 export const db = new BTrackrDB();
 
+/**
+ * Osobna baza na automatyczne kopie zapasowe. Przywrócenie kopii w głównej bazie jej nie czyści,
+ * więc migawka sprzed przywrócenia pozostaje dostępna.
+ */
+export class BTrackrSnapshotDB extends Dexie {
+  snapshots!: Table<BackupSnapshot>;
+  snapshotData!: Table<{ id: string; data: string | ArrayBuffer }>; // JSON lub szyfrogram (`encrypted`)
+  state!: Table<{ key: string; value: any }>; // Konfiguracja, licznik zmian, uchwyt folderu
+
+  constructor() {
+    super('bTrackrSnapshots');
+    (this as any).version(1).stores({
+      snapshots: 'id, timestamp',
+      snapshotData: 'id',
+      state: 'key'
+    });
+  }
+}
+
+export const snapshotDb = new BTrackrSnapshotDB();
+
+/**
+ * Uzupełnia brakujące `accountId` (dane z LocalStorage, starsze kopie zapasowe).
+ */
+export const withDefaultAccount = <T extends { accountId?: string }>(items: T[]): (T & { accountId: string })[] => {
+  return items.map(item => ({ ...item, accountId: item.accountId || DEFAULT_ACCOUNT_ID }));
+};
+
+/**
+ * Zapewnia istnienie co najmniej jednego konta (świeża instalacja, reset).
+ */
+const ensureDefaultAccount = async () => {
+  await (db as any).transaction('rw', db.accounts, async () => {
+    const count = await db.accounts.count();
+    if (count === 0) {
+      await db.accounts.bulkPut(DEFAULT_ACCOUNTS);
+    }
+  });
+};
+
 // --- Migration Logic ---
 export const migrateFromLocalStorage = async () => {
   const txJson = localStorage.getItem('btrackr_transactions');
@@ -42,7 +140,7 @@ export const migrateFromLocalStorage = async () => {
       // 1. Transactions
       if (txJson) {
         const txs = JSON.parse(txJson);
-        await db.transactions.bulkAdd(txs);
+        await db.transactions.bulkAdd(withDefaultAccount(txs));
       }
 
       // 2. Categories
@@ -99,4 +197,6 @@ export const migrateFromLocalStorage = async () => {
          }
      });
   }
+
+  await ensureDefaultAccount();
 };
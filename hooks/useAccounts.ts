@@ -0,0 +1,54 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Account } from '../types';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+import { trackUpdates } from '../utils/transactionHistory';
+
+export const useAccounts = () => {
+  const accounts = useLiveQuery(() => db.accounts.toArray()) || [];
+
+  // --- Actions ---
+
+  const addAccount = async (account: Omit<Account, 'id'>) => {
+    const newAccount: Account = {
+      ...account,
+      id: crypto.randomUUID()
+    };
+    await db.accounts.add(newAccount);
+  };
+
+  const updateAccount = async (account: Account) => {
+    await db.accounts.put(account);
+  };
+
+  /**
+   * Usuwa konto, przenosząc jego transakcje i reguły cykliczne na konto docelowe.
+   * Konta domyślnego nie można usunąć - służy jako fallback dla wpisów bez konta.
+   */
+  const deleteAccount = async (id: string, targetAccountId: string) => {
+    if (id === DEFAULT_ACCOUNT_ID || id === targetAccountId) return;
+
+    await (db as any).transaction('rw', db.accounts, db.transactions, db.recurringTransactions, db.transactionHistory, async () => {
+        const affected = await db.transactions.where('accountId').equals(id).toArray();
+        if (affected.length > 0) {
+            const { updated, entries } = trackUpdates(affected, affected.map(t => ({ ...t, accountId: targetAccountId })), { note: 'Usunięcie konta' });
+            await db.transactions.bulkPut(updated);
+            await db.transactionHistory.bulkAdd(entries);
+        }
+
+        const affectedRules = await db.recurringTransactions.filter(r => r.accountId === id).toArray();
+        if (affectedRules.length > 0) {
+            await db.recurringTransactions.bulkPut(affectedRules.map(r => ({ ...r, accountId: targetAccountId })));
+        }
+
+        await db.accounts.delete(id);
+    });
+  };
+
+  return {
+    accounts,
+    addAccount,
+    updateAccount,
+    deleteAccount
+  };
+};
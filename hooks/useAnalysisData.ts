@@ -12,6 +12,7 @@ export const useAnalysisData = (transactions: Transaction[], categories: Categor
   const [periodType, setPeriodType] = useState<PeriodType>('ALL');
   const [periodValue, setPeriodValue] = useState<number>(0); 
   const [selectedTag, setSelectedTag] = useState<string>('ALL');
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('ALL');
   const [historyAggregation, setHistoryAggregation] = useState<AggregationMode>('MONTHLY');
   const [yearAggregation, setYearAggregation] = useState<'MONTHLY' | 'QUARTERLY'>('MONTHLY');
 
@@ -80,6 +81,7 @@ export const useAnalysisData = (transactions: Transaction[], categories: Categor
         periodType,
         periodValue,
         selectedTag,
+        selectedAccountId,
         historyAggregation: currentHistoryAggregation,
         yearAggregation
     };
@@ -101,7 +103,7 @@ export const useAnalysisData = (transactions: Transaction[], categories: Categor
     }
   }, [
       transactions, categories, 
-      selectedYear, periodType, periodValue, selectedTag, 
+      selectedYear, periodType, periodValue, selectedTag, selectedAccountId,
       historyAggregation, yearAggregation, 
       isWorkerAvailable
   ]);
@@ -112,6 +114,7 @@ export const useAnalysisData = (transactions: Transaction[], categories: Categor
     setPeriodType,
     setPeriodValue,
     setSelectedTag,
+    setSelectedAccountId,
     setHistoryAggregation,
     setYearAggregation,
     
@@ -120,6 +123,7 @@ export const useAnalysisData = (transactions: Transaction[], categories: Categor
     periodType,
     periodValue,
     selectedTag,
+    selectedAccountId,
     historyAggregation,
     yearAggregation,
 
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Dexie from 'dexie';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, snapshotDb } from '../db';
+import { AutoBackupConfig, BackupData, BackupSnapshot, BackupSnapshotTrigger, SafetyUndo } from '../types';
+import {
+  DEFAULT_AUTO_BACKUP_CONFIG, SNAPSHOT_STATE_KEYS,
+  getDueSnapshotTrigger, getFolderPermission, getSnapshotFileName, pickBackupFolder, readSnapshot,
+  requestFolderPermission, saveSnapshot, writeSnapshotToFolder
+} from '../utils/backupSnapshots';
+import { ValidatedBackup, validateBackup } from '../utils/backupSchema';
+
+const SCHEDULE_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+// Zapisy w tych tabelach nie są zmianą danych użytkownika wartą kopii
+const IGNORED_TABLES = ['settings'];
+
+export const useAutoBackup = (createBackup: () => Promise<BackupData>, restoreBackup: (backup: BackupData) => Promise<void>) => {
+  const backupSnapshots = useLiveQuery(() => snapshotDb.snapshots.orderBy('timestamp').reverse().toArray()) || [];
+  const stateArray = useLiveQuery(() => snapshotDb.state.toArray()) || [];
+
+  const autoBackupConfig = useMemo<AutoBackupConfig>(
+    () => ({ ...DEFAULT_AUTO_BACKUP_CONFIG, ...stateArray.find(s => s.key === SNAPSHOT_STATE_KEYS.CONFIG)?.value }),
+    [stateArray]
+  );
+  const backupFolder = useMemo<FileSystemDirectoryHandle | null>(
+    () => stateArray.find(s => s.key === SNAPSHOT_STATE_KEYS.FOLDER)?.value || null,
+    [stateArray]
+  );
+  const [folderPermission, setFolderPermission] = useState<PermissionState | null>(null);
+
+  useEffect(() => {
+    if (!backupFolder) {
+      setFolderPermission(null);
+      return;
+    }
+    getFolderPermission(backupFolder).then(setFolderPermission, () => setFolderPermission('denied'));
+  }, [backupFolder]);
+
+  // Jedna migawka naraz (zdarzenia zmian i harmonogram mogą zbiec się w czasie)
+  const isRunningRef = useRef(false);
+
+  // Stan sprzed ostatniej operacji niszczącej - tylko w pamięci, do końca sesji
+  const [safetyUndo, setSafetyUndo] = useState<SafetyUndo | null>(null);
+  const safetyBackupRef = useRef<BackupData | null>(null);
+  // Komunikat o operacji przerwanej, bo nie udało się zapisać migawki SAFETY
+  const [safetyFailure, setSafetyFailure] = useState<string | null>(null);
+
+  // --- Actions ---
+
+  const createSnapshot = async (trigger: BackupSnapshotTrigger = 'MANUAL') => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    try {
+      const config = (await snapshotDb.state.get(SNAPSHOT_STATE_KEYS.CONFIG))?.value || DEFAULT_AUTO_BACKUP_CONFIG;
+      const { snapshot, json } = await saveSnapshot(await createBackup(), trigger, config.keepCount);
+
+      // Zaszyfrowanej bazy nie wypisujemy jawnie na dysk
+      const folder: FileSystemDirectoryHandle | undefined = (await snapshotDb.state.get(SNAPSHOT_STATE_KEYS.FOLDER))?.value;
+      if (folder && !snapshot.encrypted && await getFolderPermission(folder) === 'granted') {
+        await writeSnapshotToFolder(folder, getSnapshotFileName(snapshot), json)
+          .catch(error => console.error('Auto-backup folder write failed:', error));
+      }
+    } finally {
+      isRunningRef.current = false;
+    }
+  };
+
+  const runDueSnapshot = async () => {
+    const state = await snapshotDb.state.bulkGet([SNAPSHOT_STATE_KEYS.CONFIG, SNAPSHOT_STATE_KEYS.LAST_SNAPSHOT_AT, SNAPSHOT_STATE_KEYS.CHANGES]);
+    const config: AutoBackupConfig = { ...DEFAULT_AUTO_BACKUP_CONFIG, ...state[0]?.value };
+    const trigger = getDueSnapshotTrigger(config, state[1]?.value, state[2]?.value || 0);
+    if (trigger) await createSnapshot(trigger);
+  };
+
+  const updateAutoBackupConfig = async (changes: Partial<AutoBackupConfig>) => {
+    await snapshotDb.state.put({ key: SNAPSHOT_STATE_KEYS.CONFIG, value: { ...autoBackupConfig, ...changes } });
+  };
+
+  /**
+   * Odczytuje i waliduje migawkę (jak plik kopii w kreatorze importu). Rzuca `Error` przy uszkodzonej kopii.
+   */
+  const loadSnapshot = async (snapshot: BackupSnapshot): Promise<ValidatedBackup> =>
+    validateBackup(JSON.parse(await readSnapshot(snapshot)));
+
+  /**
+   * Wykonuje operację niszczącą dane po zapisaniu migawki SAFETY bieżącego stanu i udostępnia jej cofnięcie.
+   * Gdy migawki nie da się zapisać, operacja jest przerwana (rzuca `Error`, komunikat trafia też do `safetyFailure`).
+   * `action` dostaje zapisaną migawkę.
+   */
+  const withSafetySnapshot = async <T>(label: string, action: (snapshot: BackupSnapshot) => Promise<T>): Promise<T> => {
+    const backup = await createBackup();
+    let snapshot: BackupSnapshot;
+    try {
+      const config = (await snapshotDb.state.get(SNAPSHOT_STATE_KEYS.CONFIG))?.value || DEFAULT_AUTO_BACKUP_CONFIG;
+      snapshot = (await saveSnapshot(backup, 'SAFETY', config.keepCount, label)).snapshot;
+    } catch (error) {
+      console.error('Safety snapshot failed:', error);
+      const message = `Nie udało się zapisać kopii bezpieczeństwa - operacja "${label}" została przerwana.`;
+      setSafetyFailure(message);
+      throw new Error(message);
+    }
+    setSafetyFailure(null);
+
+    const result = await action(snapshot);
+    safetyBackupRef.current = backup;
+    setSafetyUndo({ label, timestamp: backup.timestamp, snapshotId: snapshot.id });
+    return result;
+  };
+
+  /**
+   * Przywraca stan sprzed ostatniej operacji niszczącej. Po resecie aplikacji baza wraca bez szyfrowania
+   * (konfiguracja szyfrowania nie należy do kopii).
+   */
+  const undoDestructiveAction = async () => {
+    const backup = safetyBackupRef.current;
+    if (!backup) return;
+    await restoreBackup(backup);
+    dismissDestructiveUndo();
+  };
+
+  const dismissDestructiveUndo = () => {
+    safetyBackupRef.current = null;
+    setSafetyUndo(null);
+  };
+
+  const restoreSnapshot = async (snapshot: BackupSnapshot): Promise<ValidatedBackup> => {
+    const validated = await loadSnapshot(snapshot);
+    await withSafetySnapshot('Przywrócenie kopii automatycznej', () => restoreBackup(validated.backup));
+    return validated;
+  };
+
+  const deleteSnapshot = async (id: string) => {
+    await (snapshotDb as any).transaction('rw', snapshotDb.snapshots, snapshotDb.snapshotData, async () => {
+      await snapshotDb.snapshots.delete(id);
+      await snapshotDb.snapshotData.delete(id);
+    });
+  };
+
+  const chooseBackupFolder = async () => {
+    const handle = await pickBackupFolder();
+    await snapshotDb.state.put({ key: SNAPSHOT_STATE_KEYS.FOLDER, value: handle });
+  };
+
+  const grantFolderAccess = async () => {
+    if (backupFolder) setFolderPermission(await requestFolderPermission(backupFolder));
+  };
+
+  const forgetBackupFolder = async () => {
+    await snapshotDb.state.delete(SNAPSHOT_STATE_KEYS.FOLDER);
+  };
+
+  // --- Scheduler ---
+
+  // Funkcje zmieniają się przy każdym renderze - efekty korzystają z aktualnej wersji przez ref
+  const runDueSnapshotRef = useRef(runDueSnapshot);
+  runDueSnapshotRef.current = runDueSnapshot;
+
+  useEffect(() => {
+    const check = () => runDueSnapshotRef.current().catch(error => console.error('Auto-backup failed:', error));
+    check();
+    const interval = window.setInterval(check, SCHEDULE_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  // Licznik zmian: każda zatwierdzona transakcja zapisująca dane w głównej bazie
+  useEffect(() => {
+    const prefix = `idb://${db.name}/`;
+    const onStorageMutated = (parts: Record<string, unknown>) => {
+      const isDataChange = Object.keys(parts).some(part =>
+        part.startsWith(prefix) && !IGNORED_TABLES.includes(part.slice(prefix.length).split('/')[0]));
+      if (!isDataChange) return;
+
+      (snapshotDb as any).transaction('rw', snapshotDb.state, async () => {
+        const changes = (await snapshotDb.state.get(SNAPSHOT_STATE_KEYS.CHANGES))?.value || 0;
+        await snapshotDb.state.put({ key: SNAPSHOT_STATE_KEYS.CHANGES, value: changes + 1 });
+      })
+        .then(() => runDueSnapshotRef.current())
+        .catch((error: unknown) => console.error('Auto-backup failed:', error));
+    };
+
+    Dexie.on('storagemutated', onStorageMutated);
+    return () => Dexie.on.storagemutated.unsubscribe(onStorageMutated);
+  }, []);
+
+  return {
+    backupSnapshots,
+    autoBackupConfig,
+    backupFolder,
+    folderPermission,
+    updateAutoBackupConfig,
+    createSnapshot,
+    loadSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+    chooseBackupFolder,
+    grantFolderAccess,
+    forgetBackupFolder,
+    safetyUndo,
+    safetyFailure,
+    withSafetySnapshot,
+    undoDestructiveAction,
+    dismissDestructiveUndo,
+    dismissSafetyFailure: () => setSafetyFailure(null)
+  };
+};
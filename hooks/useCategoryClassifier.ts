@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { Transaction } from '../types';
+import {
+  trainClassifier, classifyDescription, toTrainingSamples,
+  ClassifierModel, ClassifierQuery, CategorySuggestion
+} from '../utils/categoryClassifier';
+
+// Po tym czasie prośba dostaje pustą odpowiedź (kreator importu nie może czekać w nieskończoność)
+const WORKER_TIMEOUT_MS = 10000;
+
+// Zmiany historii przychodzą seriami (import, reguły, edycja wielu transakcji) - model uczy się po chwili spokoju
+const RETRAIN_DELAY_MS = 2000;
+
+type PendingRequests = Map<number, (results: CategorySuggestion[][]) => void>;
+
+/**
+ * Podpowiedzi kategorii z lokalnego klasyfikatora uczonego na historii.
+ * Nauka i klasyfikacja odbywają się w workerze; bez workera - w wątku głównym.
+ */
+export const useCategoryClassifier = (transactions: Transaction[]) => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingRequests>(new Map());
+  const requestIdRef = useRef(0);
+  const fallbackModelRef = useRef<ClassifierModel | null>(null);
+  const pendingTrainingRef = useRef<Transaction[] | null>(null);
+  const [isWorkerAvailable, setIsWorkerAvailable] = useState<boolean>(true);
+
+  // Initialize Worker
+  useEffect(() => {
+    try {
+        const worker = new Worker(new URL('../workers/classifier.worker.ts', import.meta.url), { type: 'module' });
+
+        worker.onmessage = (e: MessageEvent<{ requestId: number, results: CategorySuggestion[][] }>) => {
+            const resolve = pendingRef.current.get(e.data.requestId);
+            if (resolve) {
+                pendingRef.current.delete(e.data.requestId);
+                resolve(e.data.results);
+            }
+        };
+
+        worker.onerror = (e) => {
+            console.warn('Classifier Worker Error. Falling back to main thread.', e);
+            // Oczekujące prośby dostają pustą odpowiedź; dalej model uczy się w wątku głównym
+            pendingRef.current.forEach(resolve => resolve([]));
+            pendingRef.current.clear();
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            setIsWorkerAvailable(false);
+        };
+
+        workerRef.current = worker;
+        setIsWorkerAvailable(true);
+    } catch (e) {
+        console.warn('Failed to initialize classifier Worker. Falling back to main thread.', e);
+        setIsWorkerAvailable(false);
+    }
+
+    return () => {
+        workerRef.current?.terminate();
+        pendingRef.current.clear();
+    };
+  }, []);
+
+  // Uczy model na odłożonej historii (jeśli czeka). Worker przetwarza wiadomości po kolei, więc nauka wyprzedzi klasyfikację.
+  const flushTraining = useCallback(() => {
+    const pending = pendingTrainingRef.current;
+    if (!pending) return;
+    pendingTrainingRef.current = null;
+    const samples = toTrainingSamples(pending);
+    if (workerRef.current) {
+        workerRef.current.postMessage({ type: 'TRAIN', payload: { samples } });
+    } else {
+        fallbackModelRef.current = trainClassifier(samples);
+    }
+  }, []);
+
+  // Retrain on history change (debounced)
+  useEffect(() => {
+    pendingTrainingRef.current = transactions;
+    const timer = setTimeout(flushTraining, RETRAIN_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [transactions, isWorkerAvailable, flushTraining]);
+
+  const suggestCategories = useCallback((queries: ClassifierQuery[]): Promise<CategorySuggestion[][]> => {
+    if (queries.length === 0) return Promise.resolve([]);
+    flushTraining();
+
+    if (isWorkerAvailable && workerRef.current) {
+        const requestId = ++requestIdRef.current;
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                if (pendingRef.current.delete(requestId)) resolve([]);
+            }, WORKER_TIMEOUT_MS);
+            pendingRef.current.set(requestId, results => {
+                clearTimeout(timer);
+                resolve(results);
+            });
+            workerRef.current!.postMessage({ type: 'CLASSIFY', payload: { requestId, queries } });
+        });
+    }
+
+    const model = fallbackModelRef.current;
+    return Promise.resolve(queries.map(q => (model ? classifyDescription(model, q) : [])));
+  }, [isWorkerAvailable, flushTraining]);
+
+  return {
+    suggestCategories
+  };
+};
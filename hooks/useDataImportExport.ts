@@ -1,11 +1,23 @@
 
-import { db, migrateFromLocalStorage } from '../db';
-import { Transaction, CategoryItem, BackupData } from '../types';
+import { db, snapshotDb, migrateFromLocalStorage } from '../db';
+import { DEFAULT_ACCOUNTS } from '../constants';
+import { Transaction, CategoryItem, BackupData, BackupSettings, ImportBatch, ImportBatchSource } from '../types';
+import { BACKUP_VERSION } from '../utils/backupSchema';
+import { BackupMergePlan, planBackupMerge } from '../utils/backupMerge';
+import { DB_ENCRYPTION_SETTING_KEY, deactivateDatabaseKey } from '../utils/dbEncryption';
+import { SNAPSHOT_STATE_KEYS } from '../utils/backupSnapshots';
+import { createdEntries, stampCreated, trackUpdates } from '../utils/transactionHistory';
 
 export const useDataImportExport = (categories: CategoryItem[]) => {
   
-  const importData = async (importedTransactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[]) => {
-    await (db as any).transaction('rw', db.transactions, db.categories, async () => {
+  /**
+   * Zapisuje zaimportowane transakcje. Duplikaty po sygnaturze rozstrzyga krok przeglądu w kreatorze;
+   * tutaj odrzucane są tylko wiersze z identyfikatorem banku już obecnym na koncie.
+   * `mergedTransactions` to istniejące transakcje uzupełnione o dane z importu (scalone duplikaty).
+   */
+  const importData = async (importedTransactions: Transaction[], clearHistory: boolean, newCategories?: CategoryItem[], source?: ImportBatchSource, mergedTransactions?: Transaction[]) => {
+    await (db as any).transaction('rw', db.transactions, db.categories, db.importBatches, db.transactionHistory, async () => {
+        const batchId = source ? crypto.randomUUID() : undefined;
         if (newCategories) {
             const currentCats = await db.categories.toArray();
             for (const newCat of newCategories) {
@@ -16,26 +28,89 @@ export const useDataImportExport = (categories: CategoryItem[]) => {
             }
         }
 
+        let toAdd = importedTransactions;
         if (clearHistory) {
             await db.transactions.clear();
-            await db.transactions.bulkAdd(importedTransactions);
+            await db.transactionHistory.clear();
+            // Wcześniejsze importy nie mają już czego wycofywać
+            await db.importBatches.clear();
         } else {
-            // Deduplicate based on simple signature
             const currentTxs = await db.transactions.toArray();
-            const existingSignatures = new Set(currentTxs.map(t => `${t.date}-${t.amount}-${t.description}`));
-            const uniqueToAdd = importedTransactions.filter(t => !existingSignatures.has(`${t.date}-${t.amount}-${t.description}`));
-            if (uniqueToAdd.length > 0) {
-                await db.transactions.bulkAdd(uniqueToAdd);
+            const existingExternalIds = new Set(currentTxs.filter(t => t.externalId).map(t => `${t.accountId}-${t.externalId}`));
+            toAdd = importedTransactions.filter(t => !t.externalId || !existingExternalIds.has(`${t.accountId}-${t.externalId}`));
+
+            // Scalone nie dostają `importBatchId` - wycofanie importu nie może usunąć wpisów użytkownika
+            if (mergedTransactions && mergedTransactions.length > 0) {
+                const currentById = new Map(currentTxs.map(t => [t.id, t]));
+                const { updated, entries } = trackUpdates(
+                    mergedTransactions.map(t => currentById.get(t.id) || t),
+                    mergedTransactions,
+                    { importBatchId: batchId, note: 'Uzupełniono danymi z importu' }
+                );
+                await db.transactions.bulkPut(updated);
+                await db.transactionHistory.bulkAdd(entries);
             }
         }
+
+        if (source && batchId) {
+            const batch: ImportBatch = {
+                ...source,
+                id: batchId,
+                timestamp: new Date().toISOString(),
+                addedCount: toAdd.length,
+                skippedCount: (source.skippedCount || 0) + importedTransactions.length - toAdd.length
+            };
+            toAdd = toAdd.map(t => ({ ...t, importBatchId: batch.id }));
+            await db.importBatches.add(batch);
+        }
+
+        if (toAdd.length > 0) {
+            const now = new Date().toISOString();
+            toAdd = toAdd.map(t => stampCreated(t, now));
+            await db.transactions.bulkAdd(toAdd);
+            await db.transactionHistory.bulkAdd(createdEntries(toAdd, { importBatchId: batchId }, 'IMPORTED'));
+        }
     });
   };
 
+  /**
+   * Pełny zrzut bazy (wszystkie tabele i ustawienia) w bieżącym formacie kopii.
+   * Czytany w jednej transakcji, aby kopia była spójna.
+   */
+  const createBackup = async (): Promise<BackupData> => {
+     return (db as any).transaction('r', db.categories, db.transactions, db.recurringTransactions, db.settings, db.accounts, db.exchangeRates, db.rules, db.importProfiles, db.importBatches, db.reconciliations, db.transactionHistory, async () => {
+         // Konfiguracja szyfrowania bazy dotyczy tylko tego urządzenia
+         const settingsRows = (await db.settings.toArray()).filter(s => s.key !== DB_ENCRYPTION_SETTING_KEY);
+         const settings = Object.fromEntries(settingsRows.map(s => [s.key, s.value])) as BackupSettings;
+         return {
+             version: BACKUP_VERSION,
+             timestamp: new Date().toISOString(),
+             categories: await db.categories.toArray(),
+             transactions: await db.transactions.toArray(),
+             recurringTransactions: await db.recurringTransactions.toArray(),
+             accounts: await db.accounts.toArray(),
+             exchangeRates: await db.exchangeRates.toArray(),
+             rules: await db.rules.toArray(),
+             importProfiles: await db.importProfiles.toArray(),
+             importBatches: await db.importBatches.toArray(),
+             reconciliations: await db.reconciliations.toArray(),
+             transactionHistory: await db.transactionHistory.toArray(),
+             settings: { ...settings, isPrivateMode: !!settings.isPrivateMode }
+         };
+     });
+  };
+
+  /**
+   * Zastępuje całą bazę zawartością kopii. Oczekuje kopii po `validateBackup` (aktualna wersja, poprawne rekordy).
+   */
   const restoreBackup = async (backup: BackupData) => {
-     await (db as any).transaction('rw', db.categories, db.transactions, db.recurringTransactions, db.settings, async () => {
+     await (db as any).transaction('rw', db.categories, db.transactions, db.recurringTransactions, db.settings, db.accounts, db.exchangeRates, db.rules, db.importProfiles, db.importBatches, db.reconciliations, db.transactionHistory, async () => {
          await db.categories.clear();
          await db.categories.bulkAdd(backup.categories);
 
+         await db.accounts.clear();
+         await db.accounts.bulkAdd(backup.accounts && backup.accounts.length > 0 ? backup.accounts : DEFAULT_ACCOUNTS);
+
          await db.transactions.clear();
          await db.transactions.bulkAdd(backup.transactions);
 
@@ -44,28 +119,109 @@ export const useDataImportExport = (categories: CategoryItem[]) => {
              await db.recurringTransactions.bulkAdd(backup.recurringTransactions);
          }
 
-         await db.settings.put({ key: 'isPrivateMode', value: backup.settings.isPrivateMode });
+         await db.exchangeRates.clear();
+         if (backup.exchangeRates) {
+             await db.exchangeRates.bulkPut(backup.exchangeRates);
+         }
+
+         await db.rules.clear();
+         if (backup.rules) {
+             await db.rules.bulkAdd(backup.rules);
+         }
+
+         await db.importProfiles.clear();
+         if (backup.importProfiles) {
+             await db.importProfiles.bulkAdd(backup.importProfiles);
+         }
+
+         await db.importBatches.clear();
+         if (backup.importBatches) {
+             await db.importBatches.bulkAdd(backup.importBatches);
+         }
+
+         await db.reconciliations.clear();
+         if (backup.reconciliations) {
+             await db.reconciliations.bulkAdd(backup.reconciliations);
+         }
+
+         await db.transactionHistory.clear();
+         if (backup.transactionHistory) {
+             await db.transactionHistory.bulkAdd(backup.transactionHistory);
+         }
+
+         // Ustawień nieobecnych w kopii (np. motyw w kopiach v1) nie ruszamy
+         await db.settings.bulkPut(Object.entries(backup.settings)
+             .filter(([key, value]) => value !== undefined && key !== DB_ENCRYPTION_SETTING_KEY)
+             .map(([key, value]) => ({ key, value })));
+     });
+  };
+
+  /**
+   * Podgląd scalenia kopii z bieżącą bazą (nic nie zapisuje).
+   */
+  const planMerge = async (backup: BackupData): Promise<BackupMergePlan> => {
+     return planBackupMerge(backup, await createBackup());
+  };
+
+  /**
+   * Dopisuje do bazy rekordy z planu scalenia. Niczego nie usuwa; istniejące kategorie dostają tylko nowe podkategorie.
+   */
+  const mergeBackup = async (plan: BackupMergePlan) => {
+     await (db as any).transaction('rw', db.categories, db.transactions, db.recurringTransactions, db.settings, db.accounts, db.exchangeRates, db.rules, db.importProfiles, db.transactionHistory, async () => {
+         await db.categories.bulkAdd(plan.newCategories);
+         await db.categories.bulkPut(plan.updatedCategories);
+         await db.accounts.bulkAdd(plan.newAccounts);
+         await db.transactions.bulkAdd(plan.transactions);
+         await db.transactionHistory.bulkAdd(plan.transactionHistory);
+         await db.recurringTransactions.bulkAdd(plan.recurringTransactions);
+         await db.rules.bulkAdd(plan.rules);
+         await db.importProfiles.bulkAdd(plan.importProfiles);
+         await db.exchangeRates.bulkPut(plan.exchangeRates);
+
+         if (plan.newTags.length > 0) {
+             const savedTags: string[] = (await db.settings.get('savedTags'))?.value || [];
+             await db.settings.put({ key: 'savedTags', value: [...savedTags, ...plan.newTags.filter(t => !savedTags.includes(t))] });
+         }
      });
   };
 
   const loadDemoData = () => {
     import('../utils/demoData').then(module => {
        if (categories.length > 0) {
-           const demoTxs = module.generateDemoTransactions(categories);
-           db.transactions.bulkAdd(demoTxs);
+           const demoTxs = module.generateDemoTransactions(categories).map(t => stampCreated(t));
+           return (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+               await db.transactions.bulkAdd(demoTxs);
+               await db.transactionHistory.bulkAdd(createdEntries(demoTxs, { note: 'Dane demonstracyjne' }));
+           });
        }
     });
   };
 
-  const factoryReset = async () => {
+  /**
+   * `keepSnapshotId` - migawka zachowywana mimo resetu (kopia bezpieczeństwa sprzed resetu).
+   */
+  const factoryReset = async (keepSnapshotId?: string) => {
       try {
         await Promise.all([
             db.transactions.clear(),
             db.categories.clear(),
             db.recurringTransactions.clear(),
-            db.settings.clear()
+            db.accounts.clear(),
+            db.exchangeRates.clear(),
+            db.rules.clear(),
+            db.importProfiles.clear(),
+            db.importBatches.clear(),
+            db.reconciliations.clear(),
+            db.transactionHistory.clear(),
+            db.settings.clear(),
+            // Automatyczne kopie zawierają te same dane (konfiguracja harmonogramu i folder zostają)
+            snapshotDb.snapshots.filter(s => s.id !== keepSnapshotId).delete(),
+            snapshotDb.snapshotData.filter(s => s.id !== keepSnapshotId).delete(),
+            snapshotDb.state.bulkDelete([SNAPSHOT_STATE_KEYS.LAST_SNAPSHOT_AT, SNAPSHOT_STATE_KEYS.CHANGES])
         ]);
         
+        // Ustawienia (z konfiguracją szyfrowania) zostały usunięte - nowe dane zapisujemy jawnie
+        deactivateDatabaseKey();
         localStorage.clear();
         await migrateFromLocalStorage();
 
@@ -78,7 +234,10 @@ export const useDataImportExport = (categories: CategoryItem[]) => {
 
   return {
     importData,
+    createBackup,
     restoreBackup,
+    planMerge,
+    mergeBackup,
     loadDemoData,
     factoryReset
   };
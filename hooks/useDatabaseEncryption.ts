@@ -0,0 +1,103 @@
+import { useSyncExternalStore } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { reencryptSnapshots, saveReencryptedSnapshots } from '../utils/backupSnapshots';
+import {
+  DB_ENCRYPTION_SETTING_KEY, DatabaseEncryptionConfig,
+  activateDatabaseKey, createEncryptionConfig, deactivateDatabaseKey, deriveDatabaseKey, getDatabaseKey,
+  isDatabaseLocked, lockDatabase, setTransactionWriteKey, subscribeDatabaseLock
+} from '../utils/dbEncryption';
+
+/**
+ * Szyfrowanie bazy i blokada aplikacji. Działa także poza `FinanceProvider` (ekran blokady),
+ * bo konfiguracja leży w jawnej tabeli `settings`.
+ */
+export const useDatabaseEncryption = () => {
+  // undefined = jeszcze wczytywane, null = szyfrowanie wyłączone
+  const config = useLiveQuery(
+    () => db.settings.get(DB_ENCRYPTION_SETTING_KEY).then(row => (row?.value as DatabaseEncryptionConfig | undefined) || null)
+  );
+  const isLocked = useSyncExternalStore(subscribeDatabaseLock, isDatabaseLocked);
+
+  /**
+   * Przepisuje transakcje, kategorie i historię zmian w jednej transakcji: odczyt bieżącym kluczem, zapis kluczem `nextKey`
+   * (null = jawnie). Automatyczne kopie są przygotowywane wcześniej i zapisywane zaraz po zatwierdzeniu. Klucz w pamięci
+   * zmienia się dopiero na końcu - do tego czasu pozostałe odczyty (np. `useLiveQuery`) używają dotychczasowego klucza.
+   * Przy błędzie przepisywania baza i klucz pozostają bez zmian.
+   */
+  const rewriteEncryptedTables = async (nextKey: CryptoKey | null, nextConfig: DatabaseEncryptionConfig | null) => {
+    const previousKey = getDatabaseKey();
+    const snapshots = await reencryptSnapshots(previousKey, nextKey);
+
+    await (db as any).transaction('rw', db.transactions, db.categories, db.transactionHistory, db.settings, async () => {
+      const transactions = await db.transactions.toArray();
+      const categories = await db.categories.toArray();
+      const transactionHistory = await db.transactionHistory.toArray();
+
+      setTransactionWriteKey(nextKey);
+      await db.transactions.bulkPut(transactions);
+      await db.categories.bulkPut(categories);
+      await db.transactionHistory.bulkPut(transactionHistory);
+      if (nextConfig) {
+        await db.settings.put({ key: DB_ENCRYPTION_SETTING_KEY, value: nextConfig });
+      } else {
+        await db.settings.delete(DB_ENCRYPTION_SETTING_KEY);
+      }
+    });
+
+    try {
+      await saveReencryptedSnapshots(snapshots);
+    } finally {
+      if (nextKey) activateDatabaseKey(nextKey);
+      else deactivateDatabaseKey();
+    }
+  };
+
+  const requireConfig = () => {
+    if (!config) throw new Error('Szyfrowanie bazy nie jest włączone.');
+    return config;
+  };
+
+  // --- Actions ---
+
+  const unlock = async (passphrase: string) => {
+    activateDatabaseKey(await deriveDatabaseKey(requireConfig(), passphrase));
+  };
+
+  const enableEncryption = async (passphrase: string, autoLockMinutes: number) => {
+    if (config) throw new Error('Szyfrowanie bazy jest już włączone.');
+    const { config: nextConfig, key } = await createEncryptionConfig(passphrase, autoLockMinutes);
+    await rewriteEncryptedTables(key, nextConfig);
+  };
+
+  /**
+   * Zmiana hasła: nowa sól i nowy klucz, wszystkie rekordy szyfrowane ponownie.
+   */
+  const changePassphrase = async (currentPassphrase: string, nextPassphrase: string) => {
+    const current = requireConfig();
+    await deriveDatabaseKey(current, currentPassphrase);
+    const { config: nextConfig, key } = await createEncryptionConfig(nextPassphrase, current.autoLockMinutes);
+    await rewriteEncryptedTables(key, nextConfig);
+  };
+
+  const disableEncryption = async (passphrase: string) => {
+    await deriveDatabaseKey(requireConfig(), passphrase);
+    await rewriteEncryptedTables(null, null);
+  };
+
+  const setAutoLockMinutes = async (autoLockMinutes: number) => {
+    await db.settings.put({ key: DB_ENCRYPTION_SETTING_KEY, value: { ...requireConfig(), autoLockMinutes } });
+  };
+
+  return {
+    config,
+    isEnabled: !!config,
+    isLocked: !!config && isLocked,
+    unlock,
+    lock: lockDatabase,
+    enableEncryption,
+    changePassphrase,
+    disableEncryption,
+    setAutoLockMinutes
+  };
+};
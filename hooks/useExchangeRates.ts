@@ -0,0 +1,42 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { ExchangeRate } from '../types';
+
+export const useExchangeRates = () => {
+  const exchangeRates = useLiveQuery(() => db.exchangeRates.toArray()) || [];
+
+  // --- Actions ---
+
+  /**
+   * Dodaje lub nadpisuje kurs (klucz: waluta + data).
+   */
+  const saveExchangeRate = async (rate: ExchangeRate) => {
+    await db.exchangeRates.put(rate);
+  };
+
+  const deleteExchangeRate = async (currency: string, date: string) => {
+    await db.exchangeRates.delete([currency, date]);
+  };
+
+  const importExchangeRates = async (rates: ExchangeRate[]) => {
+    if (rates.length > 0) {
+      await db.exchangeRates.bulkPut(rates);
+    }
+  };
+
+  const clearExchangeRates = async (currency?: string) => {
+    if (currency) {
+      await db.exchangeRates.where('currency').equals(currency).delete();
+    } else {
+      await db.exchangeRates.clear();
+    }
+  };
+
+  return {
+    exchangeRates,
+    saveExchangeRate,
+    deleteExchangeRate,
+    importExchangeRates,
+    clearExchangeRates
+  };
+};
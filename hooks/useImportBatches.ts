@@ -0,0 +1,42 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { RecordPatch } from '../types';
+import { deletedEntries } from '../utils/transactionHistory';
+import { createPatches } from '../utils/operationLog';
+
+export const useImportBatches = () => {
+  const importBatches = useLiveQuery(() => db.importBatches.orderBy('timestamp').reverse().toArray()) || [];
+
+  // --- Actions ---
+
+  /**
+   * Wycofuje import: usuwa wszystkie transakcje z danej partii (obie nogi sparowanych przelewów
+   * pochodzą z tego samego importu). Rekord zostaje w historii z datą wycofania.
+   * Kategorie utworzone przez import nie są usuwane - mogły zostać użyte później.
+   * Zwraca łatki do dziennika operacji (cofnij/ponów).
+   */
+  const rollbackImportBatch = async (id: string): Promise<RecordPatch[]> => {
+    let patches: RecordPatch[] = [];
+    await (db as any).transaction('rw', db.transactions, db.importBatches, db.transactionHistory, async () => {
+        const batch = await db.importBatches.get(id);
+        if (!batch) return;
+        const imported = await db.transactions.where('importBatchId').equals(id).toArray();
+        const rolledBack = { ...batch, rolledBackAt: new Date().toISOString() };
+        await db.transactions.bulkDelete(imported.map(t => t.id));
+        await db.transactionHistory.bulkAdd(deletedEntries(imported, { importBatchId: id, note: 'Wycofanie importu' }));
+        await db.importBatches.put(rolledBack);
+        patches = [...createPatches('transactions', imported, []), ...createPatches('importBatches', [batch], [rolledBack])];
+    });
+    return patches;
+  };
+
+  const deleteImportBatch = async (id: string) => {
+    await db.importBatches.delete(id);
+  };
+
+  return {
+    importBatches,
+    rollbackImportBatch,
+    deleteImportBatch
+  };
+};
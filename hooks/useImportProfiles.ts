@@ -0,0 +1,32 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { ImportProfile } from '../types';
+
+export const useImportProfiles = () => {
+  const importProfiles = useLiveQuery(() => db.importProfiles.toArray()) || [];
+
+  // --- Actions ---
+
+  /**
+   * Zapisuje profil. Profil o tym samym odcisku nagłówka jest nadpisywany,
+   * żeby jeden układ pliku miał jeden profil użytkownika.
+   */
+  const saveImportProfile = async (profile: Omit<ImportProfile, 'id'>) => {
+    await (db as any).transaction('rw', db.importProfiles, async () => {
+        const existing = profile.headerFingerprint
+            ? await db.importProfiles.where('headerFingerprint').equals(profile.headerFingerprint).first()
+            : undefined;
+        await db.importProfiles.put({ ...profile, isBuiltIn: false, id: existing?.id || crypto.randomUUID() });
+    });
+  };
+
+  const deleteImportProfile = async (id: string) => {
+    await db.importProfiles.delete(id);
+  };
+
+  return {
+    importProfiles,
+    saveImportProfile,
+    deleteImportProfile
+  };
+};
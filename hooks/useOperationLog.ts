@@ -0,0 +1,65 @@
+import { useRef, useState } from 'react';
+import { OperationEntry, RecordPatch } from '../types';
+import { OPERATION_LOG_LIMIT, applyOperation, createOperationEntry } from '../utils/operationLog';
+
+/**
+ * Historia zmian z cofaniem i ponawianiem. Lista od najnowszej; cofnięte operacje tworzą jej początek,
+ * a nowa operacja usuwa je (jak w edytorach tekstu).
+ */
+export const useOperationLog = () => {
+  const [operationLog, setOperationLog] = useState<OperationEntry[]>([]);
+  // Aktualna lista dla akcji wywoływanych tuż po sobie (skróty klawiszowe)
+  const logRef = useRef(operationLog);
+  const isApplyingRef = useRef(false);
+
+  const updateLog = (next: OperationEntry[]) => {
+    logRef.current = next;
+    setOperationLog(next);
+  };
+
+  const recordOperation = (label: string, patches: RecordPatch[]) => {
+    if (patches.length === 0) return;
+    const applied = logRef.current.filter(entry => !entry.undone);
+    updateLog([createOperationEntry(label, patches), ...applied].slice(0, OPERATION_LOG_LIMIT));
+  };
+
+  /** Cofa najnowszą wykonaną operację. Zwraca ją (null, gdy nie ma czego cofać). */
+  const undoOperation = async (): Promise<OperationEntry | null> => {
+    const entry = logRef.current.find(e => !e.undone);
+    if (!entry || isApplyingRef.current) return null;
+    isApplyingRef.current = true;
+    try {
+      await applyOperation(entry, 'undo');
+      updateLog(logRef.current.map(e => e.id === entry.id ? { ...e, undone: true } : e));
+      return entry;
+    } finally {
+      isApplyingRef.current = false;
+    }
+  };
+
+  /** Ponawia ostatnio cofniętą operację. */
+  const redoOperation = async (): Promise<OperationEntry | null> => {
+    const entry = [...logRef.current].reverse().find(e => e.undone);
+    if (!entry || isApplyingRef.current) return null;
+    isApplyingRef.current = true;
+    try {
+      await applyOperation(entry, 'redo');
+      updateLog(logRef.current.map(e => e.id === entry.id ? { ...e, undone: false } : e));
+      return entry;
+    } finally {
+      isApplyingRef.current = false;
+    }
+  };
+
+  const clearOperationLog = () => updateLog([]);
+
+  return {
+    operationLog,
+    canUndo: operationLog.some(e => !e.undone),
+    canRedo: operationLog.some(e => e.undone),
+    recordOperation,
+    undoOperation,
+    redoOperation,
+    clearOperationLog
+  };
+};
@@ -0,0 +1,53 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { ReconcileStatus, Reconciliation } from '../types';
+import { toDateKey } from '../utils/reconciliation';
+import { trackUpdates } from '../utils/transactionHistory';
+
+export const useReconciliation = () => {
+  const reconciliations = useLiveQuery(() => db.reconciliations.orderBy('date').reverse().toArray()) || [];
+
+  // --- Actions ---
+
+  /**
+   * Ustawia (lub zdejmuje, gdy `status` nie jest podany) znacznik uzgodnienia.
+   */
+  const setReconcileStatus = async (ids: string[], status?: ReconcileStatus) => {
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+        const before = await db.transactions.where('id').anyOf(ids).toArray();
+        const after = before.map(t => {
+            const { reconcileStatus, ...rest } = t;
+            return status ? { ...rest, reconcileStatus: status } : rest;
+        });
+        const { updated, entries } = trackUpdates(before, after, { note: 'Uzgadnianie salda' });
+        await db.transactions.bulkPut(updated);
+        await db.transactionHistory.bulkAdd(entries);
+    });
+  };
+
+  /**
+   * Zamyka uzgodnienie: wszystkie transakcje konta do dnia `date` włącznie stają się RECONCILED.
+   */
+  const completeReconciliation = async (input: Omit<Reconciliation, 'id' | 'createdAt'>) => {
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, db.reconciliations, async () => {
+        const before = await db.transactions
+            .where('accountId').equals(input.accountId)
+            .filter(t => toDateKey(t.date) <= input.date && t.reconcileStatus !== 'RECONCILED')
+            .toArray();
+        const { updated, entries } = trackUpdates(
+            before,
+            before.map(t => ({ ...t, reconcileStatus: 'RECONCILED' as const })),
+            { note: `Uzgodnienie salda do ${new Date(`${input.date}T12:00:00`).toLocaleDateString('pl-PL')}` }
+        );
+        await db.transactions.bulkPut(updated);
+        await db.transactionHistory.bulkAdd(entries);
+        await db.reconciliations.add({ ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() });
+    });
+  };
+
+  return {
+    reconciliations,
+    setReconcileStatus,
+    completeReconciliation
+  };
+};
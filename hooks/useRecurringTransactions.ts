@@ -4,6 +4,8 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
 import { RecurringTransaction, Transaction, Frequency } from '../types';
 import { ensureSubcategory } from '../utils/dbHelpers';
+import { createdEntries, stampCreated } from '../utils/transactionHistory';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
 
 export const useRecurringTransactions = () => {
   const recurringTransactions = useLiveQuery(() => db.recurringTransactions.toArray()) || [];
@@ -30,7 +32,7 @@ export const useRecurringTransactions = () => {
 
                 // Catch-up Loop
                 while (currentDueDate <= today) {
-                    newTxBatch.push({
+                    newTxBatch.push(stampCreated({
                         id: crypto.randomUUID(),
                         date: currentDueDate,
                         description: rule.description,
@@ -38,15 +40,18 @@ export const useRecurringTransactions = () => {
                         type: rule.type,
                         categoryId: rule.categoryId,
                         subcategoryId: rule.subcategoryId,
+                        accountId: rule.accountId || DEFAULT_ACCOUNT_ID,
+                        currency: rule.currency,
                         tags: rule.tags,
                         isRecurring: true
-                    });
+                    }));
                     currentDueDate = calculateNextDate(currentDueDate, rule.frequency);
                 }
 
                 // Atomic updates
-                await (db as any).transaction('rw', db.transactions, db.recurringTransactions, async () => {
+                await (db as any).transaction('rw', db.transactions, db.recurringTransactions, db.transactionHistory, async () => {
                     await db.transactions.bulkAdd(newTxBatch);
+                    await db.transactionHistory.bulkAdd(createdEntries(newTxBatch, { recurringRuleId: rule.id, note: 'Płatność automatyczna' }));
                     await db.recurringTransactions.update(rule.id, { nextDueDate: currentDueDate });
                 });
             }
@@ -76,9 +81,9 @@ export const useRecurringTransactions = () => {
     const rule = recurringTransactions.find(r => r.id === ruleId);
     if (!rule) return;
 
-    await (db as any).transaction('rw', db.transactions, db.recurringTransactions, async () => {
+    await (db as any).transaction('rw', db.transactions, db.recurringTransactions, db.transactionHistory, async () => {
         // 1. Create transaction
-        const newTx: Transaction = {
+        const newTx: Transaction = stampCreated({
             id: crypto.randomUUID(),
             date: rule.nextDueDate,
             description: rule.description,
@@ -86,10 +91,13 @@ export const useRecurringTransactions = () => {
             type: rule.type,
             categoryId: rule.categoryId,
             subcategoryId: rule.subcategoryId,
+            accountId: rule.accountId || DEFAULT_ACCOUNT_ID,
+            currency: rule.currency,
             tags: rule.tags,
             isRecurring: true
-        };
+        });
         await db.transactions.add(newTx);
+        await db.transactionHistory.bulkAdd(createdEntries([newTx], { recurringRuleId: ruleId }));
 
         // 2. Advance rule
         const nextDate = calculateNextDate(rule.nextDueDate, rule.frequency);
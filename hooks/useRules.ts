@@ -0,0 +1,71 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { CategorizationRule, RecordPatch, Transaction } from '../types';
+import { trackUpdates } from '../utils/transactionHistory';
+import { createPatches } from '../utils/operationLog';
+
+export const useRules = () => {
+  const rules = useLiveQuery(() => db.rules.orderBy('priority').toArray()) || [];
+
+  // --- Actions ---
+
+  const addRule = async (rule: Omit<CategorizationRule, 'id' | 'priority'>) => {
+    const last = await db.rules.orderBy('priority').last();
+    await db.rules.add({
+      ...rule,
+      id: crypto.randomUUID(),
+      priority: last ? last.priority + 1 : 0
+    });
+  };
+
+  const updateRule = async (rule: CategorizationRule) => {
+    await db.rules.put(rule);
+  };
+
+  const deleteRule = async (id: string) => {
+    await db.rules.delete(id);
+  };
+
+  /**
+   * Zamienia priorytet reguły z sąsiednią (w górę / w dół listy).
+   */
+  const moveRule = async (id: string, direction: -1 | 1) => {
+    await (db as any).transaction('rw', db.rules, async () => {
+        const ordered = await db.rules.orderBy('priority').toArray();
+        const index = ordered.findIndex(r => r.id === id);
+        const neighbour = ordered[index + direction];
+        if (index < 0 || !neighbour) return;
+
+        await db.rules.bulkPut([
+            { ...ordered[index], priority: neighbour.priority },
+            { ...neighbour, priority: ordered[index].priority }
+        ]);
+    });
+  };
+
+  /**
+   * Zapisuje zmiany wyliczone przez podgląd reguł (`previewRulesOnHistory`).
+   * Zwraca łatki do dziennika operacji (cofnij/ponów).
+   */
+  const applyRulesToHistory = async (updated: Transaction[]): Promise<RecordPatch[]> => {
+    if (updated.length === 0) return [];
+    let patches: RecordPatch[] = [];
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+      const current = await db.transactions.bulkGet(updated.map(t => t.id));
+      const { updated: stamped, entries } = trackUpdates(current.map((t, i) => t || updated[i]), updated, { note: 'Reguły kategoryzacji' });
+      await db.transactions.bulkPut(stamped);
+      await db.transactionHistory.bulkAdd(entries);
+      patches = createPatches('transactions', current, stamped);
+    });
+    return patches;
+  };
+
+  return {
+    rules,
+    addRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+    applyRulesToHistory
+  };
+};
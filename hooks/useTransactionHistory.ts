@@ -0,0 +1,24 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { TransactionChange } from '../types';
+
+/**
+ * Historia zmian jednej transakcji (od najnowszej). Dla części powstałych z podziału dołączana jest
+ * historia oryginału (i jego oryginałów), aby było widać, skąd pochodzi wpis.
+ */
+export const useTransactionHistory = (transactionId: string | undefined): TransactionChange[] | undefined =>
+  useLiveQuery(async () => {
+    if (!transactionId) return [];
+    const entries: TransactionChange[] = [];
+    const visited = new Set<string>();
+    let currentId: string | undefined = transactionId;
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      const own: TransactionChange[] = await db.transactionHistory.where('transactionId').equals(currentId).toArray();
+      entries.push(...own);
+      currentId = own.find(e => e.splitFromId)?.splitFromId;
+    }
+
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }, [transactionId]);
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { RecordPatch, TransferInput } from '../types';
+import { buildTransferPair } from '../utils/transferHelpers';
+import { createdEntries, deletedEntries, stampCreated, trackUpdates } from '../utils/transactionHistory';
+import { createPatches } from '../utils/operationLog';
+
+/**
+ * Dodanie, edycja i usunięcie zwracają łatki do dziennika operacji (cofnij/ponów).
+ */
+export const useTransfers = () => {
+
+  const addTransfer = async (input: TransferInput): Promise<RecordPatch[]> => {
+    const now = new Date().toISOString();
+    const legs = buildTransferPair(input).map(t => stampCreated(t, now));
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+        await db.transactions.bulkAdd(legs);
+        await db.transactionHistory.bulkAdd(createdEntries(legs, { note: 'Przelew własny' }));
+    });
+    return createPatches('transactions', [], legs);
+  };
+
+  /**
+   * Nadpisuje obie nogi przelewu (zachowując ich identyfikatory i metadane importu/uzgodnienia).
+   * `clearReconcileStatus` - przelew odblokowany do edycji traci znacznik uzgodnienia.
+   */
+  const updateTransfer = async (transferId: string, input: TransferInput, clearReconcileStatus: boolean = false): Promise<RecordPatch[]> => {
+    let patches: RecordPatch[] = [];
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+        const legs = await db.transactions.where('transferId').equals(transferId).toArray();
+        const [debit, credit] = buildTransferPair(input, transferId);
+        const oldDebit = legs.find(t => t.type === debit.type);
+        const oldCredit = legs.find(t => t.type === credit.type);
+
+        const nextDebit = { ...debit, id: oldDebit?.id || debit.id, externalId: oldDebit?.externalId, importBatchId: oldDebit?.importBatchId, reconcileStatus: clearReconcileStatus ? undefined : oldDebit?.reconcileStatus };
+        const nextCredit = { ...credit, id: oldCredit?.id || credit.id, externalId: oldCredit?.externalId, importBatchId: oldCredit?.importBatchId, reconcileStatus: clearReconcileStatus ? undefined : oldCredit?.reconcileStatus };
+
+        // Nogi bez poprzedniej wersji (np. uszkodzona para) traktujemy jak nowe
+        const { updated, entries } = trackUpdates(
+            [oldDebit || stampCreated(nextDebit), oldCredit || stampCreated(nextCredit)],
+            [nextDebit, nextCredit],
+            { note: 'Edycja przelewu' }
+        );
+        await db.transactions.bulkDelete(legs.map(t => t.id));
+        await db.transactions.bulkAdd(updated);
+        await db.transactionHistory.bulkAdd(entries);
+        patches = createPatches('transactions', legs, updated);
+    });
+    return patches;
+  };
+
+  const deleteTransfer = async (transferId: string): Promise<RecordPatch[]> => {
+    let patches: RecordPatch[] = [];
+    await (db as any).transaction('rw', db.transactions, db.transactionHistory, async () => {
+        const legs = await db.transactions.where('transferId').equals(transferId).toArray();
+        await db.transactions.bulkDelete(legs.map(t => t.id));
+        await db.transactionHistory.bulkAdd(deletedEntries(legs, { note: 'Przelew własny' }));
+        patches = createPatches('transactions', legs, []);
+    });
+    return patches;
+  };
+
+  return {
+    addTransfer,
+    updateTransfer,
+    deleteTransfer
+  };
+};
@@ -12,8 +12,33 @@ export enum TransactionType {
   EXPENSE = 'EXPENSE'
 }
 
+/**
+ * Stan uzgodnienia z bankiem: CLEARED - potwierdzona na wyciągu, RECONCILED - objęta zakończonym uzgodnieniem salda.
+ * Kwota, data, typ i konto takiej transakcji są zablokowane w edycji.
+ */
+export type ReconcileStatus = 'CLEARED' | 'RECONCILED';
+
 export type Frequency = 'WEEKLY' | 'MONTHLY' | 'YEARLY';
 
+export type AccountType = 'CHECKING' | 'SAVINGS' | 'CREDIT_CARD' | 'CASH';
+
+/**
+ * Konto (portfel, rachunek bankowy, karta kredytowa, gotówka).
+ * Każda transakcja jest przypisana do dokładnie jednego konta (`Transaction.accountId`).
+ */
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  color: string;
+  /**
+   * Saldo początkowe konta (stan sprzed pierwszej zarejestrowanej transakcji).
+   * Dla kart kredytowych zazwyczaj 0 lub wartość ujemna (zadłużenie).
+   */
+  initialBalance: number;
+  currency?: string; // Kod ISO 4217; brak = DEFAULT_CURRENCY
+}
+
 export interface SubcategoryItem {
   id: string;
   name: string;
@@ -62,6 +87,8 @@ export interface RecurringTransaction {
   nextDueDate: string; // ISO Date (YYYY-MM-DD)
   autoPay: boolean; // True = automat (tworzy wpis sam), False = wymaga zatwierdzenia
   tags?: string[];
+  accountId?: string; // Brak = konto domyślne (DEFAULT_ACCOUNT_ID)
+  currency?: string;
 }
 
 /**
@@ -69,11 +96,21 @@ export interface RecurringTransaction {
  */
 export interface Transaction {
   id: string;
-  amount: number;
+  amount: number; // Kwota w walucie transakcji (`currency`)
+  /**
+   * Kod waluty ISO 4217 (np. 'EUR'). Brak = DEFAULT_CURRENCY (dane sprzed obsługi walut).
+   */
+  currency?: string;
+  /**
+   * Kwota oryginalna - wypełniana wyłącznie w kopiach przeliczonych na walutę bazową
+   * (`convertTransactions`), nigdy nie zapisywana w bazie.
+   */
+  originalAmount?: number;
   description: string;
   type: TransactionType;
   categoryId: string; // Referencja do CategoryItem.id
   subcategoryId?: string; // Referencja do SubcategoryItem.id
+  accountId: string; // Referencja do Account.id
   /**
    * Data w formacie ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ).
    * UWAGA: Aplikacja ustawia godzinę na 12:00 (noon), aby uniknąć przesunięć
@@ -82,6 +119,160 @@ export interface Transaction {
   date: string; 
   tags?: string[]; // System tagowania (np. #wakacje)
   isRecurring?: boolean; // Flaga oznaczająca, że transakcja pochodzi z automatu
+  /**
+   * Identyfikator przelewu własnego (para obciążenie/uznanie).
+   * Obie nogi mają ten sam `transferId`: EXPENSE na koncie źródłowym i INCOME na docelowym.
+   * Przelewy nie są wliczane do przychodów ani wydatków.
+   */
+  transferId?: string;
+  /**
+   * Identyfikator transakcji nadany przez bank (np. OFX FITID).
+   * Gdy jest obecny, deduplikacja importu porównuje go zamiast sygnatury data-kwota-opis.
+   */
+  externalId?: string;
+  importBatchId?: string; // Referencja do ImportBatch.id (transakcja utworzona importem pliku)
+  reconcileStatus?: ReconcileStatus; // Brak = nieuzgodniona
+  createdAt?: string; // ISO. Brak w transakcjach sprzed historii zmian
+  updatedAt?: string; // ISO - ostatnia zmiana
+}
+
+/**
+ * Wpis historii zmian transakcji (tabela `transactionHistory`).
+ * Źródło utworzenia: `importBatchId` (import), `recurringRuleId` (płatność cykliczna), `splitFromId` (podział).
+ */
+export type TransactionChangeAction = 'CREATED' | 'IMPORTED' | 'RECURRING' | 'SPLIT' | 'EDITED' | 'RECATEGORIZED' | 'DELETED';
+
+export interface TransactionFieldChange {
+  field: keyof Transaction;
+  before?: any;
+  after?: any;
+}
+
+export interface TransactionChange {
+  id: string;
+  transactionId: string;
+  timestamp: string; // ISO
+  action: TransactionChangeAction;
+  importBatchId?: string;
+  recurringRuleId?: string;
+  splitFromId?: string; // Transakcja, z której podziału powstała ta
+  note?: string; // Kontekst zmiany (np. nazwa reguły, cofnięcie operacji)
+  changes?: TransactionFieldChange[]; // Dla EDITED / RECATEGORIZED; przy DELETED - wartości usuniętej transakcji
+}
+
+/**
+ * Dane wejściowe przelewu własnego (z formularza lub edycji).
+ */
+export interface TransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string;
+  description: string;
+  tags?: string[];
+  currency?: string; // Waluta obu nóg przelewu
+}
+
+/**
+ * Kurs średni waluty z danego dnia, notowany względem DEFAULT_CURRENCY
+ * (jak w tabeli A NBP: ile PLN za 1 jednostkę waluty).
+ */
+export interface ExchangeRate {
+  currency: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+export type RuleMatchMode = 'CONTAINS' | 'REGEX';
+
+/**
+ * Reguła automatycznej kategoryzacji (edytowalna przez użytkownika).
+ * Wszystkie ustawione warunki muszą być spełnione jednocześnie; puste pola są pomijane.
+ */
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // Mniejsza wartość = reguła sprawdzana wcześniej
+  conditions: {
+    descriptionMode: RuleMatchMode;
+    descriptionPattern?: string; // CONTAINS: bez rozróżniania wielkości liter; REGEX: flaga 'i'
+    minAmount?: number;
+    maxAmount?: number;
+    type?: TransactionType;
+    accountId?: string;
+  };
+  actions: {
+    categoryId?: string;
+    subcategoryId?: string;
+    tags?: string[];
+    /**
+     * Nowy opis. Dla REGEX można odwołać się do grup ($1, $2...).
+     */
+    description?: string;
+  };
+}
+
+// --- Import CSV ---
+
+/**
+ * Znaczenie kolumny CSV. Kwotę można podać jako `amount` (ze znakiem),
+ * parę `debit`/`credit` (osobne kolumny obciążeń i uznań) lub `amount` + `direction` (wskaźnik D/C).
+ */
+export type ColumnMapping = 'date' | 'amount' | 'debit' | 'credit' | 'direction' | 'description' | 'category' | 'subcategory' | 'tags' | 'currency' | 'account' | 'skip';
+export type DateFormat = 'DD-MM-YYYY' | 'MM-DD-YYYY' | 'YYYY-MM-DD';
+
+/**
+ * Zapisany profil importu CSV (np. dla konkretnego banku).
+ * Rozpoznawany automatycznie po odcisku wiersza nagłówków (`headerFingerprint`).
+ */
+export interface ImportProfile {
+  id: string;
+  name: string;
+  isBuiltIn?: boolean; // Profile wbudowane nie są zapisywane w bazie i nie można ich usunąć
+  headerFingerprint: string; // Znormalizowane nazwy kolumn nagłówka (`getHeaderFingerprint`)
+  mappings: Record<number, ColumnMapping>; // Indeks kolumny -> znaczenie
+  hasHeader: boolean;
+  dateFormat: DateFormat;
+  decimalSeparator: ',' | '.';
+  encoding: string; // Etykieta dla TextDecoder, np. 'windows-1250'
+  skipRows: number; // Wiersze przed nagłówkiem (np. metryczka wyciągu)
+  invertSigns: boolean; // Bank podaje wydatki jako kwoty dodatnie
+}
+
+/**
+ * Dane o pliku przekazywane z kreatora importu do `importData`.
+ */
+export interface ImportBatchSource {
+  fileName: string;
+  profileName?: string; // Profil CSV lub format wyciągu (np. 'MT940')
+  failedCount: number; // Wiersze odrzucone przez kreator (np. nierozpoznana data)
+  skippedCount?: number; // Duplikaty pominięte podczas przeglądu w kreatorze
+  mergedCount?: number; // Duplikaty scalone z istniejącymi transakcjami
+}
+
+/**
+ * Rekord historii importu. Utworzone transakcje mają `importBatchId` = `id`,
+ * co pozwala wycofać dokładnie ten import.
+ */
+export interface ImportBatch extends ImportBatchSource {
+  id: string;
+  timestamp: string; // ISO
+  addedCount: number;
+  skippedCount: number; // Duplikaty: pominięte w przeglądzie + odrzucone po identyfikatorze banku
+  rolledBackAt?: string; // ISO; ustawiane po wycofaniu importu
+}
+
+/**
+ * Zakończone uzgodnienie salda konta z wyciągiem na dany dzień.
+ */
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  date: string; // YYYY-MM-DD (włącznie)
+  statementBalance: number; // Saldo z wyciągu, w walucie konta
+  trackedBalance: number; // Saldo wyliczone przez aplikację w chwili uzgodnienia
+  createdAt: string; // ISO
 }
 
 /**
@@ -100,9 +291,22 @@ export interface ChartDataPoint {
   color: string;
 }
 
+/**
+ * Ustawienia zapisywane w kopii zapasowej - pełna zawartość tabeli `settings` (klucz -> wartość).
+ * Kopie w wersji 1 zawierały tylko `isPrivateMode` i `baseCurrency`.
+ */
+export interface BackupSettings {
+  isPrivateMode: boolean;
+  baseCurrency?: string;
+  theme?: 'light' | 'dark';
+  savedTags?: string[];
+  [key: string]: unknown;
+}
+
 /**
  * Struktura pliku eksportu/importu (JSON).
- * Zawiera pełny zrzut bazy danych Dexie.
+ * Zawiera pełny zrzut bazy danych Dexie. Format opisuje i waliduje `utils/backupSchema.ts`
+ * (`version` = BACKUP_VERSION; starsze kopie są podnoszone łańcuchem `BACKUP_UPGRADERS`).
  */
 export interface BackupData {
   version: number;
@@ -110,7 +314,66 @@ export interface BackupData {
   categories: CategoryItem[];
   transactions: Transaction[];
   recurringTransactions?: RecurringTransaction[];
-  settings: {
-    isPrivateMode: boolean;
-  };
+  accounts?: Account[]; // Brak w kopiach sprzed wprowadzenia kont
+  exchangeRates?: ExchangeRate[];
+  rules?: CategorizationRule[];
+  importProfiles?: ImportProfile[];
+  importBatches?: ImportBatch[];
+  reconciliations?: Reconciliation[];
+  transactionHistory?: TransactionChange[];
+  settings: BackupSettings;
+}
+
+/**
+ * Automatyczna kopia zapasowa (migawka) w lokalnej bazie `bTrackrSnapshots`.
+ * Treść (JSON w formacie `BackupData`) leży osobno, aby lista migawek nie wczytywała całych kopii.
+ */
+export type BackupSnapshotTrigger = 'SCHEDULE' | 'CHANGES' | 'MANUAL' | 'SAFETY'; // SAFETY - przed operacją niszczącą dane
+
+export interface BackupSnapshot {
+  id: string;
+  timestamp: string; // ISO
+  trigger: BackupSnapshotTrigger;
+  size: number; // Rozmiar JSON w bajtach
+  transactionCount: number;
+  encrypted: boolean; // Zaszyfrowana kluczem bazy (włączone szyfrowanie bazy)
+  label?: string; // Nazwa operacji, przed którą powstała kopia (SAFETY)
+}
+
+export type AutoBackupFrequency = 'DAILY' | 'WEEKLY' | 'CHANGES';
+
+export interface AutoBackupConfig {
+  enabled: boolean;
+  frequency: AutoBackupFrequency;
+  changeThreshold: number; // Liczba zapisów w bazie (dla CHANGES)
+  keepCount: number; // Ile ostatnich migawek przechowywać
+}
+
+/**
+ * Ostatnia operacja niszcząca dane w bieżącej sesji, którą można cofnąć (stan sprzed niej trzymany w pamięci).
+ */
+export interface SafetyUndo {
+  label: string;
+  timestamp: string; // ISO - chwila utworzenia kopii
+  snapshotId: string; // Migawka SAFETY z kopią tego stanu
+}
+
+/**
+ * Dziennik operacji (cofnij/ponów) - tylko w pamięci, w bieżącej sesji.
+ */
+export type OperationTable = 'transactions' | 'categories' | 'settings' | 'importBatches';
+
+export interface RecordPatch {
+  table: OperationTable;
+  key: string;
+  before?: any; // Brak - rekord został utworzony
+  after?: any; // Brak - rekord został usunięty
+}
+
+export interface OperationEntry {
+  id: string;
+  label: string;
+  timestamp: string; // ISO
+  patches: RecordPatch[];
+  undone: boolean;
 }
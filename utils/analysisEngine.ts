@@ -1,13 +1,15 @@
 
 import { Transaction, TransactionType, CategoryItem } from '../types';
+import { isTransfer } from './transferHelpers';
 
 export interface AnalysisPayload {
-    transactions: Transaction[];
+    transactions: Transaction[]; // Kwoty już w walucie bazowej (FinanceContext.convertedTransactions)
     categories: CategoryItem[];
     selectedYear: number;
     periodType: 'ALL' | 'YEAR' | 'QUARTER' | 'MONTH';
     periodValue: number;
     selectedTag: string;
+    selectedAccountId: string;
     historyAggregation: 'YEARLY' | 'QUARTERLY' | 'MONTHLY';
     yearAggregation: 'MONTHLY' | 'QUARTERLY';
 }
@@ -22,11 +24,17 @@ export interface AnalysisPayload {
 export const calculateAnalysis = (payload: AnalysisPayload) => {
     const { 
         transactions, categories, selectedYear, periodType, 
-        periodValue, selectedTag, historyAggregation, yearAggregation 
+        periodValue, selectedTag, selectedAccountId, historyAggregation, yearAggregation 
     } = payload;
 
     // --- 1. Filtering ---
-    let filtered = transactions;
+    // Przelewy własne nie są ani przychodem, ani wydatkiem - pomijamy je w całej analizie.
+    // Filtr konta zawęża cały zbiór (łącznie z listą dostępnych lat i tagów).
+    const accountTransactions = transactions.filter(t => 
+        !isTransfer(t) && (selectedAccountId === 'ALL' || t.accountId === selectedAccountId)
+    );
+
+    let filtered = accountTransactions;
 
     if (selectedTag !== 'ALL') {
        filtered = filtered.filter(t => t.tags && t.tags.includes(selectedTag));
@@ -47,10 +55,10 @@ export const calculateAnalysis = (payload: AnalysisPayload) => {
     const filteredTransactions = filtered;
 
     // --- 2. Helpers ---
-    const availableYears = Array.from(new Set(transactions.map(t => new Date(t.date).getFullYear())))
+    const availableYears = Array.from(new Set(accountTransactions.map(t => new Date(t.date).getFullYear())))
         .sort((a, b) => b - a);
 
-    const availableTags = Array.from(new Set(transactions.flatMap(t => t.tags || []))).sort();
+    const availableTags = Array.from(new Set(accountTransactions.flatMap(t => t.tags || []))).sort();
 
     // --- 3. Financial Health Data ---
     let buckets: any[] = [];
@@ -0,0 +1,88 @@
+/**
+ * Szyfrowanie kopii zapasowej hasłem (WebCrypto).
+ *
+ * Klucz AES-GCM (256 bit) jest wyprowadzany z hasła przez PBKDF2-SHA-256 z losową solą.
+ * Plik to JSON "koperta" z parametrami KDF i szyfru - dzięki temu kreator importu rozpozna
+ * zaszyfrowaną kopię po zawartości, a przyszłe wersje mogą zmienić parametry bez łamania starych plików.
+ * Znacznik uwierzytelnienia GCM wykrywa zarówno złe hasło, jak i uszkodzony plik.
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = 'btrackr-encrypted-backup';
+
+/** Minimalna długość hasła przy eksporcie. */
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+/** Liczba iteracji PBKDF2 (zalecenie OWASP dla SHA-256). */
+export const PBKDF2_ITERATIONS = 600000;
+
+export interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: number, salt: string }; // Sól w base64
+  cipher: { name: 'AES-GCM', iv: string }; // IV w base64
+  data: string; // Szyfrogram (base64) treści kopii (JSON)
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Porcjami - String.fromCharCode z dużą tablicą przekracza limit argumentów
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+/** Klucz AES-GCM z hasła (PBKDF2-SHA-256). Nieeksportowalny - nie da się go odczytać z pamięci strony. */
+export const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (json: unknown): json is EncryptedBackupFile =>
+  typeof json === 'object' && json !== null && (json as any).format === ENCRYPTED_BACKUP_FORMAT;
+
+/**
+ * Szyfruje treść kopii (JSON jako tekst). Zwraca zawartość pliku do zapisania.
+ */
+export const encryptBackup = async (content: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(content));
+
+  const file: EncryptedBackupFile = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(encrypted))
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Odszyfrowuje kopię. Rzuca `Error` przy złym haśle lub uszkodzonym pliku (GCM nie odróżnia tych przypadków).
+ */
+export const decryptBackup = async (file: EncryptedBackupFile, passphrase: string): Promise<string> => {
+  const iterations = file.kdf?.iterations;
+  // Limit iteracji - plik z absurdalną wartością zablokowałby kartę na długie minuty
+  const validIterations = Number.isInteger(iterations) && iterations > 0 && iterations <= 10 * PBKDF2_ITERATIONS;
+  if (file.version !== 1 || file.kdf?.name !== 'PBKDF2' || file.cipher?.name !== 'AES-GCM' || !validIterations) {
+    throw new Error('Nieobsługiwany format zaszyfrowanej kopii. Zaktualizuj bTrackr.');
+  }
+  try {
+    const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), iterations);
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.cipher.iv) }, key, fromBase64(file.data));
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new Error('Nieprawidłowe hasło lub uszkodzony plik kopii.');
+  }
+};
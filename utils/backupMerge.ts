@@ -0,0 +1,145 @@
+import { Account, BackupData, CategorizationRule, CategoryItem, ExchangeRate, ImportProfile, RecurringTransaction, SubcategoryItem, Transaction, TransactionChange } from '../types';
+
+/**
+ * Scalanie kopii zapasowej z bieżącymi danymi (np. kopia partnera, stare urządzenie) zamiast zastępowania bazy.
+ *
+ * - Kategorie: dopasowanie po `id`, potem po nazwie (bez wielkości liter, ten sam typ). Dopasowane kategorie
+ *   zachowują bieżące ustawienia, ale dostają brakujące podkategorie (dopasowanie po `id`, potem po nazwie).
+ * - Konta: dopasowanie po `id`, potem po nazwie.
+ * - Transakcje i pozostałe rekordy: pomijane, gdy `id` już istnieje; odwołania do kategorii, podkategorii
+ *   i kont są przepisywane na dopasowane odpowiedniki.
+ * - Historia zmian przechodzi razem z dodawanymi transakcjami.
+ * - Historia importów i uzgodnienia nie są scalane (dotyczą plików i sald drugiego urządzenia).
+ */
+
+export interface CategoryMatch {
+  from: string; // Nazwa w kopii
+  to: string;   // Nazwa dopasowanej kategorii
+}
+
+export interface BackupMergePlan {
+  newCategories: CategoryItem[];
+  updatedCategories: CategoryItem[]; // Istniejące kategorie uzupełnione o podkategorie z kopii
+  renamedMatches: CategoryMatch[];   // Dopasowane po nazwie (inne `id`)
+  newAccounts: Account[];
+  transactions: Transaction[];       // Do dodania (z przepisanymi odwołaniami)
+  skippedTransactions: number;       // Już istniejące (to samo `id`)
+  transactionHistory: TransactionChange[]; // Wpisy historii dodawanych transakcji
+  recurringTransactions: RecurringTransaction[];
+  rules: CategorizationRule[];
+  importProfiles: ImportProfile[];
+  exchangeRates: ExchangeRate[];
+  newTags: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Wylicza, co zostanie dodane lub zmienione. `current` - bieżący zrzut bazy (`createBackup`).
+ */
+export const planBackupMerge = (backup: BackupData, current: BackupData): BackupMergePlan => {
+  const categoryIds = new Map<string, string>();    // id w kopii -> id docelowe
+  const subcategoryIds = new Map<string, string>(); // `${id kategorii w kopii}:${id podkategorii}` -> id docelowe
+  const workingCategories = current.categories.map(c => ({ ...c, subcategories: [...c.subcategories] }));
+  const changedCategoryIds = new Set<string>();
+  const newCategories: CategoryItem[] = [];
+  const renamedMatches: CategoryMatch[] = [];
+
+  backup.categories.forEach(category => {
+    const target = workingCategories.find(c => c.id === category.id)
+      || workingCategories.find(c => c.type === category.type && sameName(c.name, category.name));
+
+    if (!target) {
+      const added = { ...category, subcategories: [...category.subcategories] };
+      newCategories.push(added);
+      workingCategories.push(added);
+      categoryIds.set(category.id, category.id);
+      category.subcategories.forEach(s => subcategoryIds.set(`${category.id}:${s.id}`, s.id));
+      return;
+    }
+
+    categoryIds.set(category.id, target.id);
+    if (target.id !== category.id) renamedMatches.push({ from: category.name, to: target.name });
+
+    category.subcategories.forEach(sub => {
+      let targetSub: SubcategoryItem | undefined = target.subcategories.find(s => s.id === sub.id)
+        || target.subcategories.find(s => sameName(s.name, sub.name));
+      if (!targetSub) {
+        // Identyfikator zajęty w innej kategorii -> nowy, aby nie powstały dwie podkategorie o tym samym id
+        const idTaken = workingCategories.some(c => c.subcategories.some(s => s.id === sub.id));
+        targetSub = { id: idTaken ? crypto.randomUUID() : sub.id, name: sub.name };
+        target.subcategories.push(targetSub);
+        if (!newCategories.includes(target)) changedCategoryIds.add(target.id);
+      }
+      subcategoryIds.set(`${category.id}:${sub.id}`, targetSub.id);
+    });
+  });
+
+  const accountIds = new Map<string, string>();
+  const newAccounts: Account[] = [];
+  (backup.accounts || []).forEach(account => {
+    const target = current.accounts?.find(a => a.id === account.id)
+      || current.accounts?.find(a => sameName(a.name, account.name))
+      || newAccounts.find(a => a.id === account.id);
+    if (target) {
+      accountIds.set(account.id, target.id);
+    } else {
+      newAccounts.push(account);
+      accountIds.set(account.id, account.id);
+    }
+  });
+
+  const remapCategory = <T extends { categoryId: string, subcategoryId?: string }>(item: T): T => ({
+    ...item,
+    categoryId: categoryIds.get(item.categoryId) || item.categoryId,
+    subcategoryId: item.subcategoryId ? subcategoryIds.get(`${item.categoryId}:${item.subcategoryId}`) || item.subcategoryId : undefined
+  });
+  const remapAccount = (accountId?: string) => accountId ? accountIds.get(accountId) || accountId : accountId;
+
+  const existingTransactionIds = new Set(current.transactions.map(t => t.id));
+  const transactions = backup.transactions
+    .filter(t => !existingTransactionIds.has(t.id))
+    .map(t => ({ ...remapCategory(t), accountId: remapAccount(t.accountId)!, importBatchId: undefined }));
+
+  // Odwołania do historii importów drugiego urządzenia nie mają tu znaczenia
+  const addedTransactionIds = new Set(transactions.map(t => t.id));
+  const existingHistoryIds = new Set((current.transactionHistory || []).map(h => h.id));
+  const transactionHistory = (backup.transactionHistory || [])
+    .filter(h => addedTransactionIds.has(h.transactionId) && !existingHistoryIds.has(h.id))
+    .map(h => ({ ...h, importBatchId: undefined }));
+
+  const notIn = <T extends { id: string }>(existing: T[] | undefined) => {
+    const ids = new Set((existing || []).map(item => item.id));
+    return (item: T) => !ids.has(item.id);
+  };
+
+  const recurringTransactions = (backup.recurringTransactions || [])
+    .filter(notIn(current.recurringTransactions))
+    .map(r => ({ ...remapCategory(r), accountId: remapAccount(r.accountId) }));
+
+  const rules = (backup.rules || [])
+    .filter(notIn(current.rules))
+    .map(rule => ({
+      ...rule,
+      conditions: { ...rule.conditions, accountId: remapAccount(rule.conditions.accountId) },
+      actions: rule.actions.categoryId ? { ...rule.actions, ...remapCategory({ categoryId: rule.actions.categoryId, subcategoryId: rule.actions.subcategoryId }) } : rule.actions
+    }));
+
+  const existingRates = new Set((current.exchangeRates || []).map(r => `${r.currency}|${r.date}`));
+  const currentTags = new Set(current.settings.savedTags || []);
+
+  return {
+    newCategories,
+    updatedCategories: workingCategories.filter(c => changedCategoryIds.has(c.id)),
+    renamedMatches,
+    newAccounts,
+    transactions,
+    skippedTransactions: backup.transactions.length - transactions.length,
+    transactionHistory,
+    recurringTransactions,
+    rules,
+    importProfiles: (backup.importProfiles || []).filter(notIn(current.importProfiles)),
+    exchangeRates: (backup.exchangeRates || []).filter(r => !existingRates.has(`${r.currency}|${r.date}`)),
+    newTags: (backup.settings.savedTags || []).filter(tag => !currentTags.has(tag))
+  };
+};
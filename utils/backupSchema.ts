@@ -0,0 +1,210 @@
+import { BackupData, TransactionType } from '../types';
+import { DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID } from '../constants';
+
+/**
+ * Format kopii zapasowej (JSON): wersjonowanie, łańcuch aktualizacji i walidacja rekordów.
+ *
+ * Przywracanie czyści bazę, więc plik sprawdzamy w całości ZANIM cokolwiek zostanie usunięte:
+ * 1. `version` - kopie starsze niż BACKUP_VERSION przechodzą kolejno przez `BACKUP_UPGRADERS`,
+ *    nowsze (z przyszłej wersji aplikacji) są odrzucane.
+ * 2. Struktura - brak wymaganych tablic to błąd całego pliku (wyjątek z opisem).
+ * 3. Rekordy - każdy rekord jest sprawdzany według `RECORD_SCHEMAS`; błędne (i zduplikowane
+ *    identyfikatory) trafiają do raportu `issues` i nie są przywracane.
+ */
+
+/** Aktualna wersja formatu. Zmiana struktury = nowa wersja + upgrader z poprzedniej. */
+export const BACKUP_VERSION = 2;
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgradery: klucz to wersja źródłowa, wynik ma wersję o 1 wyższą.
+ * Operują na surowym JSON (przed walidacją), więc nie mogą zakładać poprawności rekordów.
+ */
+export const BACKUP_UPGRADERS: Record<number, (backup: any) => any> = {
+  // v1 -> v2: pełne ustawienia zamiast samego trybu prywatnego; konta wymagane
+  1: (backup) => {
+    const hasAccounts = Array.isArray(backup.accounts) && backup.accounts.length > 0;
+    return {
+      ...backup,
+      version: 2,
+      accounts: hasAccounts ? backup.accounts : DEFAULT_ACCOUNTS,
+      // Kopie sprzed wprowadzenia kont -> wszystko na konto domyślne
+      transactions: Array.isArray(backup.transactions)
+        ? backup.transactions.map((t: any) => isObject(t) && !t.accountId ? { ...t, accountId: DEFAULT_ACCOUNT_ID } : t)
+        : backup.transactions,
+      settings: isObject(backup.settings) ? backup.settings : { isPrivateMode: false }
+    };
+  }
+};
+
+export type BackupTable = 'categories' | 'transactions' | 'recurringTransactions' | 'accounts' | 'exchangeRates' | 'rules' | 'importProfiles' | 'importBatches' | 'reconciliations' | 'transactionHistory';
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  categories: 'Kategorie',
+  transactions: 'Transakcje',
+  recurringTransactions: 'Płatności cykliczne',
+  accounts: 'Konta',
+  exchangeRates: 'Kursy walut',
+  rules: 'Reguły',
+  importProfiles: 'Profile importu',
+  importBatches: 'Historia importów',
+  reconciliations: 'Uzgodnienia',
+  transactionHistory: 'Historia zmian transakcji'
+};
+
+/**
+ * Błąd pojedynczego rekordu. `index` - pozycja w tablicy pliku (od 0).
+ */
+export interface BackupIssue {
+  table: BackupTable;
+  index: number;
+  id?: string;
+  messages: string[];
+}
+
+export interface ValidatedBackup {
+  backup: BackupData; // Bez błędnych rekordów - gotowe do `restoreBackup`
+  sourceVersion: number;
+  issues: BackupIssue[];
+}
+
+// --- Reguły pól ---
+
+type FieldCheck = { test: (value: unknown) => boolean, expected: string };
+
+const text: FieldCheck = { test: v => typeof v === 'string', expected: 'tekstu' };
+const nonEmptyText: FieldCheck = { test: v => typeof v === 'string' && v.trim().length > 0, expected: 'niepustego tekstu' };
+const num: FieldCheck = { test: v => typeof v === 'number' && Number.isFinite(v), expected: 'liczby' };
+const bool: FieldCheck = { test: v => typeof v === 'boolean', expected: 'true/false' };
+const date: FieldCheck = { test: v => typeof v === 'string' && !isNaN(Date.parse(v)), expected: 'daty' };
+const textList: FieldCheck = { test: v => Array.isArray(v) && v.every(i => typeof i === 'string'), expected: 'listy tekstów' };
+const obj: FieldCheck = { test: isObject, expected: 'obiektu' };
+const oneOf = (...values: string[]): FieldCheck => ({ test: v => values.includes(v as string), expected: values.join(' | ') });
+const transactionType = oneOf(TransactionType.INCOME, TransactionType.EXPENSE);
+const subcategoryList: FieldCheck = {
+  test: v => Array.isArray(v) && v.every(s => isObject(s) && typeof s.id === 'string' && typeof s.name === 'string'),
+  expected: 'listy podkategorii { id, name }'
+};
+const changeList: FieldCheck = {
+  test: v => Array.isArray(v) && v.every(c => isObject(c) && typeof c.field === 'string'),
+  expected: 'listy zmian { field, before, after }'
+};
+
+/** Pole wymagane lub opcjonalne (`?` - może być pominięte lub null). */
+type RecordSchema = Record<string, FieldCheck | [FieldCheck, '?']>;
+
+const RECORD_SCHEMAS: Record<BackupTable, RecordSchema> = {
+  categories: { id: nonEmptyText, name: nonEmptyText, type: transactionType, color: text, subcategories: subcategoryList, budgetLimit: [num, '?'], isIncludedInSavings: [bool, '?'] },
+  transactions: {
+    id: nonEmptyText, date, description: text, amount: num, type: transactionType, categoryId: text, accountId: nonEmptyText,
+    subcategoryId: [text, '?'], currency: [text, '?'], tags: [textList, '?'], transferId: [text, '?'], externalId: [text, '?'],
+    importBatchId: [text, '?'], reconcileStatus: [oneOf('CLEARED', 'RECONCILED'), '?'], createdAt: [date, '?'], updatedAt: [date, '?']
+  },
+  recurringTransactions: {
+    id: nonEmptyText, description: text, amount: num, type: transactionType, categoryId: text,
+    frequency: oneOf('WEEKLY', 'MONTHLY', 'YEARLY'), nextDueDate: date, autoPay: bool, tags: [textList, '?'], accountId: [text, '?']
+  },
+  accounts: { id: nonEmptyText, name: nonEmptyText, type: oneOf('CHECKING', 'SAVINGS', 'CREDIT_CARD', 'CASH'), color: text, initialBalance: num, currency: [text, '?'] },
+  exchangeRates: { currency: nonEmptyText, date, rate: num },
+  rules: { id: nonEmptyText, name: text, enabled: bool, priority: num, conditions: obj, actions: obj },
+  importProfiles: { id: nonEmptyText, name: text, headerFingerprint: text, mappings: obj, dateFormat: oneOf('DD-MM-YYYY', 'MM-DD-YYYY', 'YYYY-MM-DD') },
+  importBatches: { id: nonEmptyText, timestamp: date, fileName: text, addedCount: num },
+  reconciliations: { id: nonEmptyText, accountId: nonEmptyText, date, statementBalance: num, trackedBalance: num },
+  transactionHistory: {
+    id: nonEmptyText, transactionId: nonEmptyText, timestamp: date,
+    action: oneOf('CREATED', 'IMPORTED', 'RECURRING', 'SPLIT', 'EDITED', 'RECATEGORIZED', 'DELETED'), changes: [changeList, '?']
+  }
+};
+
+/** Klucz główny rekordu w bazie - duplikat przerwałby `bulkAdd` w trakcie przywracania. */
+const getRecordKey = (table: BackupTable, record: Record<string, any>): string =>
+  table === 'exchangeRates' ? `${record.currency}|${record.date}` : String(record.id);
+
+const validateRecord = (record: unknown, schema: RecordSchema): string[] => {
+  if (!isObject(record)) return ['rekord nie jest obiektem'];
+  const messages: string[] = [];
+  Object.entries(schema).forEach(([field, rule]) => {
+    const [check, optional] = Array.isArray(rule) ? [rule[0], true] : [rule, false];
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (!optional) messages.push(`brak pola "${field}"`);
+    } else if (!check.test(value)) {
+      messages.push(`pole "${field}": oczekiwano ${check.expected}`);
+    }
+  });
+  return messages;
+};
+
+/**
+ * Aktualizuje i waliduje kopię zapasową. Rzuca `Error` z opisem, gdy pliku nie da się przywrócić w ogóle.
+ */
+export const validateBackup = (json: unknown): ValidatedBackup => {
+  if (!isObject(json)) throw new Error('Plik nie jest kopią zapasową bTrackr.');
+
+  // Kopie bez pola `version` pochodzą z pierwszego formatu
+  const sourceVersion = json.version === undefined ? 1 : json.version;
+  if (typeof sourceVersion !== 'number' || !Number.isInteger(sourceVersion) || sourceVersion < 1) {
+    throw new Error(`Nieprawidłowa wersja kopii zapasowej: ${JSON.stringify(json.version)}.`);
+  }
+  if (sourceVersion > BACKUP_VERSION) {
+    throw new Error(`Kopia pochodzi z nowszej wersji aplikacji (format ${sourceVersion}, obsługiwany ${BACKUP_VERSION}). Zaktualizuj bTrackr.`);
+  }
+
+  let data: any = json;
+  for (let version = sourceVersion; version < BACKUP_VERSION; version++) {
+    const upgrade = BACKUP_UPGRADERS[version];
+    if (!upgrade) throw new Error(`Brak aktualizacji kopii z wersji ${version} do ${version + 1}.`);
+    data = upgrade(data);
+  }
+
+  if (!Array.isArray(data.categories) || !Array.isArray(data.transactions)) {
+    throw new Error('Kopia nie zawiera list kategorii i transakcji.');
+  }
+  if (!isObject(data.settings) || typeof data.settings.isPrivateMode !== 'boolean') {
+    throw new Error('Kopia nie zawiera poprawnej sekcji ustawień.');
+  }
+  if (data.timestamp !== undefined && !date.test(data.timestamp)) {
+    throw new Error('Kopia ma nieprawidłową datę utworzenia.');
+  }
+
+  const issues: BackupIssue[] = [];
+  const tables = {} as Record<BackupTable, any[]>;
+
+  (Object.keys(RECORD_SCHEMAS) as BackupTable[]).forEach(table => {
+    const records = data[table];
+    if (records === undefined) {
+      tables[table] = [];
+      return;
+    }
+    if (!Array.isArray(records)) throw new Error(`Sekcja "${BACKUP_TABLE_LABELS[table]}" nie jest listą.`);
+
+    const seenKeys = new Set<string>();
+    tables[table] = records.filter((record, index) => {
+      const messages = validateRecord(record, RECORD_SCHEMAS[table]);
+      if (messages.length === 0) {
+        const key = getRecordKey(table, record);
+        if (seenKeys.has(key)) messages.push(`zduplikowany identyfikator "${key}"`);
+        seenKeys.add(key);
+      }
+      if (messages.length === 0) return true;
+      issues.push({ table, index, id: isObject(record) && typeof record.id === 'string' ? record.id : undefined, messages });
+      return false;
+    });
+  });
+
+  if (tables.accounts.length === 0) {
+    throw new Error('Kopia nie zawiera żadnego poprawnego konta.');
+  }
+
+  return {
+    sourceVersion,
+    issues,
+    backup: {
+      ...tables,
+      version: BACKUP_VERSION,
+      timestamp: data.timestamp || new Date().toISOString(),
+      settings: data.settings
+    }
+  };
+};
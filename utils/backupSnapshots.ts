@@ -0,0 +1,192 @@
+import { snapshotDb } from '../db';
+import { AutoBackupConfig, BackupData, BackupSnapshot, BackupSnapshotTrigger } from '../types';
+import { decryptText, encryptText, getDatabaseKey } from './dbEncryption';
+
+/**
+ * Automatyczne kopie zapasowe (migawki) w osobnej bazie `bTrackrSnapshots`.
+ *
+ * - Harmonogram: raz dziennie / raz w tygodniu albo po N zapisach w głównej bazie.
+ *   Migawka czasowa powstaje tylko, gdy od poprzedniej coś się zmieniło.
+ * - Rotacja: przechowywane jest `keepCount` najnowszych migawek; migawki SAFETY rotują osobno (`SAFETY_KEEP_COUNT`),
+ *   żeby seria operacji niszczących nie wypchnęła kopii z harmonogramu i odwrotnie.
+ * - Przy włączonym szyfrowaniu bazy treść migawki jest szyfrowana tym samym kluczem.
+ */
+
+export const DEFAULT_AUTO_BACKUP_CONFIG: AutoBackupConfig = {
+  enabled: true,
+  frequency: 'DAILY',
+  changeThreshold: 50,
+  keepCount: 10
+};
+
+export const AUTO_BACKUP_FREQUENCY_LABELS: Record<AutoBackupConfig['frequency'], string> = {
+  DAILY: 'Codziennie',
+  WEEKLY: 'Co tydzień',
+  CHANGES: 'Po określonej liczbie zmian'
+};
+
+export const SNAPSHOT_TRIGGER_LABELS: Record<BackupSnapshotTrigger, string> = {
+  SCHEDULE: 'Harmonogram',
+  CHANGES: 'Po zmianach',
+  MANUAL: 'Ręcznie',
+  SAFETY: 'Przed operacją'
+};
+
+/** Klucze tabeli `state` bazy migawek. */
+export const SNAPSHOT_STATE_KEYS = {
+  CONFIG: 'config',
+  LAST_SNAPSHOT_AT: 'lastSnapshotAt',
+  CHANGES: 'changesSinceSnapshot',
+  FOLDER: 'folderHandle'
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Liczba przechowywanych migawek SAFETY (niezależnie od `keepCount`). */
+export const SAFETY_KEEP_COUNT = 5;
+
+/**
+ * Czy należy utworzyć migawkę (i z jakiego powodu). `lastSnapshotAt` - brak oznacza, że migawki jeszcze nie było.
+ */
+export const getDueSnapshotTrigger = (config: AutoBackupConfig, lastSnapshotAt: string | undefined, changesSinceSnapshot: number, now: Date = new Date()): BackupSnapshotTrigger | null => {
+  if (!config.enabled) return null;
+  if (config.frequency === 'CHANGES') {
+    return changesSinceSnapshot >= Math.max(1, config.changeThreshold) ? 'CHANGES' : null;
+  }
+  if (!lastSnapshotAt) return 'SCHEDULE';
+  if (changesSinceSnapshot === 0) return null;
+  const interval = config.frequency === 'WEEKLY' ? 7 * DAY_MS : DAY_MS;
+  return now.getTime() - new Date(lastSnapshotAt).getTime() >= interval ? 'SCHEDULE' : null;
+};
+
+export const getSnapshotFileName = (snapshot: BackupSnapshot) =>
+  `bTrackr_AutoBackup_${snapshot.timestamp.slice(0, 19).replace(/[T:]/g, '-')}.json`;
+
+/**
+ * Zapisuje migawkę i usuwa najstarsze ponad limit jej rodzaju (`keepCount` albo `SAFETY_KEEP_COUNT` dla SAFETY). Zwraca zapisany rekord i treść JSON (np. do zapisu w folderze).
+ * `label` - nazwa operacji, przed którą powstaje migawka SAFETY.
+ */
+export const saveSnapshot = async (backup: BackupData, trigger: BackupSnapshotTrigger, keepCount: number, label?: string): Promise<{ snapshot: BackupSnapshot, json: string }> => {
+  const json = JSON.stringify(backup);
+  const key = getDatabaseKey();
+  const snapshot: BackupSnapshot = {
+    id: crypto.randomUUID(),
+    timestamp: backup.timestamp,
+    trigger,
+    size: new Blob([json]).size,
+    transactionCount: backup.transactions.length,
+    encrypted: !!key,
+    label
+  };
+  const data = key ? await encryptText(key, json) : json;
+
+  await (snapshotDb as any).transaction('rw', snapshotDb.snapshots, snapshotDb.snapshotData, snapshotDb.state, async () => {
+    await snapshotDb.snapshots.add(snapshot);
+    await snapshotDb.snapshotData.put({ id: snapshot.id, data });
+
+    const isSafety = trigger === 'SAFETY';
+    const sameKind = (await snapshotDb.snapshots.orderBy('timestamp').reverse().toArray())
+      .filter(s => (s.trigger === 'SAFETY') === isSafety);
+    const expiredIds = sameKind.slice(isSafety ? SAFETY_KEEP_COUNT : Math.max(1, keepCount)).map(s => s.id);
+    if (expiredIds.length > 0) {
+      await snapshotDb.snapshots.bulkDelete(expiredIds);
+      await snapshotDb.snapshotData.bulkDelete(expiredIds);
+    }
+
+    await snapshotDb.state.bulkPut([
+      { key: SNAPSHOT_STATE_KEYS.LAST_SNAPSHOT_AT, value: snapshot.timestamp },
+      { key: SNAPSHOT_STATE_KEYS.CHANGES, value: 0 }
+    ]);
+  });
+
+  return { snapshot, json };
+};
+
+/**
+ * Treść migawki (JSON). Rzuca `Error`, gdy migawki nie ma lub nie da się jej odszyfrować.
+ */
+export const readSnapshot = async (snapshot: BackupSnapshot): Promise<string> => {
+  const record = await snapshotDb.snapshotData.get(snapshot.id);
+  if (!record) throw new Error('Nie znaleziono danych kopii.');
+  if (!snapshot.encrypted) return record.data as string;
+
+  const key = getDatabaseKey();
+  if (!key) throw new Error('Kopia jest zaszyfrowana - włącz szyfrowanie bazy tym samym hasłem.');
+  try {
+    return await decryptText(key, record.data as ArrayBuffer);
+  } catch {
+    throw new Error('Nie udało się odszyfrować kopii (utworzona przy innym haśle bazy).');
+  }
+};
+
+/** Migawka z treścią już przepisaną nowym kluczem (do zapisu przez `saveReencryptedSnapshots`). */
+export interface ReencryptedSnapshot {
+  snapshot: BackupSnapshot;
+  data: string | ArrayBuffer;
+}
+
+/**
+ * Przygotowuje w pamięci treść migawek dla nowego klucza bazy (zmiana hasła, wyłączenie szyfrowania) - bez zapisu.
+ * Migawki, których nie da się odszyfrować `previousKey`, są pomijane (zostają bez zmian).
+ */
+export const reencryptSnapshots = async (previousKey: CryptoKey | null, nextKey: CryptoKey | null): Promise<ReencryptedSnapshot[]> => {
+  const snapshots = await snapshotDb.snapshots.toArray();
+  const result: ReencryptedSnapshot[] = [];
+  for (const snapshot of snapshots) {
+    const record = await snapshotDb.snapshotData.get(snapshot.id);
+    if (!record) continue;
+
+    let json: string;
+    if (!snapshot.encrypted) {
+      json = record.data as string;
+    } else if (previousKey) {
+      try {
+        json = await decryptText(previousKey, record.data as ArrayBuffer);
+      } catch {
+        continue;
+      }
+    } else {
+      continue;
+    }
+
+    result.push({
+      snapshot: { ...snapshot, encrypted: !!nextKey },
+      data: nextKey ? await encryptText(nextKey, json) : json
+    });
+  }
+  return result;
+};
+
+/**
+ * Zapisuje wynik `reencryptSnapshots` w jednej transakcji. Migawki usunięte w międzyczasie (rotacja) są pomijane.
+ */
+export const saveReencryptedSnapshots = async (reencrypted: ReencryptedSnapshot[]) => {
+  await (snapshotDb as any).transaction('rw', snapshotDb.snapshots, snapshotDb.snapshotData, async () => {
+    const existingIds = new Set(await snapshotDb.snapshots.toCollection().primaryKeys());
+    const current = reencrypted.filter(({ snapshot }) => existingIds.has(snapshot.id));
+    await snapshotDb.snapshotData.bulkPut(current.map(({ snapshot, data }) => ({ id: snapshot.id, data })));
+    await snapshotDb.snapshots.bulkPut(current.map(({ snapshot }) => snapshot));
+  });
+};
+
+// --- Folder (File System Access API) ---
+
+export const isFolderBackupSupported = () => typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+/** Stan uprawnień do folderu. Po przeładowaniu strony przeglądarka zwykle wymaga ponownej zgody (`prompt`). */
+export const getFolderPermission = async (handle: FileSystemDirectoryHandle): Promise<PermissionState> =>
+  (handle as any).queryPermission({ mode: 'readwrite' });
+
+/** Wymaga gestu użytkownika (kliknięcia). */
+export const requestFolderPermission = async (handle: FileSystemDirectoryHandle): Promise<PermissionState> =>
+  (handle as any).requestPermission({ mode: 'readwrite' });
+
+export const pickBackupFolder = async (): Promise<FileSystemDirectoryHandle> =>
+  (window as any).showDirectoryPicker({ id: 'btrackr-backups', mode: 'readwrite' });
+
+export const writeSnapshotToFolder = async (handle: FileSystemDirectoryHandle, fileName: string, json: string) => {
+  const fileHandle = await handle.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(json);
+  await writable.close();
+};
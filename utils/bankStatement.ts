@@ -0,0 +1,367 @@
+import { parseOfx, getOfxDescription } from './ofxParser';
+
+/**
+ * Wspólna postać wyciągów bankowych w formatach strukturalnych (OFX/QFX, MT940, CAMT.053).
+ * Takie pliki nie wymagają mapowania kolumn - trafiają prosto do kroku STATEMENT.
+ */
+
+export type StatementFormat = 'OFX' | 'MT940' | 'CAMT053';
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  OFX: 'OFX/QFX',
+  MT940: 'MT940',
+  CAMT053: 'CAMT.053'
+};
+
+export interface StatementEntry {
+  date: string; // Data księgowania, ISO z godziną 12:00 (jak w `parseDateStrict`)
+  valueDate?: string; // Data waluty, ISO
+  amount: number; // Ze znakiem: ujemna = obciążenie
+  description: string;
+  counterpartyName?: string;
+  counterpartyIban?: string;
+  externalId?: string; // Identyfikator banku gwarantujący unikalność (np. OFX FITID)
+}
+
+export interface BankStatement {
+  format: StatementFormat;
+  currency?: string;
+  bankAccountId?: string; // Numer rachunku / IBAN z wyciągu
+  openingBalance?: number;
+  closingBalance?: number;
+  closingDate?: string; // Dzień salda końcowego, ISO; brak = data ostatniej operacji
+  entries: StatementEntry[];
+}
+
+// --- Detection & Decoding ---
+
+/**
+ * Rozpoznaje format po rozszerzeniu i początku pliku. Zwraca `null` dla CSV/JSON.
+ */
+export const detectStatementFormat = (fileName: string, head: string): StatementFormat | null => {
+  const lowerName = fileName.toLowerCase();
+  if (/\.(csv|json)$/.test(lowerName)) return null;
+  if (/\.(ofx|qfx)$/.test(lowerName) || /<OFX>|OFXHEADER/i.test(head)) return 'OFX';
+  if (/camt\.053|<BkToCstmrStmt/i.test(head)) return 'CAMT053';
+  if (/\.(sta|mt940|940)$/.test(lowerName) || (/:20:/.test(head) && /:(25|28C|60F):/.test(head))) return 'MT940';
+  return null;
+};
+
+/**
+ * Odczytuje kodowanie z nagłówka OFX 1.x (`CHARSET:1250`) lub deklaracji XML.
+ * Zwraca etykietę zrozumiałą dla `TextDecoder` albo `null`, gdy plik jej nie deklaruje.
+ */
+const detectDeclaredEncoding = (head: string): string | null => {
+  const xmlEncoding = head.match(/encoding="([^"]+)"/i);
+  if (xmlEncoding) return xmlEncoding[1];
+
+  const charset = head.match(/^CHARSET:\s*(\S+)/im)?.[1];
+  if (charset && /^\d{4}$/.test(charset)) return `windows-${charset}`;
+  if (charset && /8859-?2/.test(charset)) return 'iso-8859-2';
+  return null;
+};
+
+/**
+ * Ustala kodowanie pliku importu (wyciąg lub CSV). Bez deklaracji w nagłówku sprawdza,
+ * czy treść jest poprawnym UTF-8, a w przeciwnym razie przyjmuje windows-1250
+ * (typowe dla eksportów polskich banków).
+ */
+export const detectImportFileEncoding = (buffer: ArrayBuffer): string => {
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const declared = detectDeclaredEncoding(head);
+  if (declared) return declared;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'utf-8';
+  } catch {
+    return 'windows-1250';
+  }
+};
+
+export const decodeImportFile = (buffer: ArrayBuffer, encoding: string = detectImportFileEncoding(buffer)): string =>
+  new TextDecoder(encoding).decode(buffer);
+
+// --- Helpers ---
+
+const toNoonISO = (y: number, m: number, d: number): string | null => {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return new Date(y, m - 1, d, 12, 0, 0).toISOString();
+};
+
+const parseIsoDate = (val: string | undefined): string | null => {
+  const match = val?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? toNoonISO(parseInt(match[1]), parseInt(match[2]), parseInt(match[3])) : null;
+};
+
+const normalizeIban = (val: string | undefined): string | undefined => {
+  const clean = val?.replace(/\s/g, '').toUpperCase();
+  return clean || undefined;
+};
+
+const joinDescription = (...parts: (string | undefined)[]): string => {
+  const unique: string[] = [];
+  parts.forEach(p => {
+    const clean = p?.replace(/\s+/g, ' ').trim();
+    if (!clean || unique.some(u => u.toLowerCase().includes(clean.toLowerCase()))) return;
+    // Dłuższy fragment zawierający wcześniejszy (np. nazwę w tytule) zastępuje go
+    const contained = unique.findIndex(u => clean.toLowerCase().includes(u.toLowerCase()));
+    if (contained >= 0) unique[contained] = clean;
+    else unique.push(clean);
+  });
+  return unique.join(' ') || 'Bez opisu';
+};
+
+// --- OFX/QFX ---
+
+const fromOfx = (content: string): BankStatement => {
+  const ofx = parseOfx(content);
+  return {
+    format: 'OFX',
+    currency: ofx.currency,
+    bankAccountId: ofx.bankAccountId,
+    closingBalance: ofx.ledgerBalance,
+    closingDate: ofx.ledgerBalanceDate,
+    entries: ofx.transactions.map(t => ({
+      date: t.date,
+      amount: t.amount,
+      description: getOfxDescription(t),
+      counterpartyName: t.name || undefined,
+      externalId: t.fitId || undefined
+    }))
+  };
+};
+
+// --- MT940 ---
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+/**
+ * Dzieli wyciąg na pola `:TAG:wartość`. Linie bez tagu są kontynuacją poprzedniego pola.
+ * Pomija koperty SWIFT (`{1:...}{4:` ... `-}`).
+ */
+const splitMt940Fields = (content: string): Mt940Field[] => {
+  const fields: Mt940Field[] = [];
+  content
+    .replace(/\{[1-3]:[^}]*\}/g, '')
+    .replace(/\{4:/g, '')
+    .split(/\r?\n/)
+    .forEach(line => {
+      if (/^-\}?\s*$/.test(line)) return;
+      const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length > 0) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    });
+  return fields;
+};
+
+/** Saldo `:60F:` / `:62F:` - np. `C240131PLN1234,56`. */
+const parseMt940Balance = (val: string): { amount: number, currency: string, date: string | null } | null => {
+  const match = val.match(/^([CD])(\d{2})(\d{2})(\d{2})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = parseFloat(match[6].replace(',', '.'));
+  return {
+    amount: match[1] === 'D' ? -amount : amount,
+    currency: match[5],
+    date: toNoonISO(2000 + parseInt(match[2]), parseInt(match[3]), parseInt(match[4]))
+  };
+};
+
+/**
+ * Pole `:86:` w wariancie strukturalnym (ZBP / polskie banki): kod operacji, a potem
+ * podpola `~NN` (lub `<NN`, `^NN`, `?NN`). 20-26 = tytuł, 27-28 i 32-33 = kontrahent, 38 = IBAN.
+ * Bez struktury cała treść jest tytułem.
+ */
+const parseMt940Info = (raw: string): { remittance: string, name?: string, iban?: string } => {
+  const header = raw.match(/^\d{3}([~<^?])/);
+  if (!header) {
+    return { remittance: raw.split('\n').map(l => l.trim()).join(' ') };
+  }
+
+  const separator = header[1];
+  const subfields: Record<string, string> = {};
+  raw.replace(/\r?\n/g, '').slice(4).split(separator).forEach(part => {
+    const code = part.slice(0, 2);
+    if (/^\d{2}$/.test(code)) subfields[code] = (subfields[code] || '') + part.slice(2);
+  });
+
+  const pick = (codes: string[]) => codes.map(c => subfields[c]).filter(Boolean).join('').trim();
+  const remittance = pick(['20', '21', '22', '23', '24', '25', '26']) || pick(['00']);
+  const name = pick(['27', '28', '32', '33']);
+  const iban = normalizeIban(subfields['38'] || subfields['31']);
+  return { remittance, name: name || undefined, iban };
+};
+
+export const parseMt940 = (content: string): BankStatement => {
+  const fields = splitMt940Fields(content);
+  if (!fields.some(f => f.tag === '61')) {
+    throw new Error('Plik nie zawiera operacji MT940 (pole :61:).');
+  }
+
+  const statement: BankStatement = { format: 'MT940', entries: [] };
+  let current: StatementEntry | null = null;
+
+  fields.forEach(({ tag, value }) => {
+    if (tag === '25' && !statement.bankAccountId) {
+      statement.bankAccountId = normalizeIban(value.replace(/^\//, '').split('/').pop());
+    } else if (tag === '60F' || tag === '60M') {
+      const balance = parseMt940Balance(value);
+      if (balance && statement.openingBalance === undefined) {
+        statement.openingBalance = balance.amount;
+        statement.currency = balance.currency;
+      }
+    } else if (tag === '62F' || tag === '62M') {
+      const balance = parseMt940Balance(value);
+      if (balance) {
+        statement.closingBalance = balance.amount;
+        statement.closingDate = balance.date || undefined;
+      }
+    } else if (tag === '61') {
+      // YYMMDD[MMDD](C|D|RC|RD)[kod funduszy]kwota...
+      const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)/);
+      if (!match) {
+        current = null;
+        return;
+      }
+      const year = 2000 + parseInt(match[1]);
+      const valueMonth = parseInt(match[2]);
+      const valueDate = toNoonISO(year, valueMonth, parseInt(match[3]));
+      let bookingDate = valueDate;
+      if (match[4]) {
+        const bookingMonth = parseInt(match[4].slice(0, 2));
+        // Księgowanie na przełomie roku (np. waluta 31.12, księgowanie 02.01)
+        const bookingYear = bookingMonth < valueMonth - 6 ? year + 1 : bookingMonth > valueMonth + 6 ? year - 1 : year;
+        bookingDate = toNoonISO(bookingYear, bookingMonth, parseInt(match[4].slice(2)));
+      }
+      if (!bookingDate) {
+        current = null;
+        return;
+      }
+
+      const amount = parseFloat(match[6].replace(',', '.'));
+      const isDebit = match[5] === 'D' || match[5] === 'RC';
+      current = {
+        date: bookingDate,
+        valueDate: valueDate || undefined,
+        amount: isDebit ? -amount : amount,
+        description: 'Bez opisu'
+      };
+      statement.entries.push(current);
+    } else if (tag === '86' && current) {
+      const info = parseMt940Info(value);
+      current.counterpartyName = info.name;
+      current.counterpartyIban = info.iban;
+      current.description = joinDescription(info.name, info.remittance);
+    }
+  });
+
+  return statement;
+};
+
+// --- CAMT.053 (ISO 20022) ---
+
+const childrenByName = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(c => c.localName === name);
+
+/** Ścieżka po bezpośrednich dzieciach, niezależnie od przestrzeni nazw (camt.053.001.02/.08 itd.). */
+const findPath = (parent: Element | undefined, ...path: string[]): Element | undefined => {
+  let current = parent;
+  for (const name of path) {
+    if (!current) return undefined;
+    current = childrenByName(current, name)[0];
+  }
+  return current;
+};
+
+const textAt = (parent: Element | undefined, ...path: string[]): string | undefined =>
+  findPath(parent, ...path)?.textContent?.trim() || undefined;
+
+const parseCamtDate = (parent: Element | undefined): string | null =>
+  parseIsoDate(textAt(parent, 'Dt') || textAt(parent, 'DtTm'));
+
+export const parseCamt053 = (content: string): BankStatement => {
+  const xml = new DOMParser().parseFromString(content, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Niepoprawny plik XML.');
+  }
+
+  const stmt = xml.getElementsByTagNameNS('*', 'Stmt')[0];
+  if (!stmt) {
+    throw new Error('Plik nie zawiera wyciągu CAMT.053 (element Stmt).');
+  }
+
+  const statement: BankStatement = {
+    format: 'CAMT053',
+    bankAccountId: normalizeIban(textAt(stmt, 'Acct', 'Id', 'IBAN') || textAt(stmt, 'Acct', 'Id', 'Othr', 'Id')),
+    currency: textAt(stmt, 'Acct', 'Ccy'),
+    entries: []
+  };
+
+  childrenByName(stmt, 'Bal').forEach(bal => {
+    const code = textAt(bal, 'Tp', 'CdOrPrtry', 'Cd');
+    const amountEl = findPath(bal, 'Amt');
+    const amount = parseFloat(amountEl?.textContent || '');
+    if (isNaN(amount)) return;
+    const signed = textAt(bal, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+    if (code === 'OPBD' || code === 'PRCD') statement.openingBalance = signed;
+    if (code === 'CLBD') {
+      statement.closingBalance = signed;
+      statement.closingDate = parseCamtDate(findPath(bal, 'Dt')) || undefined;
+    }
+    if (!statement.currency) statement.currency = amountEl?.getAttribute('Ccy') || undefined;
+  });
+
+  childrenByName(stmt, 'Ntry').forEach(ntry => {
+    const status = textAt(ntry, 'Sts', 'Cd') || textAt(ntry, 'Sts');
+    if (status && status !== 'BOOK') return; // Pomijamy blokady i operacje oczekujące
+
+    const amount = parseFloat(textAt(ntry, 'Amt') || '');
+    const date = parseCamtDate(findPath(ntry, 'BookgDt')) || parseCamtDate(findPath(ntry, 'ValDt'));
+    if (isNaN(amount) || !date) return;
+
+    const isCredit = textAt(ntry, 'CdtDbtInd') === 'CRDT';
+    const txDetails = findPath(ntry, 'NtryDtls', 'TxDtls');
+    // Kontrahent: przy uznaniu - dłużnik, przy obciążeniu - wierzyciel
+    const party = isCredit ? 'Dbtr' : 'Cdtr';
+    const name = textAt(txDetails, 'RltdPties', party, 'Nm') || textAt(txDetails, 'RltdPties', party, 'Pty', 'Nm');
+    const iban = normalizeIban(textAt(txDetails, 'RltdPties', `${party}Acct`, 'Id', 'IBAN'));
+    const remittanceInfo = findPath(txDetails, 'RmtInf');
+    const remittance = remittanceInfo
+      ? childrenByName(remittanceInfo, 'Ustrd').map(u => u.textContent?.trim()).filter(Boolean).join(' ')
+        || textAt(remittanceInfo, 'Strd', 'CdtrRefInf', 'Ref')
+      : undefined;
+
+    statement.entries.push({
+      date,
+      valueDate: parseCamtDate(findPath(ntry, 'ValDt')) || undefined,
+      amount: isCredit ? amount : -amount,
+      description: joinDescription(name, remittance || textAt(ntry, 'AddtlNtryInf')),
+      counterpartyName: name,
+      counterpartyIban: iban
+    });
+  });
+
+  return statement;
+};
+
+/**
+ * Dzień, na który obowiązuje saldo końcowe (YYYY-MM-DD).
+ */
+export const getStatementEndDate = (statement: BankStatement): string => {
+  if (statement.closingDate) return statement.closingDate.split('T')[0];
+  return statement.entries.reduce((max, e) => e.date > max ? e.date : max, '').split('T')[0];
+};
+
+export const parseBankStatement = (content: string, format: StatementFormat): BankStatement => {
+  switch (format) {
+    case 'OFX': return fromOfx(content);
+    case 'MT940': return parseMt940(content);
+    case 'CAMT053': return parseCamt053(content);
+  }
+};
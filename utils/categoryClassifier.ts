@@ -0,0 +1,132 @@
+import { Transaction, TransactionType } from '../types';
+import { SYSTEM_IDS } from '../constants';
+import { isTransfer } from './transferHelpers';
+
+/**
+ * Lokalny klasyfikator kategorii (naiwny Bayes na tokenach opisu).
+ * Uczony wyłącznie na historii użytkownika, działa offline w workerze (`classifier.worker.ts`).
+ */
+
+/** Minimalne dane transakcji potrzebne do nauki - tylko to jest wysyłane do workera. */
+export type TrainingSample = Pick<Transaction, 'description' | 'type' | 'categoryId' | 'subcategoryId'>;
+
+export interface ClassifierQuery {
+  description: string;
+  type: TransactionType;
+}
+
+export interface CategorySuggestion {
+  categoryId: string;
+  subcategoryId?: string;
+  confidence: number; // 0..1, prawdopodobieństwo a posteriori wśród kategorii danego typu
+}
+
+interface LabelStats {
+  categoryId: string;
+  subcategoryId?: string;
+  type: TransactionType;
+  docCount: number;
+  tokenCount: number;
+  tokens: Record<string, number>;
+}
+
+export interface ClassifierModel {
+  labels: Record<string, LabelStats>;
+  docCountByType: Record<string, number>;
+  vocabularySize: number;
+}
+
+/** Kategorie "nieskategoryzowane" i techniczne - nie uczymy się ich, bo nie niosą informacji. */
+const EXCLUDED_CATEGORY_IDS: string[] = [SYSTEM_IDS.OTHER_EXPENSE, SYSTEM_IDS.OTHER_INCOME, SYSTEM_IDS.INTERNAL_TRANSFER];
+
+/** Słowa bez wartości rozróżniającej, typowe dla opisów z wyciągów. */
+const STOP_WORDS = new Set([
+  'platnosc', 'płatność', 'transakcja', 'karta', 'kartą', 'karty', 'zakup', 'przelew', 'terminal',
+  'pos', 'nr', 'oplata', 'opłata', 'blik', 'tytulem', 'tytułem', 'data', 'waluta', 'kwota', 'pln',
+  'dla', 'na', 'do', 'od', 'za', 'i', 'w', 'z', 'sp', 'zoo', 'o'
+]);
+
+export const tokenizeDescription = (description: string): string[] => {
+  const tokens = description
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 1 && !/^\d+$/.test(t) && !STOP_WORDS.has(t));
+  return Array.from(new Set(tokens));
+};
+
+const labelKey = (categoryId: string, subcategoryId?: string) => `${categoryId}::${subcategoryId || ''}`;
+
+export const trainClassifier = (samples: TrainingSample[]): ClassifierModel => {
+  const model: ClassifierModel = { labels: {}, docCountByType: {}, vocabularySize: 0 };
+  const vocabulary = new Set<string>();
+
+  samples.forEach(s => {
+    if (EXCLUDED_CATEGORY_IDS.includes(s.categoryId)) return;
+    const tokens = tokenizeDescription(s.description);
+    if (tokens.length === 0) return;
+
+    const key = labelKey(s.categoryId, s.subcategoryId);
+    const label = model.labels[key] ??= {
+      categoryId: s.categoryId,
+      subcategoryId: s.subcategoryId,
+      type: s.type,
+      docCount: 0,
+      tokenCount: 0,
+      tokens: {}
+    };
+
+    label.docCount++;
+    model.docCountByType[s.type] = (model.docCountByType[s.type] || 0) + 1;
+    tokens.forEach(token => {
+      label.tokens[token] = (label.tokens[token] || 0) + 1;
+      label.tokenCount++;
+      vocabulary.add(token);
+    });
+  });
+
+  model.vocabularySize = vocabulary.size;
+  return model;
+};
+
+/**
+ * Zwraca do `limit` najbardziej prawdopodobnych kategorii dla opisu.
+ * Tokeny nieznane modelowi są pomijane; gdy żaden token nie jest znany, wynik jest pusty.
+ */
+export const classifyDescription = (model: ClassifierModel, query: ClassifierQuery, limit: number = 3): CategorySuggestion[] => {
+  const candidates = Object.values(model.labels).filter(l => l.type === query.type);
+  const totalDocs = model.docCountByType[query.type] || 0;
+  if (candidates.length === 0 || totalDocs === 0) return [];
+
+  const tokens = tokenizeDescription(query.description)
+    .filter(token => candidates.some(l => l.tokens[token]));
+  if (tokens.length === 0) return [];
+
+  // Log-prawdopodobieństwa z wygładzaniem Laplace'a
+  const scores = candidates.map(label => {
+    let score = Math.log(label.docCount / totalDocs);
+    tokens.forEach(token => {
+      score += Math.log(((label.tokens[token] || 0) + 1) / (label.tokenCount + model.vocabularySize));
+    });
+    return { label, score };
+  });
+
+  // Softmax (z przesunięciem o maksimum dla stabilności numerycznej)
+  const maxScore = Math.max(...scores.map(s => s.score));
+  const weights = scores.map(s => Math.exp(s.score - maxScore));
+  const sum = weights.reduce((acc, w) => acc + w, 0);
+
+  return scores
+    .map((s, i) => ({
+      categoryId: s.label.categoryId,
+      subcategoryId: s.label.subcategoryId,
+      confidence: weights[i] / sum
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+};
+
+export const toTrainingSamples = (transactions: Transaction[]): TrainingSample[] =>
+  transactions
+    .filter(t => !isTransfer(t))
+    .map(({ description, type, categoryId, subcategoryId }) => ({ description, type, categoryId, subcategoryId }));
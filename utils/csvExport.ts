@@ -0,0 +1,49 @@
+import Papa from 'papaparse';
+import { DateFormat } from '../types';
+import { ExportTable } from './tableExport';
+
+/**
+ * Opcje eksportu CSV. Domyślne odpowiadają polskiemu Excelowi (średnik, przecinek dziesiętny).
+ */
+export interface CsvExportOptions {
+  delimiter: ';' | ',' | '\t';
+  decimalSeparator: ',' | '.';
+  dateFormat: DateFormat;
+}
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = { delimiter: ';', decimalSeparator: ',', dateFormat: 'YYYY-MM-DD' };
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Data lokalna w jednym z formatów obsługiwanych przez import (`parseDateStrict`).
+ */
+export const formatExportDate = (date: Date, format: DateFormat): string => {
+  const d = pad(date.getDate());
+  const m = pad(date.getMonth() + 1);
+  const y = date.getFullYear();
+  if (format === 'DD-MM-YYYY') return `${d}-${m}-${y}`;
+  if (format === 'MM-DD-YYYY') return `${m}-${d}-${y}`;
+  return `${y}-${m}-${d}`;
+};
+
+const formatNumber = (value: number, decimals: number, decimalSeparator: ',' | '.') =>
+  value.toFixed(decimals).replace('.', decimalSeparator);
+
+/**
+ * Zamienia tabelę eksportu na tekst CSV. Kwoty bez separatora tysięcy (jednoznaczne przy imporcie),
+ * BOM na początku, aby Excel poprawnie odczytał polskie znaki.
+ */
+export const buildCsv = (table: ExportTable, options: CsvExportOptions): string => {
+  const rows = table.rows.map(row => row.map(cell => {
+    if (cell === null || cell === undefined) return '';
+    if (cell instanceof Date) return formatExportDate(cell, options.dateFormat);
+    if (typeof cell === 'number') return formatNumber(cell, 2, options.decimalSeparator);
+    if (typeof cell === 'object') {
+      if (cell.format === 'percent') return `${formatNumber(cell.value * 100, 1, options.decimalSeparator)}%`;
+      return formatNumber(cell.value, cell.format === 'integer' ? 0 : 2, options.decimalSeparator);
+    }
+    return cell;
+  }));
+  return '\ufeff' + Papa.unparse({ fields: table.header, data: rows }, { delimiter: options.delimiter, newline: '\r\n' });
+};
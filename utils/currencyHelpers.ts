@@ -0,0 +1,157 @@
+import Papa from 'papaparse';
+import { Transaction, ExchangeRate } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+
+/**
+ * Kursy pogrupowane po walucie i posortowane rosnąco po dacie (do wyszukiwania binarnego).
+ */
+export type RateTable = Map<string, ExchangeRate[]>;
+
+export const getCurrency = (item: { currency?: string }): string => item.currency || DEFAULT_CURRENCY;
+
+export const buildRateTable = (rates: ExchangeRate[]): RateTable => {
+  const table: RateTable = new Map();
+  rates.forEach(r => {
+    const list = table.get(r.currency) || [];
+    list.push(r);
+    table.set(r.currency, list);
+  });
+  table.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return table;
+};
+
+/**
+ * Kurs waluty (w DEFAULT_CURRENCY) obowiązujący w danym dniu:
+ * ostatnie notowanie z tego dnia lub wcześniejsze, a gdy takiego brak - najwcześniejsze dostępne.
+ * Zwraca `null`, gdy dla waluty nie ma żadnego kursu.
+ */
+export const getRate = (table: RateTable, currency: string, date: string): number | null => {
+  if (currency === DEFAULT_CURRENCY) return 1;
+  const list = table.get(currency);
+  if (!list || list.length === 0) return null;
+
+  const day = date.slice(0, 10);
+  let lo = 0;
+  let hi = list.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].date <= day) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return list[found >= 0 ? found : 0].rate;
+};
+
+/**
+ * Przelicza kwotę między walutami przez kurs krzyżowy względem DEFAULT_CURRENCY.
+ * Gdy brakuje kursu, zwraca `null`.
+ */
+export const convertAmount = (amount: number, from: string, to: string, date: string, table: RateTable): number | null => {
+  if (from === to) return amount;
+  const fromRate = getRate(table, from, date);
+  const toRate = getRate(table, to, date);
+  if (fromRate === null || toRate === null || toRate === 0) return null;
+  return Math.round((amount * fromRate / toRate) * 100) / 100;
+};
+
+/**
+ * Zwraca kopie transakcji z kwotami w walucie bazowej.
+ * Kwota oryginalna trafia do `originalAmount`, waluta zostaje w `currency`.
+ * Transakcje bez kursu są pomijane (ich waluty zwraca `getCurrenciesWithoutRates`).
+ */
+export const convertTransactions = (transactions: Transaction[], table: RateTable, baseCurrency: string): Transaction[] => {
+  const converted: Transaction[] = [];
+  transactions.forEach(t => {
+    const currency = getCurrency(t);
+    if (currency === baseCurrency) {
+      converted.push(t);
+      return;
+    }
+    const amount = convertAmount(t.amount, currency, baseCurrency, t.date, table);
+    if (amount !== null) converted.push({ ...t, amount, originalAmount: t.amount, currency });
+  });
+  return converted;
+};
+
+/**
+ * Waluty użyte w transakcjach, dla których nie da się wyznaczyć kursu.
+ */
+export const getCurrenciesWithoutRates = (transactions: Transaction[], table: RateTable, baseCurrency: string): string[] => {
+  const missing = new Set<string>();
+  transactions.forEach(t => {
+    const currency = getCurrency(t);
+    if (currency === baseCurrency || missing.has(currency)) return;
+    if (getRate(table, currency, t.date) === null || getRate(table, baseCurrency, t.date) === null) {
+      missing.add(currency);
+    }
+  });
+  return Array.from(missing).sort();
+};
+
+const parseRateValue = (val: string): number => parseFloat(val.replace(/\s/g, '').replace(',', '.'));
+
+const parseRateDate = (val: string): string | null => {
+  const clean = val.trim();
+  if (/^\d{8}$/.test(clean)) return `${clean.slice(0, 4)}-${clean.slice(4, 6)}-${clean.slice(6, 8)}`;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(clean)) return clean;
+  const m = clean.match(/^(\d{2})[.\-/](\d{2})[.\-/](\d{4})$/);
+  if (m) return `${m[3]}-${m[2]}-${m[1]}`;
+  return null;
+};
+
+/**
+ * Parsuje plik CSV z kursami. Obsługiwane formaty:
+ * 1. Archiwum tabeli A NBP (szeroki): `data;1USD;1EUR;100HUF;...` + wiersze `20240102;3,9432;...`
+ *    (kurs dzielony przez przelicznik z nagłówka).
+ * 2. Długi: kolumny `data;waluta;kurs` (lub `date;currency;rate`).
+ */
+export const parseRatesCsv = (text: string): ExchangeRate[] => {
+  const rows = (Papa.parse(text.trim(), { skipEmptyLines: true }).data as string[][])
+    .map(row => row.map(cell => (cell || '').trim()));
+  const rates: ExchangeRate[] = [];
+  if (rows.length === 0) return rates;
+
+  // Format NBP: nagłówek z kolumnami "<przelicznik><KOD>"
+  const headerIndex = rows.findIndex(row => row.some(cell => /^\d+[A-Z]{3}$/.test(cell)));
+  if (headerIndex >= 0) {
+    const columns = rows[headerIndex]
+      .map((cell, index) => {
+        const m = cell.match(/^(\d+)([A-Z]{3})$/);
+        return m ? { index, multiplier: parseInt(m[1]), currency: m[2] } : null;
+      })
+      .filter((c): c is { index: number, multiplier: number, currency: string } => c !== null);
+
+    rows.slice(headerIndex + 1).forEach(row => {
+      const date = parseRateDate(row[0] || '');
+      if (!date) return; // wiersze opisowe (nazwy walut, stopka)
+      columns.forEach(col => {
+        const value = parseRateValue(row[col.index] || '');
+        if (!isNaN(value) && value > 0) {
+          rates.push({ currency: col.currency, date, rate: value / col.multiplier });
+        }
+      });
+    });
+    return rates;
+  }
+
+  // Format długi: data, waluta, kurs
+  const header = rows[0].map(c => c.toLowerCase());
+  const dateCol = header.findIndex(c => c === 'data' || c === 'date');
+  const currencyCol = header.findIndex(c => c === 'waluta' || c === 'currency' || c === 'kod');
+  const rateCol = header.findIndex(c => c === 'kurs' || c === 'rate');
+  if (dateCol < 0 || currencyCol < 0 || rateCol < 0) return rates;
+
+  rows.slice(1).forEach(row => {
+    const date = parseRateDate(row[dateCol] || '');
+    const currency = (row[currencyCol] || '').toUpperCase();
+    const rate = parseRateValue(row[rateCol] || '');
+    if (date && /^[A-Z]{3}$/.test(currency) && !isNaN(rate) && rate > 0) {
+      rates.push({ currency, date, rate });
+    }
+  });
+  return rates;
+};
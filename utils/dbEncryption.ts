@@ -0,0 +1,260 @@
+import Dexie, { DBCore, DBCoreCursor, DBCoreIndex, DBCorePutRequest, DBCoreTable, Middleware } from 'dexie';
+import { PBKDF2_ITERATIONS, deriveKey, fromBase64, toBase64 } from './backupCrypto';
+
+/**
+ * Szyfrowanie bazy IndexedDB "w spoczynku" (opcjonalne, włączane w Ustawieniach).
+ *
+ * - Klucz AES-GCM jest wyprowadzany z hasła (PBKDF2) i trzymany WYŁĄCZNIE w pamięci strony.
+ *   Po przeładowaniu lub automatycznej blokadzie baza jest zablokowana do ponownego podania hasła.
+ * - Middleware Dexie (DBCore) szyfruje rekordy tabel `ENCRYPTED_TABLES` przy zapisie i odszyfrowuje przy odczycie,
+ *   więc hooki i zapytania (`useLiveQuery`) działają bez zmian.
+ * - Pola indeksowane (id, data, kategoria, konto, typ...) pozostają jawne - bez nich nie działałyby zapytania `where`.
+ *   Reszta rekordu (opis, kwota, tagi, nazwy kategorii...) trafia do pola `_enc` (IV + szyfrogram).
+ * - Konfiguracja (sól, weryfikator hasła, czas blokady) leży w `settings` pod kluczem `DB_ENCRYPTION_SETTING_KEY`
+ *   i nie jest częścią kopii zapasowych.
+ */
+
+export const DB_ENCRYPTION_SETTING_KEY = 'encryption';
+
+/** Tabele z danymi finansowymi szyfrowane w trybie chronionym. */
+export const ENCRYPTED_TABLES = ['transactions', 'categories', 'transactionHistory'];
+
+/** Minimalna długość hasła bazy (hasło lub PIN). */
+export const MIN_DB_PASSPHRASE_LENGTH = 6;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+/** Opcje automatycznej blokady (minuty bezczynności, 0 = nigdy). */
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+export interface DatabaseEncryptionConfig {
+  version: 1;
+  kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: number, salt: string }; // Sól w base64
+  verifier: string;        // Zaszyfrowany znany tekst (base64) - sprawdzenie hasła bez odszyfrowywania danych
+  autoLockMinutes: number; // 0 = bez automatycznej blokady
+}
+
+const ENCRYPTED_FIELD = '_enc';
+const IV_LENGTH = 12;
+const VERIFIER_TEXT = 'bTrackr';
+
+// --- Stan klucza (tylko w pamięci) ---
+
+let databaseKey: CryptoKey | null = null;
+let isLocked = true;
+const lockListeners = new Set<() => void>();
+
+const notifyLockListeners = () => lockListeners.forEach(listener => listener());
+
+/** Subskrypcja zmian blokady (dla `useSyncExternalStore`). */
+export const subscribeDatabaseLock = (listener: () => void) => {
+  lockListeners.add(listener);
+  return () => { lockListeners.delete(listener); };
+};
+
+/** Czy baza została zablokowana (lub jeszcze nie odblokowana po starcie). Ma znaczenie tylko przy włączonym szyfrowaniu. */
+export const isDatabaseLocked = () => isLocked;
+
+export const getDatabaseKey = () => databaseKey;
+
+/** Odblokowanie - od teraz zapisy są szyfrowane tym kluczem. */
+export const activateDatabaseKey = (key: CryptoKey) => {
+  databaseKey = key;
+  isLocked = false;
+  notifyLockListeners();
+};
+
+/** Wyłączenie szyfrowania (lub reset danych) - kolejne zapisy trafiają do bazy jawnie. */
+export const deactivateDatabaseKey = () => {
+  databaseKey = null;
+  isLocked = false;
+  notifyLockListeners();
+};
+
+/** Klucze zapisu przypisane do pojedynczych transakcji (przepisywanie bazy nowym kluczem). null = zapis jawny. */
+const transactionWriteKeys = new WeakMap<object, CryptoKey | null>();
+
+/**
+ * Zapisy w bieżącej transakcji Dexie trafiają do bazy kluczem `key` (null = jawnie), a klucz aktywny pozostaje bez zmian -
+ * odczyty w innych transakcjach nadal odszyfrowują dane dotychczasowym kluczem, dopóki zmiana nie zostanie zatwierdzona.
+ */
+export const setTransactionWriteKey = (key: CryptoKey | null) => {
+  const trans = Dexie.currentTransaction;
+  if (!trans) throw new Error('Klucz zapisu można ustawić tylko wewnątrz transakcji.');
+  transactionWriteKeys.set(trans, key);
+};
+
+/** Usuwa klucz z pamięci i pokazuje ekran blokady. */
+export const lockDatabase = () => {
+  databaseKey = null;
+  isLocked = true;
+  notifyLockListeners();
+};
+
+// --- Szyfrowanie rekordów ---
+
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  const result = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+  result.set(iv);
+  result.set(new Uint8Array(encrypted), IV_LENGTH);
+  return result.buffer;
+};
+
+const decryptBytes = (key: CryptoKey, buffer: ArrayBuffer): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(buffer);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) }, key, bytes.slice(IV_LENGTH));
+};
+
+/** Szyfruje tekst kluczem bazy (np. automatyczne kopie zapasowe przechowywane poza główną bazą). */
+export const encryptText = (key: CryptoKey, text: string) => encryptBytes(key, new TextEncoder().encode(text));
+
+/** Odwrotność `encryptText`. Rzuca błąd przy niepasującym kluczu. */
+export const decryptText = async (key: CryptoKey, buffer: ArrayBuffer) => new TextDecoder().decode(await decryptBytes(key, buffer));
+
+/** Nazwy pól, które muszą zostać jawne (klucz główny i indeksy tabeli). */
+const getPlainFields = (table: DBCoreTable): Set<string> => {
+  const fields = new Set<string>();
+  const addKeyPath = (index: DBCoreIndex) => {
+    const keyPath = index.keyPath;
+    if (Array.isArray(keyPath)) keyPath.forEach(path => fields.add(path.split('.')[0]));
+    else if (keyPath) fields.add(keyPath.split('.')[0]);
+  };
+  addKeyPath(table.schema.primaryKey);
+  table.schema.indexes.forEach(addKeyPath);
+  return fields;
+};
+
+const encryptRecord = async (key: CryptoKey, record: any, plainFields: Set<string>) => {
+  if (!record || typeof record !== 'object') return record;
+  const stored: Record<string, unknown> = {};
+  const payload: Record<string, unknown> = {};
+  Object.entries(record).forEach(([field, value]) => {
+    if (plainFields.has(field)) stored[field] = value;
+    else payload[field] = value;
+  });
+  stored[ENCRYPTED_FIELD] = await encryptBytes(key, new TextEncoder().encode(JSON.stringify(payload)));
+  return stored;
+};
+
+const decryptRecord = async (record: any) => {
+  // Rekordy jawne (szyfrowanie wyłączone lub zapisane przed jego włączeniem) przechodzą bez zmian
+  if (!record || typeof record !== 'object' || !(ENCRYPTED_FIELD in record)) return record;
+  if (!databaseKey) throw new Error('Baza danych jest zablokowana.');
+
+  const { [ENCRYPTED_FIELD]: encrypted, ...plain } = record;
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(await decryptBytes(databaseKey, encrypted)));
+    return { ...plain, ...payload };
+  } catch {
+    // Klucz nie pasuje (np. hasło zmienione w innej karcie) - wymagamy ponownego odblokowania
+    lockDatabase();
+    throw new Error('Nie udało się odszyfrować danych. Odblokuj bazę ponownie.');
+  }
+};
+
+/**
+ * Operacje kryptograficzne nie są operacjami IndexedDB - bez `waitFor` transakcja
+ * zatwierdziłaby się w trakcie szyfrowania. Transakcję trzeba pobrać synchronicznie na wejściu do middleware.
+ */
+const withinTransaction = <T>(promise: Promise<T>, trans: any = Dexie.currentTransaction): Promise<T> =>
+  trans ? trans.waitFor(promise) : promise;
+
+const wrapCursor = (cursor: DBCoreCursor): DBCoreCursor => {
+  // Kolejne kroki kursora wywołuje zdarzenie IndexedDB, poza strefą transakcji Dexie
+  const trans = Dexie.currentTransaction;
+  let value: any;
+  const decryptCurrent = () => withinTransaction(decryptRecord(cursor.value), trans).then(decrypted => { value = decrypted; });
+
+  const wrapped: DBCoreCursor = {
+    get trans() { return cursor.trans; },
+    get key() { return cursor.key; },
+    get primaryKey() { return cursor.primaryKey; },
+    get value() { return value; },
+    get done() { return cursor.done; },
+    continue: (key?: any) => cursor.continue(key),
+    continuePrimaryKey: (key: any, primaryKey: any) => cursor.continuePrimaryKey(key, primaryKey),
+    advance: (count: number) => cursor.advance(count),
+    start: (onNext: () => void) => cursor.start(() => {
+      decryptCurrent().then(onNext).catch(error => cursor.fail(error));
+    }),
+    stop: (result?: any) => cursor.stop(result),
+    next: () => cursor.next().then(next => next.done ? wrapped : decryptCurrent().then(() => wrapped)),
+    fail: (error: Error) => cursor.fail(error)
+  };
+  return wrapped;
+};
+
+/** `criteria`/`changeSpec`/`updates` opisują zmiany jawnych pól - po zaszyfrowaniu miarodajne są tylko `values`. */
+const withoutPartialUpdate = ({ criteria, changeSpec, updates, ...rest }: DBCorePutRequest): DBCorePutRequest => rest;
+
+/**
+ * Middleware szyfrujące. Bez aktywnego klucza zapisy są jawne, a odczyt zaszyfrowanego rekordu rzuca błąd.
+ */
+export const encryptionMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'EncryptionMiddleware',
+  create: (down) => ({
+    ...down,
+    table: (tableName) => {
+      const table = down.table(tableName);
+      if (!ENCRYPTED_TABLES.includes(tableName)) return table;
+      const plainFields = getPlainFields(table);
+
+      return {
+        ...table,
+        mutate: (req) => {
+          const trans = Dexie.currentTransaction;
+          const key = trans && transactionWriteKeys.has(trans) ? transactionWriteKeys.get(trans) : databaseKey;
+          if (!key || (req.type !== 'add' && req.type !== 'put')) return table.mutate(req);
+          const request = req.type === 'put' ? withoutPartialUpdate(req) : req;
+          return withinTransaction(Promise.all(req.values.map(value => encryptRecord(key, value, plainFields))), trans)
+            .then(values => table.mutate({ ...request, values }));
+        },
+        get: (req) => withinTransaction(table.get(req).then(decryptRecord)),
+        getMany: (req) => withinTransaction(table.getMany(req).then(values => Promise.all(values.map(decryptRecord)))),
+        query: (req) => req.values === false
+          ? table.query(req)
+          : withinTransaction(table.query(req).then(async res => ({ ...res, result: await Promise.all(res.result.map(decryptRecord)) }))),
+        openCursor: (req) => req.values === false
+          ? table.openCursor(req)
+          : withinTransaction(table.openCursor(req)).then(cursor => cursor && wrapCursor(cursor))
+      };
+    }
+  })
+};
+
+// --- Konfiguracja i hasło ---
+
+const createVerifier = async (key: CryptoKey) => toBase64(new Uint8Array(await encryptBytes(key, new TextEncoder().encode(VERIFIER_TEXT))));
+
+/**
+ * Nowa konfiguracja (nowa sól) i klucz dla podanego hasła.
+ */
+export const createEncryptionConfig = async (passphrase: string, autoLockMinutes: number): Promise<{ config: DatabaseEncryptionConfig, key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    config: {
+      version: 1,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+      verifier: await createVerifier(key),
+      autoLockMinutes
+    }
+  };
+};
+
+/**
+ * Wyprowadza klucz z hasła i sprawdza go weryfikatorem. Rzuca `Error` przy złym haśle.
+ */
+export const deriveDatabaseKey = async (config: DatabaseEncryptionConfig, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(config.kdf.salt), config.kdf.iterations);
+  try {
+    await decryptBytes(key, fromBase64(config.verifier).buffer);
+  } catch {
+    throw new Error('Nieprawidłowe hasło.');
+  }
+  return key;
+};
@@ -1,6 +1,6 @@
 
 import { Transaction, TransactionType, CategoryItem } from '../types';
-import { SYSTEM_IDS } from '../constants';
+import { SYSTEM_IDS, DEFAULT_ACCOUNT_ID } from '../constants';
 
 export const generateDemoTransactions = (categories: CategoryItem[]): Transaction[] => {
   const transactions: Transaction[] = [];
@@ -50,6 +50,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
           amount: baseSalary + (Math.random() * 200), // Slight variation
           description: 'Wynagrodzenie',
           type: TransactionType.INCOME,
+          accountId: DEFAULT_ACCOUNT_ID,
           categoryId: salaryCat,
           subcategoryId: getSubId(salaryCat, 'Wypłata')
        });
@@ -62,6 +63,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
              amount: 1000 + Math.random() * 2000,
              description: 'Premia kwartalna',
              type: TransactionType.INCOME,
+             accountId: DEFAULT_ACCOUNT_ID,
              categoryId: salaryCat,
              subcategoryId: getSubId(salaryCat, 'Premie')
           });
@@ -79,6 +81,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: rentBase,
             description: 'Czynsz / Kredyt',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: housingCat,
             subcategoryId: getSubId(housingCat, 'Czynsz')
         });
@@ -90,6 +93,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 60 + (year - 2020) * 5,
             description: 'Internet UPC',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: housingCat,
             subcategoryId: getSubId(housingCat, 'Internet')
         });
@@ -101,6 +105,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 150 + Math.random() * 50,
             description: 'PGE Prąd',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: housingCat,
             subcategoryId: getSubId(housingCat, 'Prąd')
         });
@@ -119,6 +124,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 50 + Math.random() * 200,
             description: `Zakupy ${shop}`,
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: foodCat,
             subcategoryId: getSubId(foodCat, 'Zakupy spożywcze')
         });
@@ -133,6 +139,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 150 + Math.random() * 100,
             description: 'Stacja Paliw Orlen',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: transCat,
             subcategoryId: getSubId(transCat, 'Paliwo'),
             tags: Math.random() > 0.5 ? ['auto'] : []
@@ -149,6 +156,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 100 + Math.random() * 150,
             description: 'Restauracja włoska',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: foodCat,
             subcategoryId: getSubId(foodCat, 'Restauracje'),
             tags: ['weekend', 'randka']
@@ -166,6 +174,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 2500 + Math.random() * 1000,
             description: 'Hotel Wakacje',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: travelCat,
             subcategoryId: getSubId(travelCat, 'Noclegi'),
             tags: ['wakacje', `lato${year}`]
@@ -181,6 +190,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 200 + Math.random() * 400,
             description: 'Prezenty świąteczne',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: shopCat,
             subcategoryId: getSubId(shopCat, 'Prezenty'), // Assumes subcategory exists or maps to Inne
             tags: ['święta', 'prezenty']
@@ -196,6 +206,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 500 + Math.random() * 2000,
             description: 'Materiały budowlane Castorama',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: housingCat,
             subcategoryId: getSubId(housingCat, 'Remonty'),
             tags: ['remont']
@@ -211,6 +222,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
             amount: 800 + Math.random() * 400,
             description: 'Przegląd i Ubezpieczenie',
             type: TransactionType.EXPENSE,
+            accountId: DEFAULT_ACCOUNT_ID,
             categoryId: transCat,
             subcategoryId: getSubId(transCat, 'Serwis'),
             tags: ['auto']
@@ -226,6 +238,7 @@ export const generateDemoTransactions = (categories: CategoryItem[]): Transactio
           amount: 1000 + (year - 2020)*200,
           description: 'Przelew na oszczędnościowe',
           type: TransactionType.EXPENSE,
+          accountId: DEFAULT_ACCOUNT_ID,
           categoryId: savingsCat,
           subcategoryId: getSubId(savingsCat, 'Poduszka finansowa')
        });
@@ -0,0 +1,144 @@
+import { Transaction } from '../types';
+
+/**
+ * Wykrywanie możliwych duplikatów przy imporcie.
+ * Kandydat musi mieć tę samą kwotę, typ i konto; ocenę (0-1) budują odległość dat
+ * i podobieństwo opisów, więc przesunięcie księgowania o dzień czy inny zapis opisu
+ * nie ukrywają duplikatu, a różne zakupy za tę samą kwotę nie są z nim mylone.
+ */
+
+export type DuplicateAction = 'KEEP' | 'SKIP' | 'MERGE';
+
+export interface DuplicateCandidate {
+  importId: string;
+  imported: { date: string, description: string, amount: number };
+  existing: Transaction;
+  score: number;
+  dayDiff: number;
+  descriptionSimilarity: number;
+  action: DuplicateAction;
+}
+
+/** Maksymalna różnica dat (w dniach) między wierszem a istniejącą transakcją. */
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+/** Poniżej tej oceny para nie jest pokazywana. */
+export const DUPLICATE_MIN_SCORE = 0.5;
+/** Od tej oceny domyślną decyzją jest pominięcie wiersza. */
+export const DUPLICATE_AUTO_SKIP_SCORE = 0.75;
+
+const DESCRIPTION_WEIGHT = 0.6;
+const DATE_WEIGHT = 0.4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const amountKey = (amount: number) => Math.round(Math.abs(amount) * 100);
+
+const normalizeDescription = (val: string): string =>
+  (val || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const bigrams = (val: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < val.length - 1; i++) result.push(val.slice(i, i + 2));
+  return result;
+};
+
+/**
+ * Współczynnik Dice'a na bigramach znaków (0-1). Odporny na dopiski typu "nr 123"
+ * czy zmieniony szyk w opisie z banku.
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const na = normalizeDescription(a);
+  const nb = normalizeDescription(b);
+  if (na === nb) return 1;
+  if (na.length < 2 || nb.length < 2) return 0;
+
+  const counts = new Map<string, number>();
+  bigrams(na).forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  const bb = bigrams(nb);
+  bb.forEach(g => {
+    const c = counts.get(g) || 0;
+    if (c > 0) {
+      overlap++;
+      counts.set(g, c - 1);
+    }
+  });
+  return (2 * overlap) / (na.length - 1 + bb.length);
+};
+
+const dayDistance = (a: string, b: string): number => {
+  const da = new Date(a);
+  const db = new Date(b);
+  const utcA = Date.UTC(da.getFullYear(), da.getMonth(), da.getDate());
+  const utcB = Date.UTC(db.getFullYear(), db.getMonth(), db.getDate());
+  return Math.round(Math.abs(utcA - utcB) / DAY_MS);
+};
+
+/**
+ * Paruje wiersze importu z istniejącymi transakcjami konta `accountId`.
+ * Przypisanie jest jeden-do-jednego (najwyższe oceny pierwsze), więc dwie identyczne kawy
+ * w pliku przy jednej już zapisanej dają tylko jednego kandydata.
+ * Wiersze z identyfikatorem banku (`externalId`) obecnym w bazie są pomijane -
+ * `importData` odrzuca je bez pytania.
+ */
+export const findDuplicateCandidates = (items: any[], existing: Transaction[], accountId: string): DuplicateCandidate[] => {
+  const accountTxs = existing.filter(t => t.accountId === accountId);
+  const knownExternalIds = new Set(accountTxs.filter(t => t.externalId).map(t => t.externalId));
+
+  const byAmount = new Map<number, Transaction[]>();
+  accountTxs.forEach(t => {
+    const key = amountKey(t.amount);
+    const list = byAmount.get(key);
+    if (list) list.push(t); else byAmount.set(key, [t]);
+  });
+
+  const scored: Omit<DuplicateCandidate, 'action'>[] = [];
+  items.forEach(item => {
+    if (item.externalId && knownExternalIds.has(item.externalId)) return;
+
+    (byAmount.get(amountKey(item.amount)) || []).forEach(t => {
+      if (t.type !== item.type) return;
+      const dayDiff = dayDistance(item.date, t.date);
+      if (dayDiff > DUPLICATE_DATE_WINDOW_DAYS) return;
+
+      const similarity = descriptionSimilarity(item.description, t.description);
+      const dateScore = 1 - dayDiff / (DUPLICATE_DATE_WINDOW_DAYS + 1);
+      const score = DESCRIPTION_WEIGHT * similarity + DATE_WEIGHT * dateScore;
+      if (score < DUPLICATE_MIN_SCORE) return;
+
+      scored.push({
+        importId: item.id,
+        imported: { date: item.date, description: item.description, amount: item.amount },
+        existing: t,
+        score,
+        dayDiff,
+        descriptionSimilarity: similarity
+      });
+    });
+  });
+
+  const usedImports = new Set<string>();
+  const usedExisting = new Set<string>();
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .filter(c => {
+      if (usedImports.has(c.importId) || usedExisting.has(c.existing.id)) return false;
+      usedImports.add(c.importId);
+      usedExisting.add(c.existing.id);
+      return true;
+    })
+    .map(c => ({ ...c, action: (c.score >= DUPLICATE_AUTO_SKIP_SCORE ? 'SKIP' : 'KEEP') as DuplicateAction }))
+    .sort((a, b) => a.imported.date.localeCompare(b.imported.date));
+};
+
+/**
+ * Scalenie: zostaje istniejąca transakcja (kategoria i opis użytkownika),
+ * uzupełniona o identyfikator banku i tagi z importowanego wiersza.
+ */
+export const mergeDuplicate = (existing: Transaction, imported: any): Transaction => {
+  const tags = Array.from(new Set([...(existing.tags || []), ...(imported.tags || [])]));
+  return {
+    ...existing,
+    externalId: existing.externalId || imported.externalId,
+    tags: tags.length > 0 ? tags : existing.tags
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * Zapisuje dane jako plik do pobrania (link tymczasowy).
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/** Dzisiejsza data (YYYY-MM-DD) do nazw eksportowanych plików. */
+export const getExportDateStamp = (): string => new Date().toISOString().split('T')[0];
+
+/** Rozmiar pliku do wyświetlenia (B / KB / MB). */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1).replace('.', ',')} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+};
@@ -1,12 +1,15 @@
 
-import { TransactionType, CategoryItem, Transaction } from '../types';
+import { TransactionType, CategoryItem, Transaction, CategorizationRule, ColumnMapping, DateFormat, Account } from '../types';
 import { KEYWORD_TO_CATEGORY_NAME } from '../constants';
+import { applyRules } from './rulesEngine';
+import { CategorySuggestion } from './categoryClassifier';
+import { BankStatement } from './bankStatement';
+import { getCurrency } from './currencyHelpers';
 
 // --- Types ---
 
-export type ColumnMapping = 'date' | 'amount' | 'description' | 'category' | 'skip';
-export type ImportStep = 'UPLOAD' | 'MAP' | 'DATE_CORRECTION' | 'RECONCILE' | 'DECISION' | 'GROUP' | 'BACKUP_CONFIRM';
-export type DateFormat = 'DD-MM-YYYY' | 'MM-DD-YYYY' | 'YYYY-MM-DD';
+export type { ColumnMapping, DateFormat };
+export type ImportStep = 'UPLOAD' | 'SHEET' | 'MAP' | 'STATEMENT' | 'JOURNAL' | 'DATE_CORRECTION' | 'DUPLICATES' | 'RECONCILE' | 'DECISION' | 'TRANSFERS' | 'GROUP' | 'BACKUP_PASSWORD' | 'BACKUP_CONFIRM';
 
 export interface GroupedTransaction {
   signature: string;
@@ -16,6 +19,24 @@ export interface GroupedTransaction {
   currentCategoryName: string;
   currentSubcategoryName: string;
   enabled: boolean;
+  suggestions?: CategorySuggestion[]; // Podpowiedzi klasyfikatora dla przykładowego opisu
+}
+
+/**
+ * Wiersz importu będący jedną nogą przelewu własnego. Wiersz zawsze zostaje na koncie importu;
+ * druga noga to istniejąca transakcja na innym koncie (`counterpartId`) albo zostanie utworzona.
+ */
+export interface TransferCandidate {
+  id: string; // przyszły transferId pary
+  itemId: string; // Wiersz importu
+  counterpartId?: string; // Istniejąca transakcja drugiej nogi; brak = noga do utworzenia
+  counterAccountId: string; // Konto drugiej nogi ('' = do wybrania)
+  amount: number;
+  date: string;
+  isOutgoing: boolean; // true: z konta importu na `counterAccountId`, false: odwrotnie
+  itemDescription: string;
+  counterpartDescription?: string;
+  enabled: boolean;
 }
 
 export interface RawTransactionRow {
@@ -51,10 +72,64 @@ export const flattenJsonToTable = (json: any[]): string[][] => {
   return [header, ...rows];
 };
 
+export interface AmountOptions {
+  decimalSeparator: ',' | '.';
+  invertSigns: boolean; // Bank podaje wydatki jako kwoty dodatnie
+}
+
+export const DEFAULT_AMOUNT_OPTIONS: AmountOptions = { decimalSeparator: ',', invertSigns: false };
+
+/**
+ * Parsuje kwotę z wyciągu: separatory tysięcy (spacja, kropka, przecinek, apostrof),
+ * sufiksy/prefiksy walut ("PLN", "zł", "€"), minus na końcu ("12,50-") i ujemne w nawiasach ("(12,50)").
+ * `decimalSeparator` rozstrzyga tylko przypadki niejednoznaczne (np. "1.234").
+ * Zwraca NaN, gdy w tekście nie ma cyfr.
+ */
 export const parseAmount = (val: string, decimalSeparator: ',' | '.' = ','): number => {
-  let clean = val.replace(/[^\d.,-]/g, '');
-  if (decimalSeparator === ',') clean = clean.replace(',', '.');
-  return parseFloat(clean);
+  const raw = val.trim().replace(/\u2212/g, '-'); // Typograficzny minus
+  if (!/\d/.test(raw)) return NaN;
+
+  const isNegative = /^\(.*\)$/.test(raw) || /^[^\d]*-/.test(raw) || /-[^\d]*$/.test(raw);
+  let clean = raw.replace(/[^\d.,]/g, '');
+
+  const lastDot = clean.lastIndexOf('.');
+  const lastComma = clean.lastIndexOf(',');
+  let decimalChar: string | null = null;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Oba znaki: ostatni jest separatorem dziesiętnym ("1.234,56" / "1,234.56")
+    decimalChar = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const char = lastDot >= 0 ? '.' : ',';
+    const occurrences = clean.split(char).length - 1;
+    const digitsAfter = clean.length - clean.lastIndexOf(char) - 1;
+    // Wielokrotny znak to separator tysięcy; pojedynczy z 3 cyframi po nim - tysiące tylko, gdy nie jest oczekiwanym separatorem dziesiętnym
+    if (occurrences === 1 && (digitsAfter !== 3 || char === decimalSeparator)) decimalChar = char;
+  }
+
+  if (decimalChar) {
+    const thousandsChar = decimalChar === '.' ? ',' : '.';
+    clean = clean.split(thousandsChar).join('').replace(decimalChar, '.');
+  } else {
+    clean = clean.replace(/[.,]/g, '');
+  }
+
+  const amount = parseFloat(clean);
+  return isNegative ? -amount : amount;
+};
+
+const DEBIT_MARKERS = ['d', 'dr', 'db', 'dt', 'dbit', 'debit', 'debet', 'wn', 'obciążenie', 'obciazenie', 'wydatek', 'wypłata', 'wyplata', '-'];
+const CREDIT_MARKERS = ['c', 'cr', 'ct', 'crdt', 'credit', 'kredyt', 'ma', 'uznanie', 'przychód', 'przychod', 'wpływ', 'wplyw', 'wpłata', 'wplata', '+'];
+
+/**
+ * Rozpoznaje wartość kolumny kierunku (D/C, Wn/Ma, Obciążenie/Uznanie...).
+ */
+export const parseDirection = (val: string): 'DEBIT' | 'CREDIT' | null => {
+  const clean = val.trim().toLowerCase();
+  if (!clean) return null;
+  if (DEBIT_MARKERS.includes(clean) || clean.startsWith('obciąż') || clean.startsWith('obciaz')) return 'DEBIT';
+  if (CREDIT_MARKERS.includes(clean) || clean.startsWith('uznan')) return 'CREDIT';
+  return null;
 };
 
 export const parseDateStrict = (val: string, format: DateFormat): string | null => {
@@ -103,6 +178,17 @@ export const guessMappings = (rows: string[][]): Record<number, ColumnMapping> =
   dataRow.forEach((cell, index) => {
     const val = cell ? cell.trim() : '';
     const len = val.length;
+    const header = headerRow && headerRow !== dataRow ? (headerRow[index] || '').toLowerCase() : '';
+
+    // Osobne kolumny obciążeń/uznań i wskaźnik kierunku rozpoznajemy po nagłówku (wartości bywają puste)
+    if (/obciąż|obciaz|debit|wydatki/.test(header)) { newMappings[index] = 'debit'; return; }
+    if (/uznani|credit|wpływy|wplywy/.test(header)) { newMappings[index] = 'credit'; return; }
+    if (/^(d\/c|dc|dt\/ct|wn\/ma|strona)$/.test(header.replace(/[\s"#]/g, ''))) { newMappings[index] = 'direction'; return; }
+    // Kolumny z eksportu bTrackr (i podobnych) - przed rozpoznawaniem po wartościach ("PLN" wygląda jak kwota)
+    if (/podkategoria|subcategory/.test(header)) { newMappings[index] = 'subcategory'; return; }
+    if (/^(tagi|tags)$/.test(header.trim())) { newMappings[index] = 'tags'; return; }
+    if (/^(waluta|currency)$/.test(header.trim())) { newMappings[index] = 'currency'; return; }
+    if (/^(konto|account)$/.test(header.trim())) { newMappings[index] = 'account'; return; }
     
     if (isDate(val)) { 
       newMappings[index] = 'date'; 
@@ -143,7 +229,7 @@ export const detectCategoryNameFromDesc = (desc: string): string | null => {
   return null;
 };
 
-export const analyzeGroups = (items: any[]): GroupedTransaction[] => {
+export const analyzeGroups = (items: any[], minCount: number = 2): GroupedTransaction[] => {
   const groups: Record<string, { ids: string[], example: string, count: number }> = {};
   items.forEach(t => {
     // Analizujemy tylko wydatki, które są nieskategoryzowane ("Inne")
@@ -162,14 +248,175 @@ export const analyzeGroups = (items: any[]): GroupedTransaction[] => {
   });
   return Object.entries(groups).map(([s, d]) => ({
     signature: s, example: d.example, count: d.count, ids: d.ids, currentCategoryName: 'Inne', currentSubcategoryName: 'Inne', enabled: true
-  })).filter(g => g.count > 1).sort((a, b) => b.count - a.count);
+  })).filter(g => g.count >= minCount).sort((a, b) => b.count - a.count);
+};
+
+/** Minimalna pewność, od której podpowiedź klasyfikatora jest wstępnie wybierana. */
+export const SUGGESTION_AUTO_SELECT_CONFIDENCE = 0.6;
+
+/**
+ * Dołącza podpowiedzi klasyfikatora do grup (kolejność `suggestions` = kolejność `groups`).
+ * Pewna podpowiedź ustawia kategorię grupy. Pojedyncze wiersze zostają tylko wtedy,
+ * gdy klasyfikator je rozpoznał - pozostałe trafiają do "Inne" jak dotychczas.
+ */
+export const applyGroupSuggestions = (
+  groups: GroupedTransaction[],
+  suggestions: CategorySuggestion[][],
+  categories: CategoryItem[]
+): GroupedTransaction[] => {
+  return groups
+    .map((group, i) => {
+      const groupSuggestions = (suggestions[i] || []).filter(s => categories.some(c => c.id === s.categoryId));
+      const top = groupSuggestions[0];
+      if (!top || top.confidence < SUGGESTION_AUTO_SELECT_CONFIDENCE) {
+        return { ...group, suggestions: groupSuggestions, enabled: group.count > 1 };
+      }
+      const category = categories.find(c => c.id === top.categoryId)!;
+      return {
+        ...group,
+        suggestions: groupSuggestions,
+        currentCategoryName: category.name,
+        currentSubcategoryName: category.subcategories.find(s => s.id === top.subcategoryId)?.name || 'Inne',
+        enabled: true
+      };
+    })
+    .filter(g => g.count > 1 || g.enabled);
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Opisy typowe dla przelewów własnych i operacji gotówkowych (druga noga na innym koncie). */
+const TRANSFER_DESCRIPTION_PATTERN = /przelew (własny|wewnętrzny|między|na (własne|moje) konto)|\btransfer\b|bankomat|wypłata gotówki|wpłata gotówki|\batm\b/i;
+
+/**
+ * Szuka wśród wierszy importu nóg przelewów własnych:
+ * 1. Istniejąca transakcja na innym koncie (ta sama waluta i kwota, przeciwny kierunek, data w oknie
+ *    `maxDaysApart` dni, jeszcze nie przelew) - para gotowa, kierunek wynika z wiersza importu.
+ * 2. Pozycja wskazuje konto drugiej nogi (`transferAccountId` z dziennika/QIF) - druga noga zostanie utworzona
+ *    na tym koncie (domyślnie zaznaczone).
+ * 3. Opis wygląda na przelew własny - druga noga zostanie utworzona na koncie wybranym przez użytkownika
+ *    (domyślnie niezaznaczone).
+ * Wiersze z tego samego pliku nie są łączone ze sobą - wpływ i wypływ na jednym koncie to nie przelew.
+ */
+export const detectTransferPairs = (items: any[], existing: Transaction[], targetAccount: Account, maxDaysApart: number = 3): TransferCandidate[] => {
+  const used = new Set<string>();
+  const currency = getCurrency(targetAccount);
+  const counterparts = existing.filter(t => t.accountId !== targetAccount.id && !t.transferId && getCurrency(t) === currency);
+  const pairs: TransferCandidate[] = [];
+
+  items.forEach(item => {
+    const itemTime = new Date(item.date).getTime();
+    const hintedAccountId: string | undefined = item.transferAccountId !== targetAccount.id ? item.transferAccountId : undefined;
+    let best: Transaction | null = null;
+    let bestDiff = Infinity;
+
+    counterparts.forEach(t => {
+      if (used.has(t.id) || t.type === item.type || Math.abs(t.amount - item.amount) > 0.005) return;
+      if (hintedAccountId && t.accountId !== hintedAccountId) return;
+      const diff = Math.abs(new Date(t.date).getTime() - itemTime);
+      if (diff <= maxDaysApart * DAY_MS && diff < bestDiff) {
+        best = t;
+        bestDiff = diff;
+      }
+    });
+
+    const counterpart = best as Transaction | null;
+    if (!counterpart && !hintedAccountId && !TRANSFER_DESCRIPTION_PATTERN.test(item.description || '')) return;
+    if (counterpart) used.add(counterpart.id);
+
+    pairs.push({
+      id: crypto.randomUUID(),
+      itemId: item.id,
+      counterpartId: counterpart?.id,
+      counterAccountId: counterpart?.accountId || hintedAccountId || '',
+      amount: item.amount,
+      date: item.date,
+      isOutgoing: item.type === TransactionType.EXPENSE,
+      itemDescription: item.description,
+      counterpartDescription: counterpart?.description,
+      enabled: !!counterpart || !!hintedAccountId
+    });
+  });
+
+  return pairs;
+};
+
+export interface ImportRuleContext {
+  rules: CategorizationRule[];
+  categories: CategoryItem[];
+  accountId?: string;
+}
+
+/**
+ * Nakłada reguły użytkownika na wiersz importu. Reguły mają pierwszeństwo
+ * przed wbudowanym słownikiem słów kluczowych; kategorię przekazujemy po nazwie,
+ * bo na tym etapie import operuje na nazwach (mapowane na ID w finalizeImport).
+ */
+export const applyRulesToImportItem = (item: any, context?: ImportRuleContext): any => {
+  if (!context || context.rules.length === 0) return item;
+  const result = applyRules(context.rules, { ...item, accountId: context.accountId });
+  if (!result) return item;
+
+  const updated = { ...item, ruleMatched: true };
+  const category = result.categoryId ? context.categories.find(c => c.id === result.categoryId) : undefined;
+  if (category) {
+    updated.categoryName = category.name;
+    updated.subcategoryName = category.subcategories.find(s => s.id === result.subcategoryId)?.name;
+  }
+  if (result.description) updated.description = result.description;
+  if (result.tags.length > 0) updated.tags = Array.from(new Set([...(item.tags || []), ...result.tags]));
+  return updated;
+};
+
+/**
+ * Tworzy pozycję importu z kwoty ze znakiem. Bez kategorii z pliku
+ * stosuje automatyczną kategoryzację (słowa kluczowe), a na końcu reguły użytkownika.
+ */
+export const createImportItem = (
+    dateISO: string,
+    amount: number,
+    description: string,
+    categoryName?: string,
+    ruleContext?: ImportRuleContext,
+    externalId?: string
+): any => {
+    let finalCatName = categoryName || 'Inne';
+    if (!categoryName) {
+       // Automatyczna kategoryzacja
+       if (amount > 0) finalCatName = 'Wynagrodzenie';
+       else {
+           const detected = detectCategoryNameFromDesc(description);
+           if (detected) finalCatName = detected;
+       }
+    }
+
+    return applyRulesToImportItem({
+       id: crypto.randomUUID(),
+       date: dateISO,
+       amount: Math.abs(amount),
+       description,
+       type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+       categoryName: finalCatName,
+       externalId
+    }, ruleContext);
+};
+
+/**
+ * Zamienia wyciąg strukturalny (OFX/QFX, MT940, CAMT.053) na pozycje importu - bez kroku mapowania kolumn.
+ * Identyfikator banku (np. FITID) trafia do `externalId` i służy do dokładnej deduplikacji.
+ */
+export const statementToImportItems = (statement: BankStatement, ruleContext?: ImportRuleContext): any[] =>
+  statement.entries
+    .filter(e => e.amount !== 0)
+    .map(e => createImportItem(e.date, e.amount, e.description, undefined, ruleContext, e.externalId));
+
 export const parseRawData = (
     rawFile: string[][], 
     mappings: Record<number, ColumnMapping>, 
     dateFormat: DateFormat,
-    hasHeader: boolean
+    hasHeader: boolean,
+    ruleContext?: ImportRuleContext,
+    amountOptions: AmountOptions = DEFAULT_AMOUNT_OPTIONS
 ): { validItems: any[], failedRows: RawTransactionRow[] } => {
     const _validItems: any[] = [];
     const _failedRows: RawTransactionRow[] = [];
@@ -179,21 +426,43 @@ export const parseRawData = (
       const row = rawFile[i];
       let dateStr = '';
       let amount = 0;
-      let description = 'Bez opisu';
+      let debit = 0;
+      let credit = 0;
+      let direction: 'DEBIT' | 'CREDIT' | null = null;
+      const descriptionParts: string[] = [];
       let categoryName = 'Inne';
       let foundInCsv = false;
+      let subcategoryName = '';
+      let tags: string[] = [];
+      let currency = '';
+      let accountName = '';
 
       Object.entries(mappings).forEach(([colIndex, type]) => {
         const val = row[parseInt(colIndex)];
         if (!val) return;
         switch (type) {
           case 'date': dateStr = val.trim(); break;
-          case 'amount': amount = parseAmount(val); break;
-          case 'description': description = val; break;
+          case 'amount': amount = parseAmount(val, amountOptions.decimalSeparator) || 0; break;
+          case 'debit': debit = Math.abs(parseAmount(val, amountOptions.decimalSeparator) || 0); break;
+          case 'credit': credit = Math.abs(parseAmount(val, amountOptions.decimalSeparator) || 0); break;
+          case 'direction': direction = parseDirection(val); break;
+          case 'description': if (val.trim()) descriptionParts.push(val.trim()); break;
           case 'category': categoryName = val; foundInCsv = true; break;
+          case 'subcategory': subcategoryName = val.trim(); break;
+          case 'tags': tags = val.split(/[,;]/).map(tag => tag.trim().replace(/^#/, '')).filter(Boolean); break;
+          case 'currency': currency = val.trim().toUpperCase(); break;
+          case 'account': accountName = val.trim(); break;
         }
       });
 
+      // Kilka kolumn opisu (np. kontrahent + tytuł) łączymy w jeden opis
+      const description = descriptionParts.join(' ') || 'Bez opisu';
+
+      // Osobne kolumny uznań/obciążeń mają pierwszeństwo przed kolumną kwoty
+      if (debit || credit) amount = credit - debit;
+      else if (direction) amount = direction === 'DEBIT' ? -Math.abs(amount) : Math.abs(amount);
+      if (amountOptions.invertSigns) amount = -amount;
+
       if (amount === 0 && !dateStr) continue;
 
       const validDateISO = parseDateStrict(dateStr, dateFormat);
@@ -203,24 +472,13 @@ export const parseRawData = (
       };
 
       if (validDateISO) {
-         let finalCatName = categoryName;
-         if (!foundInCsv) {
-            // Automatyczna kategoryzacja
-            if (amount > 0) finalCatName = 'Wynagrodzenie';
-            else {
-                const detected = detectCategoryNameFromDesc(description);
-                if (detected) finalCatName = detected;
-            }
-         }
-         
-         _validItems.push({
-            id: crypto.randomUUID(),
-            date: validDateISO,
-            amount: Math.abs(amount),
-            description,
-            type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
-            categoryName: finalCatName
-         });
+         const item = createImportItem(validDateISO, amount, description, foundInCsv ? categoryName : undefined, ruleContext);
+         // Podkategoria z pliku ma sens tylko z kategorią z pliku (reguła mogła ją zmienić)
+         if (subcategoryName && foundInCsv && !item.ruleMatched) item.subcategoryName = subcategoryName;
+         if (tags.length > 0) item.tags = Array.from(new Set([...(item.tags || []), ...tags]));
+         if (/^[A-Z]{3}$/.test(currency)) item.currency = currency;
+         if (accountName) item.accountName = accountName;
+         _validItems.push(item);
       } else {
          _failedRows.push(rawRowObj);
       }
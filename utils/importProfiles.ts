@@ -0,0 +1,162 @@
+import { ImportProfile } from '../types';
+import { TRANSACTION_EXPORT_HEADER } from './tableExport';
+
+/**
+ * Normalizuje nazwę kolumny: bez wielkości liter, polskich znaków, cudzysłowów i znaków `#`
+ * (mBank poprzedza nimi nagłówki).
+ */
+const normalizeHeaderCell = (cell: string): string =>
+  (cell || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Odcisk wiersza nagłówków - porównywany przy automatycznym wyborze profilu.
+ * Puste kolumny na końcu wiersza (częsty średnik kończący) są pomijane.
+ */
+export const getHeaderFingerprint = (row: string[]): string => {
+  const cells = row.map(normalizeHeaderCell);
+  while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+  return cells.join('|');
+};
+
+/** Ile początkowych wierszy przeszukujemy w poszukiwaniu nagłówka (metryczki wyciągów bywają długie). */
+const HEADER_SEARCH_ROWS = 40;
+
+/**
+ * Szuka profilu, którego nagłówek występuje w pierwszych wierszach pliku.
+ * Zwraca profil i indeks wiersza nagłówka (= faktyczna liczba wierszy do pominięcia).
+ */
+export const findMatchingProfile = (
+  rows: string[][],
+  profiles: ImportProfile[]
+): { profile: ImportProfile, headerIndex: number } | null => {
+  const candidates = profiles.filter(p => p.hasHeader && p.headerFingerprint);
+  const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+
+  for (let i = 0; i < limit; i++) {
+    const fingerprint = getHeaderFingerprint(rows[i]);
+    if (!fingerprint) continue;
+    const profile = candidates.find(p => p.headerFingerprint === fingerprint);
+    if (profile) return { profile, headerIndex: i };
+  }
+  return null;
+};
+
+/**
+ * Wbudowane profile dla najpopularniejszych układów CSV polskich banków.
+ * Nie są zapisywane w bazie; profil użytkownika o tym samym nagłówku ma pierwszeństwo.
+ */
+export const BUILT_IN_IMPORT_PROFILES: ImportProfile[] = [
+  {
+    // Własny eksport historii (CSV/XLSX) - wszystkie kolumny poza typem (wynika ze znaku kwoty).
+    // Domyślny eksport zapisuje daty jako YYYY-MM-DD; inny format kreator wykrywa z pierwszego wiersza.
+    // Konto i waluta są dopasowywane po nazwie/kodzie, nieznane konto = konto wybrane w kreatorze.
+    id: 'builtin_btrackr',
+    name: 'bTrackr (eksport)',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint(TRANSACTION_EXPORT_HEADER),
+    mappings: { 0: 'date', 1: 'description', 2: 'skip', 3: 'category', 4: 'subcategory', 5: 'account', 6: 'amount', 7: 'currency', 8: 'tags' },
+    hasHeader: true,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: ',',
+    encoding: 'utf-8',
+    skipRows: 0,
+    invertSigns: false
+  },
+  {
+    id: 'builtin_mbank',
+    name: 'mBank',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint(['#Data operacji', '#Opis operacji', '#Rachunek', '#Kategoria', '#Kwota', '#Saldo po operacji']),
+    mappings: { 0: 'date', 1: 'description', 2: 'skip', 3: 'category', 4: 'amount', 5: 'skip' },
+    hasHeader: true,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: ',',
+    encoding: 'windows-1250',
+    skipRows: 0,
+    invertSigns: false
+  },
+  {
+    id: 'builtin_pko',
+    name: 'PKO BP',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint(['Data operacji', 'Data waluty', 'Typ transakcji', 'Kwota', 'Waluta', 'Saldo po transakcji', 'Opis transakcji']),
+    mappings: { 0: 'date', 1: 'skip', 2: 'skip', 3: 'amount', 4: 'skip', 5: 'skip', 6: 'description' },
+    hasHeader: true,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    encoding: 'windows-1250',
+    skipRows: 0,
+    invertSigns: false
+  },
+  {
+    id: 'builtin_ing',
+    name: 'ING Bank Śląski',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint([
+      'Data transakcji', 'Data księgowania', 'Dane kontrahenta', 'Tytuł', 'Nr rachunku', 'Nazwa banku', 'Szczegóły',
+      'Nr transakcji', 'Kwota transakcji (waluta rachunku)', 'Waluta', 'Kwota blokady/zwolnienie blokady', 'Waluta',
+      'Kwota płatności w walucie', 'Waluta', 'Konto', 'Saldo po transakcji', 'Waluta'
+    ]),
+    mappings: {
+      0: 'date', 1: 'skip', 2: 'description', 3: 'description', 4: 'skip', 5: 'skip', 6: 'skip', 7: 'skip', 8: 'amount',
+      9: 'skip', 10: 'skip', 11: 'skip', 12: 'skip', 13: 'skip', 14: 'skip', 15: 'skip', 16: 'skip'
+    },
+    hasHeader: true,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: ',',
+    encoding: 'windows-1250',
+    skipRows: 0,
+    invertSigns: false
+  },
+  {
+    id: 'builtin_pekao',
+    name: 'Bank Pekao',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint([
+      'Data księgowania', 'Data waluty', 'Nadawca / Odbiorca', 'Adres nadawcy / odbiorcy', 'Rachunek źródłowy',
+      'Rachunek docelowy', 'Tytułem', 'Kwota operacji', 'Waluta', 'Numer referencyjny', 'Typ operacji', 'Kategoria'
+    ]),
+    mappings: { 0: 'date', 1: 'skip', 2: 'description', 3: 'skip', 4: 'skip', 5: 'skip', 6: 'description', 7: 'amount', 8: 'skip', 9: 'skip', 10: 'skip', 11: 'skip' },
+    hasHeader: true,
+    dateFormat: 'DD-MM-YYYY',
+    decimalSeparator: ',',
+    encoding: 'utf-8',
+    skipRows: 0,
+    invertSigns: false
+  },
+  {
+    id: 'builtin_millennium',
+    name: 'Bank Millennium',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint([
+      'Numer rachunku/karty', 'Data transakcji', 'Data rozliczenia', 'Rodzaj transakcji', 'Na konto/Z konta',
+      'Odbiorca/Zleceniodawca', 'Opis', 'Obciążenia', 'Uznania', 'Saldo', 'Waluta'
+    ]),
+    mappings: { 0: 'skip', 1: 'date', 2: 'skip', 3: 'skip', 4: 'skip', 5: 'description', 6: 'description', 7: 'debit', 8: 'credit', 9: 'skip', 10: 'skip' },
+    hasHeader: true,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    encoding: 'utf-8',
+    skipRows: 0,
+    invertSigns: false
+  },
+  {
+    id: 'builtin_santander',
+    name: 'Santander Bank Polska',
+    isBuiltIn: true,
+    headerFingerprint: getHeaderFingerprint(['Data operacji', 'Data księgowania', 'Opis transakcji', 'Rachunek nadawcy/odbiorcy', 'Nazwa nadawcy/odbiorcy', 'Kwota', 'Waluta', 'Saldo']),
+    mappings: { 0: 'date', 1: 'skip', 2: 'description', 3: 'skip', 4: 'description', 5: 'amount', 6: 'skip', 7: 'skip' },
+    hasHeader: true,
+    dateFormat: 'DD-MM-YYYY',
+    decimalSeparator: ',',
+    encoding: 'utf-8',
+    skipRows: 0,
+    invertSigns: false
+  }
+];
@@ -0,0 +1,101 @@
+/**
+ * Parser wyciągów OFX/QFX.
+ * Obsługuje zarówno OFX 1.x (SGML, tagi bez zamknięć), jak i OFX 2.x (XML) -
+ * wartości pól czytamy do najbliższego `<` lub końca linii, co działa w obu wariantach.
+ */
+
+export interface OfxTransaction {
+  fitId: string;
+  date: string; // ISO, godzina 12:00 (jak w `parseDateStrict`)
+  amount: number; // Ze znakiem: ujemna = obciążenie
+  name: string;
+  memo: string;
+  trnType: string;
+}
+
+export interface OfxStatement {
+  currency?: string; // CURDEF
+  bankAccountId?: string; // ACCTID
+  ledgerBalance?: number; // LEDGERBAL/BALAMT - saldo księgowe na koniec wyciągu
+  ledgerBalanceDate?: string; // LEDGERBAL/DTASOF, ISO
+  transactions: OfxTransaction[];
+}
+
+const decodeEntities = (val: string): string =>
+  val
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const readField = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+/**
+ * Data OFX: YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]. Bierzemy samą datę.
+ */
+export const parseOfxDate = (val: string): string | null => {
+  const match = val.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const y = parseInt(match[1]);
+  const m = parseInt(match[2]);
+  const d = parseInt(match[3]);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return new Date(y, m - 1, d, 12, 0, 0).toISOString();
+};
+
+/** TRNAMT bywa zapisane z przecinkiem dziesiętnym (niektóre banki europejskie). */
+const parseOfxAmount = (val: string): number => parseFloat(val.replace(/\s/g, '').replace(',', '.'));
+
+export const parseOfx = (content: string): OfxStatement => {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('Plik nie zawiera sekcji <OFX>.');
+  }
+
+  const transactions: OfxTransaction[] = [];
+  // W SGML blok kończy się </STMTTRN> (zwykle obecne) albo początkiem kolejnego / końcem listy
+  const blockRegex = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockRegex.exec(content)) !== null) {
+    const block = match[1];
+    const date = parseOfxDate(readField(block, 'DTPOSTED') || readField(block, 'DTUSER'));
+    const amount = parseOfxAmount(readField(block, 'TRNAMT'));
+    if (!date || isNaN(amount)) continue;
+
+    transactions.push({
+      fitId: readField(block, 'FITID'),
+      date,
+      amount,
+      name: readField(block, 'NAME') || readField(block, 'PAYEE'),
+      memo: readField(block, 'MEMO'),
+      trnType: readField(block, 'TRNTYPE')
+    });
+  }
+
+  const ledger = content.match(/<LEDGERBAL>([\s\S]*?)(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i)?.[1] || '';
+  const ledgerBalance = parseOfxAmount(readField(ledger, 'BALAMT'));
+
+  return {
+    currency: readField(content, 'CURDEF').toUpperCase() || undefined,
+    ledgerBalance: isNaN(ledgerBalance) ? undefined : ledgerBalance,
+    ledgerBalanceDate: parseOfxDate(readField(ledger, 'DTASOF')) || undefined,
+    bankAccountId: readField(content, 'ACCTID') || undefined,
+    transactions
+  };
+};
+
+/**
+ * Opis transakcji z NAME i MEMO. MEMO pomijamy, gdy tylko powtarza NAME.
+ */
+export const getOfxDescription = (t: OfxTransaction): string => {
+  const name = t.name.trim();
+  const memo = t.memo.trim();
+  if (!memo || name.toLowerCase().includes(memo.toLowerCase())) return name || 'Bez opisu';
+  if (!name || memo.toLowerCase().includes(name.toLowerCase())) return memo;
+  return `${name} ${memo}`;
+};
@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { OperationEntry, OperationTable, RecordPatch } from '../types';
+import { updatedEntries } from './transactionHistory';
+
+/**
+ * Dziennik operacji (cofnij/ponów).
+ *
+ * Każda operacja zapisuje łatki rekordów: stan przed i po zmianie (`undefined` = rekord nie istniał / usunięty).
+ * Cofnięcie zapisuje stany "przed", ponowienie - stany "po". Jeśli rekord zmienił się od tego czasu
+ * (np. przywrócenie kopii), operacji nie da się wykonać - nic nie jest nadpisywane.
+ * Cofnięcie i ponowienie zmian transakcji trafia też do ich historii zmian.
+ */
+
+export const OPERATION_LOG_LIMIT = 50;
+
+const PRIMARY_KEYS: Record<OperationTable, string> = {
+  transactions: 'id',
+  categories: 'id',
+  settings: 'key',
+  importBatches: 'id'
+};
+
+// Porównanie niezależne od kolejności pól (rekordy po odszyfrowaniu mają inną kolejność kluczy)
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => [key, canonicalize((value as any)[key])]));
+  }
+  return value;
+};
+
+const isSameRecord = (a: unknown, b: unknown) =>
+  JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+
+/**
+ * Łatki dla rekordów jednej tabeli. Rekordy bez zmian są pomijane.
+ */
+export const createPatches = <T extends object>(table: OperationTable, before: (T | undefined)[], after: (T | undefined)[]): RecordPatch[] => {
+  const primaryKey = PRIMARY_KEYS[table];
+  const keyOf = (record: T) => (record as any)[primaryKey] as string;
+  const beforeByKey = new Map(before.filter((r): r is T => !!r).map(r => [keyOf(r), r]));
+  const afterByKey = new Map(after.filter((r): r is T => !!r).map(r => [keyOf(r), r]));
+
+  const patches: RecordPatch[] = [];
+  new Set([...beforeByKey.keys(), ...afterByKey.keys()]).forEach(key => {
+    const previous = beforeByKey.get(key);
+    const next = afterByKey.get(key);
+    if (isSameRecord(previous, next)) return;
+    patches.push({ table, key, before: previous, after: next });
+  });
+  return patches;
+};
+
+export const createOperationEntry = (label: string, patches: RecordPatch[]): OperationEntry => ({
+  id: crypto.randomUUID(),
+  label,
+  timestamp: new Date().toISOString(),
+  patches,
+  undone: false
+});
+
+/**
+ * Zapisuje stany "przed" (`undo`) lub "po" (`redo`) w jednej transakcji.
+ * Rzuca `Error`, gdy któryś rekord zmienił się od czasu operacji.
+ */
+export const applyOperation = async (entry: OperationEntry, direction: 'undo' | 'redo') => {
+  const tables = Array.from(new Set(entry.patches.map(p => p.table)));
+  const scope = tables.map(t => db.table(t));
+  if (tables.includes('transactions')) scope.push(db.transactionHistory);
+
+  await (db as any).transaction('rw', scope, async () => {
+    for (const table of tables) {
+      const patches = entry.patches.filter(p => p.table === table);
+      const current = await db.table(table).bulkGet(patches.map(p => p.key));
+
+      const hasConflict = patches.some((patch, i) =>
+        !isSameRecord(current[i], direction === 'undo' ? patch.after : patch.before));
+      if (hasConflict) {
+        throw new Error(`Nie można ${direction === 'undo' ? 'cofnąć' : 'ponowić'} operacji "${entry.label}" - dane zmieniły się od tego czasu.`);
+      }
+
+      const targets = patches.map(p => ({ key: p.key, record: direction === 'undo' ? p.before : p.after }));
+      const toPut = targets.filter(t => t.record).map(t => t.record);
+      const toDelete = targets.filter(t => !t.record).map(t => t.key);
+      if (toPut.length > 0) await db.table(table).bulkPut(toPut);
+      if (toDelete.length > 0) await db.table(table).bulkDelete(toDelete);
+
+      if (table === 'transactions') {
+        const edited = patches.filter(p => p.before && p.after)
+          .map(p => direction === 'undo' ? { before: p.after, after: p.before } : { before: p.before, after: p.after });
+        const note = `${direction === 'undo' ? 'Cofnięcie' : 'Ponowienie'}: ${entry.label}`;
+        await db.transactionHistory.bulkAdd(updatedEntries(edited, { note }));
+      }
+    }
+  });
+};
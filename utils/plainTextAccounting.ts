@@ -0,0 +1,430 @@
+import { Account, CategoryItem, Transaction, TransactionType } from '../types';
+import { getCurrency } from './currencyHelpers';
+import { isTransfer } from './transferHelpers';
+import { createImportItem, parseAmount } from './importHelpers';
+
+/**
+ * Eksport i import dzienników księgowości tekstowej (ledger, hledger, beancount).
+ *
+ * Konta aplikacji to `Assets:<Nazwa>` (karty kredytowe `Liabilities:<Nazwa>`), kategorie to
+ * `Expenses:<Kategoria>:<Podkategoria>` / `Income:...`, a kategorie oszczędnościowe (`isIncludedInSavings`)
+ * - `Assets:<Kategoria>:<Podkategoria>`. Przelewy własne to jedna transakcja między dwoma kontami.
+ */
+
+export type PlainTextFormat = 'LEDGER' | 'HLEDGER' | 'BEANCOUNT';
+
+export const PLAIN_TEXT_FORMAT_LABELS: Record<PlainTextFormat, string> = {
+  LEDGER: 'ledger',
+  HLEDGER: 'hledger',
+  BEANCOUNT: 'beancount'
+};
+
+export const PLAIN_TEXT_FILE_EXTENSIONS: Record<PlainTextFormat, string> = {
+  LEDGER: 'ledger',
+  HLEDGER: 'journal',
+  BEANCOUNT: 'beancount'
+};
+
+/** Źródła importowane jako dziennik: formaty tekstowe oraz QIF (`utils/qif.ts`). */
+export type JournalFormat = PlainTextFormat | 'QIF';
+
+export const JOURNAL_FORMAT_LABELS: Record<JournalFormat, string> = { ...PLAIN_TEXT_FORMAT_LABELS, QIF: 'QIF' };
+
+/** Rozszerzenia plików rozpoznawane przez kreator importu jako dziennik. */
+export const PLAIN_TEXT_FILE_PATTERN = /\.(ledger|journal|hledger|beancount|bean)$/i;
+
+// --- Eksport ---
+
+interface Posting {
+  account: string;
+  amount: number;
+  currency: string;
+  price?: { amount: number, currency: string }; // Cena łączna (`@@`) przy przelewie między walutami
+}
+
+interface JournalEntry {
+  date: string; // YYYY-MM-DD
+  description: string;
+  isCleared: boolean; // Uzgodniona z bankiem (ledger/hledger: "*")
+  tags: string[];
+  postings: Posting[];
+}
+
+/**
+ * Segment nazwy konta. Beancount: bez spacji, wielka litera lub cyfra na początku.
+ * Ledger/hledger: dwie spacje kończą nazwę konta, a dwukropek rozdziela poziomy.
+ */
+const toAccountSegment = (name: string, format: PlainTextFormat): string => {
+  const clean = name.replace(/:/g, '-').replace(/\s+/g, ' ').trim() || 'Inne';
+  if (format !== 'BEANCOUNT') return clean;
+  const segment = clean.replace(/[^\p{L}\p{N}-]+/gu, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'Inne';
+  const capitalized = segment.charAt(0).toUpperCase() + segment.slice(1);
+  return /^[\p{Lu}\p{N}]/u.test(capitalized) ? capitalized : `X${capitalized}`;
+};
+
+const toTagName = (tag: string, format: PlainTextFormat): string =>
+  format === 'BEANCOUNT' ? tag.replace(/[^\p{L}\p{N}\-_/.]+/gu, '-') : tag.replace(/[\s:,]+/g, '-');
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+const formatTags = (tags: string[], format: PlainTextFormat): string => {
+  if (tags.length === 0) return '';
+  const names = tags.map(t => toTagName(t, format)).filter(Boolean);
+  if (format === 'LEDGER') return `:${names.join(':')}:`;
+  return names.map(n => `${n}:`).join(', ');
+};
+
+const formatEntry = (entry: JournalEntry, format: PlainTextFormat): string => {
+  const lines: string[] = [];
+  if (format === 'BEANCOUNT') {
+    const tags = entry.tags.map(t => ` #${toTagName(t, format)}`).join('');
+    // Flaga "!" oznacza w beancount transakcję wymagającą uwagi - wszystkie zapisujemy jako "*"
+    lines.push(`${entry.date} * "${entry.description.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"${tags}`);
+  } else {
+    // Średnik rozpoczyna komentarz także w opisie - zamieniamy go na przecinek
+    const description = entry.description.replace(/;/g, ',').replace(/\s+/g, ' ').trim();
+    lines.push(`${entry.date}${entry.isCleared ? ' *' : ''} ${description}`.trimEnd());
+    const tags = formatTags(entry.tags, format);
+    if (tags) lines.push(`    ; ${tags}`);
+  }
+
+  const width = Math.max(...entry.postings.map(p => p.account.length)) + 4;
+  entry.postings.forEach(p => {
+    const price = p.price ? ` @@ ${formatAmount(p.price.amount, p.price.currency)}` : '';
+    lines.push(`    ${p.account.padEnd(width)}${formatAmount(p.amount, p.currency)}${price}`);
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Tworzy dziennik w wybranym formacie. Transakcje w kolejności dat; kwoty w walucie transakcji.
+ */
+export const exportJournal = (
+  format: PlainTextFormat,
+  transactions: Transaction[],
+  categories: CategoryItem[],
+  accounts: Account[],
+  baseCurrency: string
+): string => {
+  const getAccountName = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    const root = account?.type === 'CREDIT_CARD' ? 'Liabilities' : 'Assets';
+    return `${root}:${toAccountSegment(account?.name || 'Nieznane', format)}`;
+  };
+
+  const getCategoryAccount = (t: Transaction) => {
+    const category = categories.find(c => c.id === t.categoryId);
+    const root = t.type === TransactionType.INCOME ? 'Income' : category?.isIncludedInSavings ? 'Assets' : 'Expenses';
+    const subcategory = category?.subcategories.find(s => s.id === t.subcategoryId);
+    return [root, toAccountSegment(category?.name || 'Inne', format), ...(subcategory ? [toAccountSegment(subcategory.name, format)] : [])].join(':');
+  };
+
+  const entries: JournalEntry[] = [];
+  const handledTransfers = new Set<string>();
+
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+    const base = {
+      date: t.date.split('T')[0],
+      description: t.description,
+      isCleared: !!t.reconcileStatus,
+      tags: t.tags || []
+    };
+    const currency = getCurrency(t);
+
+    if (isTransfer(t)) {
+      if (handledTransfers.has(t.transferId!)) return;
+      handledTransfers.add(t.transferId!);
+      const legs = transactions.filter(l => l.transferId === t.transferId);
+      const from = legs.find(l => l.type === TransactionType.EXPENSE);
+      const to = legs.find(l => l.type === TransactionType.INCOME);
+      if (from && to) {
+        const isSameCurrency = getCurrency(from) === getCurrency(to);
+        entries.push({
+          ...base,
+          isCleared: !!from.reconcileStatus && !!to.reconcileStatus,
+          postings: [
+            {
+              account: getAccountName(to.accountId),
+              amount: to.amount,
+              currency: getCurrency(to),
+              price: isSameCurrency ? undefined : { amount: from.amount, currency: getCurrency(from) }
+            },
+            { account: getAccountName(from.accountId), amount: -from.amount, currency: getCurrency(from) }
+          ]
+        });
+        return;
+      }
+      // Osierocona noga przelewu - zapisujemy jak zwykłą transakcję
+    }
+
+    const signed = t.type === TransactionType.INCOME ? t.amount : -t.amount;
+    entries.push({
+      ...base,
+      postings: [
+        { account: getCategoryAccount(t), amount: -signed, currency },
+        { account: getAccountName(t.accountId), amount: signed, currency }
+      ]
+    });
+  });
+
+  const lines = [`; Eksport bTrackr (${PLAIN_TEXT_FORMAT_LABELS[format]}), ${new Date().toISOString().split('T')[0]}`, ''];
+
+  if (format === 'BEANCOUNT') {
+    // Beancount wymaga otwarcia każdego konta przed pierwszym użyciem
+    lines.push(`option "operating_currency" "${baseCurrency}"`, '');
+    const opened = new Map<string, string>();
+    entries.forEach(e => e.postings.forEach(p => { if (!opened.has(p.account)) opened.set(p.account, e.date); }));
+    Array.from(opened.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .forEach(([account, date]) => lines.push(`${date} open ${account}`));
+    lines.push('');
+  }
+
+  entries.forEach(e => lines.push(formatEntry(e, format), ''));
+  return lines.join('\n');
+};
+
+// --- Import ---
+
+export interface ParsedPosting {
+  account: string;
+  amount?: number; // Brak = kwota wyliczana z bilansu transakcji
+  commodity?: string;
+}
+
+export interface ParsedJournalTransaction {
+  date: string; // ISO (12:00)
+  description: string;
+  tags: string[];
+  postings: ParsedPosting[];
+}
+
+export interface ParsedJournal {
+  format: JournalFormat;
+  transactions: ParsedJournalTransaction[];
+  /** Konta aktywów i pasywów z liczbą transakcji - kandydaci na konto źródłowe importu. */
+  assetAccounts: { name: string, count: number, commodities: string[] }[];
+}
+
+const HEADER_RE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:=\S+)?(?:\s+(.*))?$/;
+const BEANCOUNT_DIRECTIVES = ['open', 'close', 'balance', 'pad', 'price', 'note', 'document', 'event', 'custom', 'query', 'commodity'];
+
+const ROOTS = {
+  expense: ['expenses', 'expense', 'wydatki'],
+  income: ['income', 'revenue', 'revenues', 'przychody'],
+  asset: ['assets', 'asset', 'aktywa'],
+  liability: ['liabilities', 'liability', 'pasywa', 'zobowiazania', 'zobowiązania']
+};
+
+const getRoot = (account: string) => account.split(':')[0].toLowerCase();
+const isAssetLike = (account: string) => [...ROOTS.asset, ...ROOTS.liability].includes(getRoot(account));
+
+/** Porównanie nazw niezależne od wielkości liter, spacji i myślników (beancount nie dopuszcza spacji). */
+const normalizeName = (name: string) => name.toLowerCase().replace(/[\s\-_]+/g, '');
+
+const extractCommentTags = (comment: string): string[] => {
+  const tags: string[] = [];
+  // ledger: ":tag1:tag2:"
+  const ledgerMatch = comment.match(/(?:^|\s):((?:[^\s:]+:)+)(?=\s|$)/);
+  let rest = comment;
+  if (ledgerMatch) {
+    tags.push(...ledgerMatch[1].split(':').filter(Boolean));
+    rest = comment.replace(ledgerMatch[0], ' ');
+  }
+  // hledger: "tag:" lub "tag:wartość", rozdzielone przecinkami
+  const hledgerRe = /(?:^|[\s,])([^\s,:]+):/g;
+  let m: RegExpExecArray | null;
+  while ((m = hledgerRe.exec(rest)) !== null) tags.push(m[1]);
+  return tags;
+};
+
+const parseAmountWithCommodity = (text: string): { amount?: number, commodity?: string } => {
+  // Cena (@, @@), koszt ({...}) i asercja salda (=) nie wpływają na kwotę w walucie pozycji
+  const clean = text.split(/\s*(?:@@?|\{|=)/)[0].trim();
+  if (!clean) return {};
+  const commodity = clean.match(/[^\d\s.,+\-]+/)?.[0].replace(/"/g, '');
+  const numeric = clean.replace(/[^\d.,+\-]/g, '');
+  if (!/\d/.test(numeric)) return {};
+  return { amount: parseAmount(numeric, '.'), commodity };
+};
+
+/**
+ * Rozpoznaje format po składni: cudzysłowy w nagłówku transakcji lub dyrektywy beancount.
+ */
+const detectFormat = (lines: string[]): PlainTextFormat => {
+  const isBeancount = lines.some(l => /^\d{4}-\d{2}-\d{2}\s+(open|close|balance|pad|price|commodity)\b/.test(l) || /^\d{4}-\d{2}-\d{2}\s+([*!]|txn)\s+"/.test(l) || /^option\s+"/.test(l));
+  if (isBeancount) return 'BEANCOUNT';
+  const isHledger = lines.some(l => /^\s+;.*\b[^\s,:]+:(?:\s|,|$)/.test(l) && !/^\s+;\s*:/.test(l)) || lines.some(l => /^(account|commodity|decimal-mark)\s/.test(l));
+  return isHledger ? 'HLEDGER' : 'LEDGER';
+};
+
+/**
+ * Parsuje dziennik ledger/hledger/beancount. Dyrektywy inne niż transakcje są pomijane.
+ */
+export const parseJournal = (content: string): ParsedJournal => {
+  const lines = content.replace(/\r/g, '').split('\n');
+  const format = detectFormat(lines);
+  const transactions: ParsedJournalTransaction[] = [];
+  let current: ParsedJournalTransaction | null = null;
+
+  const finish = () => {
+    if (current && current.postings.length >= 2) transactions.push(current);
+    current = null;
+  };
+
+  lines.forEach(line => {
+    if (!line.trim()) {
+      finish();
+      return;
+    }
+
+    if (!/^\s/.test(line)) {
+      finish();
+      const header = line.match(HEADER_RE);
+      if (!header) return; // Komentarz, dyrektywa (include, account, option...)
+
+      let rest = (header[4] || '').trim();
+      const keyword = rest.split(/\s+/)[0];
+      if (BEANCOUNT_DIRECTIVES.includes(keyword)) return;
+      if (keyword === 'txn') rest = rest.slice(3).trim();
+
+      const tags: string[] = [];
+      let description: string;
+      if (format === 'BEANCOUNT') {
+        const strings = Array.from(rest.matchAll(/"((?:[^"\\]|\\.)*)"/g)).map(m => m[1].replace(/\\(.)/g, '$1'));
+        const afterStrings = rest.replace(/"((?:[^"\\]|\\.)*)"/g, '');
+        Array.from(afterStrings.matchAll(/#([^\s#^]+)/g)).forEach(m => tags.push(m[1]));
+        description = strings.filter(Boolean).join(' ');
+      } else {
+        const commentIndex = rest.indexOf(';');
+        if (commentIndex >= 0) {
+          tags.push(...extractCommentTags(rest.slice(commentIndex + 1)));
+          rest = rest.slice(0, commentIndex);
+        }
+        // Flaga stanu i kod transakcji: "* (123) Opis"
+        description = rest.replace(/^[*!]\s*/, '').replace(/^\([^)]*\)\s*/, '').replace(/\s*\|\s*/, ' ').trim();
+      }
+
+      const y = parseInt(header[1]), m = parseInt(header[2]), d = parseInt(header[3]);
+      current = {
+        date: new Date(y, m - 1, d, 12, 0, 0).toISOString(),
+        description: description || 'Bez opisu',
+        tags,
+        postings: []
+      };
+      return;
+    }
+
+    if (!current) return;
+    const txn: ParsedJournalTransaction = current;
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith(';') || trimmed.startsWith('#')) {
+      if (format !== 'BEANCOUNT') txn.tags.push(...extractCommentTags(trimmed.slice(1)));
+      return;
+    }
+    // Metadane beancount ("klucz: wartość")
+    if (/^[a-z][\w-]*:\s/.test(trimmed)) return;
+
+    const withoutComment = trimmed.split(';')[0].replace(/^[*!]\s+/, '').trim();
+    const parts = format === 'BEANCOUNT'
+      ? withoutComment.match(/^(\S+)\s*(.*)$/)
+      : withoutComment.match(/^(.+?)(?:(?:\s{2,}|\t)\s*(.*))?$/);
+    if (!parts) return;
+
+    const account = parts[1].replace(/^[([]|[)\]]$/g, '');
+    txn.postings.push({ account, ...parseAmountWithCommodity(parts[2] || '') });
+  });
+  finish();
+
+  return { format, transactions, assetAccounts: summarizeAssetAccounts(transactions) };
+};
+
+/**
+ * Konta aktywów i pasywów z liczbą transakcji, od najczęściej używanego.
+ */
+export const summarizeAssetAccounts = (transactions: ParsedJournalTransaction[]): ParsedJournal['assetAccounts'] => {
+  const assetStats = new Map<string, { count: number, commodities: Set<string> }>();
+  transactions.forEach(t => t.postings.filter(p => isAssetLike(p.account)).forEach(p => {
+    const stat = assetStats.get(p.account) || { count: 0, commodities: new Set<string>() };
+    stat.count++;
+    if (p.commodity) stat.commodities.add(p.commodity);
+    assetStats.set(p.account, stat);
+  }));
+
+  return Array.from(assetStats.entries())
+    .map(([name, s]) => ({ name, count: s.count, commodities: Array.from(s.commodities) }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export interface JournalImportResult {
+  items: any[];
+  transferCount: number; // Przelewy na inne konta aplikacji - pozycje z `transferAccountId`, parowane w kroku przelewów
+  skippedOther: number; // Np. Equity (bilans otwarcia)
+}
+
+/**
+ * Zamienia transakcje dziennika dotyczące konta `sourceAccount` na pozycje importu.
+ * Każda pozycja przeciwna (kategoria) daje osobną pozycję - transakcje z podziałem zachowują podział.
+ * Pozycja na koncie aktywów o nazwie konta aplikacji (także `[Konto]` z QIF) to przelew własny: dostaje
+ * `transferAccountId`, a druga noga powstaje na tym koncie przy imporcie.
+ */
+export const journalToImportItems = (
+  journal: ParsedJournal,
+  sourceAccount: string,
+  accounts: Account[],
+  categories: CategoryItem[]
+): JournalImportResult => {
+  const findAccount = (segment: string) => accounts.find(a => normalizeName(a.name) === normalizeName(segment));
+  const findCategoryName = (segment: string) =>
+    categories.find(c => normalizeName(c.name) === normalizeName(segment))?.name
+      || (journal.format === 'BEANCOUNT' ? segment.replace(/-/g, ' ') : segment);
+  const findSubcategoryName = (categoryName: string, segment?: string) => {
+    if (!segment) return undefined;
+    const category = categories.find(c => c.name === categoryName);
+    return category?.subcategories.find(s => normalizeName(s.name) === normalizeName(segment))?.name
+      || (journal.format === 'BEANCOUNT' ? segment.replace(/-/g, ' ') : segment);
+  };
+
+  const items: any[] = [];
+  let transferCount = 0;
+  let skippedOther = 0;
+
+  journal.transactions.forEach(t => {
+    const source = t.postings.filter(p => p.account === sourceAccount);
+    if (source.length === 0) return;
+    const others = t.postings.filter(p => p.account !== sourceAccount);
+
+    // Kwota pominięta w jednej pozycji = reszta bilansu
+    const known = t.postings.reduce((sum, p) => sum + (p.amount ?? 0), 0);
+    const amountOf = (p: ParsedPosting) => p.amount ?? -known;
+    const sourceTotal = source.reduce((sum, p) => sum + amountOf(p), 0);
+
+    others.forEach(p => {
+      // Jedna pozycja przeciwna: kwota w walucie konta źródłowego (działa też z ceną @@)
+      const signed = others.length === 1 ? sourceTotal : -amountOf(p);
+      if (!signed) return;
+
+      const segments = p.account.split(':');
+      const root = segments[0].toLowerCase();
+      const path = segments.slice(1);
+
+      if (ROOTS.expense.includes(root) || ROOTS.income.includes(root) || isAssetLike(p.account)) {
+        const transferAccount = isAssetLike(p.account) ? findAccount(path[path.length - 1] || '') : undefined;
+        if (transferAccount) transferCount++;
+        const categoryName = findCategoryName(path[0] || segments[0]);
+        const item = createImportItem(t.date, signed, t.description, categoryName);
+        items.push({
+          ...item,
+          subcategoryName: findSubcategoryName(categoryName, path[1]),
+          tags: t.tags.length > 0 ? Array.from(new Set(t.tags)) : undefined,
+          transferAccountId: transferAccount?.id
+        });
+        return;
+      }
+      skippedOther++;
+    });
+  });
+
+  return { items, transferCount, skippedOther };
+};
@@ -0,0 +1,222 @@
+import { Account, CategoryItem, Transaction, TransactionType } from '../types';
+import { isTransfer } from './transferHelpers';
+import { parseAmount } from './importHelpers';
+import { ParsedJournal, ParsedJournalTransaction, ParsedPosting, summarizeAssetAccounts } from './plainTextAccounting';
+
+/**
+ * QIF (Quicken Interchange Format) - format wymiany starszych programów (GnuCash, MS Money, Quicken).
+ *
+ * Import zamienia plik na strukturę dziennika (`ParsedJournal`), więc dalej działa jak import ledger:
+ * konto z `!Account` to `Assets:<Nazwa>`, kategoria `L` to `Expenses:`/`Income:<Kategoria>:<Podkategoria>`,
+ * a `[Konto]` to przelew. Każda linia podziału (`S`/`$`) daje osobną pozycję.
+ */
+
+// --- Import ---
+
+const TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+/** Konto, gdy plik nie zawiera sekcji `!Account` (typowy eksport jednego rachunku). */
+const DEFAULT_ACCOUNT = 'QIF';
+
+type QifRecord = Record<string, string[]>;
+
+/**
+ * Dzieli plik na sekcje (`!Type:...`, `!Account`) i rekordy zakończone `^`.
+ */
+const readRecords = (content: string): { header: string, record: QifRecord }[] => {
+  const result: { header: string, record: QifRecord }[] = [];
+  let header = '';
+  let record: QifRecord = {};
+
+  content.replace(/\r/g, '').split('\n').forEach(rawLine => {
+    const line = rawLine.trimEnd();
+    if (!line) return;
+    if (line.startsWith('!')) {
+      // Dyrektywy !Option / !Clear nie zmieniają bieżącej sekcji
+      if (!/^!(option|clear)/i.test(line)) header = line.slice(1).trim().toLowerCase();
+      record = {};
+      return;
+    }
+    if (line.startsWith('^')) {
+      if (Object.keys(record).length > 0) result.push({ header, record });
+      record = {};
+      return;
+    }
+    const code = line[0];
+    (record[code] = record[code] || []).push(line.slice(1).trim());
+  });
+  return result;
+};
+
+/**
+ * Kolejność dnia i miesiąca ustalamy dla całego pliku: separator "." oznacza zapis europejski,
+ * a pierwsza część większa od 12 - dzień na początku.
+ */
+const detectDayFirst = (dates: string[]): boolean => {
+  if (dates.some(d => d.includes('.'))) return true;
+  return dates.some(d => {
+    const first = parseInt(d.split(/[/\-.']/)[0]);
+    return first > 12 && first < 32;
+  });
+};
+
+const parseQifDate = (val: string, dayFirst: boolean): string | null => {
+  // Quicken: "1/ 5'24" (apostrof = rok 2000+), GnuCash: "01/05/2024", czasem ISO
+  const parts = val.replace(/\s/g, '').split(/[/\-.']/).filter(Boolean).map(p => parseInt(p));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  let [a, b, y] = parts;
+  if (a > 31) [y, a, b] = [a, b, y]; // YYYY-MM-DD
+  else if (dayFirst) [a, b] = [b, a];
+  const m = a, d = b;
+  if (y < 100) y += val.includes("'") || y < 70 ? 2000 : 1900;
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return new Date(y, m - 1, d, 12, 0, 0).toISOString();
+};
+
+const getAccountRoot = (qifType: string) => ['ccard', 'oth l'].includes(qifType.toLowerCase()) ? 'Liabilities' : 'Assets';
+
+/**
+ * Kategoria QIF "Kategoria:Podkategoria/Klasa" -> konto dziennika i klasa (trafia do tagów).
+ * `accountRoots` - typy kont z sekcji `!Account`, aby przelew na kartę trafił do `Liabilities:`.
+ */
+const toCategoryAccount = (category: string | undefined, amount: number, accountRoots: Map<string, string>): { account: string, tag?: string } => {
+  const [name, tag] = (category || '').split('/');
+  const transfer = name.match(/^\[(.+)\]$/);
+  if (transfer) {
+    const target = transfer[1].trim();
+    return { account: `${accountRoots.get(target) || 'Assets'}:${target}`, tag };
+  }
+  // Pozycja przeciwna ma znak odwrotny do kwoty na koncie: wypływ z konta = wydatek
+  return { account: `${amount < 0 ? 'Expenses' : 'Income'}:${name.trim() || 'Inne'}`, tag };
+};
+
+const extractMemoTags = (memo: string): string[] => Array.from(memo.matchAll(/#([^\s#]+)/g)).map(m => m[1]);
+
+/**
+ * Parsuje plik QIF (sekcje Bank, Cash, CCard, Oth A, Oth L). Inwestycje i listy (kategorie, klasy) są pomijane.
+ */
+export const parseQif = (content: string): ParsedJournal => {
+  const records = readRecords(content);
+  const dayFirst = detectDayFirst(records.filter(r => r.record.D).map(r => r.record.D[0]));
+  const transactions: ParsedJournalTransaction[] = [];
+  const accountRoots = new Map(records
+    .filter(r => r.header === 'account' && r.record.N)
+    .map(r => [r.record.N[0], getAccountRoot(r.record.T?.[0] || '')]));
+  // Przelew między kontami pliku występuje w obu sekcjach - drugą kopię pomijamy
+  const pendingMirrors: { key: string, account: string }[] = [];
+  let accountName = `Assets:${DEFAULT_ACCOUNT}`;
+
+  records.forEach(({ header, record }) => {
+    if (header === 'account') {
+      const name = record.N?.[0] || DEFAULT_ACCOUNT;
+      accountName = `${accountRoots.get(name) || 'Assets'}:${name}`;
+      return;
+    }
+    if (!TRANSACTION_TYPES.includes(header.replace(/^type:/, ''))) return;
+
+    const date = record.D ? parseQifDate(record.D[0], dayFirst) : null;
+    const total = parseAmount((record.T || record.U)?.[0] || '', '.');
+    if (!date || !total) return;
+
+    const memo = record.M?.[0] || '';
+    const tags = extractMemoTags(memo);
+    const description = (record.P?.[0] || memo.replace(/#[^\s#]+/g, '').trim() || 'Bez opisu');
+    const postings: ParsedPosting[] = [{ account: accountName, amount: total }];
+
+    const splitCategories = record.S || [];
+    if (splitCategories.length > 0) {
+      splitCategories.forEach((category, i) => {
+        const amount = parseAmount(record.$?.[i] || '', '.');
+        if (!amount) return;
+        const { account, tag } = toCategoryAccount(category, amount, accountRoots);
+        if (tag) tags.push(tag);
+        postings.push({ account, amount: -amount });
+      });
+    } else {
+      const { account, tag } = toCategoryAccount(record.L?.[0], total, accountRoots);
+      if (tag) tags.push(tag);
+      postings.push({ account, amount: -total });
+
+      if (/^\[.+\]/.test(record.L?.[0] || '')) {
+        const key = [date, Math.abs(total).toFixed(2), ...[accountName, account].sort()].join('|');
+        const mirror = pendingMirrors.findIndex(m => m.key === key && m.account !== accountName);
+        if (mirror >= 0) {
+          pendingMirrors.splice(mirror, 1);
+          return;
+        }
+        pendingMirrors.push({ key, account: accountName });
+      }
+    }
+
+    transactions.push({ date, description, tags: Array.from(new Set(tags)), postings });
+  });
+
+  return { format: 'QIF', transactions, assetAccounts: summarizeAssetAccounts(transactions) };
+};
+
+// --- Eksport ---
+
+const QIF_ACCOUNT_TYPES: Record<Account['type'], string> = {
+  CHECKING: 'Bank',
+  SAVINGS: 'Bank',
+  CREDIT_CARD: 'CCard',
+  CASH: 'Cash'
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const formatQifDate = (iso: string) => {
+  const date = new Date(iso);
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+};
+
+/** Nazwy w QIF: dwukropek rozdziela podkategorię, ukośnik - klasę, nawiasy oznaczają konto. */
+const toQifName = (name: string) => name.replace(/[:/[\]]/g, '-').trim();
+
+/**
+ * Eksport do QIF: lista kategorii (`!Type:Cat`), a następnie transakcje pogrupowane w sekcje kont.
+ * Przelewy własne mają kategorię `[Konto docelowe]` po obu stronach. Tagi trafiają do notatki (`M`) jako #tag.
+ * Daty w formacie MM/DD/YYYY (domyślny dla Quicken i GnuCash).
+ */
+export const exportQif = (transactions: Transaction[], categories: CategoryItem[], accounts: Account[]): string => {
+  const lines: string[] = ['!Type:Cat'];
+  categories
+    .filter(c => transactions.some(t => t.categoryId === c.id && !isTransfer(t)))
+    .forEach(c => {
+      const flag = c.type === TransactionType.INCOME ? 'I' : 'E';
+      lines.push(`N${toQifName(c.name)}`, flag, '^');
+      c.subcategories.forEach(s => lines.push(`N${toQifName(c.name)}:${toQifName(s.name)}`, flag, '^'));
+    });
+
+  const getAccountName = (accountId: string) => toQifName(accounts.find(a => a.id === accountId)?.name || 'Nieznane');
+
+  accounts.forEach(account => {
+    const accountTransactions = transactions
+      .filter(t => t.accountId === account.id)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (accountTransactions.length === 0) return;
+
+    const qifType = QIF_ACCOUNT_TYPES[account.type] || 'Bank';
+    lines.push('!Account', `N${toQifName(account.name)}`, `T${qifType}`, '^', `!Type:${qifType}`);
+
+    accountTransactions.forEach(t => {
+      const amount = t.type === TransactionType.INCOME ? t.amount : -t.amount;
+      let category: string;
+      if (isTransfer(t)) {
+        const otherLeg = transactions.find(l => l.transferId === t.transferId && l.id !== t.id);
+        category = `[${otherLeg ? getAccountName(otherLeg.accountId) : 'Nieznane'}]`;
+      } else {
+        const cat = categories.find(c => c.id === t.categoryId);
+        const sub = cat?.subcategories.find(s => s.id === t.subcategoryId);
+        category = [cat?.name || 'Inne', sub?.name].filter(Boolean).map(n => toQifName(n!)).join(':');
+      }
+
+      lines.push(`D${formatQifDate(t.date)}`, `T${amount.toFixed(2)}`);
+      if (t.reconcileStatus) lines.push(t.reconcileStatus === 'RECONCILED' ? 'CX' : 'C*');
+      lines.push(`P${t.description.replace(/\s+/g, ' ')}`);
+      if (t.tags && t.tags.length > 0) lines.push(`M${t.tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' ')}`);
+      lines.push(`L${category}`, '^');
+    });
+  });
+
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,137 @@
+import { Account, Transaction, TransactionType } from '../types';
+import { RateTable, convertAmount, getCurrency } from './currencyHelpers';
+import { StatementEntry } from './bankStatement';
+
+/**
+ * Uzgadnianie salda konta z wyciągiem bankowym.
+ * Daty porównujemy jako YYYY-MM-DD (transakcje mają godzinę 12:00, więc część dnia z ISO jest stabilna).
+ */
+
+export interface ReconcileCandidate {
+  key: string;
+  date: string; // ISO
+  amount: number; // Ze znakiem, w walucie konta
+  description: string;
+  transaction?: Transaction; // Brak = pozycja tylko z wyciągu
+  reason: string;
+}
+
+export interface ReconcileCandidates {
+  missing: ReconcileCandidate[]; // Prawdopodobnie brakuje w historii (lub zapisane z inną datą)
+  extra: ReconcileCandidate[]; // Prawdopodobnie nie ma ich na wyciągu
+}
+
+/** Tolerancja porównań kwot (zaokrąglenia do groszy). */
+export const RECONCILE_EPSILON = 0.005;
+/** O ile dni bank może zaksięgować operację później niż data w historii (i odwrotnie). */
+const BOOKING_LAG_DAYS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDateKey = (iso: string): string => iso.split('T')[0];
+
+/**
+ * Kwota transakcji ze znakiem, przeliczona na walutę konta (jak w saldach kont).
+ * Zwraca `null`, gdy brakuje kursu - takiej transakcji nie da się wliczyć do salda.
+ */
+export const getSignedAccountAmount = (t: Transaction, account: Account, rateTable: RateTable): number | null => {
+  const amount = convertAmount(t.amount, getCurrency(t), getCurrency(account), t.date, rateTable);
+  if (amount === null) return null;
+  return t.type === TransactionType.INCOME ? amount : -amount;
+};
+
+/**
+ * Waluty transakcji konta (do dnia `date` włącznie), których nie da się przeliczyć na walutę konta.
+ */
+export const getAccountCurrenciesWithoutRates = (account: Account, transactions: Transaction[], date: string, rateTable: RateTable): string[] => {
+  const missing = new Set<string>();
+  transactions
+    .filter(t => t.accountId === account.id && toDateKey(t.date) <= date)
+    .forEach(t => {
+      if (getSignedAccountAmount(t, account, rateTable) === null) missing.add(getCurrency(t));
+    });
+  return Array.from(missing).sort();
+};
+
+/**
+ * Saldo konta na koniec dnia `date` (YYYY-MM-DD): saldo początkowe + wszystkie operacje do tego dnia włącznie.
+ * Transakcje bez kursu są pomijane (patrz `getAccountCurrenciesWithoutRates`).
+ */
+export const getBalanceAtDate = (account: Account, transactions: Transaction[], date: string, rateTable: RateTable): number => {
+  const balance = transactions
+    .filter(t => t.accountId === account.id && toDateKey(t.date) <= date)
+    .reduce((sum, t) => sum + (getSignedAccountAmount(t, account, rateTable) ?? 0), account.initialBalance || 0);
+  return Math.round(balance * 100) / 100;
+};
+
+const daysBetween = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS;
+
+const fromTransaction = (t: Transaction, amount: number, reason: string): ReconcileCandidate => ({
+  key: t.id, date: t.date, amount, description: t.description, transaction: t, reason
+});
+
+/**
+ * Szuka transakcji odpowiedzialnych za różnicę (`difference` = saldo wyciągu - saldo w aplikacji).
+ *
+ * Z pozycjami wyciągu: paruje je z historią (ta sama kwota, data w oknie opóźnienia księgowania);
+ * niesparowane pozycje wyciągu to braki, niesparowane transakcje z okresu wyciągu - nadmiarowe.
+ * Bez wyciągu: wskazuje transakcje o kwocie równej różnicy - zapisane do tego dnia (nadmiarowe)
+ * lub tuż po nim (mogły zostać zaksięgowane wcześniej).
+ */
+export const findReconcileCandidates = (
+  account: Account,
+  transactions: Transaction[],
+  date: string,
+  difference: number,
+  rateTable: RateTable,
+  entries?: StatementEntry[]
+): ReconcileCandidates => {
+  const accountTxs = transactions
+    .filter(t => t.accountId === account.id)
+    .map(t => ({ t, amount: getSignedAccountAmount(t, account, rateTable) }))
+    .filter((item): item is { t: Transaction, amount: number } => item.amount !== null);
+
+  if (entries && entries.length > 0) {
+    const periodEntries = entries.filter(e => toDateKey(e.date) <= date);
+    const periodStart = periodEntries.reduce((min, e) => toDateKey(e.date) < min ? toDateKey(e.date) : min, date);
+    const inPeriod = accountTxs.filter(({ t }) => toDateKey(t.date) >= periodStart && toDateKey(t.date) <= date);
+    const matched = new Set<string>();
+    const missing: ReconcileCandidate[] = [];
+
+    periodEntries.forEach((entry, index) => {
+      const match = inPeriod
+        .filter(({ t, amount }) => !matched.has(t.id) && Math.abs(amount - entry.amount) < RECONCILE_EPSILON && daysBetween(t.date, entry.date) <= BOOKING_LAG_DAYS)
+        .sort((a, b) => daysBetween(a.t.date, entry.date) - daysBetween(b.t.date, entry.date))[0]
+        // Poza okresem: transakcja zapisana z datą po dniu wyciągu
+        || accountTxs.find(({ t, amount }) => !matched.has(t.id) && Math.abs(amount - entry.amount) < RECONCILE_EPSILON && toDateKey(t.date) > date && daysBetween(t.date, entry.date) <= BOOKING_LAG_DAYS);
+
+      if (match) {
+        matched.add(match.t.id);
+        if (toDateKey(match.t.date) > date) {
+          missing.push(fromTransaction(match.t, match.amount, 'Na wyciągu, w historii z późniejszą datą'));
+        }
+        return;
+      }
+      missing.push({ key: `entry-${index}`, date: entry.date, amount: entry.amount, description: entry.description, reason: 'Na wyciągu, brak w historii' });
+    });
+
+    const extra = inPeriod
+      .filter(({ t }) => !matched.has(t.id))
+      .map(({ t, amount }) => fromTransaction(t, amount, 'W historii, brak na wyciągu'));
+
+    return { missing, extra };
+  }
+
+  if (Math.abs(difference) < RECONCILE_EPSILON) return { missing: [], extra: [] };
+
+  const lagLimit = toDateKey(new Date(new Date(`${date}T12:00:00`).getTime() + BOOKING_LAG_DAYS * DAY_MS).toISOString());
+  return {
+    // Brakuje +difference: transakcja z kolejnych dni mogła trafić na wyciąg wcześniej
+    missing: accountTxs
+      .filter(({ t, amount }) => toDateKey(t.date) > date && toDateKey(t.date) <= lagLimit && Math.abs(amount - difference) < RECONCILE_EPSILON)
+      .map(({ t, amount }) => fromTransaction(t, amount, 'Kwota równa różnicy, data po dniu wyciągu')),
+    // Nadmiar: usunięcie transakcji o kwocie -difference wyrównałoby saldo
+    extra: accountTxs
+      .filter(({ t, amount }) => toDateKey(t.date) <= date && !t.reconcileStatus && Math.abs(amount + difference) < RECONCILE_EPSILON)
+      .map(({ t, amount }) => fromTransaction(t, amount, 'Kwota równa różnicy'))
+  };
+};
@@ -0,0 +1,123 @@
+import { Transaction, TransactionType, CategoryItem } from '../types';
+import { getCategoryName } from '../constants';
+import { AnalysisPayload } from './analysisEngine';
+
+/**
+ * Dane raportu do wydruku (miesięcznego, kwartalnego, rocznego).
+ * Wejściem są transakcje już przefiltrowane przez `calculateAnalysis` (okres, konto, tag, bez przelewów).
+ */
+
+type PeriodType = AnalysisPayload['periodType'];
+
+export interface ReportCategoryRow {
+  categoryId: string;
+  name: string;
+  color: string;
+  isSavings: boolean;
+  actual: number;
+  budget?: number; // Limit miesięczny przemnożony przez liczbę miesięcy okresu
+  share: number;   // Udział w sumie wydatków (0-100)
+}
+
+export interface ReportTagRow {
+  name: string;
+  value: number;
+  percent: number; // Udział w wydatkach konsumpcyjnych (0-100)
+}
+
+export interface PeriodReport {
+  monthCount: number;
+  savings: number;
+  categoryRows: ReportCategoryRow[];
+  incomeRows: ReportCategoryRow[];
+  topTags: ReportTagRow[];
+  largestTransactions: Transaction[];
+}
+
+/** Ile pozycji pokazujemy w rankingach raportu. */
+const REPORT_TOP_N = 10;
+
+export const formatPeriodLabel = (periodType: PeriodType, year: number, periodValue: number): string => {
+  if (periodType === 'ALL') return 'Cała historia';
+  if (periodType === 'YEAR') return `${year}`;
+  if (periodType === 'QUARTER') return `Q${periodValue} ${year}`;
+  return new Date(year, periodValue, 1).toLocaleDateString('pl-PL', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * Liczba miesięcy okresu - mnożnik miesięcznych limitów budżetu.
+ * Dla całej historii liczymy miesiące od pierwszej do ostatniej transakcji.
+ */
+export const getPeriodMonthCount = (periodType: PeriodType, transactions: Transaction[]): number => {
+  if (periodType === 'MONTH') return 1;
+  if (periodType === 'QUARTER') return 3;
+  if (periodType === 'YEAR') return 12;
+  if (transactions.length === 0) return 1;
+  const dates = transactions.map(t => new Date(t.date));
+  const min = new Date(Math.min(...dates.map(d => d.getTime())));
+  const max = new Date(Math.max(...dates.map(d => d.getTime())));
+  return (max.getFullYear() - min.getFullYear()) * 12 + (max.getMonth() - min.getMonth()) + 1;
+};
+
+const sumByCategory = (transactions: Transaction[], categories: CategoryItem[], type: TransactionType, monthCount: number): ReportCategoryRow[] => {
+  const totals = new Map<string, number>();
+  transactions
+    .filter(t => t.type === type)
+    .forEach(t => totals.set(t.categoryId, (totals.get(t.categoryId) || 0) + t.amount));
+  const total = Array.from(totals.values()).reduce((sum, v) => sum + v, 0);
+
+  // Kategorie z budżetem pokazujemy także bez wydatków - niewykorzystany limit też jest informacją
+  if (type === TransactionType.EXPENSE) {
+    categories
+      .filter(c => c.type === TransactionType.EXPENSE && c.budgetLimit && c.budgetLimit > 0 && !totals.has(c.id))
+      .forEach(c => totals.set(c.id, 0));
+  }
+
+  return Array.from(totals.entries())
+    .map(([categoryId, actual]) => {
+      const category = categories.find(c => c.id === categoryId);
+      return {
+        categoryId,
+        name: getCategoryName(categoryId, categories),
+        color: category?.color || '#94a3b8',
+        isSavings: !!category?.isIncludedInSavings,
+        actual,
+        budget: category?.budgetLimit && category.budgetLimit > 0 ? category.budgetLimit * monthCount : undefined,
+        share: total > 0 ? (actual / total) * 100 : 0
+      };
+    })
+    .sort((a, b) => b.actual - a.actual);
+};
+
+/**
+ * Tabele raportu: kategorie z budżetem, ranking tagów i największe transakcje.
+ */
+export const buildPeriodReport = (transactions: Transaction[], categories: CategoryItem[], periodType: PeriodType): PeriodReport => {
+  const monthCount = getPeriodMonthCount(periodType, transactions);
+  const savingsCategoryIds = new Set(categories.filter(c => c.isIncludedInSavings).map(c => c.id));
+  const consumerExpenses = transactions.filter(t => t.type === TransactionType.EXPENSE && !savingsCategoryIds.has(t.categoryId));
+  const totalConsumerExpenses = consumerExpenses.reduce((sum, t) => sum + t.amount, 0);
+
+  // Tagi liczone jak w "Ranking Tagów" - bez oszczędności
+  const tagMap = new Map<string, number>();
+  consumerExpenses.forEach(t => (t.tags || []).forEach(tag => tagMap.set(tag, (tagMap.get(tag) || 0) + t.amount)));
+  const topTags = Array.from(tagMap.entries())
+    .map(([name, value]) => ({ name, value, percent: totalConsumerExpenses > 0 ? (value / totalConsumerExpenses) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, REPORT_TOP_N);
+
+  const largestTransactions = [...transactions]
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, REPORT_TOP_N);
+
+  return {
+    monthCount,
+    savings: transactions
+      .filter(t => t.type === TransactionType.EXPENSE && savingsCategoryIds.has(t.categoryId))
+      .reduce((sum, t) => sum + t.amount, 0),
+    categoryRows: sumByCategory(transactions, categories, TransactionType.EXPENSE, monthCount),
+    incomeRows: sumByCategory(transactions, categories, TransactionType.INCOME, monthCount),
+    topTags,
+    largestTransactions
+  };
+};
@@ -0,0 +1,149 @@
+import { CategorizationRule, Transaction, TransactionType } from '../types';
+import { isTransfer } from './transferHelpers';
+
+/**
+ * Minimalny zestaw pól, na których operują reguły
+ * (transakcja w bazie, wiersz importu, formularz).
+ */
+export interface RuleSubject {
+  description: string;
+  amount: number;
+  type: TransactionType;
+  accountId?: string;
+}
+
+export interface RuleResult {
+  categoryId?: string;
+  subcategoryId?: string;
+  tags: string[];
+  description?: string;
+  matchedRules: CategorizationRule[];
+}
+
+interface PreparedRule {
+  rule: CategorizationRule;
+  regex: RegExp | null;
+}
+
+/**
+ * Sortuje aktywne reguły po priorytecie i kompiluje wyrażenia regularne.
+ * Reguły z błędnym wyrażeniem są pomijane.
+ */
+const prepareRules = (rules: CategorizationRule[]): PreparedRule[] => {
+  return rules
+    .filter(r => r.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .map(rule => {
+      const { descriptionMode, descriptionPattern } = rule.conditions;
+      if (descriptionMode !== 'REGEX' || !descriptionPattern) return { rule, regex: null };
+      try {
+        return { rule, regex: new RegExp(descriptionPattern, 'i') };
+      } catch {
+        return null;
+      }
+    })
+    .filter((p): p is PreparedRule => p !== null);
+};
+
+export const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const matchPrepared = ({ rule, regex }: PreparedRule, subject: RuleSubject): RegExpExecArray | true | null => {
+  const { descriptionMode, descriptionPattern, minAmount, maxAmount, type, accountId } = rule.conditions;
+
+  if (type && subject.type !== type) return null;
+  if (accountId && subject.accountId !== accountId) return null;
+  if (minAmount !== undefined && subject.amount < minAmount) return null;
+  if (maxAmount !== undefined && subject.amount > maxAmount) return null;
+
+  if (!descriptionPattern) return true;
+  if (descriptionMode === 'REGEX') {
+    return regex ? regex.exec(subject.description) : null;
+  }
+  return subject.description.toLowerCase().includes(descriptionPattern.toLowerCase()) ? true : null;
+};
+
+/**
+ * Uruchamia reguły na transakcji.
+ * Reguły są sprawdzane wg priorytetu: kategoria i opis pochodzą z pierwszej pasującej reguły,
+ * która je ustawia, tagi ze wszystkich pasujących reguł są łączone.
+ * Zwraca `null`, gdy żadna reguła nie pasuje.
+ */
+export const applyRules = (rules: CategorizationRule[], subject: RuleSubject): RuleResult | null => {
+  const result: RuleResult = { tags: [], matchedRules: [] };
+
+  prepareRules(rules).forEach(prepared => {
+    const match = matchPrepared(prepared, subject);
+    if (match === null) return;
+
+    const { actions } = prepared.rule;
+    result.matchedRules.push(prepared.rule);
+
+    if (actions.categoryId && !result.categoryId) {
+      result.categoryId = actions.categoryId;
+      result.subcategoryId = actions.subcategoryId;
+    }
+    if (actions.description && result.description === undefined) {
+      result.description = match === true
+        ? actions.description
+        : actions.description.replace(/\$(\d)/g, (_, group) => match[parseInt(group)] || '').trim();
+    }
+    actions.tags?.forEach(tag => {
+      if (!result.tags.includes(tag)) result.tags.push(tag);
+    });
+  });
+
+  return result.matchedRules.length > 0 ? result : null;
+};
+
+export interface RulePreviewRow {
+  transaction: Transaction;
+  updated: Transaction;
+  ruleNames: string[];
+}
+
+/**
+ * Wylicza zmiany, jakie reguły wprowadziłyby w istniejącej historii.
+ * Zwraca tylko transakcje, które faktycznie by się zmieniły. Przelewy własne są pomijane.
+ */
+export const previewRulesOnHistory = (
+  rules: CategorizationRule[],
+  transactions: Transaction[],
+  onlyCategoryIds?: string[]
+): RulePreviewRow[] => {
+  const rows: RulePreviewRow[] = [];
+
+  transactions.forEach(t => {
+    if (isTransfer(t)) return;
+    if (onlyCategoryIds && !onlyCategoryIds.includes(t.categoryId)) return;
+
+    const result = applyRules(rules, t);
+    if (!result) return;
+
+    const mergedTags = Array.from(new Set([...(t.tags || []), ...result.tags]));
+    const updated: Transaction = {
+      ...t,
+      categoryId: result.categoryId || t.categoryId,
+      subcategoryId: result.categoryId ? result.subcategoryId : t.subcategoryId,
+      description: result.description || t.description,
+      tags: mergedTags
+    };
+
+    const changed = updated.categoryId !== t.categoryId
+      || updated.subcategoryId !== t.subcategoryId
+      || updated.description !== t.description
+      || mergedTags.length !== (t.tags || []).length;
+
+    if (changed) {
+      rows.push({ transaction: t, updated, ruleNames: result.matchedRules.map(r => r.name) });
+    }
+  });
+
+  return rows;
+};
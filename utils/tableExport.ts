@@ -0,0 +1,106 @@
+import { Account, CategoryItem, Transaction, TransactionType } from '../types';
+import { getCategoryName } from '../constants';
+import { getCurrency } from './currencyHelpers';
+import { isTransfer } from './transferHelpers';
+import { XlsxCell } from './xlsx';
+
+/**
+ * Tabele eksportu (nagłówek + wiersze) niezależne od formatu pliku.
+ * Kwoty to liczby, daty to obiekty `Date` - formatowanie należy do eksportera.
+ */
+export interface ExportTable {
+  header: string[];
+  rows: XlsxCell[][];
+  columnWidths?: number[];
+}
+
+interface FinancialHealthBucket {
+  name: string;
+  income: number;
+  expense: number;
+  savings: number;
+  savingsRate: number; // W procentach (0-100)
+}
+
+const getTypeLabel = (t: Transaction): string => {
+  if (isTransfer(t)) return 'Przelew';
+  return t.type === TransactionType.INCOME ? 'Przychód' : 'Wydatek';
+};
+
+/**
+ * Nagłówek eksportu transakcji. Rozpoznawany przy imporcie przez wbudowany profil "bTrackr".
+ */
+export const TRANSACTION_EXPORT_HEADER = ['Data', 'Opis', 'Typ', 'Kategoria', 'Podkategoria', 'Konto', 'Kwota', 'Waluta', 'Tagi'];
+
+/**
+ * Lista transakcji (np. przefiltrowana historia). Kwota ze znakiem, w walucie transakcji.
+ */
+export const getTransactionsTable = (transactions: Transaction[], categories: CategoryItem[], accounts: Account[]): ExportTable => ({
+  header: TRANSACTION_EXPORT_HEADER,
+  rows: transactions.map(t => {
+    const category = categories.find(c => c.id === t.categoryId);
+    const subcategory = category?.subcategories.find(s => s.id === t.subcategoryId);
+    const amount = t.originalAmount ?? t.amount;
+    return [
+      new Date(t.date),
+      t.description,
+      getTypeLabel(t),
+      isTransfer(t) ? '' : getCategoryName(t.categoryId, categories),
+      subcategory?.name || '',
+      accounts.find(a => a.id === t.accountId)?.name || '',
+      t.type === TransactionType.INCOME ? amount : -amount,
+      getCurrency(t),
+      (t.tags || []).join(', ')
+    ];
+  }),
+  columnWidths: [12, 40, 10, 20, 20, 18, 14, 8, 24]
+});
+
+/**
+ * Sumy kategorii w kolejnych miesiącach (wiersze: kategorie, kolumny: miesiące YYYY-MM).
+ * Przychody dodatnie, wydatki ujemne; przelewy własne pomijamy.
+ */
+export const getCategoryMonthTable = (transactions: Transaction[], categories: CategoryItem[]): ExportTable => {
+  const totals = new Map<string, Map<string, number>>();
+  const months = new Set<string>();
+
+  transactions.filter(t => !isTransfer(t)).forEach(t => {
+    const month = t.date.slice(0, 7);
+    months.add(month);
+    const byMonth = totals.get(t.categoryId) || new Map<string, number>();
+    const signed = t.type === TransactionType.INCOME ? t.amount : -t.amount;
+    byMonth.set(month, (byMonth.get(month) || 0) + signed);
+    totals.set(t.categoryId, byMonth);
+  });
+
+  const sortedMonths = Array.from(months).sort();
+  const rows = Array.from(totals.entries())
+    .map(([categoryId, byMonth]) => {
+      const values = sortedMonths.map(m => Math.round((byMonth.get(m) || 0) * 100) / 100);
+      const sum = Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100;
+      return { name: getCategoryName(categoryId, categories), values, sum };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, 'pl'));
+
+  return {
+    header: ['Kategoria', ...sortedMonths, 'Razem'],
+    rows: rows.map(r => [r.name, ...r.values, r.sum]),
+    columnWidths: [24, ...sortedMonths.map(() => 12), 14]
+  };
+};
+
+/**
+ * Dane wykresu "Zdrowie finansowe" (`financialHealthData` z silnika analizy).
+ */
+export const getFinancialHealthTable = (buckets: FinancialHealthBucket[]): ExportTable => ({
+  header: ['Okres', 'Przychody', 'Wydatki', 'Oszczędności', 'Nadwyżka', 'Stopa oszczędności'],
+  rows: buckets.map(b => [
+    b.name,
+    b.income,
+    b.expense,
+    b.savings,
+    Math.round((b.income - b.expense) * 100) / 100,
+    { value: b.savingsRate / 100, format: 'percent' }
+  ]),
+  columnWidths: [14, 14, 14, 14, 14, 18]
+});
@@ -0,0 +1,106 @@
+import { Transaction, TransactionChange, TransactionChangeAction, TransactionFieldChange } from '../types';
+
+/**
+ * Historia zmian transakcji (audyt dla wspólnych finansów domowych).
+ *
+ * - Każda transakcja dostaje `createdAt` / `updatedAt`.
+ * - Utworzenie (ręczne, import, płatność cykliczna, podział), każda zmiana pól z `TRACKED_FIELDS` i usunięcie
+ *   zapisuje wpis w tabeli `transactionHistory` - w tej samej transakcji bazy co zmiana.
+ * - Historia nie jest usuwana razem z transakcją (podzielone części odwołują się do oryginału).
+ */
+
+export const TRACKED_FIELDS: Partial<Record<keyof Transaction, string>> = {
+  date: 'Data',
+  description: 'Opis',
+  amount: 'Kwota',
+  currency: 'Waluta',
+  type: 'Typ',
+  categoryId: 'Kategoria',
+  subcategoryId: 'Podkategoria',
+  accountId: 'Konto',
+  tags: 'Tagi',
+  reconcileStatus: 'Uzgodnienie'
+};
+
+const CATEGORY_FIELDS: (keyof Transaction)[] = ['categoryId', 'subcategoryId'];
+
+export const CHANGE_ACTION_LABELS: Record<TransactionChangeAction, string> = {
+  CREATED: 'Dodano ręcznie',
+  IMPORTED: 'Zaimportowano',
+  RECURRING: 'Utworzono z płatności cyklicznej',
+  SPLIT: 'Utworzono z podziału',
+  EDITED: 'Edytowano',
+  RECATEGORIZED: 'Zmieniono kategorię',
+  DELETED: 'Usunięto'
+};
+
+type ChangeSource = Pick<TransactionChange, 'importBatchId' | 'recurringRuleId' | 'splitFromId' | 'note'>;
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const diffTransaction = (before: Transaction, after: Transaction): TransactionFieldChange[] =>
+  (Object.keys(TRACKED_FIELDS) as (keyof Transaction)[])
+    .filter(field => !isSameValue(before[field], after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+
+const createEntry = (transactionId: string, action: TransactionChangeAction, timestamp: string, extra: Partial<TransactionChange> = {}): TransactionChange => ({
+  id: crypto.randomUUID(),
+  transactionId,
+  timestamp,
+  action,
+  ...extra
+});
+
+/** Nowa transakcja: daty utworzenia i zmiany. */
+export const stampCreated = <T extends Transaction>(transaction: T, now: string = new Date().toISOString()): T =>
+  ({ ...transaction, createdAt: transaction.createdAt || now, updatedAt: now });
+
+/** Zmieniona transakcja: data zmiany (data utworzenia zachowana z poprzedniej wersji). */
+export const stampUpdated = (before: Transaction, after: Transaction, now: string = new Date().toISOString()): Transaction =>
+  ({ ...after, createdAt: before.createdAt, updatedAt: now });
+
+/**
+ * Wpisy utworzenia. Akcja wynika ze źródła, chyba że podano ją jawnie.
+ */
+export const createdEntries = (transactions: Transaction[], source: ChangeSource = {}, action?: TransactionChangeAction): TransactionChange[] => {
+  const resolvedAction: TransactionChangeAction = action
+    || (source.splitFromId ? 'SPLIT' : source.recurringRuleId ? 'RECURRING' : source.importBatchId ? 'IMPORTED' : 'CREATED');
+  return transactions.map(t => createEntry(t.id, resolvedAction, t.createdAt || new Date().toISOString(), source));
+};
+
+/**
+ * Wpisy zmian dla par (przed, po). Pary bez zmian śledzonych pól są pomijane;
+ * zmiana wyłącznie kategorii/podkategorii to RECATEGORIZED.
+ */
+export const updatedEntries = (pairs: { before: Transaction, after: Transaction }[], source: ChangeSource = {}, now: string = new Date().toISOString()): TransactionChange[] =>
+  pairs.flatMap(({ before, after }) => {
+    const changes = diffTransaction(before, after);
+    if (changes.length === 0) return [];
+    const action = changes.every(c => CATEGORY_FIELDS.includes(c.field)) ? 'RECATEGORIZED' : 'EDITED';
+    return [createEntry(after.id, action, now, { ...source, changes })];
+  });
+
+/**
+ * Wpisy usunięcia. Wartości śledzonych pól trafiają do `changes` (transakcji już nie będzie w bazie).
+ */
+export const deletedEntries = (transactions: Transaction[], source: ChangeSource = {}): TransactionChange[] => {
+  const now = new Date().toISOString();
+  return transactions.map(t => createEntry(t.id, 'DELETED', now, {
+    ...source,
+    changes: (Object.keys(TRACKED_FIELDS) as (keyof Transaction)[])
+      .filter(field => t[field] !== undefined)
+      .map(field => ({ field, before: t[field] }))
+  }));
+};
+
+/**
+ * Stempluje zmienione transakcje i tworzy ich wpisy historii. `before` i `after` w tej samej kolejności.
+ */
+export const trackUpdates = (before: Transaction[], after: Transaction[], source: ChangeSource = {}) => {
+  const now = new Date().toISOString();
+  const pairs = after.map((t, i) => ({
+    before: before[i],
+    after: diffTransaction(before[i], t).length > 0 ? stampUpdated(before[i], t, now) : t
+  }));
+  return { updated: pairs.map(p => p.after), entries: updatedEntries(pairs, source, now) };
+};
@@ -0,0 +1,44 @@
+import { Transaction, TransactionType, TransferInput } from '../types';
+import { SYSTEM_IDS } from '../constants';
+
+export const isTransfer = (t: Transaction): boolean => !!t.transferId;
+
+/**
+ * Tworzy parę transakcji przelewu własnego: obciążenie konta źródłowego
+ * i uznanie konta docelowego, połączone wspólnym `transferId`.
+ */
+export const buildTransferPair = (input: TransferInput, transferId: string = crypto.randomUUID()): [Transaction, Transaction] => {
+  const base = {
+    amount: input.amount,
+    description: input.description,
+    date: input.date,
+    tags: input.tags,
+    currency: input.currency,
+    categoryId: SYSTEM_IDS.INTERNAL_TRANSFER,
+    transferId
+  };
+
+  return [
+    { ...base, id: crypto.randomUUID(), type: TransactionType.EXPENSE, accountId: input.fromAccountId },
+    { ...base, id: crypto.randomUUID(), type: TransactionType.INCOME, accountId: input.toAccountId }
+  ];
+};
+
+/**
+ * Odtwarza dane przelewu na podstawie jego nóg (do edycji).
+ */
+export const getTransferInput = (legs: Transaction[]): TransferInput | null => {
+  const debit = legs.find(t => t.type === TransactionType.EXPENSE);
+  const credit = legs.find(t => t.type === TransactionType.INCOME);
+  if (!debit || !credit) return null;
+
+  return {
+    fromAccountId: debit.accountId,
+    toAccountId: credit.accountId,
+    amount: debit.amount,
+    date: debit.date,
+    description: debit.description,
+    tags: debit.tags,
+    currency: debit.currency
+  };
+};
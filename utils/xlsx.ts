@@ -0,0 +1,254 @@
+import { createZip, readZip, ZipEntries } from './zip';
+
+/**
+ * Odczyt i zapis arkuszy Excel (.xlsx, SpreadsheetML) bez zależności zewnętrznych.
+ * Odczyt zwraca wiersze jako tekst (jak Papa.parse), więc dalej działa zwykłe mapowanie kolumn;
+ * komórki z formatem daty zamieniamy na YYYY-MM-DD.
+ */
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][];
+}
+
+// --- Odczyt ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Wbudowane identyfikatory formatów dat/czasu (ECMA-376, 18.8.30). */
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+const parseXml = (entries: ZipEntries, path: string): Document | null => {
+  const data = entries.get(path);
+  if (!data) return null;
+  return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+};
+
+const elements = (parent: Document | Element, tag: string): Element[] => Array.from(parent.getElementsByTagName(tag));
+
+/** Tekst komórki / wpisu sharedStrings: suma wszystkich `<t>` (formatowane fragmenty `<r>`), bez transkrypcji `<rPh>`. */
+const richText = (el: Element): string =>
+  elements(el, 't').filter(t => t.parentElement?.tagName !== 'rPh').map(t => t.textContent || '').join('');
+
+const isDateFormatCode = (code: string): boolean => {
+  const clean = code.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, '').replace(/\\./g, '');
+  return /[dmy]/i.test(clean);
+};
+
+/** Indeksy stylów (`s` komórki), które oznaczają datę. */
+const getDateStyles = (styles: Document | null): Set<number> => {
+  const result = new Set<number>();
+  if (!styles) return result;
+  const customDateFormats = new Set(
+    elements(styles, 'numFmt')
+      .filter(f => isDateFormatCode(f.getAttribute('formatCode') || ''))
+      .map(f => parseInt(f.getAttribute('numFmtId') || '-1'))
+  );
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return result;
+  elements(cellXfs, 'xf').forEach((xf, index) => {
+    const id = parseInt(xf.getAttribute('numFmtId') || '0');
+    if (BUILT_IN_DATE_FORMATS.has(id) || customDateFormats.has(id)) result.add(index);
+  });
+  return result;
+};
+
+const serialToDateString = (serial: number, date1904: boolean): string => {
+  const epoch = Date.UTC(1899, 11, 30) + (date1904 ? 1462 * DAY_MS : 0);
+  return new Date(epoch + Math.floor(serial) * DAY_MS).toISOString().split('T')[0];
+};
+
+/** "BC12" -> 54 (indeks kolumny od zera). */
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + ch.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+const resolveTarget = (target: string): string =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<XlsxSheet[]> => {
+  const entries = await readZip(buffer);
+  const workbook = parseXml(entries, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Plik nie zawiera skoroszytu Excel.');
+
+  const rels = parseXml(entries, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map((rels ? elements(rels, 'Relationship') : []).map(r => [r.getAttribute('Id'), r.getAttribute('Target') || '']));
+  const sharedStringsDoc = parseXml(entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(richText) : [];
+  const dateStyles = getDateStyles(parseXml(entries, 'xl/styles.xml'));
+  const date1904 = ['1', 'true'].includes(elements(workbook, 'workbookPr')[0]?.getAttribute('date1904') || '');
+
+  return elements(workbook, 'sheet').map((sheetEl, index) => {
+    const name = sheetEl.getAttribute('name') || `Arkusz ${index + 1}`;
+    const target = targets.get(sheetEl.getAttribute('r:id'));
+    const sheet = target ? parseXml(entries, resolveTarget(target)) : null;
+    if (!sheet) return { name, rows: [] };
+
+    const rows: string[][] = [];
+    elements(sheet, 'row').forEach(rowEl => {
+      const row: string[] = [];
+      elements(rowEl, 'c').forEach(cell => {
+        const ref = cell.getAttribute('r');
+        const col = ref ? columnIndex(ref) : row.length;
+        const type = cell.getAttribute('t');
+        const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+        let value = raw;
+        if (type === 's') value = sharedStrings[parseInt(raw)] ?? '';
+        else if (type === 'inlineStr') value = cell.getElementsByTagName('is')[0] ? richText(cell.getElementsByTagName('is')[0]) : '';
+        else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+        else if (type === 'e') value = '';
+        else if ((!type || type === 'n') && raw !== '' && dateStyles.has(parseInt(cell.getAttribute('s') || '0'))) {
+          value = serialToDateString(parseFloat(raw), date1904);
+        }
+        while (row.length < col) row.push('');
+        row[col] = value.trim();
+      });
+      if (row.some(v => v !== '')) rows.push(row);
+    });
+
+    // Wyrównanie szerokości (jak tabela z Papa.parse)
+    const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    rows.forEach(r => { while (r.length < width) r.push(''); });
+    return { name, rows };
+  });
+};
+
+// --- Zapis ---
+
+export type XlsxNumberFormat = 'amount' | 'integer' | 'percent';
+
+/**
+ * Komórka eksportu: tekst, liczba (format kwoty), data lub liczba z jawnym formatem.
+ * Procenty podajemy jako ułamek (0.25 = 25%).
+ */
+export type XlsxCell = string | number | Date | null | undefined | { value: number, format: XlsxNumberFormat };
+
+export interface XlsxSheetData {
+  name: string;
+  header: string[];
+  rows: XlsxCell[][];
+  columnWidths?: number[]; // W znakach
+}
+
+// Indeksy w cellXfs z `STYLES_XML`
+const STYLE = { header: 1, date: 2, amount: 3, integer: 4, percent: 5 };
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/><numFmt numFmtId="165" formatCode="0.0%"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const escapeXml = (val: string): string =>
+  val
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+/** Data jako numer seryjny Excela (dzień lokalny, bez godziny). */
+const dateToSerial = (date: Date): number =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / DAY_MS;
+
+const cellXml = (cell: XlsxCell, ref: string, isHeader = false): string => {
+  if (cell === null || cell === undefined || cell === '') return '';
+  if (typeof cell === 'string') {
+    const style = isHeader ? ` s="${STYLE.header}"` : '';
+    return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  }
+  if (cell instanceof Date) {
+    return isNaN(cell.getTime()) ? '' : `<c r="${ref}" s="${STYLE.date}"><v>${dateToSerial(cell)}</v></c>`;
+  }
+  const value = typeof cell === 'number' ? cell : cell.value;
+  if (!isFinite(value)) return '';
+  const style = typeof cell === 'number' ? STYLE.amount : STYLE[cell.format];
+  return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheetData): string => {
+  const rows = [
+    `<row r="1">${sheet.header.map((h, i) => cellXml(h, `${columnName(i)}1`, true)).join('')}</row>`,
+    ...sheet.rows.map((row, r) => `<row r="${r + 2}">${row.map((c, i) => cellXml(c, `${columnName(i)}${r + 2}`)).join('')}</row>`)
+  ];
+  const cols = sheet.columnWidths
+    ? `<cols>${sheet.columnWidths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+${cols}<sheetData>${rows.join('')}</sheetData>
+</worksheet>`;
+};
+
+/** Nazwa arkusza: maks. 31 znaków, bez []:*?/\ i unikalna w skoroszycie. */
+const sanitizeSheetNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = (raw.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim() || `Arkusz ${i + 1}`).slice(0, 31);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+export const buildXlsx = (sheets: XlsxSheetData[]): Blob => {
+  const encoder = new TextEncoder();
+  const names = sanitizeSheetNames(sheets.map(s => s.name));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  const blob = createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(rootRels) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(sheetXml(sheet)) }))
+  ]);
+  return new Blob([blob], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,18 @@
+import { trainClassifier, classifyDescription, ClassifierModel, ClassifierQuery, TrainingSample } from '../utils/categoryClassifier';
+
+type ClassifierMessage =
+  | { type: 'TRAIN', payload: { samples: TrainingSample[] } }
+  | { type: 'CLASSIFY', payload: { requestId: number, queries: ClassifierQuery[] } };
+
+let model: ClassifierModel | null = null;
+
+// Model żyje w workerze; wątek główny wysyła tylko próbki do nauki i zapytania
+self.onmessage = (e: MessageEvent<ClassifierMessage>) => {
+  if (e.data.type === 'TRAIN') {
+    model = trainClassifier(e.data.payload.samples);
+  } else if (e.data.type === 'CLASSIFY') {
+    const { requestId, queries } = e.data.payload;
+    const results = queries.map(q => (model ? classifyDescription(model, q) : []));
+    self.postMessage({ requestId, results });
+  }
+};